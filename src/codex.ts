@@ -1,6 +1,16 @@
 'use strict';
 
-import type { EditorConfig } from '../types';
+import type {
+  BaseToolConstructable,
+  BlockToolConstructable,
+  BlockTuneConstructable,
+  EditorConfig,
+  OutputData,
+  SanitizerConfig,
+  ToolConstructable,
+  ToolSettings
+} from '../types';
+import type { PatchOperation } from '../types/data-formats';
 
 /**
  * Apply polyfills
@@ -10,7 +20,17 @@ import '@babel/register';
 import './components/polyfills';
 import Core from './components/core';
 import * as _ from './components/utils';
-import { destroy as destroyTooltip } from './components/utils/tooltip';
+import { applyPatch, diff } from './components/utils/patch';
+import { toMarkdown } from './components/utils/markdown';
+import { toHTML } from './components/utils/html';
+import { composeSanitizeConfig } from './components/utils/sanitizer';
+import { BroadcastChannelTransport, InMemoryTransport } from './components/utils/collaboration-transport';
+import { IndexedDBAdapter, LocalStorageAdapter } from './components/utils/autosave-storage';
+import { locales } from './components/i18n/locales';
+import Paragraph from '@editorjs/paragraph';
+import BoldInlineTool from './components/inline-tools/inline-tool-bold';
+import ItalicInlineTool from './components/inline-tools/inline-tool-italic';
+import LinkInlineTool from './components/inline-tools/inline-tool-link';
 
 declare const VERSION: string;
 
@@ -22,11 +42,41 @@ declare const VERSION: string;
  * @author CodeX Team <https://codex.so>
  */
 export default class EditorJS {
+  /**
+   * Collaboration transport connecting Editor instances created on the same page
+   */
+  public static InMemoryTransport = InMemoryTransport;
+
+  /**
+   * Collaboration transport connecting Editor instances opened in different tabs of the same origin
+   */
+  public static BroadcastChannelTransport = BroadcastChannelTransport;
+
+  /**
+   * Autosave storage keeping drafts in the localStorage
+   */
+  public static LocalStorageAdapter = LocalStorageAdapter;
+
+  /**
+   * Autosave storage keeping drafts in the IndexedDB
+   */
+  public static IndexedDBAdapter = IndexedDBAdapter;
+
+  /**
+   * Dictionaries of the Editor UI strings bundled for the major languages
+   */
+  public static locales = locales;
+
   /**
    * Promise that resolves when core modules are ready and UI is rendered on the page
    */
   public isReady: Promise<void>;
 
+  /**
+   * Promise that resolves when all Blocks of the initial data are rendered
+   */
+  public isRendered: Promise<void>;
+
   /**
    * Stores destroy method implementation.
    * Clear heap occupied by Editor and remove UI components from the DOM.
@@ -73,6 +123,104 @@ export default class EditorJS {
        */
       onReady();
     });
+
+    this.isRendered = editor.isRendered;
+  }
+
+  /**
+   * Composes list of Block-level operations that transform the first document into the second one
+   *
+   * @param before - document before changes
+   * @param after - document after changes
+   */
+  public static diff(before: OutputData, after: OutputData): PatchOperation[] {
+    return diff(before, after);
+  }
+
+  /**
+   * Applies operations composed by the diff() to the document
+   *
+   * @param data - document to patch
+   * @param operations - operations to apply
+   */
+  public static applyPatch(data: OutputData, operations: PatchOperation[]): OutputData {
+    return applyPatch(data, operations);
+  }
+
+  /**
+   * Converts saved data to Markdown without creating an Editor instance
+   *
+   * @param data - saved data
+   * @param tools - Tools used to export Blocks, the same as the 'tools' config property
+   */
+  public static toMarkdown(data: OutputData, tools: EditorConfig['tools'] = {}): string {
+    const toolsClasses = EditorJS.getToolsClasses(tools);
+
+    return toMarkdown(data, (toolName) => toolsClasses[toolName] as BlockToolConstructable | undefined);
+  }
+
+  /**
+   * Converts saved data to HTML without creating an Editor instance
+   *
+   * @param data - saved data
+   * @param tools - Tools and Tunes used to export Blocks, the same as the 'tools' config property
+   */
+  public static toHTML(data: OutputData, tools: EditorConfig['tools'] = {}): string {
+    const toolsClasses = EditorJS.getToolsClasses(tools);
+    const toolsList = Object.values(toolsClasses);
+
+    /**
+     * Markup of the built-in and passed Inline Tools and Tunes is allowed in all Blocks
+     */
+    const baseSanitizeConfig: SanitizerConfig = Object.assign(
+      {},
+      BoldInlineTool.sanitize,
+      ItalicInlineTool.sanitize,
+      LinkInlineTool.sanitize,
+      ...toolsList
+        .filter((tool) => (tool as BaseToolConstructable).isInline === true || (tool as BlockTuneConstructable).isTune === true)
+        .map((tool) => (tool as BaseToolConstructable).sanitize ?? {})
+    );
+
+    return toHTML(data, (toolName) => {
+      const tool = toolsClasses[toolName] as BlockToolConstructable | undefined;
+
+      if (tool === undefined || tool.isInline === true || (tool as unknown as BlockTuneConstructable).isTune === true) {
+        return undefined;
+      }
+
+      return {
+        exportHTML: tool.exportHTML?.bind(tool),
+        conversionConfig: tool.conversionConfig,
+        sanitizeConfig: composeSanitizeConfig(tool.sanitize ?? {}, baseSanitizeConfig),
+      };
+    }, (tuneName) => toolsClasses[tuneName] as BlockTuneConstructable | undefined);
+  }
+
+  /**
+   * Returns classes of passed Tools along with the built-in Paragraph
+   *
+   * @param tools - Tools passed in the same format as the 'tools' config property
+   */
+  private static getToolsClasses(tools: EditorConfig['tools'] = {}): Record<string, ToolConstructable> {
+    const availableTools: Record<string, ToolConstructable | ToolSettings> = {
+      paragraph: Paragraph,
+      ...tools,
+    };
+    const toolsClasses: Record<string, ToolConstructable> = {};
+
+    Object.entries(availableTools).forEach(([name, tool]) => {
+      const toolClass = 'class' in tool ? (tool as ToolSettings).class : tool as ToolConstructable;
+
+      /**
+       * Tools loaded on demand are exported as unavailable ones
+       */
+      if (toolClass !== undefined && !_.isToolLoader(toolClass)) {
+        toolsClasses[name] = toolClass;
+      }
+    });
+
+    return toolsClasses;
   }
 
   /**
@@ -91,7 +239,7 @@ export default class EditorJS {
           moduleInstance.listeners.removeAll();
         });
 
-      destroyTooltip();
+      editor.tooltip.destroy();
 
       editor = null;
 
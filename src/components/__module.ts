@@ -4,6 +4,8 @@ import type { ModuleConfig } from '../types-internal/module-config';
 import Listeners from './utils/listeners';
 import type EventsDispatcher from './utils/events';
 import type { EditorEventMap } from './events';
+import type I18n from './i18n';
+import type Tooltip from './utils/tooltip';
 
 /**
  * The type <T> of the Module generic.
@@ -45,6 +47,16 @@ export default class Module<T extends ModuleNodes = Record<string, HTMLElement>>
    */
   protected eventsDispatcher: EventsDispatcher<EditorEventMap>;
 
+  /**
+   * Translator bound to the dictionary of this Editor instance
+   */
+  protected i18n: I18n;
+
+  /**
+   * Tooltip shared by the modules of this Editor instance. Undefined in headless mode
+   */
+  protected tooltip?: Tooltip;
+
   /**
    * Util for bind/unbind DOM event listeners
    */
@@ -95,14 +107,18 @@ export default class Module<T extends ModuleNodes = Record<string, HTMLElement>>
    * @param options - Module options
    * @param options.config - Module config
    * @param options.eventsDispatcher - Common event bus
+   * @param options.i18n - Editor instance translator
+   * @param options.tooltip - Editor instance tooltip
    */
-  constructor({ config, eventsDispatcher }: ModuleConfig) {
+  constructor({ config, eventsDispatcher, i18n, tooltip }: ModuleConfig) {
     if (new.target === Module) {
       throw new TypeError('Constructors for abstract class Module are not allowed.');
     }
 
     this.config = config;
     this.eventsDispatcher = eventsDispatcher;
+    this.i18n = i18n;
+    this.tooltip = tooltip;
   }
 
   /**
@@ -91,6 +91,24 @@ function BlockAPI(
       return block.focusable;
     },
 
+    /**
+     * Id of the container Block. Null for the top-level Blocks
+     *
+     * @returns {string | null}
+     */
+    get parentId(): string | null {
+      return block.parentId;
+    },
+
+    /**
+     * Slot of the container Block the Block is placed to. Null for the top-level Blocks
+     *
+     * @returns {string | null}
+     */
+    get slot(): string | null {
+      return block.slot;
+    },
+
     /**
      * Call Tool method with errors handler under-the-hood
      *
@@ -26,7 +26,7 @@ import { isMutationBelongsToElement } from '../utils/mutations';
 import type { EditorEventMap } from '../events';
 import { FakeCursorAboutToBeToggled, FakeCursorHaveBeenSet, RedactorDomChanged } from '../events';
 import type { RedactorDomChangedPayload } from '../events/RedactorDomChanged';
-import { convertBlockDataToString, isSameBlockData } from '../utils/blocks';
+import { convertBlockDataToString, convertBlockDataToText, isSameBlockData } from '../utils/blocks';
 import { PopoverItemType } from '@/types/utils/popover/popover-item-type';
 
 /**
@@ -62,6 +62,22 @@ interface BlockConstructorOptions {
    * Tunes data for current Block
    */
   tunesData: { [name: string]: BlockTuneData };
+
+  /**
+   * Id of the container Block. Omitted for the top-level Block
+   */
+  parentId?: string | null;
+
+  /**
+   * Slot of the container Block the Block is placed to
+   */
+  slot?: string | null;
+
+  /**
+   * Height in px of the placeholder displayed instead of the Block content.
+   * If passed, Tool renders the content only when it is attached or accessed, until then saving returns the initial data
+   */
+  placeholderHeight?: number;
 }
 
 /**
@@ -86,6 +102,8 @@ export enum BlockToolAPI {
   UPDATED = 'updated',
   REMOVED = 'removed',
   // eslint-disable-next-line @typescript-eslint/naming-convention
+  LOCALE_CHANGED = 'localeChanged',
+  // eslint-disable-next-line @typescript-eslint/naming-convention
   ON_PASTE = 'onPaste',
 }
 
@@ -115,6 +133,10 @@ export default class Block extends EventsDispatcher<BlockEvents> {
       content: 'ce-block__content',
       selected: 'ce-block--selected',
       dropTarget: 'ce-block--drop-target',
+      dropTargetBefore: 'ce-block--drop-target-before',
+      dragged: 'ce-block--dragged',
+      nested: 'ce-block--nested',
+      placeholder: 'ce-block__placeholder',
     };
   }
 
@@ -128,6 +150,16 @@ export default class Block extends EventsDispatcher<BlockEvents> {
    */
   public readonly name: string;
 
+  /**
+   * Id of the container Block this Block is nested in. Null for the top-level Blocks
+   */
+  public parentId: string | null;
+
+  /**
+   * Slot of the container Block this Block is placed to. Null for the top-level Blocks
+   */
+  public slot: string | null;
+
   /**
    * Instance of the Tool Block represents
    */
@@ -163,6 +195,16 @@ export default class Block extends EventsDispatcher<BlockEvents> {
    */
   private toolRenderedElement: HTMLElement | null = null;
 
+  /**
+   * Block content wrapped by the Block Tunes. Replaced with the placeholder while content is detached. Null until Tool renders it
+   */
+  private contentElement: HTMLElement | null = null;
+
+  /**
+   * Element keeping the Block height while its content is detached from the DOM
+   */
+  private placeholder: HTMLElement | null = null;
+
   /**
    * Tool class instance
    */
@@ -206,6 +248,17 @@ export default class Block extends EventsDispatcher<BlockEvents> {
    */
   private readonly blockAPI: BlockAPIInterface;
 
+  /**
+   * Number of Block mutations. Used to find out if the saved data is outdated
+   */
+  private mutationsCounter = 0;
+
+  /**
+   * Data returned by the Tool's save() method last time along with the mutations count at the saving moment.
+   * Reused on saving until the Block is mutated
+   */
+  private lastSavedToolData: { data: BlockToolData; mutationsCount: number } | null = null;
+
   /**
    * @param options - block constructor options
    * @param [options.id] - block's id. Will be generated if omitted.
@@ -221,10 +274,15 @@ export default class Block extends EventsDispatcher<BlockEvents> {
     tool,
     readOnly,
     tunesData,
+    parentId = null,
+    slot = null,
+    placeholderHeight,
   }: BlockConstructorOptions, eventBus?: EventsDispatcher<EditorEventMap>) {
     super();
     this.name = tool.name;
     this.id = id;
+    this.parentId = parentId;
+    this.slot = slot;
     this.settings = tool.settings;
     this.config = tool.settings.config || {};
     this.editorEventBus = eventBus || null;
@@ -242,6 +300,21 @@ export default class Block extends EventsDispatcher<BlockEvents> {
 
     this.holder = this.compose();
 
+    if (placeholderHeight === undefined) {
+      this.renderContent();
+    } else {
+      this.placeholder = this.composePlaceholder(placeholderHeight, convertBlockDataToText(data, tool.conversionConfig));
+      this.holder.appendChild(this.placeholder);
+
+      /**
+       * Block is saved with the initial data until Tool renders it
+       */
+      this.lastSavedToolData = {
+        data: _.deepCopy(data),
+        mutationsCount: this.mutationsCounter,
+      };
+    }
+
     /**
      * Bind block events in RIC for optimizing of constructing process time
      */
@@ -251,6 +324,13 @@ export default class Block extends EventsDispatcher<BlockEvents> {
        */
       this.watchBlockMutations();
 
+      /**
+       * Inputs of the content rendered later are prepared by the renderContent() method
+       */
+      if (!this.isContentRendered) {
+        return;
+      }
+
       /**
        * Mutation observer doesn't track changes in "<input>" and "<textarea>"
        * so we need to track focus events to update current input and clear cache.
@@ -269,6 +349,8 @@ export default class Block extends EventsDispatcher<BlockEvents> {
    * Find and return all editable elements (contenteditable and native inputs) in the Tool HTML
    */
   public get inputs(): HTMLElement[] {
+    this.renderContent();
+
     /**
      * Return from cache if existed
      */
@@ -276,7 +358,10 @@ export default class Block extends EventsDispatcher<BlockEvents> {
       return this.cachedInputs;
     }
 
-    const inputs = $.findAllInputs(this.holder);
+    /**
+     * Inputs of the nested Blocks belong to them
+     */
+    const inputs = $.findAllInputs(this.contentElement).filter((input) => this.isOwnNode(input));
 
     /**
      * If inputs amount was changed we need to check if input index is bigger then inputs array length
@@ -363,6 +448,24 @@ export default class Block extends EventsDispatcher<BlockEvents> {
     });
   }
 
+  /**
+   * Number of Block mutations. Data derived from the saved one stays actual while this number is the same
+   *
+   * @returns {number}
+   */
+  public get mutationsCount(): number {
+    return this.mutationsCounter;
+  }
+
+  /**
+   * True if Block has been mutated since the last saving, so the Tool's save() method should be called again
+   *
+   * @returns {boolean}
+   */
+  public get isDirty(): boolean {
+    return this.lastSavedToolData === null || this.lastSavedToolData.mutationsCount !== this.mutationsCounter;
+  }
+
   /**
    * Returns tool's sanitizer config
    *
@@ -372,6 +475,28 @@ export default class Block extends EventsDispatcher<BlockEvents> {
     return this.tool.sanitizeConfig;
   }
 
+  /**
+   * Returns names of the slots containing nested Blocks. Empty if Block is not a container
+   */
+  public get slots(): string[] {
+    return this.tool.slots;
+  }
+
+  /**
+   * Returns element the nested Blocks of the slot are placed to
+   *
+   * @param slot - slot name
+   */
+  public getSlotElement(slot: string): HTMLElement | undefined {
+    if (!this.slots.includes(slot) || !_.isFunction(this.toolInstance.getSlotElement)) {
+      return undefined;
+    }
+
+    this.renderContent();
+
+    return this.toolInstance.getSlotElement(slot);
+  }
+
   /**
    * is block mergeable
    * We plugin have merge function then we call it mergeable
@@ -395,7 +520,10 @@ export default class Block extends EventsDispatcher<BlockEvents> {
    * @returns {boolean}
    */
   public get isEmpty(): boolean {
-    const emptyText = $.isEmpty(this.pluginsContent, '/');
+    /**
+     * Placeholder of the Block not rendered yet contains the text of its data
+     */
+    const emptyText = $.isEmpty(this.isContentRendered ? this.pluginsContent : this.placeholder, '/');
     const emptyMedia = !this.hasMedia;
 
     return emptyText && emptyMedia;
@@ -423,7 +551,7 @@ export default class Block extends EventsDispatcher<BlockEvents> {
       'twitterwidget',
     ];
 
-    return !!this.holder.querySelector(mediaTags.join(','));
+    return this.contentElement !== null && this.contentElement.querySelector(mediaTags.join(',')) !== null;
   }
 
   /**
@@ -487,12 +615,81 @@ export default class Block extends EventsDispatcher<BlockEvents> {
     this.holder.classList.toggle(Block.CSS.dropTarget, state);
   }
 
+  /**
+   * Toggle drop target state with the drop indicator above the Block
+   *
+   * @param {boolean} state - 'true' if dragged Blocks are dropped before this Block
+   */
+  public set dropTargetBefore(state: boolean) {
+    this.holder.classList.toggle(Block.CSS.dropTarget, state);
+    this.holder.classList.toggle(Block.CSS.dropTargetBefore, state);
+  }
+
+  /**
+   * Toggle dragged state
+   *
+   * @param {boolean} state - 'true' if Block is dragged by the Block Tunes toggler
+   */
+  public set dragged(state: boolean) {
+    this.holder.classList.toggle(Block.CSS.dragged, state);
+  }
+
+  /**
+   * Returns true if the Block content is replaced with the placeholder
+   */
+  public get isContentDetached(): boolean {
+    return this.placeholder !== null;
+  }
+
+  /**
+   * Returns false if the Block has been composed with the placeholder and Tool has not rendered its content yet
+   */
+  public get isContentRendered(): boolean {
+    return this.contentElement !== null;
+  }
+
+  /**
+   * Replaces the Block content with the placeholder of the passed height, so the content is not laid out while it is out of the viewport.
+   * Tool keeps its rendered element, so it can be saved. Placeholder contains the text of the content, so browser's page search finds it
+   *
+   * @param height - placeholder height in px
+   */
+  public detachContent(height: number): void {
+    if (this.placeholder !== null || this.contentElement === null) {
+      return;
+    }
+
+    this.placeholder = this.composePlaceholder(height, this.contentElement.textContent ?? '');
+
+    this.holder.replaceChild(this.placeholder, this.contentElement);
+  }
+
+  /**
+   * Returns the detached Block content to the DOM. Content of the Block composed with the placeholder is rendered by Tool
+   */
+  public attachContent(): void {
+    if (this.contentElement === null) {
+      this.renderContent();
+
+      return;
+    }
+
+    if (this.placeholder === null) {
+      return;
+    }
+
+    this.holder.replaceChild(this.contentElement, this.placeholder);
+    this.placeholder = null;
+  }
+
   /**
    * Returns Plugins content
    *
    * @returns {HTMLElement}
    */
   public get pluginsContent(): HTMLElement {
+    this.renderContent();
+
     return this.toolRenderedElement;
   }
 
@@ -505,6 +702,13 @@ export default class Block extends EventsDispatcher<BlockEvents> {
    * @param {object} params - method argument
    */
   public call(methodName: string, params?: object): void {
+    /**
+     * Hooks are related to the rendered content, 'rendered' hook is called when Tool renders it
+     */
+    if (!this.isContentRendered) {
+      return;
+    }
+
     /**
      * call Tool's method with the instance context
      */
@@ -526,12 +730,36 @@ export default class Block extends EventsDispatcher<BlockEvents> {
     }
   }
 
+  /**
+   * Calls the 'localeChanged' hook of the Tool and Block Tunes instances after the dictionary is replaced at runtime
+   */
+  public localeChanged(): void {
+    this.call(BlockToolAPI.LOCALE_CHANGED);
+
+    [
+      ...this.tunesInstances.values(),
+      ...this.defaultTunesInstances.values(),
+    ].forEach((tune) => {
+      if (!_.isFunction(tune.localeChanged)) {
+        return;
+      }
+
+      try {
+        tune.localeChanged();
+      } catch (e) {
+        _.log(`Error during '${BlockToolAPI.LOCALE_CHANGED}' call: ${e.message}`, 'error');
+      }
+    });
+  }
+
   /**
    * Call plugins merge method
    *
    * @param {BlockToolData} data - data to merge
    */
   public async mergeWith(data: BlockToolData): Promise<void> {
+    this.renderContent();
+
     await this.toolInstance.merge(data);
   }
 
@@ -542,22 +770,15 @@ export default class Block extends EventsDispatcher<BlockEvents> {
    * @returns {object}
    */
   public async save(): Promise<undefined | SavedData> {
-    const extractedBlock = await this.toolInstance.save(this.pluginsContent as HTMLElement);
-    const tunesData: { [name: string]: BlockTuneData } = this.unavailableTunesData;
-
-    [
-      ...this.tunesInstances.entries(),
-      ...this.defaultTunesInstances.entries(),
-    ]
-      .forEach(([name, tune]) => {
-        if (_.isFunction(tune.save)) {
-          try {
-            tunesData[name] = tune.save();
-          } catch (e) {
-            _.log(`Tune ${tune.constructor.name} save method throws an Error %o`, 'warn', e);
-          }
-        }
-      });
+    const mutationsCount = this.mutationsCounter;
+    const lastSavedToolData = this.lastSavedToolData;
+    /**
+     * Cached data is copied, so changes of the returned object do not affect next saves
+     */
+    const extractedBlock = lastSavedToolData !== null && lastSavedToolData.mutationsCount === mutationsCount
+      ? _.deepCopy(lastSavedToolData.data)
+      : await this.toolInstance.save(this.pluginsContent as HTMLElement);
+    const tunesData = this.saveTunes();
 
     /**
      * Measuring execution time
@@ -570,6 +791,11 @@ export default class Block extends EventsDispatcher<BlockEvents> {
         /** measure promise execution */
         measuringEnd = window.performance.now();
 
+        this.lastSavedToolData = {
+          data: _.deepCopy(finishedExtraction),
+          mutationsCount,
+        };
+
         return {
           id: this.id,
           tool: this.name,
@@ -583,6 +809,46 @@ export default class Block extends EventsDispatcher<BlockEvents> {
       });
   }
 
+  /**
+   * Saves the Block synchronously, so the data could be put to the DataTransfer of the copy or drag start event.
+   * Last saved data is used if the Block has not been changed since then
+   *
+   * @returns {SavedData|undefined} - undefined if the Tool saves data asynchronously or throws an error
+   */
+  public saveSync(): SavedData | undefined {
+    const mutationsCount = this.mutationsCounter;
+    let extractedBlock: BlockToolData | Promise<BlockToolData>;
+
+    if (this.lastSavedToolData !== null && this.lastSavedToolData.mutationsCount === mutationsCount) {
+      extractedBlock = _.deepCopy(this.lastSavedToolData.data);
+    } else {
+      try {
+        extractedBlock = this.toolInstance.save(this.pluginsContent as HTMLElement);
+      } catch (error) {
+        _.log(`Saving process for ${this.name} tool failed due to the ${error}`, 'log', 'red');
+
+        return;
+      }
+    }
+
+    if (extractedBlock instanceof Promise) {
+      return;
+    }
+
+    this.lastSavedToolData = {
+      data: _.deepCopy(extractedBlock),
+      mutationsCount,
+    };
+
+    return {
+      id: this.id,
+      tool: this.name,
+      data: extractedBlock,
+      tunes: this.saveTunes(),
+      time: 0,
+    };
+  }
+
   /**
    * Uses Tool's validation method to check the correctness of output data
    * Tool's validation method is optional
@@ -612,6 +878,8 @@ export default class Block extends EventsDispatcher<BlockEvents> {
     const toolTunesPopoverParams: TunesMenuConfigItem[] = [];
     const commonTunesPopoverParams: TunesMenuConfigItem[] = [];
 
+    this.renderContent();
+
     /** Tool's tunes: may be defined as return value of optional renderSettings method */
     const tunesDefinedInTool = typeof this.toolInstance.renderSettings === 'function' ? this.toolInstance.renderSettings() : [];
 
@@ -680,7 +948,10 @@ export default class Block extends EventsDispatcher<BlockEvents> {
    */
   public destroy(): void {
     this.unwatchBlockMutations();
-    this.removeInputEvents();
+
+    if (this.isContentRendered) {
+      this.removeInputEvents();
+    }
 
     super.destroy();
 
@@ -738,14 +1009,35 @@ export default class Block extends EventsDispatcher<BlockEvents> {
   }
 
   /**
-   * Make default Block wrappers and put Tool`s content there
+   * Returns data of the Block Tunes including data of the unavailable ones
+   */
+  public saveTunes(): { [name: string]: BlockTuneData } {
+    const tunesData: { [name: string]: BlockTuneData } = this.unavailableTunesData;
+
+    [
+      ...this.tunesInstances.entries(),
+      ...this.defaultTunesInstances.entries(),
+    ]
+      .forEach(([name, tune]) => {
+        if (_.isFunction(tune.save)) {
+          try {
+            tunesData[name] = tune.save();
+          } catch (e) {
+            _.log(`Tune ${tune.constructor.name} save method throws an Error %o`, 'warn', e);
+          }
+        }
+      });
+
+    return tunesData;
+  }
+
+  /**
+   * Make default Block wrapper. Content is put there by the renderContent() method
    *
    * @returns {HTMLDivElement}
    */
   private compose(): HTMLDivElement {
-    const wrapper = $.make('div', Block.CSS.wrapper) as HTMLDivElement,
-        contentNode = $.make('div', Block.CSS.content),
-        pluginsContent = this.toolInstance.render();
+    const wrapper = $.make('div', Block.CSS.wrapper) as HTMLDivElement;
 
     if (import.meta.env.MODE === 'test') {
       wrapper.setAttribute('data-cy', 'block-wrapper');
@@ -757,6 +1049,20 @@ export default class Block extends EventsDispatcher<BlockEvents> {
      */
     wrapper.dataset.id = this.id;
 
+    return wrapper;
+  }
+
+  /**
+   * Renders Tool's content, wraps it by the Block Tunes and puts to the Block wrapper instead of the placeholder
+   */
+  private renderContent(): void {
+    if (this.contentElement !== null) {
+      return;
+    }
+
+    const contentNode = $.make('div', Block.CSS.content),
+        pluginsContent = this.toolInstance.render();
+
     /**
      * Saving a reference to plugin's content element for guaranteed accessing it later
      */
@@ -786,9 +1092,46 @@ export default class Block extends EventsDispatcher<BlockEvents> {
         }
       });
 
-    wrapper.appendChild(wrappedContentNode);
+    this.contentElement = wrappedContentNode;
 
-    return wrapper;
+    /**
+     * Inputs of the content rendered on construction are prepared in the idle callback, and Tool is notified on the Block insertion
+     */
+    if (this.placeholder === null) {
+      this.holder.appendChild(this.contentElement);
+
+      return;
+    }
+
+    this.holder.replaceChild(this.contentElement, this.placeholder);
+    this.placeholder = null;
+
+    /**
+     * Block composed with the placeholder has been already inserted, so its inputs are prepared and Tool is notified here
+     */
+    this.addInputEvents();
+    this.toggleInputsEmptyMark();
+
+    if (this.holder.isConnected) {
+      this.call(BlockToolAPI.RENDERED);
+    }
+  }
+
+  /**
+   * Makes the element keeping the Block height while its content is not in the DOM.
+   * Text is not visible, but browser's page search finds it
+   *
+   * @param height - placeholder height in px
+   * @param text - text of the Block content
+   */
+  private composePlaceholder(height: number, text: string): HTMLElement {
+    const placeholder = $.make('div', Block.CSS.placeholder, {
+      textContent: text,
+    });
+
+    placeholder.style.height = `${height}px`;
+
+    return placeholder;
   }
 
   /**
@@ -933,6 +1276,11 @@ export default class Block extends EventsDispatcher<BlockEvents> {
 
     this.dropInputsCache();
 
+    /**
+     * Saved data is outdated now
+     */
+    this.mutationsCounter++;
+
     /**
      * Update current input
      */
@@ -964,7 +1312,16 @@ export default class Block extends EventsDispatcher<BlockEvents> {
     this.redactorDomChangedCallback = (payload) => {
       const { mutations } = payload;
 
-      const mutationBelongsToBlock = mutations.some(record => isMutationBelongsToElement(record, this.toolRenderedElement));
+      /**
+       * Content has not been rendered yet
+       */
+      if (this.toolRenderedElement === null) {
+        return;
+      }
+
+      const mutationBelongsToBlock = mutations.some(record => {
+        return isMutationBelongsToElement(record, this.toolRenderedElement) && this.isOwnMutation(record);
+      });
 
       if (mutationBelongsToBlock) {
         this.didMutated(mutations);
@@ -999,6 +1356,43 @@ export default class Block extends EventsDispatcher<BlockEvents> {
     });
   }
 
+  /**
+   * Checks if the node belongs to the Block itself, not to one of the nested Blocks
+   *
+   * @param node - node inside the Block holder
+   */
+  private isOwnNode(node: Node): boolean {
+    const element = $.isElement(node) ? node : node.parentElement;
+    const wrapper = element?.closest(`.${Block.CSS.wrapper}`);
+
+    /**
+     * Detached content does not have the wrapper
+     */
+    return wrapper === this.holder || (wrapper === null && this.isContentDetached && this.contentElement?.contains(element) === true);
+  }
+
+  /**
+   * Checks if the mutation changes the Block content.
+   * Changes of the nested Blocks and placing them to the slots do not mutate the container
+   *
+   * @param record - mutation record
+   */
+  private isOwnMutation(record: MutationRecord): boolean {
+    if (!this.isOwnNode(record.target)) {
+      return false;
+    }
+
+    if (record.type !== 'childList') {
+      return true;
+    }
+
+    const changedNodes = [...Array.from(record.addedNodes), ...Array.from(record.removedNodes)];
+
+    return changedNodes.length === 0 || !changedNodes.every((node) => {
+      return $.isElement(node) && (node as HTMLElement).classList.contains(Block.CSS.wrapper);
+    });
+  }
+
   /**
    * Clears inputs cached value
    */
@@ -1,7 +1,5 @@
-import * as _ from './utils';
 import $ from './dom';
-import type Block from './block';
-import { BlockToolAPI } from './block';
+import Block, { BlockToolAPI } from './block';
 import type { MoveEvent } from '../../types/tools';
 
 /**
@@ -48,15 +46,6 @@ export default class Blocks {
     return this.blocks;
   }
 
-  /**
-   * Get blocks html elements array
-   *
-   * @returns {HTMLElement[]}
-   */
-  public get nodes(): HTMLElement[] {
-    return _.array(this.workingArea.children);
-  }
-
   /**
    * Proxy trap to implement array-like setter
    *
@@ -142,33 +131,29 @@ export default class Blocks {
   }
 
   /**
-   * Move a block from one to another index
+   * Move a block from one to another index along with its nested Blocks
    *
    * @param {number} toIndex - new index of the block
    * @param {number} fromIndex - block to move
+   * @param placement - container and slot to place the Block to
+   * @param placement.parentId - id of the container Block. Null to place the Block to the top level
+   * @param placement.slot - slot of the container Block
    */
-  public move(toIndex: number, fromIndex: number): void {
+  public move(toIndex: number, fromIndex: number, placement: Pick<Block, 'parentId' | 'slot'>): void {
+    const block = this.blocks[fromIndex];
+
     /**
-     * cut out the block, move the DOM element and insert at the desired index
-     * again (the shifting within the blocks array will happen automatically).
-     *
-     * @see https://stackoverflow.com/a/44932690/1238150
+     * cut out the block with nested ones and insert at the desired index again
      */
-    const block = this.blocks.splice(fromIndex, 1)[0];
+    const movedBlocks = this.blocks.splice(fromIndex, this.getDescendants(block).length + 1);
 
-    // manipulate DOM
-    const prevIndex = toIndex - 1;
-    const previousBlockIndex = Math.max(0, prevIndex);
-    const previousBlock = this.blocks[previousBlockIndex];
+    block.parentId = placement.parentId;
+    block.slot = placement.slot;
 
-    if (toIndex > 0) {
-      this.insertToDOM(block, 'afterend', previousBlock);
-    } else {
-      this.insertToDOM(block, 'beforebegin', previousBlock);
-    }
+    this.blocks.splice(Math.min(toIndex, this.blocks.length), 0, ...movedBlocks);
 
-    // move in array
-    this.blocks.splice(toIndex, 0, block);
+    // manipulate DOM. Nested Blocks are moved along with the container holder
+    this.insertToDOM(block);
 
     // invoke hook
     const event: MoveEvent = this.composeBlockEvent('move', {
@@ -206,19 +191,7 @@ export default class Blocks {
 
     this.blocks.splice(index, deleteCount, block);
 
-    if (index > 0) {
-      const previousBlock = this.blocks[index - 1];
-
-      this.insertToDOM(block, 'afterend', previousBlock);
-    } else {
-      const nextBlock = this.blocks[index + 1];
-
-      if (nextBlock) {
-        this.insertToDOM(block, 'beforebegin', nextBlock);
-      } else {
-        this.insertToDOM(block);
-      }
-    }
+    this.insertToDOM(block);
   }
 
   /**
@@ -237,6 +210,14 @@ export default class Blocks {
     prevBlock.holder.replaceWith(block.holder);
 
     this.blocks[index] = block;
+
+    /**
+     * Nested Blocks are placed to the slots of the new container
+     */
+    this.blocks
+      .filter((child) => child.parentId === block.id)
+      .reverse()
+      .forEach((child) => this.attach(child));
   }
 
   /**
@@ -248,28 +229,31 @@ export default class Blocks {
   public insertMany(blocks: Block[], index: number ): void {
     const fragment = new DocumentFragment();
 
-    for (const block of blocks) {
-      fragment.appendChild(block.holder);
-    }
+    /**
+     * Insert blocks to the array at the specified index
+     */
+    this.blocks.splice(Math.min(index, this.length), 0, ...blocks);
 
-    if (this.length > 0) {
-      if (index > 0) {
-        const previousBlockIndex = Math.min(index - 1, this.length - 1);
-        const previousBlock = this.blocks[previousBlockIndex];
+    /**
+     * Nested Blocks are placed to the slots from the end, so each Block is inserted before its placed sibling
+     */
+    [ ...blocks ].reverse().forEach((block) => {
+      if (block.parentId !== null) {
+        this.attach(block);
+      }
+    });
 
-        previousBlock.holder.after(fragment);
-      } else if (index === 0) {
-        this.workingArea.prepend(fragment);
+    blocks.forEach((block) => {
+      if (block.parentId === null) {
+        fragment.appendChild(block.holder);
       }
+    });
 
-      /**
-       * Insert blocks to the array at the specified index
-       */
-      this.blocks.splice(index, 0, ...blocks);
-    } else {
-      this.blocks.push(...blocks);
-      this.workingArea.appendChild(fragment);
-    }
+    const nextTopLevelBlock = this.blocks
+      .slice(this.blocks.indexOf(blocks[blocks.length - 1]) + 1)
+      .find((block) => block.parentId === null);
+
+    this.workingArea.insertBefore(fragment, nextTopLevelBlock?.holder ?? null);
 
     /**
      * Call Rendered event for each block
@@ -338,23 +322,55 @@ export default class Blocks {
     return this.blocks.indexOf(block);
   }
 
+  /**
+   * Returns Blocks nested in the passed one in the order they are stored.
+   * Nested Blocks are stored right after their container, so the descendants of the container are the Blocks following it
+   *
+   * @param block - container Block
+   */
+  public getDescendants(block: Block): Block[] {
+    const descendants: Block[] = [];
+    const ancestorIds = new Set([ block.id ]);
+
+    for (const candidate of this.blocks.slice(this.blocks.indexOf(block) + 1)) {
+      if (candidate.parentId === null || !ancestorIds.has(candidate.parentId)) {
+        break;
+      }
+
+      ancestorIds.add(candidate.id);
+      descendants.push(candidate);
+    }
+
+    return descendants;
+  }
+
   /**
    * Insert new Block into DOM
    *
    * @param {Block} block - Block to insert
-   * @param {InsertPosition} position — insert position (if set, will use insertAdjacentElement)
-   * @param {Block} target — Block related to position
    */
-  private insertToDOM(block: Block, position?: InsertPosition, target?: Block): void {
-    if (position) {
-      target.holder.insertAdjacentElement(position, block.holder);
-    } else {
-      this.workingArea.appendChild(block.holder);
-    }
+  private insertToDOM(block: Block): void {
+    this.attach(block);
 
     block.call(BlockToolAPI.RENDERED);
   }
 
+  /**
+   * Places Block holder to the slot of the container or to the working area before the next sibling
+   *
+   * @param block - Block to place
+   */
+  private attach(block: Block): void {
+    const parent = block.parentId !== null ? this.blocks.find(({ id }) => id === block.parentId) : undefined;
+    const container = (block.slot !== null ? parent?.getSlotElement(block.slot) : undefined) ?? this.workingArea;
+    const nextSibling = this.blocks
+      .slice(this.blocks.indexOf(block) + 1)
+      .find((sibling) => sibling.parentId === block.parentId && sibling.slot === block.slot && sibling.holder.parentElement === container);
+
+    block.holder.classList.toggle(Block.CSS.nested, container !== this.workingArea);
+    container.insertBefore(block.holder, nextSibling?.holder ?? null);
+  }
+
   /**
    * Composes Block event with passed type and details
    *
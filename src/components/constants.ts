@@ -9,3 +9,45 @@ export const selectionChangeDebounceTimeout = 180;
  * {@link modules/modificationsObserver.ts}
  */
 export const modificationsObserverBatchTimeout = 400;
+
+/**
+ * Block mutations happened within this time are grouped into a single undo step
+ * {@link modules/history.ts}
+ */
+export const historyBatchTimeout = 500;
+
+/**
+ * Maximum number of undo steps stored by the History module
+ * {@link modules/history.ts}
+ */
+export const historyMaxLength = 100;
+
+/**
+ * Time in ms after the last change when the draft is saved, if other delay is not configured
+ * {@link modules/autosave.ts}
+ */
+export const autosaveDefaultDelay = 1000;
+
+/**
+ * Distance in px from the viewport edge where the page is scrolled while Blocks are dragged
+ * {@link modules/dragNDrop.ts}
+ */
+export const blocksDragScrollZone = 50;
+
+/**
+ * Distance in px the page is scrolled by on each drag over event near the viewport edge
+ * {@link modules/dragNDrop.ts}
+ */
+export const blocksDragScrollStep = 20;
+
+/**
+ * Distance in px from the viewport edges within which Blocks content is kept in the DOM, if other distance is not configured
+ * {@link modules/virtualization.ts}
+ */
+export const virtualizationDefaultMargin = 1000;
+
+/**
+ * Height in px of the placeholder of the Block that has not been measured yet, if other height is not configured
+ * {@link modules/virtualization.ts}
+ */
+export const virtualizationDefaultEstimatedHeight = 50;
@@ -5,6 +5,7 @@ import type { EditorModules } from '../types-internal/editor-modules';
 import I18n from './i18n';
 import { CriticalError } from './errors/critical';
 import EventsDispatcher from './utils/events';
+import Tooltip from './utils/tooltip';
 import Modules from './modules';
 import type { EditorEventMap } from './events';
 
@@ -27,11 +28,26 @@ export default class Core {
    */
   public isReady: Promise<void>;
 
+  /**
+   * Promise that resolves when all Blocks of the initial data are rendered. Rendered in chunks, they could be inserted after the isReady
+   */
+  public isRendered: Promise<void>;
+
+  /**
+   * Tooltip used by this Editor instance. Released on the Editor destroying
+   */
+  public readonly tooltip: Tooltip = new Tooltip();
+
   /**
    * Common Editor Event Bus
    */
   private eventsDispatcher: EventsDispatcher<EditorEventMap> = new EventsDispatcher();
 
+  /**
+   * Translator with the dictionary of this Editor instance
+   */
+  private i18n: I18n = new I18n();
+
   /**
    * @param {EditorConfig} config - user configuration
    */
@@ -47,6 +63,8 @@ export default class Core {
       onFail = reject;
     });
 
+    this.isRendered = this.isReady.then(() => this.moduleInstances.Renderer.isRendered);
+
     Promise.resolve()
       .then(async () => {
         this.configuration = config;
@@ -56,10 +74,17 @@ export default class Core {
         await this.start();
         await this.render();
 
-        const { BlockManager, Caret, UI, ModificationsObserver } = this.moduleInstances;
+        const { BlockManager, Caret, UI, ModificationsObserver, History, Collaboration, Autosave } = this.moduleInstances;
 
         UI.checkEmptiness();
         ModificationsObserver.enable();
+        await History.clear();
+        await Collaboration.connect();
+
+        /**
+         * Autosave waits for the Blocks rendered in chunks, so it should not delay the Editor readiness
+         */
+        Autosave.enable();
 
         if ((this.configuration as EditorConfig).autofocus === true && this.configuration.readOnly !== true) {
           Caret.setToBlock(BlockManager.blocks[0], Caret.positions.START);
@@ -179,7 +204,15 @@ export default class Core {
      * Adjust i18n
      */
     if (this.config.i18n?.messages) {
-      I18n.setDictionary(this.config.i18n.messages);
+      this.i18n.setDictionary(this.config.i18n.messages);
+    }
+
+    if (this.config.i18n?.locale) {
+      this.i18n.setLocale(this.config.i18n.locale);
+    }
+
+    if (this.config.i18n?.onMissingTranslation) {
+      this.i18n.setMissingTranslationHandler(this.config.i18n.onMissingTranslation);
     }
 
     /**
@@ -253,6 +286,9 @@ export default class Core {
       'RectangleSelection',
       'CrossBlockSelection',
       'ReadOnly',
+      'History',
+      'Autosave',
+      'Virtualization',
     ];
 
     await modulesToPrepare.reduce(
@@ -293,6 +329,8 @@ export default class Core {
         this.moduleInstances[key] = new module({
           config: this.configuration,
           eventsDispatcher: this.eventsDispatcher,
+          i18n: this.i18n,
+          tooltip: this.tooltip,
         });
       } catch (e) {
         _.log('[constructModules]', `Module ${key} skipped because`, 'error', e);
@@ -0,0 +1,21 @@
+import type { SaveReport } from '../../../types/api';
+
+/**
+ * This type of exception is thrown by the strict saving when some Blocks can not be saved as is
+ */
+export class SaveError extends Error {
+  /**
+   * Saving report with the list of problems
+   */
+  public readonly report: SaveReport;
+
+  /**
+   * @param report - saving report with the list of problems
+   */
+  constructor(report: SaveReport) {
+    super(`Editor's content can not be saved: ${report.problems.length} problem(s) found`);
+
+    this.name = 'SaveError';
+    this.report = report;
+  }
+}
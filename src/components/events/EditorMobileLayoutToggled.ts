@@ -1,7 +1,9 @@
 /**
  * Fired when editor mobile layout toggled
+ *
+ * Available for subscribers of the api.events
  */
-export const EditorMobileLayoutToggled = 'editor mobile layout toggled';
+export const EditorMobileLayoutToggled = 'mobile-layout:toggled';
 
 /**
  * Payload that will be passed with the event
@@ -1,7 +1,9 @@
 /**
  * Fired when blocks wrapper (.codex-editor-redactor) dom changed
+ *
+ * Available for subscribers of the api.events
  */
-export const RedactorDomChanged = 'redactor dom changed';
+export const RedactorDomChanged = 'redactor:dom-changed';
 
 /**
  * Payload that will be passed with the event
@@ -9,6 +9,7 @@ import type { FakeCursorHaveBeenSetPayload } from './FakeCursorHaveBeenSet';
 import { FakeCursorHaveBeenSet } from './FakeCursorHaveBeenSet';
 import type { EditorMobileLayoutToggledPayload } from './EditorMobileLayoutToggled';
 import { EditorMobileLayoutToggled } from './EditorMobileLayoutToggled';
+import type { EditorEventMap as PublicEditorEventMap } from '../../../types/api';
 
 /**
  * Events fired by Editor Event Dispatcher
@@ -23,8 +24,10 @@ export {
 
 /**
  * Event name -> Event payload
+ *
+ * Includes the public events available via the api.events
  */
-export interface EditorEventMap {
+export interface EditorEventMap extends PublicEditorEventMap {
   [BlockHovered]: BlockHoveredPayload;
   [RedactorDomChanged]: RedactorDomChangedPayload;
   [BlockChanged]: BlockChangedPayload;
@@ -0,0 +1,209 @@
+/**
+ * Values substituted to the message placeholders
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Placeholder resolved to the parameter value or to the plural/select option formatted recursively
+ */
+type ResolvedArgument = { value: string } | { option: string; pluralValue?: string };
+
+/**
+ * Returns index of the brace closing the one at the passed position, -1 if there is no such brace
+ *
+ * @param source - string to search in
+ * @param start - index of the opening brace
+ */
+function findClosingBrace(source: string, start: number): number {
+  let depth = 0;
+
+  for (let index = start; index < source.length; index++) {
+    if (source[index] === '{') {
+      depth++;
+    } else if (source[index] === '}') {
+      depth--;
+
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Splits the placeholder content to the parameter name, type and options source
+ *
+ * @param body - placeholder content without surrounding braces
+ */
+function splitArgument(body: string): [string, string?, string?] {
+  const firstComma = body.indexOf(',');
+
+  if (firstComma === -1) {
+    return [ body.trim() ];
+  }
+
+  const secondComma = body.indexOf(',', firstComma + 1);
+
+  if (secondComma === -1) {
+    return [body.slice(0, firstComma).trim(), body.slice(firstComma + 1).trim()];
+  }
+
+  return [
+    body.slice(0, firstComma).trim(),
+    body.slice(firstComma + 1, secondComma).trim(),
+    body.slice(secondComma + 1),
+  ];
+}
+
+/**
+ * Parses plural/select options like 'one {# block} other {# blocks}' to the map of selectors and messages
+ *
+ * @param source - options part of the placeholder
+ */
+function parseOptions(source: string): Record<string, string> {
+  const options: Record<string, string> = {};
+  let index = 0;
+
+  while (index < source.length) {
+    const start = source.indexOf('{', index);
+
+    if (start === -1) {
+      break;
+    }
+
+    const end = findClosingBrace(source, start);
+
+    if (end === -1) {
+      break;
+    }
+
+    options[source.slice(index, start).trim()] = source.slice(start + 1, end);
+    index = end + 1;
+  }
+
+  return options;
+}
+
+/**
+ * Resolves the placeholder content: 'name', 'name, plural, ...' or 'name, select, ...'
+ *
+ * @param body - placeholder content without surrounding braces
+ * @param params - values of the placeholders
+ * @param locale - language tag
+ * @param pluralValue - formatted number of the outer plural placeholder
+ * @returns undefined if the parameter or matching option is missing
+ */
+function resolveArgument(body: string, params: MessageParams, locale: string, pluralValue?: string): ResolvedArgument | undefined {
+  const [name, type, optionsSource = ''] = splitArgument(body);
+
+  if (!Object.prototype.hasOwnProperty.call(params, name)) {
+    return;
+  }
+
+  const value = params[name];
+
+  switch (type) {
+    case 'plural':
+    case 'selectordinal': {
+      const number = Number(value);
+      const options = parseOptions(optionsSource);
+      const category = new Intl.PluralRules(locale, { type: type === 'plural' ? 'cardinal' : 'ordinal' }).select(number);
+      const option = options[`=${number}`] ?? options[category] ?? options.other;
+
+      if (option === undefined) {
+        return;
+      }
+
+      return {
+        option,
+        pluralValue: new Intl.NumberFormat(locale).format(number),
+      };
+    }
+
+    case 'select': {
+      const options = parseOptions(optionsSource);
+      const option = options[String(value)] ?? options.other;
+
+      if (option === undefined) {
+        return;
+      }
+
+      return {
+        option,
+        pluralValue,
+      };
+    }
+
+    default:
+      return {
+        value: String(value),
+      };
+  }
+}
+
+/**
+ * Formats the message or the plural/select option.
+ *
+ * @param message - message to format
+ * @param params - values of the placeholders
+ * @param locale - language tag
+ * @param pluralValue - formatted number replacing # inside the plural option
+ */
+function format(message: string, params: MessageParams, locale: string, pluralValue?: string): string {
+  let result = '';
+  let index = 0;
+
+  while (index < message.length) {
+    const char = message[index];
+
+    if (char === '{') {
+      const end = findClosingBrace(message, index);
+
+      /**
+       * Unbalanced brace is not a placeholder
+       */
+      if (end === -1) {
+        return result + message.slice(index);
+      }
+
+      const argument = resolveArgument(message.slice(index + 1, end), params, locale, pluralValue);
+
+      if (argument === undefined) {
+        result += message.slice(index, end + 1);
+      } else if ('value' in argument) {
+        result += argument.value;
+      } else {
+        result += format(argument.option, params, locale, argument.pluralValue);
+      }
+      index = end + 1;
+
+      continue;
+    }
+
+    result += char === '#' && pluralValue !== undefined ? pluralValue : char;
+    index++;
+  }
+
+  return result;
+}
+
+/**
+ * Formats the ICU-style message with passed parameters.
+ *
+ * Supported syntax:
+ *  - {name} — replaced with the parameter value
+ *  - {count, plural, =0 {No blocks} one {# block} other {# blocks}} — form is chosen by Intl.PluralRules, # is replaced with the number
+ *  - {place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}} — ordinal forms
+ *  - {gender, select, male {He} female {She} other {They}} — form is chosen by the parameter value
+ *
+ * Placeholders of the missing parameters are kept as is
+ *
+ * @param message - message to format
+ * @param params - values of the placeholders
+ * @param locale - language tag used to choose plural forms and format numbers
+ */
+export function formatMessage(message: string, params: MessageParams, locale: string): string {
+  return format(message, params, locale);
+}
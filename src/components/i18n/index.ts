@@ -1,6 +1,10 @@
-import defaultDictionary from './locales/en/messages.json';
+import type defaultDictionary from './locales/en/messages.json';
 import type { I18nDictionary, Dictionary } from '../../../types/configs';
+import * as _ from '../utils';
+import { getBundledLocale } from './locales';
 import type { LeavesDictKeys } from '../../types-internal/i18n-internal-namespace';
+import type { MessageParams } from './format';
+import { formatMessage } from './format';
 
 /**
  * Type for all available internal dictionary strings
@@ -9,23 +13,49 @@ type DictKeys = LeavesDictKeys<typeof defaultDictionary>;
 
 /**
  * This class will responsible for the translation through the language dictionary
+ *
+ * Each Editor instance has its own I18n, so several Editors with different dictionaries can live on the same page
  */
 export default class I18n {
   /**
-   * Property that stores messages dictionary
+   * Dictionary used for translation: custom messages merged over the bundled dictionary of the locale
    */
-  private static currentDictionary: I18nDictionary = defaultDictionary;
+  private currentDictionary: I18nDictionary;
+
+  /**
+   * Custom messages passed by user
+   */
+  private customDictionary: I18nDictionary;
+
+  /**
+   * Language tag used to choose the bundled dictionary and plural forms of the messages
+   */
+  private locale = 'en';
+
+  /**
+   * Called when the dictionary has no translation for the key
+   */
+  private missingTranslationHandler: ((dictKey: string, namespace: string) => void) | null = null;
+
+  /**
+   * @param dictionary - custom messages. Bundled dictionary of the locale is used when omitted
+   */
+  constructor(dictionary: I18nDictionary = {}) {
+    this.customDictionary = dictionary;
+    this.currentDictionary = this.composeDictionary();
+  }
 
   /**
    * Type-safe translation for internal UI texts:
    * Perform translation of the string by namespace and a key
    *
-   * @example I18n.ui(I18nInternalNS.ui.blockTunes.toggler, 'Click to tune')
+   * @example this.i18n.ui(I18nInternalNS.ui.blockTunes.toggler, 'Click to tune')
    * @param internalNamespace - path to translated string in dictionary
    * @param dictKey - dictionary key. Better to use default locale original text
+   * @param params - values of the message placeholders
    */
-  public static ui(internalNamespace: string, dictKey: DictKeys): string {
-    return I18n._t(internalNamespace, dictKey);
+  public ui(internalNamespace: string, dictKey: DictKeys, params?: MessageParams): string {
+    return this._t(internalNamespace, dictKey, params);
   }
 
   /**
@@ -34,29 +64,81 @@ export default class I18n {
    *
    * @param namespace - path to translated string in dictionary
    * @param dictKey - dictionary key. Better to use default locale original text
+   * @param params - values of the message placeholders
    */
-  public static t(namespace: string, dictKey: string): string {
-    return I18n._t(namespace, dictKey);
+  public t(namespace: string, dictKey: string, params?: MessageParams): string {
+    return this._t(namespace, dictKey, params);
   }
 
   /**
-   * Adjust module for using external dictionary
+   * Adjust module for using external dictionary.
+   * Keys missing in the passed dictionary are taken from the bundled dictionary of the locale
    *
    * @param dictionary - new messages list to override default
    */
-  public static setDictionary(dictionary: I18nDictionary): void {
-    I18n.currentDictionary = dictionary;
+  public setDictionary(dictionary: I18nDictionary): void {
+    this.customDictionary = dictionary;
+    this.currentDictionary = this.composeDictionary();
+  }
+
+  /**
+   * Sets language used to choose the bundled dictionary and plural forms.
+   * Invalid language tag is replaced with 'en', otherwise Intl.PluralRules would throw on formatting
+   *
+   * @param locale - language tag, for example 'ru' or 'pt-BR'
+   */
+  public setLocale(locale: string): void {
+    try {
+      new Intl.PluralRules(locale);
+
+      this.locale = locale;
+    } catch {
+      _.logLabeled(`I18n: locale «${locale}» is not a valid language tag, «en» is used instead`, 'warn');
+
+      this.locale = 'en';
+    }
+
+    this.currentDictionary = this.composeDictionary();
+  }
+
+  /**
+   * Sets callback called when the dictionary has no translation for the key
+   *
+   * @param handler - callback accepting the key and its namespace
+   */
+  public setMissingTranslationHandler(handler: ((dictKey: string, namespace: string) => void) | null): void {
+    this.missingTranslationHandler = handler;
   }
 
   /**
    * Perform translation both for internal and external namespaces
    * If there is no translation found, returns passed key as a translated message
    *
+   * Messages are formatted only if params are passed, so dictionaries of plain strings work as before
+   *
    * @param namespace - path to translated string in dictionary
    * @param dictKey - dictionary key. Better to use default locale original text
+   * @param params - values of the message placeholders
    */
-  private static _t(namespace: string, dictKey: string): string {
-    const section = I18n.getNamespace(namespace);
+  private _t(namespace: string, dictKey: string, params?: MessageParams): string {
+    const message = this.lookup(namespace, dictKey);
+
+    if (params === undefined) {
+      return message;
+    }
+
+    return formatMessage(message, params, this.locale);
+  }
+
+  /**
+   * Returns the message from the dictionary or the key itself if there is no translation.
+   * Empty message means the key is used as is, so only absent keys are reported as missing
+   *
+   * @param namespace - path to translated string in dictionary
+   * @param dictKey - dictionary key
+   */
+  private lookup(namespace: string, dictKey: string): string {
+    const section = this.getNamespace(namespace);
 
     /**
      * For Console Message to Check Section is defined or not
@@ -65,11 +147,22 @@ export default class I18n {
      * }
      */
 
-    if (!section || !section[dictKey]) {
+    const message = section?.[dictKey];
+
+    if (message === undefined) {
+      this.missingTranslationHandler?.(dictKey, namespace);
+
       return dictKey;
     }
 
-    return section[dictKey] as string;
+    return (message as string) || dictKey;
+  }
+
+  /**
+   * Merges custom messages over the bundled dictionary of the current locale
+   */
+  private composeDictionary(): I18nDictionary {
+    return _.deepMerge({}, getBundledLocale(this.locale) ?? {}, this.customDictionary);
   }
 
   /**
@@ -77,7 +170,7 @@ export default class I18n {
    *
    * @param namespace - path to section
    */
-  private static getNamespace(namespace: string): Dictionary {
+  private getNamespace(namespace: string): Dictionary {
     const parts = namespace.split('.');
 
     return parts.reduce((section, part) => {
@@ -86,6 +179,6 @@ export default class I18n {
       }
 
       return section[part];
-    }, I18n.currentDictionary);
+    }, this.currentDictionary);
   }
 }
@@ -0,0 +1,43 @@
+import ar from './ar/messages.json';
+import de from './de/messages.json';
+import en from './en/messages.json';
+import es from './es/messages.json';
+import fr from './fr/messages.json';
+import it from './it/messages.json';
+import ja from './ja/messages.json';
+import pt from './pt/messages.json';
+import ru from './ru/messages.json';
+import zh from './zh/messages.json';
+import type { I18nDictionary, I18nLocaleCode } from '../../../../types/configs';
+
+/**
+ * Dictionaries of the Editor UI strings bundled for the major languages
+ */
+export const locales: Record<I18nLocaleCode, I18nDictionary> = {
+  ar,
+  de,
+  en,
+  es,
+  fr,
+  it,
+  ja,
+  pt,
+  ru,
+  zh,
+};
+
+/**
+ * Returns bundled dictionary for the language tag.
+ * Regional tags like 'pt-BR' fall back to the dictionary of the language
+ *
+ * @param locale - language tag
+ */
+export function getBundledLocale(locale: string): I18nDictionary | undefined {
+  const [ language ] = locale.toLowerCase().split('-');
+
+  if (!Object.prototype.hasOwnProperty.call(locales, language)) {
+    return;
+  }
+
+  return locales[language as I18nLocaleCode];
+}
@@ -5,8 +5,6 @@ import * as _ from '../utils';
 import type { Blocks, Selection, Tools, Caret, I18n } from '../../../types/api';
 import SelectionUtils from '../selection';
 import { getConvertibleToolsForBlock } from '../utils/blocks';
-import I18nInternal from '../i18n';
-import { I18nInternalNS } from '../i18n/namespace-internal';
 
 /**
  * Inline tools for converting blocks
@@ -43,10 +41,18 @@ export default class ConvertInlineTool implements InlineTool {
   private readonly caretAPI: Caret;
 
   /**
-   * @param api - Editor.js API
+   * Translates Block Tools titles with the dictionary of the Editor instance
    */
-  constructor({ api }: { api: API }) {
+  private readonly translateToolName: (title: string) => string;
+
+  /**
+   * @param options - constructor options
+   * @param options.api - Editor.js API
+   * @param options.config - internal config provided by the Tools module
+   */
+  constructor({ api, config }: { api: API; config?: { translateToolName?: (title: string) => string } }) {
     this.i18nAPI = api.i18n;
+    this.translateToolName = config?.translateToolName ?? ((title: string): string => title);
     this.blocksAPI = api.blocks;
     this.selectionAPI = api.selection;
     this.toolsAPI = api.tools;
@@ -75,7 +81,7 @@ export default class ConvertInlineTool implements InlineTool {
       tool.toolbox?.forEach((toolboxItem) => {
         result.push({
           icon: toolboxItem.icon,
-          title: I18nInternal.t(I18nInternalNS.toolNames, toolboxItem.title),
+          title: this.translateToolName(toolboxItem.title),
           name: tool.name,
           closeOnActivate: true,
           onActivate: async () => {
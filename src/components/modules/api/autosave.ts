@@ -0,0 +1,19 @@
+import type { Autosave } from '../../../../types/api';
+import Module from '../../__module';
+
+/**
+ * @class AutosaveAPI
+ * provides with methods to manage drafts saved by the 'autosave' config property
+ */
+export default class AutosaveAPI extends Module {
+  /**
+   * Available methods
+   *
+   * @returns {Autosave}
+   */
+  public get methods(): Autosave {
+    return {
+      clear: (): Promise<void> => this.Editor.Autosave.clear(),
+    };
+  }
+}
@@ -1,17 +1,35 @@
-import type { BlockAPI as BlockAPIInterface, Blocks } from '../../../../types/api';
+import type { BlockAPI as BlockAPIInterface, Blocks, RenderOptions } from '../../../../types/api';
 import type { BlockToolData, OutputBlockData, OutputData, ToolConfig } from '../../../../types';
+import type { PatchOperation } from '../../../../types/data-formats';
 import * as _ from './../../utils';
 import BlockAPI from '../../block/api';
 import Module from '../../__module';
 import Block from '../../block';
 import { capitalize } from '../../utils';
 import type { BlockTuneData } from '../../../../types/block-tunes/block-tune-data';
+import { applyBlockChanges, applyPatch as applyPatchToData } from '../../utils/patch';
+import PromiseQueue from '../../utils/promise-queue';
 
 /**
  * @class BlocksAPI
  * provides with methods working with Block
  */
 export default class BlocksAPI extends Module {
+  /**
+   * User input events prevented while the transaction is open, so its rollback never reverts user changes
+   */
+  private static readonly USER_INPUT_EVENTS = ['keydown', 'beforeinput', 'paste', 'cut', 'drop'];
+
+  /**
+   * Queue of transactions. Transactions started while another one is being committed or rolled back wait for it to finish
+   */
+  private transactionsQueue = new PromiseQueue();
+
+  /**
+   * Flag shows that the transaction callback is running, so transactions started by it become the part of the current one
+   */
+  private isTransactionCallbackRunning = false;
+
   /**
    * Available methods
    *
@@ -20,13 +38,15 @@ export default class BlocksAPI extends Module {
   public get methods(): Blocks {
     return {
       clear: (): Promise<void> => this.clear(),
-      render: (data: OutputData): Promise<void> => this.render(data),
+      render: (data: OutputData, options?: RenderOptions): Promise<void> => this.render(data, options),
       renderFromHTML: (data: string): Promise<void> => this.renderFromHTML(data),
+      renderFromMarkdown: (markdown: string): Promise<void> => this.renderFromMarkdown(markdown),
       delete: (index?: number): void => this.delete(index),
       swap: (fromIndex: number, toIndex: number): void => this.swap(fromIndex, toIndex),
       move: (toIndex: number, fromIndex?: number): void => this.move(toIndex, fromIndex),
       getBlockByIndex: (index: number): BlockAPIInterface | undefined => this.getBlockByIndex(index),
       getById: (id: string): BlockAPIInterface | null => this.getById(id),
+      getChildren: (id: string, slot?: string): BlockAPIInterface[] => this.getChildren(id, slot),
       getCurrentBlockIndex: (): number => this.getCurrentBlockIndex(),
       getBlockIndex: (id: string): number => this.getBlockIndex(id),
       getBlocksCount: (): number => this.getBlocksCount(),
@@ -38,6 +58,8 @@ export default class BlocksAPI extends Module {
       update: this.update,
       composeBlockData: this.composeBlockData,
       convert: this.convert,
+      transaction: this.transaction,
+      applyPatch: this.applyPatch,
     };
   }
 
@@ -59,6 +81,26 @@ export default class BlocksAPI extends Module {
     return this.Editor.BlockManager.currentBlockIndex;
   }
 
+  /**
+   * Returns Blocks nested in the container Block
+   *
+   * @param id - id of the container Block
+   * @param slot - slot to get Blocks of. If omitted, Blocks of all slots are returned
+   */
+  public getChildren(id: string, slot?: string): BlockAPIInterface[] {
+    const block = this.Editor.BlockManager.getBlockById(id);
+
+    if (block === undefined) {
+      _.logLabeled('There is no block with id `' + id + '`', 'warn');
+
+      return [];
+    }
+
+    // we cast to any because our BlockAPI has no "new" signature
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return this.Editor.BlockManager.getChildren(block, slot).map((child) => new (BlockAPI as any)(child));
+  }
+
   /**
    * Returns the index of Block by id;
    *
@@ -200,8 +242,9 @@ export default class BlocksAPI extends Module {
    * Fills Editor with Blocks data
    *
    * @param {OutputData} data — Saved Editor data
+   * @param {RenderOptions} [options] - rendering options
    */
-  public async render(data: OutputData): Promise<void> {
+  public async render(data: OutputData, options: RenderOptions = {}): Promise<void> {
     if (data === undefined || data.blocks === undefined) {
       throw new Error('Incorrect data passed to the render() method');
     }
@@ -212,10 +255,32 @@ export default class BlocksAPI extends Module {
      */
     this.Editor.ModificationsObserver.disable();
 
-    await this.Editor.BlockManager.clear();
-    await this.Editor.Renderer.render(data.blocks);
+    if (options.reconcile === true) {
+      await this.Editor.Renderer.reconcile(data.blocks);
+    } else {
+      await this.Editor.BlockManager.clear();
+      await this.Editor.Renderer.render(data.blocks);
+      await this.Editor.Renderer.isRendered;
+    }
 
     this.Editor.ModificationsObserver.enable();
+
+    if (options.reconcile === true) {
+      /**
+       * Reconciled document keeps the Blocks, so user changes made before can still be undone
+       */
+      await this.Editor.History.refreshSnapshots();
+    } else {
+      /**
+       * Changes made before rendering can not be undone in the new document
+       */
+      await this.Editor.History.clear();
+    }
+
+    /**
+     * Rendered document is not sent to collaborators, so further changes are composed against it
+     */
+    await this.Editor.Collaboration.refreshSnapshots();
   }
 
   /**
@@ -230,6 +295,18 @@ export default class BlocksAPI extends Module {
     return this.Editor.Paste.processText(data, true);
   }
 
+  /**
+   * Render passed Markdown string
+   *
+   * @param {string} markdown - Markdown string to render
+   * @returns {Promise<void>}
+   */
+  public renderFromMarkdown(markdown: string): Promise<void> {
+    return this.render({
+      blocks: this.Editor.Paste.composeBlocksFromMarkdown(markdown),
+    });
+  }
+
   /**
    * Stretch Block's content
    *
@@ -292,6 +369,11 @@ export default class BlocksAPI extends Module {
    * @param toolName - block tool name
    */
   public composeBlockData = async (toolName: string): Promise<BlockToolData> => {
+    /**
+     * Default data of the Tool loaded on demand is known after loading
+     */
+    await this.Editor.Tools.load(toolName);
+
     const tool = this.Editor.Tools.blockTools.get(toolName);
     const block = new Block({
       tool,
@@ -339,6 +421,105 @@ export default class BlocksAPI extends Module {
     return new (BlockAPI as any)(updatedBlock);
   };
 
+  /**
+   * Runs passed callback as a single change:
+   *  - onChange is called once with all events happened inside the callback
+   *  - all changes are undone by the single undo step
+   *  - if callback throws, changes are reverted and error is rethrown
+   *
+   * Transactions started while the callback is running (including the applyPatch() calls) become the part of the current one.
+   * User input is blocked until the transaction is finished
+   *
+   * @param callback - function making changes via API
+   */
+  public transaction = <T>(callback: (transaction: Blocks['transaction']) => T | Promise<T>): Promise<T> => {
+    if (this.isTransactionCallbackRunning) {
+      return this.runNestedTransaction(callback);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.transactionsQueue.add(() => this.runTransaction(callback).then(resolve, reject));
+    });
+  };
+
+  /**
+   * Runs the callback of the transaction started inside the other one.
+   * Its changes are committed or rolled back along with the outer transaction
+   *
+   * @param callback - function making changes via API
+   */
+  private async runNestedTransaction<T>(callback: (transaction: Blocks['transaction']) => T | Promise<T>): Promise<T> {
+    return callback(this.transaction);
+  }
+
+  /**
+   * Runs the transaction callback collecting its changes
+   *
+   * @param callback - function making changes via API
+   */
+  private async runTransaction<T>(callback: (transaction: Blocks['transaction']) => T | Promise<T>): Promise<T> {
+    const { History, ModificationsObserver } = this.Editor;
+
+    this.blockUserInput();
+    ModificationsObserver.startTransaction();
+    await History.startTransaction();
+
+    try {
+      this.isTransactionCallbackRunning = true;
+
+      const result = await callback(this.transaction);
+
+      this.isTransactionCallbackRunning = false;
+
+      /**
+       * Wait for DOM mutations caused by the callback to be delivered
+       */
+      await new Promise((resolve) => setTimeout(resolve));
+      await History.commitTransaction();
+      ModificationsObserver.commitTransaction();
+
+      return result;
+    } catch (error) {
+      this.isTransactionCallbackRunning = false;
+
+      await new Promise((resolve) => setTimeout(resolve));
+      await History.rollbackTransaction();
+      ModificationsObserver.rollbackTransaction();
+
+      throw error;
+    } finally {
+      this.unblockUserInput();
+    }
+  }
+
+  /**
+   * Prevents user input, so the open transaction collects only its own changes
+   */
+  private blockUserInput(): void {
+    BlocksAPI.USER_INPUT_EVENTS.forEach((eventType) => {
+      this.listeners.on(this.Editor.UI.nodes.holder, eventType, this.preventUserInput, true);
+    });
+  }
+
+  /**
+   * Allows user input prevented by the blockUserInput()
+   */
+  private unblockUserInput(): void {
+    BlocksAPI.USER_INPUT_EVENTS.forEach((eventType) => {
+      this.listeners.off(this.Editor.UI.nodes.holder, eventType, this.preventUserInput);
+    });
+  }
+
+  /**
+   * Handler preventing user input event
+   *
+   * @param event - user input event
+   */
+  private preventUserInput = (event: Event): void => {
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
   /**
    * Converts block to another type. Both blocks should provide the conversionConfig.
    *
@@ -379,6 +560,41 @@ export default class BlocksAPI extends Module {
     }
   };
 
+  /**
+   * Applies operations composed by the diff() to the Editor as a single transaction
+   *
+   * @param operations - operations to apply
+   * @throws Error if some Block of operations is not found
+   */
+  private applyPatch = async (operations: PatchOperation[]): Promise<void> => {
+    const { BlockManager, Renderer, Saver } = this.Editor;
+    const currentBlock = BlockManager.currentBlock;
+
+    await this.transaction(async () => {
+      /**
+       * Operations address the flat list of Blocks, while nested Blocks are moved along with their containers.
+       * So if nesting is involved, the Editor is reconciled with the patched document
+       */
+      if (this.isNestingInvolved(operations)) {
+        await Renderer.reconcile(applyPatchToData(await Saver.save(), operations).blocks);
+      } else {
+        for (const operation of operations) {
+          await this.applyPatchOperation(operation);
+        }
+      }
+
+      if (BlockManager.blocks.length === 0) {
+        BlockManager.insert();
+      }
+    });
+
+    /**
+     * Moving of Blocks changes current Block index, so restore it
+     */
+    if (currentBlock !== undefined && BlockManager.blocks.includes(currentBlock)) {
+      BlockManager.currentBlockIndex = BlockManager.getBlockIndex(currentBlock);
+    }
+  };
 
   /**
    * Inserts several Blocks to a specified index
@@ -407,6 +623,83 @@ export default class BlocksAPI extends Module {
     return blocksToInsert.map((block) => new (BlockAPI as any)(block));
   };
 
+  /**
+   * Checks if the Editor contains nested Blocks or operations change nesting
+   *
+   * @param operations - operations to apply
+   */
+  private isNestingInvolved(operations: PatchOperation[]): boolean {
+    const hasNestedBlocks = this.Editor.BlockManager.blocks.some(({ parentId }) => parentId !== null);
+
+    return hasNestedBlocks || operations.some((operation) => {
+      switch (operation.type) {
+        case 'block-added':
+          return operation.block.parent !== undefined || operation.block.children !== undefined;
+        case 'block-changed':
+          return operation.changes.some(({ path }) => path[0] === 'parent' || path[0] === 'children');
+        default:
+          return false;
+      }
+    });
+  }
+
+  /**
+   * Applies a single patch operation to the Editor
+   *
+   * @param operation - operation to apply
+   */
+  private async applyPatchOperation(operation: PatchOperation): Promise<void> {
+    const { BlockManager, Renderer, Tools } = this.Editor;
+
+    if (operation.type === 'block-added') {
+      Renderer.insertBlock(operation.block, operation.index);
+
+      return;
+    }
+
+    const block = BlockManager.getBlockById(operation.id);
+
+    if (block === undefined) {
+      throw new Error(`Block with id "${operation.id}" not found`);
+    }
+
+    switch (operation.type) {
+      case 'block-removed':
+        await BlockManager.removeBlock(block, false);
+        break;
+
+      case 'block-moved':
+        BlockManager.move(operation.toIndex, BlockManager.getBlockIndex(block));
+        break;
+
+      case 'block-changed': {
+        const savedData = await block.save();
+
+        if (savedData === undefined) {
+          throw new Error(`Block with id "${operation.id}" can not be saved`);
+        }
+
+        /**
+         * Stub Block saves original data of unavailable Tool
+         */
+        const blockData: OutputBlockData = block.name === Tools.stubTool ? savedData.data : {
+          id: block.id,
+          type: block.name,
+          data: savedData.data,
+          tunes: savedData.tunes,
+        };
+        const changedBlockData = applyBlockChanges(blockData, operation.changes);
+        const isTunesChanged = operation.changes.some(({ path }) => path[0] === 'tunes');
+
+        await Renderer.reconcileBlock(block, {
+          ...changedBlockData,
+          tunes: isTunesChanged ? changedBlockData.tunes ?? {} : undefined,
+        });
+        break;
+      }
+    }
+  }
+
   /**
    * Validated block index and throws an error if it's invalid
    *
@@ -9,13 +9,15 @@ export default class EventsAPI extends Module {
   /**
    * Available methods
    *
+   * Events of the Editor are typed by the EditorEventMap, custom events of Tools are untyped
+   *
    * @returns {Events}
    */
   public get methods(): Events {
     return {
-      emit: (eventName: string, data: object): void => this.emit(eventName, data),
-      off: (eventName: string, callback: () => void): void => this.off(eventName, callback),
-      on: (eventName: string, callback: () => void): void => this.on(eventName, callback),
+      emit: (eventName: string, data?: unknown): void => this.emit(eventName, data),
+      off: (eventName: string, callback: (data?: unknown) => void): void => this.off(eventName, callback),
+      on: (eventName: string, callback: (data?: unknown) => void): void => this.on(eventName, callback),
     };
   }
 
@@ -0,0 +1,45 @@
+import type { History } from '../../../../types/api';
+import Module from '../../__module';
+
+/**
+ * @class HistoryAPI
+ * provides with methods to undo and redo changes
+ */
+export default class HistoryAPI extends Module {
+  /**
+   * Available methods
+   *
+   * @returns {History}
+   */
+  public get methods(): History {
+    return {
+      undo: (): Promise<void> => this.undo(),
+      redo: (): Promise<void> => this.redo(),
+      canUndo: (): boolean => this.Editor.History.canUndo,
+      canRedo: (): boolean => this.Editor.History.canRedo,
+      clear: (): Promise<void> => this.Editor.History.clear(),
+    };
+  }
+
+  /**
+   * Reverts the last change
+   */
+  public undo(): Promise<void> {
+    if (this.Editor.ReadOnly.isEnabled) {
+      return Promise.resolve();
+    }
+
+    return this.Editor.History.undo();
+  }
+
+  /**
+   * Repeats the last undone change
+   */
+  public redo(): Promise<void> {
+    if (this.Editor.ReadOnly.isEnabled) {
+      return Promise.resolve();
+    }
+
+    return this.Editor.History.redo();
+  }
+}
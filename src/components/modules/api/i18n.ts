@@ -1,6 +1,7 @@
 import type { I18n } from '../../../../types/api';
-import I18nInternal from '../../i18n';
+import type { I18nConfig, I18nDictionary } from '../../../../types';
 import { logLabeled } from '../../utils';
+import type { MessageParams } from '../../i18n/format';
 import Module from '../../__module';
 
 /**
@@ -31,6 +32,7 @@ export default class I18nAPI extends Module {
 
         return undefined;
       },
+      setLocale: (messages: I18nDictionary, direction?: I18nConfig['direction'], locale?: string): void => this.setLocale(messages, direction, locale),
     };
   }
 
@@ -44,9 +46,58 @@ export default class I18nAPI extends Module {
     return Object.assign(
       this.methods,
       {
-        t: (dictKey: string): string => {
-          return I18nInternal.t(I18nAPI.getNamespace(toolName, isTune), dictKey);
+        t: (dictKey: string, params?: MessageParams): string => {
+          return this.i18n.t(I18nAPI.getNamespace(toolName, isTune), dictKey, params);
         },
       });
   }
+
+  /**
+   * Replaces the dictionary of the Editor instance, translates the UI again and notifies Tools
+   *
+   * @param messages - new dictionary
+   * @param direction - new text direction, current one is kept if omitted
+   * @param locale - language of the dictionary used to choose plural forms, current one is kept if omitted
+   */
+  public setLocale(messages: I18nDictionary, direction?: I18nConfig['direction'], locale?: string): void {
+    const { UI, Toolbar, InlineToolbar, BlockManager, ModificationsObserver } = this.Editor;
+
+    this.i18n.setDictionary(messages);
+
+    if (locale !== undefined) {
+      this.i18n.setLocale(locale);
+    }
+
+    this.config.i18n = {
+      ...this.config.i18n,
+      messages,
+      direction: direction ?? this.config.i18n?.direction,
+      locale: locale ?? this.config.i18n?.locale,
+    };
+
+    if (direction !== undefined) {
+      UI.updateDirection();
+      InlineToolbar.updateDirection();
+    }
+
+    /**
+     * Block Settings and Inline Toolbar popovers are created on opening, so closing is enough to translate them
+     */
+    UI.closeAllToolbars();
+    Toolbar.updateLocale();
+
+    /**
+     * Tools translating their content do not change the document, so it should not be reported as a change
+     */
+    const isObserverEnabled = ModificationsObserver.isEnabled;
+
+    ModificationsObserver.flushMutations();
+    ModificationsObserver.disable();
+
+    BlockManager.blocks.forEach((block) => block.localeChanged());
+
+    if (isObserverEnabled) {
+      ModificationsObserver.enable();
+    }
+  }
 }
@@ -17,12 +17,15 @@ export default class API extends Module {
    */
   public get methods(): APIInterfaces {
     return {
+      autosave: this.Editor.AutosaveAPI.methods,
       blocks: this.Editor.BlocksAPI.methods,
       caret: this.Editor.CaretAPI.methods,
       tools: this.Editor.ToolsAPI.methods,
       events: this.Editor.EventsAPI.methods,
+      history: this.Editor.HistoryAPI.methods,
       listeners: this.Editor.ListenersAPI.methods,
       notifier: this.Editor.NotifierAPI.methods,
+      presence: this.Editor.PresenceAPI.methods,
       sanitizer: this.Editor.SanitizerAPI.methods,
       saver: this.Editor.SaverAPI.methods,
       selection: this.Editor.SelectionAPI.methods,
@@ -17,11 +17,15 @@ export default class NotifierAPI extends Module {
    * @param moduleConfiguration - Module Configuration
    * @param moduleConfiguration.config - Editor's config
    * @param moduleConfiguration.eventsDispatcher - Editor's event dispatcher
+   * @param moduleConfiguration.i18n - Editor instance translator
+   * @param moduleConfiguration.tooltip - Editor instance tooltip
    */
-  constructor({ config, eventsDispatcher }: ModuleConfig) {
+  constructor({ config, eventsDispatcher, i18n, tooltip }: ModuleConfig) {
     super({
       config,
       eventsDispatcher,
+      i18n,
+      tooltip,
     });
 
     this.notifier = new Notifier();
@@ -0,0 +1,21 @@
+import type { Presence, PresenceUser } from '../../../../types/api';
+import Module from '../../__module';
+
+/**
+ * @class PresenceAPI
+ * provides with methods to show carets and selections of collaborators
+ */
+export default class PresenceAPI extends Module {
+  /**
+   * Available methods
+   *
+   * @returns {Presence}
+   */
+  public get methods(): Presence {
+    return {
+      set: (user: PresenceUser): void => this.Editor.Presence.set(user),
+      remove: (id: string): void => this.Editor.Presence.remove(id),
+      clear: (): void => this.Editor.Presence.clear(),
+    };
+  }
+}
@@ -1,7 +1,8 @@
-import type { Saver } from '../../../../types/api';
-import type { OutputData } from '../../../../types';
+import type { ChangedBlocksData, Saver, SaveOptions, SaveReport } from '../../../../types/api';
+import type { OutputBlockData, OutputData } from '../../../../types';
 import * as _ from '../../utils';
 import Module from '../../__module';
+import { SaveError } from '../../errors/save';
 
 /**
  * @class SaverAPI
@@ -15,24 +16,116 @@ export default class SaverAPI extends Module {
    */
   public get methods(): Saver {
     return {
-      save: (): Promise<OutputData> => this.save(),
+      save: ((options?: SaveOptions): Promise<OutputData | string | undefined> => this.save(options)) as Saver['save'],
+      saveWithReport: (): Promise<SaveReport> => this.saveWithReport(),
+      saveBlock: (id: string): Promise<OutputBlockData | undefined> => this.saveBlock(id),
+      saveChanged: (checkpoint?: number): Promise<ChangedBlocksData> => this.saveChanged(checkpoint),
     };
   }
 
   /**
-   * Return Editor's data
+   * Return Editor's data in the requested format
    *
+   * @param {SaveOptions} [options] - saving options
+   * @returns {OutputData|string|undefined}
+   */
+  public async save(options: SaveOptions = {}): Promise<OutputData | string | undefined> {
+    const data = await this.saveData(options.strict === true);
+
+    /**
+     * Saver returns nothing if saving is failed
+     */
+    if (data === undefined) {
+      return data;
+    }
+
+    switch (options.format) {
+      case 'markdown':
+        return this.Editor.Saver.toMarkdown(data);
+
+      case 'html':
+        return this.Editor.Saver.toHTML(data);
+
+      default:
+        return data;
+    }
+  }
+
+  /**
+   * Return Editor's data along with the problems happened with particular Blocks
+   *
+   * @returns {SaveReport}
+   */
+  public async saveWithReport(): Promise<SaveReport> {
+    this.checkReadOnly();
+
+    return this.Editor.Saver.saveWithReport();
+  }
+
+  /**
+   * Return data of a single Block
+   *
+   * @param id - id of the Block to save
+   * @returns {OutputBlockData|undefined}
+   */
+  public async saveBlock(id: string): Promise<OutputBlockData | undefined> {
+    this.checkReadOnly();
+
+    const block = this.Editor.BlockManager.getBlockById(id);
+
+    if (block === undefined) {
+      _.logLabeled('There is no block with id `' + id + '`', 'warn');
+
+      return;
+    }
+
+    return this.Editor.Saver.saveBlock(block);
+  }
+
+  /**
+   * Return data of Blocks changed since the passed checkpoint
+   *
+   * @param checkpoint - checkpoint returned by the previous call
+   * @returns {ChangedBlocksData}
+   */
+  public async saveChanged(checkpoint?: number): Promise<ChangedBlocksData> {
+    this.checkReadOnly();
+
+    return this.Editor.Saver.saveChanged(checkpoint);
+  }
+
+  /**
+   * Return Editor's data as OutputData
+   *
+   * @param strict - pass true to throw the SaveError if some problems happened
    * @returns {OutputData}
    */
-  public save(): Promise<OutputData> {
+  private async saveData(strict: boolean): Promise<OutputData> {
+    if (!strict) {
+      this.checkReadOnly();
+
+      return this.Editor.Saver.save();
+    }
+
+    const report = await this.saveWithReport();
+
+    if (report.problems.length > 0) {
+      throw new SaveError(report);
+    }
+
+    return report.data;
+  }
+
+  /**
+   * Throws an error if Editor is in read-only mode
+   */
+  private checkReadOnly(): void {
     const errorText = 'Editor\'s content can not be saved in read-only mode';
 
     if (this.Editor.ReadOnly.isEnabled) {
       _.logLabeled(errorText, 'warn');
 
-      return Promise.reject(new Error(errorText));
+      throw new Error(errorText);
     }
-
-    return this.Editor.Saver.save();
   }
 }
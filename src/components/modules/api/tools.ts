@@ -11,6 +11,8 @@ export default class ToolsAPI extends Module {
   public get methods(): ToolsAPIInterface {
     return {
       getBlockTools: () => Array.from(this.Editor.Tools.blockTools.values()),
+      register: (name, settings) => this.Editor.Tools.register(name, settings),
+      unregister: (name) => this.Editor.Tools.unregister(name),
     };
   }
 }
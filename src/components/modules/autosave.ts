@@ -0,0 +1,225 @@
+import Module from '../__module';
+import type { OutputBlockData, OutputData } from '../../../types';
+import type { AutosaveStorageAdapter } from '../../../types/configs/autosave-config';
+import { LocalStorageAdapter } from '../utils/autosave-storage';
+import { autosaveDefaultDelay } from '../constants';
+import { I18nInternalNS } from '../i18n/namespace-internal';
+import * as _ from '../utils';
+
+/**
+ * @module Autosave
+ *
+ * Saves drafts to the storage passed in the 'autosave' config property when ModificationsObserver reports changes,
+ * so the work is not lost if the page is closed before the application has saved it.
+ *
+ * On start, the stored draft newer than the passed data is offered to be restored
+ */
+export default class Autosave extends Module {
+  /**
+   * Storage for drafts. Null if autosave is not configured
+   */
+  private storage: AutosaveStorageAdapter | null = null;
+
+  /**
+   * Key the draft is stored with
+   */
+  private key = '';
+
+  /**
+   * Stored draft newer than the passed data. Offered to be restored when Editor is ready
+   */
+  private draft: OutputData | null = null;
+
+  /**
+   * Flag shows that changes are saved to the storage
+   */
+  private isEnabled = false;
+
+  /**
+   * Delay in ms between the last change and saving of the draft
+   */
+  private delay = autosaveDefaultDelay;
+
+  /**
+   * Timeout used to save the draft after the last change
+   */
+  private saveTimeout: null | ReturnType<typeof setTimeout> = null;
+
+  /**
+   * Looks for the stored draft newer than the passed data
+   */
+  public async prepare(): Promise<void> {
+    const settings = this.config.autosave;
+
+    if (settings === undefined) {
+      return;
+    }
+
+    this.key = settings.key;
+    this.storage = settings.storage ?? new LocalStorageAdapter();
+    this.delay = settings.delay ?? autosaveDefaultDelay;
+
+    const draft = await this.storage.load(this.key);
+
+    if (draft !== null && (draft.time ?? 0) > (this.config.data?.time ?? 0)) {
+      this.draft = draft;
+    }
+  }
+
+  /**
+   * Starts saving changes. Offers to restore the newer draft if its content differs from the rendered one
+   */
+  public async enable(): Promise<void> {
+    const draft = this.draft;
+
+    if (this.storage === null) {
+      return;
+    }
+
+    /**
+     * Blocks rendered in chunks should be all inserted before the document is saved or compared with the draft
+     */
+    await this.Editor.Renderer.isRendered;
+
+    /**
+     * Editor has been destroyed while rendering
+     */
+    if (this.storage === null) {
+      return;
+    }
+
+    this.isEnabled = true;
+    this.draft = null;
+
+    if (draft === null || this.Editor.ReadOnly.isEnabled) {
+      return;
+    }
+
+    let data: OutputData | undefined;
+
+    try {
+      data = await this.Editor.Saver.save();
+    } catch (error) {
+      _.log('Draft can not be compared with the rendered document because of %o', 'warn', error);
+    }
+
+    if (data === undefined || this.isSameContent(data.blocks, draft.blocks)) {
+      return;
+    }
+
+    this.Editor.NotifierAPI.show({
+      type: 'confirm',
+      message: this.i18n.ui(I18nInternalNS.ui.autosave, 'You have unsaved changes. Restore them?'),
+      okText: this.i18n.ui(I18nInternalNS.ui.autosave, 'Restore'),
+      cancelText: this.i18n.ui(I18nInternalNS.ui.autosave, 'Discard'),
+      okHandler: () => {
+        this.restore(draft);
+      },
+      cancelHandler: () => {
+        this.clear();
+      },
+    });
+  }
+
+  /**
+   * Schedules saving of the draft. Called by the ModificationsObserver
+   */
+  public changed(): void {
+    if (!this.isEnabled) {
+      return;
+    }
+
+    this.cancelSaving();
+
+    this.saveTimeout = setTimeout(() => {
+      this.saveTimeout = null;
+      this.saveDraft();
+    }, this.delay);
+  }
+
+  /**
+   * Removes the draft from the storage and cancels the scheduled saving.
+   * Called when the draft is discarded or when the document has been saved by the application
+   */
+  public async clear(): Promise<void> {
+    this.cancelSaving();
+    this.draft = null;
+
+    try {
+      await this.storage?.remove(this.key);
+    } catch (error) {
+      _.log('Draft can not be removed because of %o', 'warn', error);
+    }
+  }
+
+  /**
+   * Module destruction
+   * Stops saving changes
+   */
+  public destroy(): void {
+    this.cancelSaving();
+    this.isEnabled = false;
+    this.storage = null;
+  }
+
+  /**
+   * Cancels the scheduled saving of the draft
+   */
+  private cancelSaving(): void {
+    if (this.saveTimeout !== null) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+  }
+
+  /**
+   * Renders the draft
+   *
+   * @param draft - draft to restore
+   */
+  private async restore(draft: OutputData): Promise<void> {
+    try {
+      await this.Editor.BlocksAPI.render(draft);
+    } catch (error) {
+      _.log('Draft can not be restored because of %o', 'error', error);
+    }
+  }
+
+  /**
+   * Saves current data to the storage
+   */
+  private async saveDraft(): Promise<void> {
+    if (!this.isEnabled || this.storage === null) {
+      return;
+    }
+
+    try {
+      const data = await this.Editor.Saver.save();
+
+      /**
+       * Saver logs the error itself and returns nothing if the document can not be saved
+       */
+      if (data !== undefined) {
+        await this.storage.save(this.key, data);
+      }
+    } catch (error) {
+      _.log('Draft can not be saved because of %o', 'warn', error);
+    }
+  }
+
+  /**
+   * Compares Blocks ignoring ids, since ids are generated if they are not passed in data
+   *
+   * @param first - first list of Blocks
+   * @param second - second list of Blocks
+   */
+  private isSameContent(first: OutputBlockData[], second: OutputBlockData[]): boolean {
+    const strip = (blocks: OutputBlockData[]): Omit<OutputBlockData, 'id'>[] => blocks.map(({ type, data, tunes }) => ({
+      type,
+      data,
+      tunes,
+    }));
+
+    return _.equals(strip(first), strip(second));
+  }
+}
@@ -6,7 +6,7 @@ import * as _ from '../utils';
 import SelectionUtils from '../selection';
 import Flipper from '../flipper';
 import type Block from '../block';
-import { areBlocksMergeable } from '../utils/blocks';
+import { areBlocksMergeable, areBlocksSiblings } from '../utils/blocks';
 import * as caretUtils from '../utils/caret';
 import { focus } from '@editorjs/caret';
 
@@ -136,6 +136,13 @@ export default class BlockEvents extends Module {
    * @param {DragEvent} event - drag over event
    */
   public dragOver(event: DragEvent): void {
+    /**
+     * Drop indicator of the dragged Blocks is shown by the DragNDrop module
+     */
+    if (this.Editor.DragNDrop.isDraggingBlocks) {
+      return;
+    }
+
     const block = this.Editor.BlockManager.getBlockByChildNode(event.target as Node);
 
     block.dropTarget = true;
@@ -147,6 +154,10 @@ export default class BlockEvents extends Module {
    * @param {DragEvent} event - drag leave event
    */
   public dragLeave(event: DragEvent): void {
+    if (this.Editor.DragNDrop.isDraggingBlocks) {
+      return;
+    }
+
     const block = this.Editor.BlockManager.getBlockByChildNode(event.target as Node);
 
     block.dropTarget = false;
@@ -389,6 +400,15 @@ export default class BlockEvents extends Module {
       return;
     }
 
+    /**
+     * Blocks of different containers or slots are not removed or merged, just navigate previous block
+     */
+    if (!areBlocksSiblings(previousBlock, currentBlock)) {
+      Caret.setToBlock(previousBlock, Caret.positions.END);
+
+      return;
+    }
+
     /**
      * If prev Block is empty, it should be removed just like a character
      */
@@ -473,6 +493,15 @@ export default class BlockEvents extends Module {
       return;
     }
 
+    /**
+     * Blocks of different containers or slots are not removed or merged, just navigate next block
+     */
+    if (!areBlocksSiblings(currentBlock, nextBlock)) {
+      Caret.setToBlock(nextBlock, Caret.positions.START);
+
+      return;
+    }
+
     /**
      * If next Block is empty, it should be removed just like a character
      */
@@ -21,6 +21,20 @@ import { BlockChanged } from '../events';
 import { clean, sanitizeBlocks } from '../utils/sanitizer';
 import { convertStringToBlockData, isBlockConvertable } from '../utils/blocks';
 import PromiseQueue from '../utils/promise-queue';
+import type { StubData } from '../../tools/stub';
+
+/**
+ * Container and slot the Block is placed to
+ */
+type BlockPlacement = Pick<Block, 'parentId' | 'slot'>;
+
+/**
+ * Placement of the top-level Blocks
+ */
+const TOP_LEVEL: BlockPlacement = {
+  parentId: null,
+  slot: null,
+};
 
 /**
  * @typedef {BlockManager} BlockManager
@@ -83,18 +97,15 @@ export default class BlockManager extends Module {
   }
 
   /**
-   * Returns next Block instance
+   * Returns next Block instance.
+   * Containers without inputs are skipped, so the caret goes to their nested Blocks
    *
    * @returns {Block|null}
    */
   public get nextBlock(): Block | null {
-    const isLastBlock = this.currentBlockIndex === (this._blocks.length - 1);
-
-    if (isLastBlock) {
-      return null;
-    }
+    const nextBlocks = this.blocks.slice(this.currentBlockIndex + 1);
 
-    return this._blocks[this.currentBlockIndex + 1];
+    return nextBlocks.find((block) => !this.isLayoutContainer(block)) ?? null;
   }
 
   /**
@@ -120,18 +131,19 @@ export default class BlockManager extends Module {
   }
 
   /**
-   * Returns previous Block instance
+   * Returns previous Block instance.
+   * Containers without inputs are skipped, so the caret goes to their nested Blocks
    *
    * @returns {Block|null}
    */
   public get previousBlock(): Block | null {
-    const isFirstBlock = this.currentBlockIndex === 0;
-
-    if (isFirstBlock) {
+    if (this.currentBlockIndex <= 0) {
       return null;
     }
 
-    return this._blocks[this.currentBlockIndex - 1];
+    const previousBlocks = this.blocks.slice(0, this.currentBlockIndex).reverse();
+
+    return previousBlocks.find((block) => !this.isLayoutContainer(block)) ?? null;
   }
 
   /**
@@ -225,6 +237,9 @@ export default class BlockManager extends Module {
    * @param {string} options.tool - tools passed in editor config {@link EditorConfig#tools}
    * @param {string} [options.id] - unique id for this block
    * @param {BlockToolData} [options.data] - constructor params
+   * @param {string} [options.parentId] - id of the container Block
+   * @param {string} [options.slot] - slot of the container Block
+   * @param {number} [options.placeholderHeight] - height of the placeholder displayed until Tool renders the Block content
    * @returns {Block}
    */
   public composeBlock({
@@ -232,7 +247,10 @@ export default class BlockManager extends Module {
     data = {},
     id = undefined,
     tunes: tunesData = {},
-  }: {tool: string; id?: string; data?: BlockToolData; tunes?: {[name: string]: BlockTuneData}}): Block {
+    parentId = null,
+    slot = null,
+    placeholderHeight,
+  }: {tool: string; id?: string; data?: BlockToolData; tunes?: {[name: string]: BlockTuneData}; placeholderHeight?: number} & Partial<BlockPlacement>): Block {
     const readOnly = this.Editor.ReadOnly.isEnabled;
     const tool = this.Editor.Tools.blockTools.get(name);
     const block = new Block({
@@ -242,6 +260,9 @@ export default class BlockManager extends Module {
       api: this.Editor.API,
       readOnly,
       tunesData,
+      parentId,
+      slot,
+      placeholderHeight,
     }, this.eventsDispatcher);
 
     if (!readOnly) {
@@ -250,6 +271,19 @@ export default class BlockManager extends Module {
       }, { timeout: 2000 });
     }
 
+    /**
+     * Block of the Tool loaded on demand is rendered with the loading placeholder until the Tool is loaded
+     */
+    if (!block.tool.isLoaded) {
+      this.Editor.Tools.load(name).then((isLoaded) => {
+        if (isLoaded) {
+          this.recompose(block, name, data, tunesData);
+        } else {
+          this.recompose(block, this.Editor.Tools.stubTool, this.Editor.Renderer.composeStubDataForTool(name, data, block.id), tunesData);
+        }
+      });
+    }
+
     return block;
   }
 
@@ -263,6 +297,9 @@ export default class BlockManager extends Module {
    * @param {number} [options.index] - index where to insert new Block
    * @param {boolean} [options.needToFocus] - flag shows if needed to update current Block index
    * @param {boolean} [options.replace] - flag shows if block by passed index should be replaced with inserted one
+   * @param {string | null} [options.parentId] - id of the container Block, null for the top level.
+   *                                             By default, Block becomes a sibling of the current Block or of the Block it is inserted before
+   * @param {string} [options.slot] - slot of the container Block. First slot is used by default
    * @returns {Block}
    */
   public insert({
@@ -273,6 +310,8 @@ export default class BlockManager extends Module {
     needToFocus = true,
     replace = false,
     tunes = {},
+    parentId,
+    slot,
   }: {
     id?: string;
     tool?: string;
@@ -281,11 +320,36 @@ export default class BlockManager extends Module {
     needToFocus?: boolean;
     replace?: boolean;
     tunes?: {[name: string]: BlockTuneData};
+    parentId?: string | null;
+    slot?: string | null;
   } = {}): Block {
     let newIndex = index;
+    let placement: BlockPlacement;
 
     if (newIndex === undefined) {
-      newIndex = this.currentBlockIndex + (replace ? 0 : 1);
+      const currentBlock = this.currentBlock;
+
+      /**
+       * New Block is placed after the current one and its nested Blocks
+       */
+      newIndex = this.currentBlockIndex + (replace ? 0 : 1 + (currentBlock ? this._blocks.getDescendants(currentBlock).length : 0));
+      placement = currentBlock ?? TOP_LEVEL;
+    } else {
+      placement = this._blocks[newIndex] ?? TOP_LEVEL;
+    }
+
+    if (parentId !== undefined) {
+      placement = this.validatePlacement({
+        parentId,
+        slot: slot ?? null,
+      });
+    }
+
+    /**
+     * Nested Blocks of the replaced container are removed along with it
+     */
+    if (replace && this._blocks[newIndex] !== undefined) {
+      this.removeDescendants(this._blocks[newIndex]);
     }
 
     const block = this.composeBlock({
@@ -293,6 +357,8 @@ export default class BlockManager extends Module {
       tool,
       data,
       tunes,
+      parentId: placement.parentId,
+      slot: placement.slot,
     });
 
     /**
@@ -320,6 +386,8 @@ export default class BlockManager extends Module {
       this.currentBlockIndex++;
     }
 
+    this.fillEmptySlots(block);
+
     return block;
   }
 
@@ -330,6 +398,18 @@ export default class BlockManager extends Module {
    * @param index - index where to insert
    */
   public insertMany(blocks: Block[], index = 0): void {
+    const { parentId, slot } = this._blocks[index] ?? TOP_LEVEL;
+
+    /**
+     * Top-level Blocks become siblings of the Block they are inserted before
+     */
+    blocks.forEach((block) => {
+      if (block.parentId === null) {
+        block.parentId = parentId;
+        block.slot = slot;
+      }
+    });
+
     this._blocks.insertMany(blocks, index);
   }
 
@@ -357,6 +437,8 @@ export default class BlockManager extends Module {
       tool: block.name,
       data: Object.assign({}, existingData, data ?? {}),
       tunes: tunes ?? block.tunes,
+      parentId: block.parentId,
+      slot: block.slot,
     });
 
     const blockIndex = this.getBlockIndex(block);
@@ -405,6 +487,19 @@ export default class BlockManager extends Module {
       replace,
     });
 
+    /**
+     * Block of the Tool loaded on demand handles pasted data once the Tool is loaded and the Block is re-created
+     */
+    if (!block.tool.isLoaded) {
+      this.Editor.Tools.load(toolName).then(() => {
+        window.requestIdleCallback(() => {
+          this.getBlockById(block.id)?.call(BlockToolAPI.ON_PASTE, pasteEvent);
+        });
+      });
+
+      return block;
+    }
+
     try {
       /**
        * We need to call onPaste after Block will be ready
@@ -433,7 +528,12 @@ export default class BlockManager extends Module {
    * @returns {Block} inserted Block
    */
   public insertDefaultBlockAtIndex(index: number, needToFocus = false): Block {
-    const block = this.composeBlock({ tool: this.config.defaultBlock });
+    const { parentId, slot } = this._blocks[index] ?? TOP_LEVEL;
+    const block = this.composeBlock({
+      tool: this.config.defaultBlock,
+      parentId,
+      slot,
+    });
 
     this._blocks[index] = block;
 
@@ -465,9 +565,9 @@ export default class BlockManager extends Module {
     this.currentBlockIndex = this.blocks.length - 1;
 
     /**
-     * Insert the default typed block
+     * Insert the default typed block at the top level
      */
-    return this.insert();
+    return this.insert(TOP_LEVEL);
   }
 
   /**
@@ -533,6 +633,8 @@ export default class BlockManager extends Module {
         throw new Error('Can\'t find a Block to remove');
       }
 
+      this.removeDescendants(block);
+
       block.destroy();
       this._blocks.remove(index);
 
@@ -547,6 +649,20 @@ export default class BlockManager extends Module {
         this.currentBlockIndex--;
       }
 
+      /**
+       * Slot of the container should not be empty, so the new default Block is inserted in place of the last removed one
+       */
+      const parent = block.parentId !== null ? this.getBlockById(block.parentId) : undefined;
+
+      if (addLastBlock && parent !== undefined && this.getChildren(parent, block.slot).length === 0) {
+        this.insert({
+          index,
+          parentId: parent.id,
+          slot: block.slot,
+          needToFocus: false,
+        });
+      }
+
       /**
        * If first Block was removed, insert new Initial Block and set focus on it`s first input
        */
@@ -581,6 +697,15 @@ export default class BlockManager extends Module {
         continue;
       }
 
+      const parent = this.blocks[index].parentId !== null ? this.getBlockById(this.blocks[index].parentId) : undefined;
+
+      /**
+       * Selected nested Block is removed along with the selected container
+       */
+      if (parent?.selected) {
+        continue;
+      }
+
       this.removeBlock(this.blocks[index]);
       firstSelectedBlockIndex = index;
     }
@@ -689,13 +814,9 @@ export default class BlockManager extends Module {
       element = element.parentNode as HTMLElement;
     }
 
-    const nodes = this._blocks.nodes,
-        firstLevelBlock = element.closest(`.${Block.CSS.wrapper}`),
-        index = nodes.indexOf(firstLevelBlock as HTMLElement);
+    const closestBlock = element.closest(`.${Block.CSS.wrapper}`);
 
-    if (index >= 0) {
-      return this._blocks[index];
-    }
+    return this.blocks.find((block) => block.holder === closestBlock);
   }
 
   /**
@@ -737,7 +858,7 @@ export default class BlockManager extends Module {
      *
      * @type {number}
      */
-    this.currentBlockIndex = this._blocks.nodes.indexOf(parentFirstLevelBlock as HTMLElement);
+    this.currentBlockIndex = this.blocks.findIndex((block) => block.holder === parentFirstLevelBlock);
 
     /**
      * Update current block active input
@@ -770,6 +891,27 @@ export default class BlockManager extends Module {
     return this.blocks.find((block) => block.holder === firstLevelBlock);
   }
 
+  /**
+   * Returns Blocks placed directly to the slots of the container Block
+   *
+   * @param container - container Block
+   * @param [slot] - slot to get Blocks of. If omitted, Blocks of all slots are returned
+   */
+  public getChildren(container: Block, slot?: string | null): Block[] {
+    return this._blocks.getDescendants(container).filter((block) => {
+      return block.parentId === container.id && (slot === undefined || block.slot === slot);
+    });
+  }
+
+  /**
+   * Returns all Blocks nested in the container Block in the order they are stored
+   *
+   * @param container - container Block
+   */
+  public getDescendants(container: Block): Block[] {
+    return this._blocks.getDescendants(container);
+  }
+
   /**
    * Swap Blocks Position
    *
@@ -786,12 +928,16 @@ export default class BlockManager extends Module {
   }
 
   /**
-   * Move a block to a new index
+   * Move a block to a new index along with its nested Blocks
+   *
+   * By default, Block moved up becomes a sibling of the Block it is placed before.
+   * Block moved down becomes a sibling of the Block it is placed after, or the first nested Block of the container it is placed after
    *
    * @param {number} toIndex - index where to move Block
    * @param {number} fromIndex - index of Block to move
+   * @param placement - container and slot to move Block to
    */
-  public move(toIndex, fromIndex = this.currentBlockIndex): void {
+  public move(toIndex, fromIndex = this.currentBlockIndex, placement?: BlockPlacement): void {
     // make sure indexes are valid and within a valid range
     if (isNaN(toIndex) || isNaN(fromIndex)) {
       _.log(`Warning during 'move' call: incorrect indices provided.`, 'warn');
@@ -805,8 +951,31 @@ export default class BlockManager extends Module {
       return;
     }
 
+    const block = this._blocks[fromIndex];
+    const previousContainer = block.parentId !== null ? this.getBlockById(block.parentId) : undefined;
+    const movedBlocks = [block, ...this._blocks.getDescendants(block)];
+    const restBlocks = this.blocks.filter((restBlock) => !movedBlocks.includes(restBlock));
+
+    if (placement !== undefined) {
+      placement = this.validatePlacement(placement);
+    } else if (toIndex < fromIndex) {
+      placement = restBlocks[toIndex] ?? TOP_LEVEL;
+    } else {
+      const previousBlock = restBlocks[toIndex - 1];
+
+      placement = previousBlock !== undefined && previousBlock.slots.length > 0
+        ? {
+          parentId: previousBlock.id,
+          slot: previousBlock.slots[0],
+        }
+        : previousBlock ?? TOP_LEVEL;
+    }
+
     /** Move up current Block */
-    this._blocks.move(toIndex, fromIndex);
+    this._blocks.move(toIndex, fromIndex, {
+      parentId: placement.parentId,
+      slot: placement.slot,
+    });
 
     /** Now actual block moved so that current block index changed */
     this.currentBlockIndex = toIndex;
@@ -818,6 +987,15 @@ export default class BlockManager extends Module {
       fromIndex,
       toIndex,
     });
+
+    /**
+     * Block moved out of the container could leave its slot empty
+     */
+    if (previousContainer !== undefined) {
+      this.fillEmptySlots(previousContainer);
+
+      this.currentBlockIndex = this.getBlockIndex(block);
+    }
   }
 
   /**
@@ -876,6 +1054,38 @@ export default class BlockManager extends Module {
     return this.replace(blockToConvert, replacingTool.name, newBlockData);
   }
 
+  /**
+   * Replaces Blocks of the unregistered Tool with Stubs keeping their data,
+   * or Stubs keeping data of the registered Tool with its Blocks
+   *
+   * @param toolName - name of the registered or unregistered Tool
+   */
+  public async refreshBlocksOfTool(toolName: string): Promise<void> {
+    const { Tools, Renderer } = this.Editor;
+    const isRegistered = Tools.blockTools.has(toolName);
+    const blocks = this.blocks.filter((block) => block.name === (isRegistered ? Tools.stubTool : toolName));
+
+    for (const block of blocks) {
+      const savedData = await block.save();
+
+      if (savedData === undefined) {
+        continue;
+      }
+
+      if (!isRegistered) {
+        this.recompose(block, Tools.stubTool, Renderer.composeStubDataForTool(toolName, savedData.data, block.id), savedData.tunes ?? {});
+
+        continue;
+      }
+
+      const { type, data } = savedData.data as StubData['savedData'];
+
+      if (type === toolName) {
+        this.recompose(block, toolName, data, savedData.tunes ?? {});
+      }
+    }
+  }
+
   /**
    * Sets current Block Index -1 which means unknown
    * and clear highlights
@@ -896,7 +1106,12 @@ export default class BlockManager extends Module {
 
     this.blocks.forEach((block) => {
       queue.add(async () => {
-        await this.removeBlock(block, false);
+        /**
+         * Nested Blocks are removed along with the container
+         */
+        if (this.blocks.includes(block)) {
+          await this.removeBlock(block, false);
+        }
       });
     });
 
@@ -932,20 +1147,37 @@ export default class BlockManager extends Module {
   private bindBlockEvents(block: Block): void {
     const { BlockEvents } = this.Editor;
 
+    /**
+     * Events of the nested Blocks bubble to the container holder, so they are handled by the nested Block only
+     *
+     * @param event - event fired inside the Block holder
+     */
+    const isOwnEvent = (event: Event): boolean => {
+      return this.getBlockByChildNode(event.target as Node) === block;
+    };
+
     this.readOnlyMutableListeners.on(block.holder, 'keydown', (event: KeyboardEvent) => {
-      BlockEvents.keydown(event);
+      if (isOwnEvent(event)) {
+        BlockEvents.keydown(event);
+      }
     });
 
     this.readOnlyMutableListeners.on(block.holder, 'keyup', (event: KeyboardEvent) => {
-      BlockEvents.keyup(event);
+      if (isOwnEvent(event)) {
+        BlockEvents.keyup(event);
+      }
     });
 
     this.readOnlyMutableListeners.on(block.holder, 'dragover', (event: DragEvent) => {
-      BlockEvents.dragOver(event);
+      if (isOwnEvent(event)) {
+        BlockEvents.dragOver(event);
+      }
     });
 
     this.readOnlyMutableListeners.on(block.holder, 'dragleave', (event: DragEvent) => {
-      BlockEvents.dragLeave(event);
+      if (isOwnEvent(event)) {
+        BlockEvents.dragLeave(event);
+      }
     });
 
     block.on('didMutated', (affectedBlock: Block) => {
@@ -978,6 +1210,109 @@ export default class BlockManager extends Module {
     });
   }
 
+  /**
+   * Checks if Block is a container that has no own inputs, for example, columns.
+   * Such containers are skipped by the caret navigation
+   *
+   * @param block - Block to check
+   */
+  private isLayoutContainer(block: Block): boolean {
+    return block.slots.length > 0 && !block.focusable;
+  }
+
+  /**
+   * Checks that the container exists and has the slot. Returns the top level placement otherwise
+   *
+   * @param placement - container and slot to check
+   */
+  private validatePlacement({ parentId, slot }: BlockPlacement): BlockPlacement {
+    if (parentId === null) {
+      return TOP_LEVEL;
+    }
+
+    const parent = this.getBlockById(parentId);
+    const parentSlot = slot ?? parent?.slots[0] ?? null;
+
+    if (parent === undefined || parentSlot === null || !parent.slots.includes(parentSlot)) {
+      _.log(`Block can not be placed to the slot «${parentSlot}» of the Block «${parentId}», so it is placed to the top level`, 'warn');
+
+      return TOP_LEVEL;
+    }
+
+    return {
+      parentId,
+      slot: parentSlot,
+    };
+  }
+
+  /**
+   * Replaces the Block by the Block of another Tool, for example the loading placeholder by the Block of the loaded Tool.
+   * Block keeps its id, tunes and placement, so mutation events are not triggered
+   *
+   * @param block - Block to replace
+   * @param tool - name of the Tool to render
+   * @param data - Block data
+   * @param tunes - Block Tunes data
+   */
+  private recompose(block: Block, tool: string, data: BlockToolData, tunes: {[name: string]: BlockTuneData}): void {
+    const index = this.getBlockIndex(block);
+
+    /**
+     * Block has been removed or replaced while the Tool was loaded
+     */
+    if (index === -1) {
+      return;
+    }
+
+    const newBlock = this.composeBlock({
+      id: block.id,
+      tool,
+      data,
+      tunes,
+      parentId: block.parentId,
+      slot: block.slot,
+    });
+
+    this._blocks.replace(index, newBlock);
+
+    if (this.currentBlock === newBlock) {
+      this.Editor.Caret.setToBlock(newBlock);
+    }
+  }
+
+  /**
+   * Inserts the default Block to each empty slot of the container, so the nested Blocks could be added
+   *
+   * @param container - inserted container Block
+   */
+  private fillEmptySlots(container: Block): void {
+    container.slots.forEach((slot) => {
+      if (this.getChildren(container, slot).length > 0) {
+        return;
+      }
+
+      this.insert({
+        index: this.getBlockIndex(container) + this.getDescendants(container).length + 1,
+        parentId: container.id,
+        slot,
+        needToFocus: false,
+      });
+    });
+  }
+
+  /**
+   * Removes Blocks nested in the container starting from the last one
+   *
+   * @param container - container Block
+   */
+  private removeDescendants(container: Block): void {
+    this.getDescendants(container)
+      .reverse()
+      .forEach((block) => {
+        this.removeBlock(block, false);
+      });
+  }
+
   /**
    * Validates that the given index is not lower than 0 or higher than the amount of blocks
    *
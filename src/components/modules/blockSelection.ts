@@ -309,6 +309,17 @@ export default class BlockSelection extends Module {
     e.clipboardData.setData('text/plain', textPlain);
     e.clipboardData.setData('text/html', textHTML);
 
+    /**
+     * Clipboard data can be set only while the event is handled, so the data is composed synchronously if Tools allow that
+     */
+    const editorJSData = this.Editor.Paste.composeEditorJSData(this.selectedBlocks);
+
+    if (editorJSData !== undefined) {
+      e.clipboardData.setData(this.Editor.Paste.MIME_TYPE, editorJSData);
+
+      return Promise.resolve();
+    }
+
     return Promise
       .all(this.selectedBlocks.map((block) => block.save()))
       .then(savedData => {
@@ -338,7 +349,7 @@ export default class BlockSelection extends Module {
   }
 
   /**
-   * Select passed Block
+   * Select passed Block. Nested Blocks are selected along with the container
    *
    * @param {Block} block - Block to select
    */
@@ -350,6 +361,10 @@ export default class BlockSelection extends Module {
 
     block.selected = true;
 
+    this.Editor.BlockManager.getDescendants(block).forEach((nestedBlock) => {
+      nestedBlock.selected = true;
+    });
+
     this.clearCache();
 
     /** close InlineToolbar when we selected any Block */
@@ -357,13 +372,17 @@ export default class BlockSelection extends Module {
   }
 
   /**
-   * Remove selection from passed Block
+   * Remove selection from passed Block and its nested Blocks
    *
    * @param {Block} block - Block to unselect
    */
   public unselectBlock(block: Block): void {
     block.selected = false;
 
+    this.Editor.BlockManager.getDescendants(block).forEach((nestedBlock) => {
+      nestedBlock.selected = false;
+    });
+
     this.clearCache();
   }
 
@@ -3,6 +3,28 @@ import Module from '../__module';
 import type Block from '../block';
 import * as caretUtils from '../utils/caret';
 import $  from '../dom';
+import type { BlockId } from '../../../types';
+
+/**
+ * Caret position described independently of DOM nodes,
+ * so it can be restored after Block re-rendering
+ */
+export interface CaretPosition {
+  /**
+   * Id of the Block containing the caret
+   */
+  blockId: BlockId;
+
+  /**
+   * Index of the Block input containing the caret
+   */
+  inputIndex: number;
+
+  /**
+   * Number of characters from the input start
+   */
+  offset: number;
+}
 
 /**
  * Caret
@@ -46,13 +68,32 @@ export default class Caret extends Module {
    * @param {number} offset - caret offset regarding to the text node
    */
   public setToBlock(block: Block, position: string = this.positions.DEFAULT, offset = 0): void {
-    const { BlockManager, BlockSelection } = this.Editor;
+    const { BlockManager, BlockSelection, Virtualization } = this.Editor;
 
     /**
      * Clear previous selection since we possible will select the new Block
      */
     BlockSelection.clearSelection();
 
+    /**
+     * Content of the Block out of the viewport could be detached by the virtualization
+     */
+    Virtualization.reveal(block);
+
+    /**
+     * Container without inputs passes the caret to the first or the last of nested Blocks
+     */
+    if (!block.focusable && block.slots.length > 0) {
+      const descendants = BlockManager.getDescendants(block).filter(({ focusable }) => focusable);
+      const nestedBlock = position === this.positions.END ? descendants.pop() : descendants.shift();
+
+      if (nestedBlock !== undefined) {
+        this.setToBlock(nestedBlock, position, offset);
+
+        return;
+      }
+    }
+
     /**
      * If Block is not focusable, just select (highlight) it
      */
@@ -137,6 +178,66 @@ export default class Caret extends Module {
     currentBlock.currentInput = input;
   }
 
+  /**
+   * Returns current caret position as Block id, input index and characters offset.
+   * Returns null if caret is not placed inside the current Block input
+   */
+  public getPosition(): CaretPosition | null {
+    const { currentBlock } = this.Editor.BlockManager;
+
+    if (currentBlock === undefined || currentBlock.currentInput === undefined) {
+      return null;
+    }
+
+    const input = currentBlock.currentInput;
+    const offset = caretUtils.getCaretOffset(input);
+
+    if (offset === null) {
+      return null;
+    }
+
+    return {
+      blockId: currentBlock.id,
+      inputIndex: currentBlock.inputs.indexOf(input),
+      offset,
+    };
+  }
+
+  /**
+   * Sets caret to the position returned by {@link getPosition}
+   *
+   * @param position - caret position to restore
+   * @returns {boolean} false if there is no such Block or input
+   */
+  public setToPosition(position: CaretPosition): boolean {
+    const block = this.Editor.BlockManager.getBlockById(position.blockId);
+
+    if (block === undefined) {
+      return false;
+    }
+
+    const input = block.inputs[position.inputIndex];
+
+    if (input === undefined) {
+      this.setToBlock(block, this.positions.END);
+
+      return true;
+    }
+
+    if ($.isNativeInput(input)) {
+      this.set(input, Math.min(position.offset, input.value.length));
+    } else {
+      const [node, offset] = caretUtils.getNodeByCaretOffset(input, position.offset);
+
+      this.set(node as HTMLElement, offset);
+    }
+
+    this.Editor.BlockManager.setCurrentBlockByChildNode(block.holder);
+    block.currentInput = input;
+
+    return true;
+  }
+
   /**
    * Creates Document Range and sets caret to the element with offset
    *
@@ -0,0 +1,923 @@
+import Module from '../__module';
+import type { BlockId } from '../../../types';
+import type { BlockMutationEvent } from '../../../types/events/block';
+import type { BlockAddedEvent } from '../../../types/events/block/BlockAdded';
+import type { BlockMovedEvent } from '../../../types/events/block/BlockMoved';
+import type {
+  CollaborationMessage,
+  CollaborationOperation,
+  TextCollaborationOperation
+} from '../../../types/configs/collaboration-config';
+import { BlockAddedMutationType } from '../../../types/events/block/BlockAdded';
+import { BlockRemovedMutationType } from '../../../types/events/block/BlockRemoved';
+import { BlockMovedMutationType } from '../../../types/events/block/BlockMoved';
+import { BlockChangedMutationType } from '../../../types/events/block/BlockChanged';
+import type { ModuleConfig } from '../../types-internal/module-config';
+import type Block from '../block';
+import { BlockChanged } from '../events';
+import PromiseQueue from '../utils/promise-queue';
+import type { BlockSnapshot } from '../utils/blocks';
+import { takeBlockSnapshot } from '../utils/blocks';
+import type { OperationStamp, TextSplice } from '../utils/collaboration';
+import { SharedText, compareStamps, diffHtml, getStamp, isWellFormedHtml, shiftOffset } from '../utils/collaboration';
+import * as _ from '../utils';
+import $ from '../dom';
+
+/**
+ * Escapes text the same way as the browser does when serializing the text node
+ *
+ * @param text - text node data
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/\u00a0/g, '&nbsp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Converts offset in the serialized text into the text offset.
+ * Returns null if the offset is inside an entity
+ *
+ * @param text - text node data
+ * @param htmlOffset - offset in the serialized text
+ */
+function getDataOffset(text: string, htmlOffset: number): number | null {
+  let offset = 0;
+
+  for (let index = 0; index <= text.length; index++) {
+    if (offset === htmlOffset) {
+      return index;
+    }
+
+    if (offset > htmlOffset || index === text.length) {
+      return null;
+    }
+
+    offset += escapeText(text[index]).length;
+  }
+
+  return null;
+}
+
+/**
+ * @module Collaboration
+ *
+ * Synchronizes Blocks with other Editor instances through the transport passed in the 'collaboration' config property.
+ *
+ * Local Block mutations are converted into operations keyed by Block ids:
+ * - Blocks positions are resolved by the preceding Block id, concurrent insertions after the same Block are ordered by stamps
+ * - edits of string properties of Block data are sent as text operations referring to characters ids
+ * - other data changes replace the whole Block data, the last writer wins
+ */
+export default class Collaboration extends Module {
+  /**
+   * Id of this Editor instance
+   */
+  private clientId = '';
+
+  /**
+   * Lamport clock of the last produced or applied operation
+   */
+  private clock = 0;
+
+  /**
+   * Clock of the last applied operation of each remote client
+   */
+  private seen: { [clientId: string]: number } = {};
+
+  /**
+   * Last known state of each Block. Used to compose operations from Block changes
+   */
+  private snapshots = new Map<BlockId, BlockSnapshot>();
+
+  /**
+   * Stamps of removals. Blocks can not be inserted back by operations happened before the removal
+   */
+  private removalStamps = new Map<BlockId, OperationStamp>();
+
+  /**
+   * Stamps of the last insertion or moving of each Block
+   */
+  private positionStamps = new Map<BlockId, OperationStamp>();
+
+  /**
+   * Stamps of the last whole data replacement of each Block
+   */
+  private updateStamps = new Map<BlockId, OperationStamp>();
+
+  /**
+   * Shared strings of each Block keyed by Block data properties. Kept in sync with snapshots
+   */
+  private texts = new Map<BlockId, Map<string, SharedText>>();
+
+  /**
+   * Received messages waiting for the operations they depend on
+   */
+  private pendingMessages: CollaborationMessage[] = [];
+
+  /**
+   * Composing and applying operations is asynchronous, so they are processed one by one
+   */
+  private queue = new PromiseQueue();
+
+  /**
+   * Blocks inserted, removed or moved by remote operations right now. Their structural mutations are not sent back
+   */
+  private applyingBlocks = new Set<BlockId>();
+
+  /**
+   * Removes the transport subscription. Null if Editor is not connected
+   */
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * @param options - Module options
+   * @param options.config - Editor configuration object
+   * @param options.eventsDispatcher - common Editor event bus
+   * @param options.i18n - Editor instance translator
+   * @param options.tooltip - Editor instance tooltip
+   */
+  constructor({ config, eventsDispatcher, i18n, tooltip }: ModuleConfig) {
+    super({
+      config,
+      eventsDispatcher,
+      i18n,
+      tooltip,
+    });
+
+    this.eventsDispatcher.on(BlockChanged, (payload) => {
+      this.blockChanged(payload.event);
+    });
+  }
+
+  /**
+   * True if Editor exchanges operations with collaborators
+   */
+  public get isConnected(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  /**
+   * Remembers rendered Blocks and subscribes to the transport.
+   * Does nothing if collaboration is not configured
+   */
+  public async connect(): Promise<void> {
+    const settings = this.config.collaboration;
+
+    if (settings === undefined || this.isConnected) {
+      return;
+    }
+
+    this.clientId = settings.clientId ?? _.generateId('client-');
+
+    await this.refreshSnapshots();
+
+    this.unsubscribe = settings.transport.subscribe((message) => {
+      this.receive(message);
+    });
+  }
+
+  /**
+   * Remembers current Blocks state as known to collaborators.
+   * Used when the document has been rendered without notifying them
+   */
+  public refreshSnapshots(): Promise<void> {
+    return this.queue.add(async () => {
+      /**
+       * Blocks rendered in chunks should be all inserted before they are remembered
+       */
+      await this.Editor.Renderer.isRendered;
+
+      this.snapshots.clear();
+      this.texts.clear();
+
+      const snapshots = await Promise.all(
+        this.Editor.BlockManager.blocks.map((block) => takeBlockSnapshot(block.id, block.save()))
+      );
+
+      /**
+       * All Editor instances render the same document, so initial characters get the same ids
+       */
+      snapshots.forEach((snapshot) => {
+        if (snapshot !== undefined) {
+          this.remember(snapshot, {
+            clientId: '',
+            clock: 0,
+          });
+        }
+      });
+    });
+  }
+
+  /**
+   * Module destruction
+   * Unsubscribes from the transport
+   */
+  public destroy(): void {
+    if (this.unsubscribe === null) {
+      return;
+    }
+
+    this.unsubscribe();
+    this.unsubscribe = null;
+
+    this.config.collaboration?.transport.destroy?.();
+  }
+
+  /**
+   * Composes operations from the local Block mutation and sends them to collaborators
+   *
+   * @param event - Block mutation event
+   */
+  private blockChanged(event: BlockMutationEvent): void {
+    if (!this.isConnected || !this.Editor.ModificationsObserver.isEnabled) {
+      return;
+    }
+
+    /**
+     * Changes of Blocks data are compared with the known state, so only structural mutations need to be filtered
+     */
+    if (event.type !== BlockChangedMutationType && this.applyingBlocks.has(event.detail.target.id)) {
+      return;
+    }
+
+    /**
+     * Preceding Block is resolved immediately, since the following mutations can change it
+     */
+    let afterId: BlockId | null = null;
+
+    if (event.type === BlockAddedMutationType || event.type === BlockMovedMutationType) {
+      const index = event.type === BlockAddedMutationType
+        ? (event as BlockAddedEvent).detail.index
+        : (event as BlockMovedEvent).detail.toIndex;
+
+      afterId = index > 0 ? this.Editor.BlockManager.getBlockByIndex(index - 1)?.id ?? null : null;
+    }
+
+    this.queue.add(async () => {
+      try {
+        this.send(await this.composeOperations(event, afterId));
+      } catch (error) {
+        _.log('Block mutation is not sent to collaborators because of %o', 'warn', error);
+      }
+    });
+  }
+
+  /**
+   * Converts Block mutation into operations
+   *
+   * @param event - Block mutation event
+   * @param afterId - id of the Block preceding the added or moved one
+   */
+  private async composeOperations(event: BlockMutationEvent, afterId: BlockId | null): Promise<CollaborationOperation[]> {
+    const target = event.detail.target;
+
+    switch (event.type) {
+      case BlockAddedMutationType: {
+        if (this.snapshots.has(target.id)) {
+          return [];
+        }
+
+        const snapshot = await takeBlockSnapshot(target.id, target.save());
+
+        if (snapshot === undefined) {
+          return [];
+        }
+
+        const stamp = this.nextStamp();
+
+        this.remember(snapshot, stamp);
+        this.removalStamps.delete(target.id);
+        this.positionStamps.set(target.id, stamp);
+
+        return [ {
+          type: 'insert',
+          ...stamp,
+          block: snapshot,
+          afterId,
+        } ];
+      }
+
+      case BlockRemovedMutationType: {
+        if (!this.snapshots.has(target.id)) {
+          return [];
+        }
+
+        const stamp = this.nextStamp();
+
+        this.forgetBlock(target.id, stamp);
+
+        return [ {
+          type: 'remove',
+          ...stamp,
+          id: target.id,
+        } ];
+      }
+
+      case BlockMovedMutationType: {
+        const stamp = this.nextStamp();
+
+        this.positionStamps.set(target.id, stamp);
+
+        return [ {
+          type: 'move',
+          ...stamp,
+          id: target.id,
+          afterId,
+        } ];
+      }
+
+      case BlockChangedMutationType: {
+        /**
+         * Block could be replaced after the mutation, so the actual instance is saved
+         */
+        const block = this.Editor.BlockManager.getBlockById(target.id);
+
+        if (block === undefined) {
+          return [];
+        }
+
+        return this.composeUnsentOperations(block);
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Composes text operations for changed string properties of Block data and remembers the new Block state.
+   * If other properties, Tool or tunes have been changed, the whole Block data is replaced
+   *
+   * @param before - Block state before the change
+   * @param after - Block state after the change
+   */
+  private composeChangeOperations(before: BlockSnapshot, after: BlockSnapshot): CollaborationOperation[] {
+    const texts = this.texts.get(after.id);
+    const keys = Array.from(new Set([...Object.keys(before.data), ...Object.keys(after.data)]));
+    const textKeys = keys.filter((key) => _.isString(before.data[key]) && _.isString(after.data[key]) && texts?.has(key));
+    const isReplaced = before.type !== after.type ||
+      !_.equals(before.tunes ?? {}, after.tunes ?? {}) ||
+      keys.some((key) => !textKeys.includes(key) && !_.equals(before.data[key], after.data[key]));
+
+    if (isReplaced) {
+      const stamp = this.nextStamp();
+
+      this.updateStamps.set(after.id, stamp);
+      this.remember(after, stamp);
+
+      return [ {
+        type: 'update',
+        ...stamp,
+        id: after.id,
+        tool: after.type,
+        data: after.data,
+        tunes: after.tunes,
+      } ];
+    }
+
+    this.snapshots.set(after.id, after);
+
+    return textKeys.reduce((operations, key) => {
+      const splice = diffHtml(before.data[key], after.data[key]);
+      const text = texts?.get(key);
+
+      if (splice === null || text === undefined) {
+        return operations;
+      }
+
+      const stamp = this.nextStamp();
+      const operation: TextCollaborationOperation = {
+        type: 'text',
+        ...stamp,
+        id: after.id,
+        key,
+        ...text.splice(splice, stamp),
+      };
+
+      return [...operations, operation];
+    }, [] as CollaborationOperation[]);
+  }
+
+  /**
+   * Sends operations to collaborators
+   *
+   * @param operations - operations to send
+   */
+  private send(operations: CollaborationOperation[]): void {
+    if (operations.length === 0 || !this.isConnected) {
+      return;
+    }
+
+    this.config.collaboration?.transport.send({
+      type: 'operations',
+      clientId: this.clientId,
+      operations,
+      seen: { ...this.seen },
+    });
+  }
+
+  /**
+   * Handles message received from the transport
+   *
+   * @param message - received message
+   */
+  private receive(message: CollaborationMessage): void {
+    if (message.type !== 'operations' || message.clientId === this.clientId) {
+      return;
+    }
+
+    /**
+     * Local changes should be composed before remote operations are applied
+     */
+    this.Editor.ModificationsObserver.flushMutations();
+
+    this.queue.add(async () => {
+      this.pendingMessages.push(message);
+
+      let deliverable = this.pendingMessages.find((pending) => this.isDeliverable(pending));
+
+      while (deliverable !== undefined) {
+        this.pendingMessages = this.pendingMessages.filter((pending) => pending !== deliverable);
+
+        try {
+          await this.applyOperations(deliverable.operations);
+        } catch (error) {
+          _.log('Operations received from collaborators can not be applied because of %o', 'error', error);
+        }
+
+        deliverable = this.pendingMessages.find((pending) => this.isDeliverable(pending));
+      }
+    });
+  }
+
+  /**
+   * Checks that all operations known to the message sender have been applied
+   *
+   * @param message - received message
+   */
+  private isDeliverable(message: CollaborationMessage): boolean {
+    return Object.entries(message.seen).every(([clientId, clock]) => {
+      return clientId === this.clientId || clientId === message.clientId || (this.seen[clientId] ?? 0) >= clock;
+    });
+  }
+
+  /**
+   * Applies remote operations. Changes made by collaborators are not recorded to the History
+   *
+   * @param operations - operations to apply
+   */
+  private async applyOperations(operations: CollaborationOperation[]): Promise<void> {
+    const { BlockManager, History } = this.Editor;
+
+    await History.skipRecording(async () => {
+      for (const operation of operations) {
+        this.clock = Math.max(this.clock, operation.clock);
+
+        await this.applyOperation(operation);
+
+        this.seen[operation.clientId] = Math.max(this.seen[operation.clientId] ?? 0, operation.clock);
+      }
+    });
+
+    /**
+     * Editor should always contain at least one Block. Inserted Block is sent to collaborators
+     */
+    if (BlockManager.blocks.length === 0) {
+      BlockManager.insert();
+    }
+  }
+
+  /**
+   * Applies single remote operation
+   *
+   * @param operation - operation to apply
+   */
+  private async applyOperation(operation: CollaborationOperation): Promise<void> {
+    const { BlockManager, Renderer } = this.Editor;
+
+    switch (operation.type) {
+      case 'insert': {
+        const { block: blockData, afterId } = operation;
+        const removalStamp = this.removalStamps.get(blockData.id);
+
+        if (BlockManager.getBlockById(blockData.id) !== undefined) {
+          return;
+        }
+
+        if (removalStamp !== undefined && compareStamps(operation, removalStamp) < 0) {
+          return;
+        }
+
+        this.removalStamps.delete(blockData.id);
+        this.positionStamps.set(blockData.id, getStamp(operation));
+        this.remember(blockData, operation);
+
+        await this.mutateBlock(blockData.id, () => {
+          Renderer.insertBlock(blockData, this.getInsertionIndex(afterId, operation));
+        });
+        break;
+      }
+
+      case 'remove': {
+        const block = BlockManager.getBlockById(operation.id);
+        const removalStamp = this.removalStamps.get(operation.id);
+
+        if (removalStamp !== undefined && compareStamps(operation, removalStamp) < 0) {
+          return;
+        }
+
+        this.forgetBlock(operation.id, operation);
+
+        if (block !== undefined) {
+          await this.mutateBlock(operation.id, () => BlockManager.removeBlock(block, false));
+        }
+        break;
+      }
+
+      case 'move': {
+        const block = BlockManager.getBlockById(operation.id);
+        const positionStamp = this.positionStamps.get(operation.id);
+
+        if (block === undefined || (positionStamp !== undefined && compareStamps(operation, positionStamp) < 0)) {
+          return;
+        }
+
+        this.positionStamps.set(operation.id, getStamp(operation));
+
+        await this.mutateBlock(operation.id, () => {
+          this.moveBlock(block, this.getInsertionIndex(operation.afterId, operation, block));
+        });
+        break;
+      }
+
+      case 'update': {
+        const block = BlockManager.getBlockById(operation.id);
+        const updateStamp = this.updateStamps.get(operation.id);
+
+        if (block === undefined || (updateStamp !== undefined && compareStamps(operation, updateStamp) < 0)) {
+          return;
+        }
+
+        const blockData: BlockSnapshot = {
+          id: operation.id,
+          type: operation.tool,
+          data: operation.data,
+          tunes: operation.tunes,
+        };
+
+        this.updateStamps.set(operation.id, getStamp(operation));
+        this.remember(blockData, operation);
+
+        /**
+         * Block is re-created if its Tool has been changed
+         */
+        await this.mutateBlock(operation.id, () => Renderer.reconcileBlock(block, blockData));
+        break;
+      }
+
+      case 'text': {
+        const block = BlockManager.getBlockById(operation.id);
+
+        /**
+         * Local changes that have not been sent yet should be taken into account on transformation
+         */
+        if (block !== undefined) {
+          this.send(await this.composeUnsentOperations(block));
+        }
+
+        await this.applyTextOperation(operation);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Applies text operation to the Block data and keeps the caret position.
+   * Input reflecting the changed property is patched in place, so the Block keeps focus and the Tool state
+   *
+   * @param operation - operation to apply
+   */
+  private async applyTextOperation(operation: TextCollaborationOperation): Promise<void> {
+    const { BlockManager, Caret } = this.Editor;
+    const block = BlockManager.getBlockById(operation.id);
+    const snapshot = this.snapshots.get(operation.id);
+    const text = this.texts.get(operation.id)?.get(operation.key);
+
+    if (block === undefined || snapshot === undefined || text === undefined) {
+      return;
+    }
+
+    const before = text.toString();
+
+    text.apply(operation, operation);
+
+    const after = text.toString();
+    const splice = diffHtml(before, after);
+
+    if (splice === null) {
+      return;
+    }
+
+    if (isWellFormedHtml(before) && !isWellFormedHtml(after)) {
+      _.log('Text of the Block «%s» merged with changes of collaborators is not a valid HTML', 'warn', operation.id);
+    }
+
+    this.snapshots.set(operation.id, {
+      ...snapshot,
+      data: {
+        ...snapshot.data,
+        [operation.key]: after,
+      },
+    });
+
+    const input = block.inputs.find((element) => ($.isNativeInput(element) ? element.value : element.innerHTML) === before);
+
+    if (input !== undefined) {
+      this.patchInput(block, input, before, splice);
+
+      return;
+    }
+
+    /**
+     * Block is re-created only if none of its inputs contains the changed property as is
+     */
+    const caretPosition = Caret.getPosition();
+
+    await BlockManager.update(block, {
+      [operation.key]: after,
+    });
+
+    if (caretPosition !== null && caretPosition.blockId === operation.id) {
+      Caret.setToPosition({
+        ...caretPosition,
+        offset: shiftOffset(caretPosition.offset, this.getTextSplice(before, splice)),
+      });
+    }
+  }
+
+  /**
+   * Applies the splice of the property to the input keeping the caret position
+   *
+   * @param block - Block containing the input
+   * @param input - input containing the property
+   * @param before - property value before the splice
+   * @param splice - splice to apply
+   */
+  private patchInput(block: Block, input: HTMLElement, before: string, splice: TextSplice): void {
+    const { Caret } = this.Editor;
+
+    if ($.isNativeInput(input)) {
+      const { selectionStart, selectionEnd } = input;
+
+      input.value = before.slice(0, splice.index) + splice.insert + before.slice(splice.index + splice.deleteCount);
+
+      if (document.activeElement === input && selectionStart !== null && selectionEnd !== null) {
+        input.setSelectionRange(shiftOffset(selectionStart, splice), shiftOffset(selectionEnd, splice));
+      }
+
+      return;
+    }
+
+    /**
+     * Text changes are made in the text node, so the browser keeps the selection and the composition by itself
+     */
+    if (this.patchTextNode(input, splice)) {
+      return;
+    }
+
+    const caretPosition = Caret.getPosition();
+
+    input.innerHTML = before.slice(0, splice.index) + splice.insert + before.slice(splice.index + splice.deleteCount);
+
+    if (caretPosition !== null && caretPosition.blockId === block.id && block.inputs[caretPosition.inputIndex] === input) {
+      Caret.setToPosition({
+        ...caretPosition,
+        offset: shiftOffset(caretPosition.offset, this.getTextSplice(before, splice)),
+      });
+    }
+  }
+
+  /**
+   * Applies the splice to the text node of the element if it changes only the text of this node
+   *
+   * @param element - element to patch
+   * @param splice - splice of the element HTML
+   * @returns {boolean} false if the splice changes markup or several nodes
+   */
+  private patchTextNode(element: HTMLElement, splice: TextSplice): boolean {
+    const html = element.innerHTML;
+    const removed = html.slice(splice.index, splice.index + splice.deleteCount);
+
+    if (/[<>&]/.test(removed + splice.insert)) {
+      return false;
+    }
+
+    /**
+     * Text nodes with offsets of their serialized text in the element HTML
+     */
+    const textNodes: [Text, number][] = [];
+    let offset = 0;
+
+    /**
+     * Counts length of the serialized node and collects text nodes
+     *
+     * @param node - node to walk
+     */
+    const walk = (node: Node): void => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        textNodes.push([node as Text, offset]);
+        offset += escapeText((node as Text).data).length;
+      } else if (node.nodeType === Node.ELEMENT_NODE) {
+        const child = node as HTMLElement;
+        const closingTag = `</${child.localName}>`;
+        const closingTagLength = child.outerHTML.endsWith(closingTag) ? closingTag.length : 0;
+
+        offset += child.outerHTML.length - child.innerHTML.length - closingTagLength;
+        child.childNodes.forEach(walk);
+        offset += closingTagLength;
+      } else if (node.nodeType === Node.COMMENT_NODE) {
+        offset += `<!--${(node as Comment).data}-->`.length;
+      }
+    };
+
+    element.childNodes.forEach(walk);
+
+    const target = textNodes.find(([node, start]) => {
+      return start <= splice.index && splice.index + splice.deleteCount <= start + escapeText(node.data).length;
+    });
+
+    if (target === undefined) {
+      return false;
+    }
+
+    const [node, start] = target;
+    const dataIndex = getDataOffset(node.data, splice.index - start);
+    const dataEnd = getDataOffset(node.data, splice.index + splice.deleteCount - start);
+
+    if (dataIndex === null || dataEnd === null) {
+      return false;
+    }
+
+    node.replaceData(dataIndex, dataEnd - dataIndex, splice.insert);
+
+    return true;
+  }
+
+  /**
+   * Converts splice of the HTML string into the splice of its text, used to shift caret offsets
+   *
+   * @param html - HTML string before the splice
+   * @param splice - splice of the HTML string. Should not start or end inside a tag
+   */
+  private getTextSplice(html: string, splice: TextSplice): TextSplice {
+    const getText = (fragment: string): string => {
+      const template = document.createElement('template');
+
+      template.innerHTML = fragment;
+
+      return template.content.textContent ?? '';
+    };
+
+    return {
+      index: getText(html.slice(0, splice.index)).length,
+      deleteCount: getText(html.slice(splice.index, splice.index + splice.deleteCount)).length,
+      insert: getText(splice.insert),
+    };
+  }
+
+  /**
+   * Returns index to place the Block after the preceding one.
+   * Blocks placed after the same Block by the later operations stay before
+   *
+   * @param afterId - id of the preceding Block
+   * @param stamp - stamp of the insertion or moving operation
+   * @param movedBlock - Block that is being moved. It is not counted
+   */
+  private getInsertionIndex(afterId: BlockId | null, stamp: OperationStamp, movedBlock?: Block): number {
+    const blocks = this.Editor.BlockManager.blocks.filter((block) => block !== movedBlock);
+    let index = afterId === null ? 0 : blocks.findIndex(({ id }) => id === afterId) + 1;
+
+    /**
+     * Preceding Block has been removed, so Block is placed at the end
+     */
+    if (afterId !== null && index === 0) {
+      return blocks.length;
+    }
+
+    while (index < blocks.length) {
+      const blockStamp = this.positionStamps.get(blocks[index].id);
+
+      if (blockStamp === undefined || compareStamps(blockStamp, stamp) < 0) {
+        break;
+      }
+
+      index++;
+    }
+
+    return index;
+  }
+
+  /**
+   * Moves Block without changing the current Block
+   *
+   * @param block - Block to move
+   * @param toIndex - new Block index
+   */
+  private moveBlock(block: Block, toIndex: number): void {
+    const { BlockManager } = this.Editor;
+    const fromIndex = BlockManager.getBlockIndex(block);
+    const currentBlock = BlockManager.currentBlock;
+
+    if (fromIndex === toIndex) {
+      return;
+    }
+
+    BlockManager.move(toIndex, fromIndex);
+
+    if (currentBlock !== undefined) {
+      BlockManager.currentBlockIndex = BlockManager.getBlockIndex(currentBlock);
+    } else {
+      BlockManager.unsetCurrentBlock();
+    }
+  }
+
+  /**
+   * Drops all known information about the removed Block
+   *
+   * @param id - id of the removed Block
+   * @param stamp - stamp of the removal
+   */
+  private forgetBlock(id: BlockId, stamp: OperationStamp): void {
+    this.snapshots.delete(id);
+    this.texts.delete(id);
+    this.positionStamps.delete(id);
+    this.updateStamps.delete(id);
+    this.removalStamps.set(id, getStamp(stamp));
+  }
+
+  /**
+   * Returns stamp for the new local operation
+   */
+  private nextStamp(): OperationStamp {
+    this.clock++;
+
+    return {
+      clientId: this.clientId,
+      clock: this.clock,
+    };
+  }
+
+  /**
+   * Composes operations from changes of the Block made after the last composed operation
+   *
+   * @param block - Block to check
+   */
+  private async composeUnsentOperations(block: Block): Promise<CollaborationOperation[]> {
+    const before = this.snapshots.get(block.id);
+    const after = await takeBlockSnapshot(block.id, block.save());
+
+    if (before === undefined || after === undefined || _.equals(before, after)) {
+      return [];
+    }
+
+    return this.composeChangeOperations(before, after);
+  }
+
+  /**
+   * Remembers Block state set by the operation and creates shared strings for its string properties
+   *
+   * @param snapshot - Block state
+   * @param stamp - stamp of the operation that has set the state
+   */
+  private remember(snapshot: BlockSnapshot, stamp: OperationStamp): void {
+    const texts = new Map<string, SharedText>();
+
+    Object.entries(snapshot.data).forEach(([key, value]) => {
+      if (_.isString(value)) {
+        texts.set(key, new SharedText(value, stamp));
+      }
+    });
+
+    this.snapshots.set(snapshot.id, snapshot);
+    this.texts.set(snapshot.id, texts);
+  }
+
+  /**
+   * Makes structural change of the Block caused by the remote operation, so it is not sent back
+   *
+   * @param id - id of the changed Block
+   * @param change - function changing the Block
+   */
+  private async mutateBlock(id: BlockId, change: () => unknown): Promise<void> {
+    this.applyingBlocks.add(id);
+
+    try {
+      await change();
+    } finally {
+      this.applyingBlocks.delete(id);
+    }
+  }
+}
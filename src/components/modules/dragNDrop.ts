@@ -1,8 +1,26 @@
 import SelectionUtils from '../selection';
 
 import Module from '../__module';
+import type Block from '../block';
+import { blocksDragScrollStep, blocksDragScrollZone } from '../constants';
+
+/**
+ * Block the dragged Blocks are dropped next to
+ */
+interface BlocksDropTarget {
+  /**
+   * Block the drop indicator is shown at
+   */
+  block: Block;
+
+  /**
+   * Side of the Block the dragged Blocks are placed to
+   */
+  position: 'before' | 'after';
+}
+
 /**
- *
+ * Handles dropping of the external content and reordering of Blocks dragged by the Block Tunes toggler
  */
 export default class DragNDrop extends Module {
   /**
@@ -13,6 +31,23 @@ export default class DragNDrop extends Module {
    */
   private isStartedAtEditor = false;
 
+  /**
+   * Blocks dragged by the Block Tunes toggler. Nested Blocks of the dragged containers are not included
+   */
+  private draggedBlocks: Block[] = [];
+
+  /**
+   * Place where the dragged Blocks will be dropped. Null if they can not be dropped at the current position
+   */
+  private blocksDropTarget: BlocksDropTarget | null = null;
+
+  /**
+   * Returns true if Blocks are dragged by the Block Tunes toggler
+   */
+  public get isDraggingBlocks(): boolean {
+    return this.draggedBlocks.length > 0;
+  }
+
   /**
    * Toggle read-only state
    *
@@ -32,6 +67,45 @@ export default class DragNDrop extends Module {
     }
   }
 
+  /**
+   * Starts dragging of the Block by the Block Tunes toggler.
+   * If the Block is selected, all selected Blocks are dragged.
+   * Blocks data is put to the DataTransfer, so the Blocks could be dropped to another Editor instance
+   *
+   * @param block - Block the toggler is shown for
+   * @param dragEvent - drag start event
+   */
+  public startBlocksDragging(block: Block, dragEvent: DragEvent): void {
+    const { BlockManager, Paste } = this.Editor;
+    const blocks = block.selected ? BlockManager.blocks.filter((selectedBlock) => selectedBlock.selected) : [ block ];
+
+    this.draggedBlocks = blocks.filter((draggedBlock) => {
+      return !blocks.some((container) => BlockManager.getDescendants(container).includes(draggedBlock));
+    });
+
+    this.draggedBlocks.forEach((draggedBlock) => {
+      draggedBlock.dragged = true;
+    });
+
+    if (dragEvent.dataTransfer === null) {
+      return;
+    }
+
+    const editorJSData = Paste.composeEditorJSData(this.draggedBlocks);
+
+    /**
+     * Blocks data is passed to let other Editor instances insert the dragged Blocks.
+     * Text is passed since some browsers do not start dragging without data
+     */
+    if (editorJSData !== undefined) {
+      dragEvent.dataTransfer.setData(Paste.MIME_TYPE, editorJSData);
+    }
+
+    dragEvent.dataTransfer.setData('text/plain', this.draggedBlocks.map(({ holder }) => holder.textContent?.trim()).join('\n\n'));
+    dragEvent.dataTransfer.effectAllowed = 'copyMove';
+    dragEvent.dataTransfer.setDragImage(block.holder, 0, 0);
+  }
+
   /**
    * Add drag events listeners to editor zone
    */
@@ -52,6 +126,10 @@ export default class DragNDrop extends Module {
     this.readOnlyMutableListeners.on(UI.nodes.holder, 'dragover', (dragEvent: DragEvent) => {
       this.processDragOver(dragEvent);
     }, true);
+
+    this.readOnlyMutableListeners.on(UI.nodes.holder, 'dragend', () => {
+      this.finishBlocksDragging();
+    });
   }
 
   /**
@@ -75,11 +153,17 @@ export default class DragNDrop extends Module {
 
     dropEvent.preventDefault();
 
+    if (this.isDraggingBlocks) {
+      await this.dropBlocks();
+
+      return;
+    }
+
     BlockManager.blocks.forEach((block) => {
       block.dropTarget = false;
     });
 
-    if (SelectionUtils.isAtEditor && !SelectionUtils.isCollapsed && this.isStartedAtEditor) {
+    if (SelectionUtils.isRangeInsideContainer(this.Editor.UI.nodes.redactor) && !SelectionUtils.isCollapsed && this.isStartedAtEditor) {
       document.execCommand('delete');
     }
 
@@ -106,7 +190,7 @@ export default class DragNDrop extends Module {
    * Handle drag start event
    */
   private processDragStart(): void {
-    if (SelectionUtils.isAtEditor && !SelectionUtils.isCollapsed) {
+    if (SelectionUtils.isRangeInsideContainer(this.Editor.UI.nodes.redactor) && !SelectionUtils.isCollapsed) {
       this.isStartedAtEditor = true;
     }
 
@@ -118,5 +202,164 @@ export default class DragNDrop extends Module {
    */
   private processDragOver(dragEvent: DragEvent): void {
     dragEvent.preventDefault();
+
+    if (!this.isDraggingBlocks) {
+      return;
+    }
+
+    if (dragEvent.dataTransfer !== null) {
+      dragEvent.dataTransfer.dropEffect = 'move';
+    }
+
+    this.scrollNearViewportEdge(dragEvent.clientY);
+    this.setBlocksDropTarget(this.findBlocksDropTarget(dragEvent));
+  }
+
+  /**
+   * Moves dragged Blocks to the drop target as a single change
+   */
+  private async dropBlocks(): Promise<void> {
+    const { BlockManager, BlocksAPI } = this.Editor;
+    const dropTarget = this.blocksDropTarget;
+    const blocks = this.draggedBlocks;
+
+    this.finishBlocksDragging();
+
+    if (dropTarget === null) {
+      return;
+    }
+
+    const placement = {
+      parentId: dropTarget.block.parentId,
+      slot: dropTarget.block.slot,
+    };
+
+    await BlocksAPI.transaction(() => {
+      let anchor = dropTarget.block;
+      let position = dropTarget.position;
+
+      blocks.forEach((block) => {
+        const fromIndex = BlockManager.getBlockIndex(block);
+        const movedBlocks = [block, ...BlockManager.getDescendants(block)];
+        const restBlocks = BlockManager.blocks.filter((restBlock) => !movedBlocks.includes(restBlock));
+        const anchorIndex = restBlocks.indexOf(anchor);
+        const toIndex = position === 'before' ? anchorIndex : anchorIndex + BlockManager.getDescendants(anchor).length + 1;
+        const isPlacementChanged = block.parentId !== placement.parentId || block.slot !== placement.slot;
+
+        if (toIndex !== fromIndex || isPlacementChanged) {
+          BlockManager.move(toIndex, fromIndex, placement);
+        }
+
+        /**
+         * Next dragged Blocks follow the moved one
+         */
+        anchor = block;
+        position = 'after';
+      });
+    });
+  }
+
+  /**
+   * Finds the Block under the cursor the dragged Blocks can be dropped next to
+   *
+   * @param dragEvent - drag over event
+   */
+  private findBlocksDropTarget(dragEvent: DragEvent): BlocksDropTarget | null {
+    const { BlockManager, UI } = this.Editor;
+    const block = BlockManager.getBlockByChildNode(dragEvent.target as Node);
+
+    /**
+     * Cursor is over the Toolbar or other Editor's elements, so the drop target is kept
+     */
+    if (block === undefined && dragEvent.target !== UI.nodes.redactor) {
+      return this.blocksDropTarget;
+    }
+
+    /**
+     * Cursor is below the Blocks, at the bottom zone
+     */
+    if (block === undefined) {
+      const lastTopLevelBlock = BlockManager.blocks.filter(({ parentId }) => parentId === null).pop();
+
+      return lastTopLevelBlock !== undefined && !this.isDragged(lastTopLevelBlock)
+        ? {
+          block: lastTopLevelBlock,
+          position: 'after',
+        }
+        : null;
+    }
+
+    if (this.isDragged(block)) {
+      return null;
+    }
+
+    const { top, height } = block.holder.getBoundingClientRect();
+
+    return {
+      block,
+      position: dragEvent.clientY < top + height / 2 ? 'before' : 'after',
+    };
+  }
+
+  /**
+   * Returns true if the Block is dragged itself or nested in the dragged container
+   *
+   * @param block - Block to check
+   */
+  private isDragged(block: Block): boolean {
+    const { BlockManager } = this.Editor;
+
+    return this.draggedBlocks.some((draggedBlock) => {
+      return draggedBlock === block || BlockManager.getDescendants(draggedBlock).includes(block);
+    });
+  }
+
+  /**
+   * Moves the drop indicator to the passed drop target
+   *
+   * @param dropTarget - place where the dragged Blocks will be dropped
+   */
+  private setBlocksDropTarget(dropTarget: BlocksDropTarget | null): void {
+    if (this.blocksDropTarget !== null) {
+      this.blocksDropTarget.block.dropTargetBefore = false;
+    }
+
+    this.blocksDropTarget = dropTarget;
+
+    if (dropTarget === null) {
+      return;
+    }
+
+    if (dropTarget.position === 'before') {
+      dropTarget.block.dropTargetBefore = true;
+    } else {
+      dropTarget.block.dropTarget = true;
+    }
+  }
+
+  /**
+   * Scrolls the page while the cursor is near the top or bottom edge of the viewport
+   *
+   * @param clientY - vertical cursor position relative to the viewport
+   */
+  private scrollNearViewportEdge(clientY: number): void {
+    if (clientY < blocksDragScrollZone) {
+      window.scrollBy(0, -blocksDragScrollStep);
+    } else if (clientY > window.innerHeight - blocksDragScrollZone) {
+      window.scrollBy(0, blocksDragScrollStep);
+    }
+  }
+
+  /**
+   * Hides the drop indicator and resets the dragged Blocks
+   */
+  private finishBlocksDragging(): void {
+    this.setBlocksDropTarget(null);
+
+    this.draggedBlocks.forEach((block) => {
+      block.dragged = false;
+    });
+
+    this.draggedBlocks = [];
   }
 }
@@ -0,0 +1,705 @@
+import Module from '../__module';
+import type { BlockId } from '../../../types';
+import type { BlockMutationEvent } from '../../../types/events/block';
+import type { BlockAddedEvent } from '../../../types/events/block/BlockAdded';
+import type { BlockRemovedEvent } from '../../../types/events/block/BlockRemoved';
+import type { BlockMovedEvent } from '../../../types/events/block/BlockMoved';
+import { BlockAddedMutationType } from '../../../types/events/block/BlockAdded';
+import { BlockRemovedMutationType } from '../../../types/events/block/BlockRemoved';
+import { BlockMovedMutationType } from '../../../types/events/block/BlockMoved';
+import { BlockChangedMutationType } from '../../../types/events/block/BlockChanged';
+import type { ModuleConfig } from '../../types-internal/module-config';
+import { BlockChanged } from '../events';
+import type { StubData } from '../../tools/stub';
+import type { CaretPosition } from './caret';
+import Shortcuts from '../utils/shortcuts';
+import PromiseQueue from '../utils/promise-queue';
+import type { BlockSnapshot } from '../utils/blocks';
+import { takeBlockSnapshot } from '../utils/blocks';
+import { historyBatchTimeout, historyMaxLength } from '../constants';
+import * as _ from '../utils';
+
+/**
+ * Reversible operation over a single Block
+ */
+type HistoryOperation =
+  | {
+    type: typeof BlockAddedMutationType | typeof BlockRemovedMutationType;
+
+    /**
+     * Position of the added or removed Block
+     */
+    index: number;
+
+    /**
+     * Block state used to insert it back
+     */
+    block: BlockSnapshot;
+  }
+  | {
+    type: typeof BlockMovedMutationType;
+    fromIndex: number;
+    toIndex: number;
+  }
+  | {
+    type: typeof BlockChangedMutationType;
+
+    /**
+     * Block state before the change
+     */
+    before: BlockSnapshot;
+
+    /**
+     * Block state after the change
+     */
+    after: BlockSnapshot;
+  };
+
+/**
+ * Group of operations undone and redone at once
+ */
+interface HistoryStep {
+  /**
+   * Operations in the order they happened
+   */
+  operations: HistoryOperation[];
+
+  /**
+   * Caret position before the first operation. Restored on undo
+   */
+  caretBefore: CaretPosition | null;
+
+  /**
+   * Caret position after the last operation. Restored on redo
+   */
+  caretAfter: CaretPosition | null;
+}
+
+/**
+ * @module History
+ *
+ * Records Block mutations emitted by the BlockManager and allows to undo and redo them.
+ * Mutations happened within the {@link historyBatchTimeout} are grouped into a single step,
+ * so typing a word or merging two Blocks is undone at once.
+ *
+ * To be able to revert a change, module keeps the last known state of each Block.
+ */
+export default class History extends Module {
+  /**
+   * Steps available for undo. The last one is the most recent
+   */
+  private undoStack: HistoryStep[] = [];
+
+  /**
+   * Undone steps available for redo
+   */
+  private redoStack: HistoryStep[] = [];
+
+  /**
+   * Step collecting operations until the batching timeout is fired
+   */
+  private pendingStep: HistoryStep | null = null;
+
+  /**
+   * Timeout used to commit the pending step
+   */
+  private batchingTimeout: null | ReturnType<typeof setTimeout> = null;
+
+  /**
+   * Last known state of each Block
+   */
+  private snapshots = new Map<BlockId, BlockSnapshot>();
+
+  /**
+   * Saving Blocks is asynchronous, so recording, undo and redo are processed one by one
+   */
+  private queue = new PromiseQueue();
+
+  /**
+   * Flag shows that mutations are caused by undo or redo and should not be recorded
+   */
+  private isApplying = false;
+
+  /**
+   * Flag shows that mutations are not made by the user, for example received from collaborators, and should not be undone
+   */
+  private isRecordingSuspended = false;
+
+  /**
+   * Flag shows that all mutations are collected into the pending step until the transaction end
+   */
+  private isTransactionActive = false;
+
+  /**
+   * Caret position remembered on the last selection change. Used as a caret position before the step
+   */
+  private lastCaretPosition: CaretPosition | null = null;
+
+  /**
+   * @param options - Module options
+   * @param options.config - Editor configuration object
+   * @param options.eventsDispatcher - common Editor event bus
+   * @param options.i18n - Editor instance translator
+   * @param options.tooltip - Editor instance tooltip
+   */
+  constructor({ config, eventsDispatcher, i18n, tooltip }: ModuleConfig) {
+    super({
+      config,
+      eventsDispatcher,
+      i18n,
+      tooltip,
+    });
+
+    this.eventsDispatcher.on(BlockChanged, (payload) => {
+      this.blockChanged(payload.event);
+    });
+  }
+
+  /**
+   * True if there is a step to undo
+   */
+  public get canUndo(): boolean {
+    return this.undoStack.length > 0 || (this.pendingStep !== null && this.pendingStep.operations.length > 0);
+  }
+
+  /**
+   * True if there is a step to redo
+   */
+  public get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Module preparation
+   * Registers undo and redo shortcuts
+   */
+  public prepare(): void {
+    Shortcuts.add({
+      name: 'CMD+Z',
+      on: this.Editor.UI.nodes.redactor,
+      handler: (event: KeyboardEvent) => this.handleShortcut(event, () => this.undo()),
+    });
+
+    Shortcuts.add({
+      name: 'CMD+SHIFT+Z',
+      on: this.Editor.UI.nodes.redactor,
+      handler: (event: KeyboardEvent) => this.handleShortcut(event, () => this.redo()),
+    });
+
+    Shortcuts.add({
+      name: 'CMD+Y',
+      on: this.Editor.UI.nodes.redactor,
+      handler: (event: KeyboardEvent) => this.handleShortcut(event, () => this.redo()),
+    });
+
+    this.listeners.on(document, 'selectionchange', () => {
+      this.lastCaretPosition = this.Editor.Caret.getPosition();
+    });
+  }
+
+  /**
+   * Reverts the last step
+   */
+  public undo(): Promise<void> {
+    return this.queue.add(async () => {
+      this.commit();
+
+      const step = this.undoStack.pop();
+
+      if (step === undefined) {
+        return;
+      }
+
+      await this.applyStep(step, 'undo');
+
+      this.redoStack.push(step);
+    });
+  }
+
+  /**
+   * Repeats the last undone step
+   */
+  public redo(): Promise<void> {
+    return this.queue.add(async () => {
+      this.commit();
+
+      const step = this.redoStack.pop();
+
+      if (step === undefined) {
+        return;
+      }
+
+      await this.applyStep(step, 'redo');
+
+      this.undoStack.push(step);
+    });
+  }
+
+  /**
+   * Drops all recorded steps and remembers current Blocks state as initial.
+   * Blocks rendered in chunks after the first one are remembered once the Renderer inserts them all
+   */
+  public clear(): Promise<void> {
+    if (this.batchingTimeout !== null) {
+      clearTimeout(this.batchingTimeout);
+      this.batchingTimeout = null;
+    }
+
+    const cleared = this.queue.add(async () => {
+      this.undoStack = [];
+      this.redoStack = [];
+      this.pendingStep = null;
+      this.isTransactionActive = false;
+      this.snapshots.clear();
+
+      await this.rememberBlocks();
+    });
+
+    this.Editor.Renderer.isRendered.then(() => this.queue.add(() => this.rememberBlocks()));
+
+    return cleared;
+  }
+
+  /**
+   * Remembers current Blocks state keeping the recorded steps.
+   * Used when Blocks are changed without recording, for example reconciled with the new data
+   */
+  public refreshSnapshots(): Promise<void> {
+    return this.queue.add(async () => {
+      this.commit();
+      this.snapshots.clear();
+
+      await this.rememberBlocks();
+    });
+  }
+
+  /**
+   * Starts collecting mutations into a single step that won't be committed by the batching timeout
+   */
+  public startTransaction(): Promise<void> {
+    return this.queue.add(() => {
+      this.commit();
+
+      this.isTransactionActive = true;
+      this.pendingStep = {
+        operations: [],
+        caretBefore: this.Editor.Caret.getPosition() ?? this.lastCaretPosition,
+        caretAfter: null,
+      };
+    });
+  }
+
+  /**
+   * Commits mutations collected since the transaction start as a single step
+   */
+  public commitTransaction(): Promise<void> {
+    return this.queue.add(() => {
+      this.isTransactionActive = false;
+      this.commit();
+    });
+  }
+
+  /**
+   * Reverts mutations collected since the transaction start. Reverted step can not be redone
+   */
+  public rollbackTransaction(): Promise<void> {
+    return this.queue.add(async () => {
+      const step = this.pendingStep;
+
+      this.isTransactionActive = false;
+      this.pendingStep = null;
+
+      if (step !== null && step.operations.length > 0) {
+        await this.applyStep(step, 'undo');
+      }
+    });
+  }
+
+  /**
+   * Applies changes that should not be undone by the user, for example received from collaborators.
+   * Remembered Blocks states are still updated, so the following steps revert only the user changes
+   *
+   * @param action - function making changes
+   */
+  public async skipRecording(action: () => Promise<void>): Promise<void> {
+    this.isRecordingSuspended = true;
+
+    try {
+      await action();
+    } finally {
+      /**
+       * Wait for DOM mutations caused by the action to be delivered
+       */
+      await new Promise((resolve) => setTimeout(resolve));
+
+      this.isRecordingSuspended = false;
+    }
+  }
+
+  /**
+   * Module destruction
+   * De-registers undo and redo shortcuts
+   */
+  public destroy(): void {
+    Shortcuts.remove(this.Editor.UI.nodes.redactor, 'CMD+Z');
+    Shortcuts.remove(this.Editor.UI.nodes.redactor, 'CMD+SHIFT+Z');
+    Shortcuts.remove(this.Editor.UI.nodes.redactor, 'CMD+Y');
+  }
+
+  /**
+   * Handles undo/redo shortcut. Native undo is prevented since it knows nothing about Blocks
+   *
+   * @param event - keydown event
+   * @param action - undo or redo
+   */
+  private handleShortcut(event: KeyboardEvent, action: () => Promise<void>): void {
+    if (this.Editor.ReadOnly.isEnabled) {
+      return;
+    }
+
+    event.preventDefault();
+
+    action().catch((error) => {
+      _.log('History step can not be applied because of %o', 'error', error);
+    });
+  }
+
+  /**
+   * Records Block mutation into the pending step
+   *
+   * @param event - Block mutation event
+   */
+  private blockChanged(event: BlockMutationEvent): void {
+    if (this.isApplying || !this.Editor.ModificationsObserver.isEnabled) {
+      return;
+    }
+
+    if (this.isRecordingSuspended) {
+      this.queue.add(async () => {
+        try {
+          await this.refreshSnapshot(event);
+        } catch (error) {
+          _.log('Block state is not updated in the History because of %o', 'warn', error);
+        }
+      });
+
+      return;
+    }
+
+    if (this.pendingStep === null) {
+      this.pendingStep = {
+        operations: [],
+        caretBefore: this.lastCaretPosition,
+        caretAfter: null,
+      };
+    }
+
+    const step = this.pendingStep;
+
+    this.queue.add(async () => {
+      try {
+        await this.recordOperation(step, event);
+      } catch (error) {
+        _.log('Block mutation is not recorded to the History because of %o', 'warn', error);
+      }
+    });
+
+    if (this.batchingTimeout !== null) {
+      clearTimeout(this.batchingTimeout);
+      this.batchingTimeout = null;
+    }
+
+    /**
+     * Transaction step is committed explicitly
+     */
+    if (this.isTransactionActive) {
+      return;
+    }
+
+    this.batchingTimeout = setTimeout(() => {
+      this.batchingTimeout = null;
+      this.queue.add(() => this.commit());
+    }, historyBatchTimeout);
+  }
+
+  /**
+   * Converts Block mutation event into a reversible operation and adds it to the step
+   *
+   * @param step - step to add operation to
+   * @param event - Block mutation event
+   */
+  private async recordOperation(step: HistoryStep, event: BlockMutationEvent): Promise<void> {
+    const target = event.detail.target;
+
+    switch (event.type) {
+      case BlockAddedMutationType: {
+        const snapshot = await takeBlockSnapshot(target.id, target.save());
+
+        if (snapshot === undefined) {
+          return;
+        }
+
+        this.snapshots.set(target.id, snapshot);
+
+        step.operations.push({
+          type: BlockAddedMutationType,
+          index: (event as BlockAddedEvent).detail.index,
+          block: snapshot,
+        });
+        break;
+      }
+
+      case BlockRemovedMutationType: {
+        const snapshot = this.snapshots.get(target.id) ?? await takeBlockSnapshot(target.id, target.save());
+
+        if (snapshot === undefined) {
+          return;
+        }
+
+        this.snapshots.delete(target.id);
+
+        step.operations.push({
+          type: BlockRemovedMutationType,
+          index: (event as BlockRemovedEvent).detail.index,
+          block: snapshot,
+        });
+        break;
+      }
+
+      case BlockMovedMutationType:
+        step.operations.push({
+          type: BlockMovedMutationType,
+          fromIndex: (event as BlockMovedEvent).detail.fromIndex,
+          toIndex: (event as BlockMovedEvent).detail.toIndex,
+        });
+        break;
+
+      case BlockChangedMutationType: {
+        const before = this.snapshots.get(target.id);
+        const after = await takeBlockSnapshot(target.id, target.save());
+
+        if (after === undefined) {
+          return;
+        }
+
+        this.snapshots.set(target.id, after);
+
+        if (before === undefined || _.equals(before, after)) {
+          return;
+        }
+
+        /**
+         * Several changes of the same Block within a step are stored as one change
+         */
+        const sameBlockChange = step.operations.find((operation) => {
+          return operation.type === BlockChangedMutationType && operation.after.id === target.id;
+        });
+
+        if (sameBlockChange !== undefined && sameBlockChange.type === BlockChangedMutationType) {
+          sameBlockChange.after = after;
+        } else {
+          step.operations.push({
+            type: BlockChangedMutationType,
+            before,
+            after,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Updates remembered state of the mutated Block without recording an operation
+   *
+   * @param event - Block mutation event
+   */
+  private async refreshSnapshot(event: BlockMutationEvent): Promise<void> {
+    const target = event.detail.target;
+
+    if (event.type === BlockRemovedMutationType) {
+      this.snapshots.delete(target.id);
+
+      return;
+    }
+
+    const snapshot = await takeBlockSnapshot(target.id, target.save());
+
+    if (snapshot !== undefined) {
+      this.snapshots.set(target.id, snapshot);
+    }
+  }
+
+  /**
+   * Moves pending step to the undo stack
+   */
+  private commit(): void {
+    if (this.batchingTimeout !== null) {
+      clearTimeout(this.batchingTimeout);
+      this.batchingTimeout = null;
+    }
+
+    const step = this.pendingStep;
+
+    this.pendingStep = null;
+
+    if (step === null || step.operations.length === 0) {
+      return;
+    }
+
+    step.caretAfter = this.Editor.Caret.getPosition();
+
+    this.undoStack.push(step);
+
+    if (this.undoStack.length > historyMaxLength) {
+      this.undoStack.shift();
+    }
+
+    /**
+     * New change makes undone steps irrelevant
+     */
+    this.redoStack = [];
+  }
+
+  /**
+   * Reverts or repeats operations of the passed step
+   *
+   * @param step - step to apply
+   * @param direction - 'undo' to revert operations, 'redo' to repeat them
+   */
+  private async applyStep(step: HistoryStep, direction: 'undo' | 'redo'): Promise<void> {
+    const { BlockManager, BlockSelection, Caret, Toolbar } = this.Editor;
+    const operations = direction === 'undo' ? [ ...step.operations ].reverse() : step.operations;
+
+    this.isApplying = true;
+
+    BlockSelection.clearSelection();
+    Toolbar.close();
+
+    try {
+      for (const operation of operations) {
+        await this.applyOperation(operation, direction);
+      }
+
+      /**
+       * Editor should always contain at least one Block
+       */
+      if (BlockManager.blocks.length === 0) {
+        BlockManager.insert();
+      }
+
+      const caretPosition = direction === 'undo' ? step.caretBefore : step.caretAfter;
+
+      if (caretPosition !== null) {
+        Caret.setToPosition(caretPosition);
+      }
+    } finally {
+      /**
+       * Wait for DOM mutations caused by the step to be delivered, so they won't be recorded as a new step
+       */
+      await new Promise((resolve) => setTimeout(resolve));
+
+      this.isApplying = false;
+    }
+  }
+
+  /**
+   * Reverts or repeats single operation
+   *
+   * @param operation - operation to apply
+   * @param direction - 'undo' to revert operation, 'redo' to repeat it
+   */
+  private async applyOperation(operation: HistoryOperation, direction: 'undo' | 'redo'): Promise<void> {
+    const { BlockManager } = this.Editor;
+    const isUndo = direction === 'undo';
+
+    switch (operation.type) {
+      case BlockAddedMutationType:
+      case BlockRemovedMutationType: {
+        const shouldInsert = (operation.type === BlockRemovedMutationType) === isUndo;
+
+        if (shouldInsert) {
+          this.insertSnapshot(operation.block, operation.index);
+        } else {
+          const block = BlockManager.getBlockById(operation.block.id);
+
+          if (block !== undefined) {
+            await BlockManager.removeBlock(block, false);
+          }
+
+          this.snapshots.delete(operation.block.id);
+        }
+        break;
+      }
+
+      case BlockMovedMutationType:
+        if (isUndo) {
+          BlockManager.move(operation.fromIndex, operation.toIndex);
+        } else {
+          BlockManager.move(operation.toIndex, operation.fromIndex);
+        }
+        break;
+
+      case BlockChangedMutationType: {
+        const snapshot = isUndo ? operation.before : operation.after;
+        const block = BlockManager.getBlockById(snapshot.id);
+
+        if (block === undefined) {
+          return;
+        }
+
+        await BlockManager.update(block, snapshot.data, snapshot.tunes);
+
+        this.snapshots.set(snapshot.id, snapshot);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Inserts Block with the saved state
+   *
+   * @param snapshot - Block state
+   * @param index - index to insert Block at
+   */
+  private insertSnapshot(snapshot: BlockSnapshot, index: number): void {
+    const { BlockManager, Renderer, Tools } = this.Editor;
+    let data = snapshot.data;
+
+    /**
+     * Stub Block saves the original Block data, so we need to wrap it again
+     */
+    if (snapshot.type === Tools.stubTool) {
+      const originalBlock = snapshot.data as BlockSnapshot;
+
+      data = Renderer.composeStubDataForTool(originalBlock.type, originalBlock.data, originalBlock.id) as StubData;
+    }
+
+    BlockManager.insert({
+      id: snapshot.id,
+      tool: snapshot.type,
+      data,
+      tunes: snapshot.tunes,
+      index,
+      needToFocus: false,
+    });
+
+    this.snapshots.set(snapshot.id, snapshot);
+  }
+
+  /**
+   * Remembers state of the Blocks having no snapshot yet
+   */
+  private async rememberBlocks(): Promise<void> {
+    const blocks = this.Editor.BlockManager.blocks.filter((block) => !this.snapshots.has(block.id));
+    const snapshots = await Promise.all(
+      blocks.map((block) => takeBlockSnapshot(block.id, block.save()))
+    );
+
+    snapshots.forEach((snapshot) => {
+      if (snapshot !== undefined) {
+        this.snapshots.set(snapshot.id, snapshot);
+      }
+    });
+  }
+}
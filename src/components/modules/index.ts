@@ -1,12 +1,15 @@
 /** ./api */
+import AutosaveAPI from './api/autosave';
 import BlocksAPI from './api/blocks';
 import CaretAPI from './api/caret';
 import EventsAPI from './api/events';
+import HistoryAPI from './api/history';
 import I18nAPI from './api/i18n';
 import API from './api/index';
 import InlineToolbarAPI from './api/inlineToolbar';
 import ListenersAPI from './api/listeners';
 import NotifierAPI from './api/notifier';
+import PresenceAPI from './api/presence';
 import ReadOnlyAPI from './api/readonly';
 import SanitizerAPI from './api/sanitizer';
 import SaverAPI from './api/saver';
@@ -23,31 +26,39 @@ import Toolbar from './toolbar/index';
 import InlineToolbar from './toolbar/inline';
 
 /** . */
+import Autosave from './autosave';
 import BlockEvents from './blockEvents';
 import BlockManager from './blockManager';
 import BlockSelection from './blockSelection';
 import Caret from './caret';
+import Collaboration from './collaboration';
 import CrossBlockSelection from './crossBlockSelection';
 import DragNDrop from './dragNDrop';
+import History from './history';
 import ModificationsObserver from './modificationsObserver';
 import Paste from './paste';
+import Presence from './presence';
 import ReadOnly from './readonly';
 import RectangleSelection from './rectangleSelection';
 import Renderer from './renderer';
 import Saver from './saver';
 import Tools from './tools';
 import UI from './ui';
+import Virtualization from './virtualization';
 
 export default {
   // API Modules
+  AutosaveAPI,
   BlocksAPI,
   CaretAPI,
   EventsAPI,
+  HistoryAPI,
   I18nAPI,
   API,
   InlineToolbarAPI,
   ListenersAPI,
   NotifierAPI,
+  PresenceAPI,
   ReadOnlyAPI,
   SanitizerAPI,
   SaverAPI,
@@ -64,18 +75,23 @@ export default {
   InlineToolbar,
 
   // Modules
+  Autosave,
   BlockEvents,
   BlockManager,
   BlockSelection,
   Caret,
+  Collaboration,
   CrossBlockSelection,
   DragNDrop,
+  History,
   ModificationsObserver,
   Paste,
+  Presence,
   ReadOnly,
   RectangleSelection,
   Renderer,
   Saver,
   Tools,
   UI,
+  Virtualization,
 };
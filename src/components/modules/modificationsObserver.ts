@@ -42,17 +42,26 @@ export default class ModificationsObserver extends Module {
    */
   private readonly batchTime = modificationsObserverBatchTimeout;
 
+  /**
+   * Flag shows that events are collected until the transaction end instead of the batching timeout
+   */
+  private isTransactionActive = false;
+
   /**
    * Prepare the module
    *
    * @param options - options used by the modification observer module
    * @param options.config - Editor configuration object
    * @param options.eventsDispatcher - common Editor event bus
+   * @param options.i18n - Editor instance translator
+   * @param options.tooltip - Editor instance tooltip
    */
-  constructor({ config, eventsDispatcher }: ModuleConfig) {
+  constructor({ config, eventsDispatcher, i18n, tooltip }: ModuleConfig) {
     super({
       config,
       eventsDispatcher,
+      i18n,
+      tooltip,
     });
 
     this.mutationObserver = new MutationObserver((mutations) => {
@@ -75,6 +84,13 @@ export default class ModificationsObserver extends Module {
     });
   }
 
+  /**
+   * True if Block mutations are currently treated as user changes
+   */
+  public get isEnabled(): boolean {
+    return !this.disabled;
+  }
+
   /**
    * Enables onChange event
    */
@@ -99,6 +115,51 @@ export default class ModificationsObserver extends Module {
     this.disabled = true;
   }
 
+  /**
+   * Processes DOM mutations that have not been delivered by the MutationObserver yet,
+   * so Blocks are marked as mutated synchronously
+   */
+  public flushMutations(): void {
+    const mutations = this.mutationObserver.takeRecords();
+
+    if (mutations.length > 0) {
+      this.redactorChanged(mutations);
+    }
+  }
+
+  /**
+   * Starts collecting events for the single onChange call made on transaction commit.
+   * Events batched before the transaction are emitted immediately
+   */
+  public startTransaction(): void {
+    if (this.batchingTimeout) {
+      clearTimeout(this.batchingTimeout);
+      this.batchingTimeout = null;
+      this.emitBatchedEvents();
+    }
+
+    this.isTransactionActive = true;
+  }
+
+  /**
+   * Emits all events collected during the transaction as a single onChange call
+   */
+  public commitTransaction(): void {
+    this.isTransactionActive = false;
+
+    if (this.batchingOnChangeQueue.size > 0) {
+      this.emitBatchedEvents(true);
+    }
+  }
+
+  /**
+   * Drops events collected during the transaction, since its changes have been reverted
+   */
+  public rollbackTransaction(): void {
+    this.isTransactionActive = false;
+    this.batchingOnChangeQueue.clear();
+  }
+
   /**
    * Call onChange event passed to Editor.js configuration
    *
@@ -111,28 +172,47 @@ export default class ModificationsObserver extends Module {
 
     this.batchingOnChangeQueue.set(`block:${event.detail.target.id}:event:${event.type as BlockMutationType}`, event);
 
+    /**
+     * Events collected during the transaction are emitted on commit
+     */
+    if (this.isTransactionActive) {
+      return;
+    }
+
     if (this.batchingTimeout) {
       clearTimeout(this.batchingTimeout);
     }
 
     this.batchingTimeout = setTimeout(() => {
-      let eventsToEmit;
-
-      /**
-       * Ih we have only 1 event in a queue, unwrap it
-       */
-      if (this.batchingOnChangeQueue.size === 1) {
-        eventsToEmit = this.batchingOnChangeQueue.values().next().value;
-      } else {
-        eventsToEmit = Array.from(this.batchingOnChangeQueue.values());
-      }
+      this.batchingTimeout = null;
+      this.emitBatchedEvents();
+    }, this.batchTime);
+  }
 
-      if (this.config.onChange) {
-        this.config.onChange(this.Editor.API.methods, eventsToEmit);
-      }
+  /**
+   * Calls onChange with events collected in the batching queue
+   *
+   * @param alwaysAsArray - pass true to emit an array even if there is a single event
+   */
+  private emitBatchedEvents(alwaysAsArray = false): void {
+    let eventsToEmit;
 
-      this.batchingOnChangeQueue.clear();
-    }, this.batchTime);
+    /**
+     * Ih we have only 1 event in a queue, unwrap it
+     */
+    if (this.batchingOnChangeQueue.size === 1 && !alwaysAsArray) {
+      eventsToEmit = this.batchingOnChangeQueue.values().next().value;
+    } else {
+      eventsToEmit = Array.from(this.batchingOnChangeQueue.values());
+    }
+
+    if (this.config.onChange) {
+      this.config.onChange(this.Editor.API.methods, eventsToEmit);
+    }
+
+    this.Editor.Autosave.changed();
+
+    this.batchingOnChangeQueue.clear();
   }
 
   /**
@@ -2,16 +2,28 @@ import Module from '../__module';
 import $ from '../dom';
 import * as _ from '../utils';
 import type {
-  BlockAPI,
+  BlockAPI as BlockAPIInterface,
+  MarkdownBlock,
+  OutputBlockData,
   PasteEvent,
   PasteEventDetail,
   SanitizerConfig,
   SanitizerRule
 } from '../../../types';
 import type Block from '../block';
+import BlockAPI from '../block/api';
 import type { SavedData } from '../../../types/data-formats';
+import type { StubData } from '../../tools/stub';
 import { clean, sanitizeBlocks } from '../utils/sanitizer';
 import type BlockToolAdapter from '../tools/block';
+import { getMarkdownBlockHtml, isMarkdown, parseMarkdown } from '../utils/markdown';
+import { convertStringToBlockData } from '../utils/blocks';
+
+/**
+ * Block data passed between Editor instances as application/x-editor-js JSON.
+ * Nested Blocks follow their containers and refer to them by the 'parent' property
+ */
+type TransferredBlockData = Pick<SavedData, 'data' | 'tool'> & Partial<Pick<SavedData, 'id' | 'tunes'>> & Pick<OutputBlockData, 'parent' | 'children'>;
 
 /**
  * Tag substitute object.
@@ -145,6 +157,19 @@ export default class Paste extends Module {
     this.processTools();
   }
 
+  /**
+   * Collects paste configurations of the Tools again after the Tool is registered or unregistered
+   */
+  public updateToolsConfigs(): void {
+    this.toolsTags = {};
+    this.tagsByTool = {};
+    this.toolsPatterns = [];
+    this.toolsFiles = {};
+    this.exceptionList = [];
+
+    this.processTools();
+  }
+
   /**
    * Set read-only state
    *
@@ -224,6 +249,68 @@ export default class Paste extends Module {
     }
   }
 
+  /**
+   * Composes application/x-editor-js JSON with data of the passed Blocks, so they could be inserted to another Editor instance.
+   * Nested Blocks of the passed containers are included along with their placement.
+   * Data is composed synchronously to be put to the DataTransfer during the copy or drag start event
+   *
+   * @param blocks - Blocks to compose data of
+   * @returns {string|undefined} - undefined if some Tool saves data asynchronously
+   */
+  public composeEditorJSData(blocks: Block[]): string | undefined {
+    const { BlockManager, Tools } = this.Editor;
+    const transferredBlocks = Array.from(new Set(blocks.flatMap((block) => [block, ...BlockManager.getDescendants(block)])));
+    const transferredIds = new Set(transferredBlocks.map(({ id }) => id));
+    const blocksData: TransferredBlockData[] = [];
+
+    for (const block of transferredBlocks) {
+      const savedData = block.saveSync();
+
+      if (savedData === undefined) {
+        return;
+      }
+
+      const { id, tool, data, tunes } = savedData;
+      const nesting = {
+        ...block.parentId !== null && transferredIds.has(block.parentId) && {
+          parent: block.parentId,
+        },
+        ...block.slots.length > 0 && {
+          children: Object.fromEntries(block.slots.map((slot) => {
+            return [slot, BlockManager.getChildren(block, slot).map((child) => child.id)];
+          })),
+        },
+      };
+
+      /**
+       * Stub keeps the original data of the unavailable Tool
+       */
+      if (tool === Tools.stubTool) {
+        const { savedData: original } = data as StubData;
+
+        blocksData.push({
+          id,
+          tool: original.type,
+          data: original.data,
+          tunes,
+          ...nesting,
+        });
+
+        continue;
+      }
+
+      blocksData.push({
+        id,
+        tool,
+        data,
+        tunes,
+        ...nesting,
+      });
+    }
+
+    return JSON.stringify(blocksData);
+  }
+
   /**
    * Process pasted text and divide them into Blocks
    *
@@ -232,6 +319,16 @@ export default class Paste extends Module {
    */
   public async processText(data: string, isHTML = false): Promise<void> {
     const { Caret, BlockManager } = this.Editor;
+
+    /**
+     * Tools handling line breaks by themselves, like code, expect the text as is
+     */
+    if (!isHTML && BlockManager.currentBlock?.tool.isLineBreaksEnabled !== true && isMarkdown(data)) {
+      this.processMarkdown(data);
+
+      return;
+    }
+
     const dataToInsert = isHTML ? this.processHTML(data) : this.processPlain(data);
 
     if (!dataToInsert.length) {
@@ -240,9 +337,9 @@ export default class Paste extends Module {
 
     if (dataToInsert.length === 1) {
       if (!dataToInsert[0].isBlock) {
-        this.processInlinePaste(dataToInsert.pop());
+        await this.processInlinePaste(dataToInsert.pop());
       } else {
-        this.processSingleBlock(dataToInsert.pop());
+        await this.processSingleBlock(dataToInsert.pop());
       }
 
       return;
@@ -260,6 +357,26 @@ export default class Paste extends Module {
     }
   }
 
+  /**
+   * Parse Markdown and compose Blocks data using Tools importMarkdown methods.
+   * Elements that can not be imported by any Tool are converted to the default Block
+   *
+   * @param {string} markdown - Markdown to parse
+   * @returns {OutputBlockData[]}
+   */
+  public composeBlocksFromMarkdown(markdown: string): OutputBlockData[] {
+    const { Tools } = this.Editor;
+    const blocks = parseMarkdown(markdown)
+      .map((markdownBlock) => this.composeBlockFromMarkdown(markdownBlock))
+      .filter((block): block is Pick<SavedData, 'data' | 'tool'> => block !== undefined);
+
+    return sanitizeBlocks(blocks, (name) => (Tools.blockTools.get(name) as BlockToolAdapter).sanitizeConfig)
+      .map(({ tool, data }) => ({
+        type: tool,
+        data,
+      }));
+  }
+
   /**
    * Set onPaste callback handler
    */
@@ -292,15 +409,16 @@ export default class Paste extends Module {
    */
   private processTool = (tool: BlockToolAdapter): void => {
     try {
-      const toolInstance = tool.create({}, {} as BlockAPI, false);
-
       if (tool.pasteConfig === false) {
         this.exceptionList.push(tool.name);
 
         return;
       }
 
-      if (!_.isFunction(toolInstance.onPaste)) {
+      /**
+       * Tool loaded on demand is expected to handle paste if the paste config is passed in its settings
+       */
+      if (tool.isLoaded && !_.isFunction(tool.create({}, {} as BlockAPIInterface, false).onPaste)) {
         return;
       }
 
@@ -499,9 +617,21 @@ export default class Paste extends Module {
     }
 
     event.preventDefault();
-    this.processDataTransfer(event.clipboardData);
+
+    const blocksBeforePaste = new Set(BlockManager.blocks);
+    const processing = this.processDataTransfer(event.clipboardData);
 
     Toolbar.close();
+
+    await processing;
+
+    this.eventsDispatcher.emit('paste:processed', {
+      blocks: BlockManager.blocks
+        .filter((block) => !blocksBeforePaste.has(block))
+        // we cast to any because our BlockAPI has no "new" signature
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .map((block) => new (BlockAPI as any)(block)),
+    });
   };
 
   /**
@@ -736,6 +866,78 @@ export default class Paste extends Module {
       });
   }
 
+  /**
+   * Insert Blocks composed from pasted Markdown.
+   * Single paragraph is inserted at caret position like a plain text
+   *
+   * @param {string} markdown - pasted Markdown
+   */
+  private processMarkdown(markdown: string): void {
+    const { BlockManager } = this.Editor;
+    const { currentBlock } = BlockManager;
+    const markdownBlocks = parseMarkdown(markdown);
+
+    if (markdownBlocks.length === 1 && markdownBlocks[0].type === 'paragraph' && currentBlock?.currentInput) {
+      document.execCommand(
+        'insertHTML',
+        false,
+        clean(markdownBlocks[0].text, currentBlock.tool.baseSanitizeConfig)
+      );
+
+      return;
+    }
+
+    this.insertBlocksData(
+      this.composeBlocksFromMarkdown(markdown).map(({ type, data }) => ({
+        tool: type,
+        data,
+      }))
+    );
+  }
+
+  /**
+   * Compose Block data from the Markdown element using the first Tool that can import it
+   *
+   * @param {MarkdownBlock} markdownBlock - block-level Markdown element
+   * @returns {{tool: string, data: object}|undefined} - undefined if element should be skipped
+   */
+  private composeBlockFromMarkdown(markdownBlock: MarkdownBlock): Pick<SavedData, 'data' | 'tool'> | undefined {
+    const { Tools } = this.Editor;
+
+    for (const tool of Tools.blockTools.values()) {
+      if (tool.importMarkdown === undefined) {
+        continue;
+      }
+
+      try {
+        const data = tool.importMarkdown(markdownBlock);
+
+        if (data !== undefined) {
+          return {
+            tool: tool.name,
+            data,
+          };
+        }
+      } catch (e) {
+        _.log(`Tool «${tool.name}» failed to import Markdown`, 'error', e);
+      }
+    }
+
+    /**
+     * Delimiter has no content to put into the default Block
+     */
+    if (markdownBlock.type === 'delimiter') {
+      return;
+    }
+
+    const { defaultTool } = Tools;
+
+    return {
+      tool: defaultTool.name,
+      data: convertStringToBlockData(getMarkdownBlockHtml(markdownBlock), defaultTool.conversionConfig, defaultTool.settings),
+    };
+  }
+
   /**
    * Process paste of single Block tool content
    *
@@ -867,13 +1069,136 @@ export default class Paste extends Module {
    * @param {Array} blocks — Blocks' data to insert
    * @returns {void}
    */
-  private insertEditorJSData(blocks: Pick<SavedData, 'id' | 'data' | 'tool'>[]): void {
-    const { BlockManager, Caret, Tools } = this.Editor;
-    const sanitizedBlocks = sanitizeBlocks(blocks, (name) =>
-      Tools.blockTools.get(name).sanitizeConfig
-    );
+  private insertEditorJSData(blocks: TransferredBlockData[]): void {
+    const { Tools, Renderer, BlockManager } = this.Editor;
+    const acceptedBlocks = blocks.filter((block) => this.isTransferredBlockAccepted(block));
+    const usedIds = new Set(BlockManager.blocks.map(({ id }) => id));
+
+    /**
+     * Id is regenerated if the Block with the same id already exists, for example when Blocks are copied within the Editor.
+     * Nested Blocks refer to their containers by the new ids
+     */
+    const ids = new Map(acceptedBlocks.map((block, index) => {
+      const id = block.id !== undefined && !usedIds.has(block.id) ? block.id : _.generateBlockId();
+
+      usedIds.add(id);
+
+      return [block.id ?? index, id];
+    }));
+
+    this.insertBlocksData(acceptedBlocks.map((block, index) => {
+      const id = ids.get(block.id ?? index) as string;
+      const parent = block.parent !== undefined ? ids.get(block.parent) : undefined;
+      const nesting = {
+        ...parent !== undefined && {
+          parent,
+        },
+        ...block.children !== undefined && {
+          children: Object.fromEntries(Object.entries(block.children).map(([slot, childrenIds]) => {
+            return [slot, childrenIds.map((childId) => ids.get(childId)).filter((childId): childId is string => childId !== undefined)];
+          })),
+        },
+      };
+
+      /**
+       * Data of the unavailable Tool is kept as is by the Stub, so it is not sanitized
+       */
+      if (!Tools.available.has(block.tool)) {
+        return {
+          ...block,
+          ...nesting,
+          id,
+          tool: Tools.stubTool,
+          data: Renderer.composeStubDataForTool(block.tool, block.data, id),
+        };
+      }
+
+      const [ sanitizedBlock ] = sanitizeBlocks([ { ...block } ], (name) => Tools.blockTools.get(name)?.sanitizeConfig ?? {});
+
+      return {
+        ...sanitizedBlock,
+        ...nesting,
+        id,
+      };
+    }));
+  }
+
+  /**
+   * Checks if the Block passed from another Editor instance can be inserted.
+   * Blocks of the Tools not configured in this Editor are rejected unless the 'acceptTransferredBlock' config hook allows them
+   *
+   * @param block - passed Block data
+   */
+  private isTransferredBlockAccepted({ id, tool, data, tunes }: TransferredBlockData): boolean {
+    const isToolAvailable = this.Editor.Tools.available.has(tool);
+
+    if (!_.isFunction(this.config.acceptTransferredBlock)) {
+      if (!isToolAvailable) {
+        _.log(`Block «${tool}» is skipped since the Tool is not configured`, 'warn');
+      }
+
+      return isToolAvailable;
+    }
+
+    return this.config.acceptTransferredBlock({
+      id,
+      type: tool,
+      data,
+      tunes,
+    }, isToolAvailable);
+  }
+
+  /**
+   * Insert Blocks with already sanitized data after the current Block.
+   * Nested Blocks are inserted to the slots of their containers inserted before
+   *
+   * @param {Array} blocks — Blocks' data to insert
+   * @returns {void}
+   */
+  private insertBlocksData(blocks: TransferredBlockData[]): void {
+    const { BlockManager, Caret } = this.Editor;
+    const insertedIds = new Set<string>();
+    const slotsById = new Map<string, string>();
+
+    /**
+     * Slots filled by the inserted Blocks. Default Blocks added to the empty slots of the inserted containers are replaced
+     */
+    const filledSlots = new Set<string>();
+
+    blocks.forEach(({ children = {} }) => {
+      Object.entries(children).forEach(([slot, ids]) => ids.forEach((id) => slotsById.set(id, slot)));
+    });
+
+    blocks.forEach(({ id, tool, data, tunes, parent }, i) => {
+      const container = parent !== undefined && insertedIds.has(parent) ? BlockManager.getBlockById(parent) : undefined;
+
+      if (container !== undefined && container.slots.length > 0) {
+        const slotName = id !== undefined ? slotsById.get(id) : undefined;
+        const slot = slotName !== undefined && container.slots.includes(slotName) ? slotName : container.slots[0];
+        const siblings = BlockManager.getChildren(container, slot);
+        const lastSibling = siblings[siblings.length - 1] ?? container;
+        const isPlaceholder = !filledSlots.has(`${container.id}:${slot}`) && siblings.length === 1 &&
+          siblings[0].tool.isDefault && siblings[0].isEmpty;
+
+        filledSlots.add(`${container.id}:${slot}`);
+
+        const block = BlockManager.insert({
+          id,
+          tool,
+          data,
+          tunes,
+          index: isPlaceholder ? BlockManager.getBlockIndex(lastSibling) : BlockManager.getBlockIndex(lastSibling) + BlockManager.getDescendants(lastSibling).length + 1,
+          replace: isPlaceholder,
+          needToFocus: false,
+          parentId: container.id,
+          slot,
+        });
+
+        insertedIds.add(block.id);
+
+        return;
+      }
 
-    sanitizedBlocks.forEach(({ tool, data }, i) => {
       let needToReplaceCurrentBlock = false;
 
       if (i === 0) {
@@ -883,11 +1208,14 @@ export default class Paste extends Module {
       }
 
       const block = BlockManager.insert({
+        id,
         tool,
         data,
+        tunes,
         replace: needToReplaceCurrentBlock,
       });
 
+      insertedIds.add(block.id);
       Caret.setToBlock(block, Caret.positions.END);
     });
   }
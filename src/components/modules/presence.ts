@@ -0,0 +1,426 @@
+import Module from '../__module';
+import $ from '../dom';
+import * as _ from '../utils';
+import type { ModuleConfig } from '../../types-internal/module-config';
+import type { PresencePosition, PresenceUser } from '../../../types/api/presence';
+import type { BlockMutationEvent } from '../../../types/events/block';
+import { BlockChangedMutationType } from '../../../types/events/block/BlockChanged';
+import { BlockChanged } from '../events';
+import { getNodeByCaretOffset } from '../utils/caret';
+import { diffText, shiftOffset } from '../utils/collaboration';
+
+/**
+ * Position with the input text it has been calculated for.
+ * Used to keep position at the same character when the text is changed
+ */
+interface TrackedPosition extends PresencePosition {
+  /**
+   * Input text at the moment position has been set or updated
+   */
+  text: string;
+}
+
+/**
+ * Remote user state with tracked positions
+ */
+interface TrackedUser extends PresenceUser {
+  color: string;
+  caret: TrackedPosition | null;
+  selection: { start: TrackedPosition; end: TrackedPosition } | null;
+}
+
+/**
+ * HTML Elements used for Presence UI
+ */
+interface PresenceNodes {
+  layer: HTMLElement | undefined;
+}
+
+/**
+ * Colors of users passed without the color
+ */
+const USER_COLORS = ['#e5484d', '#f76808', '#30a46c', '#0091ff', '#8e4ec6', '#d6409f', '#12a594', '#ad7f58'];
+
+/**
+ * @module Presence
+ *
+ * Draws carets, selections and selected Blocks of collaborators.
+ * Marks are placed to the separate layer outside the redactor, so they do not mutate Blocks
+ */
+export default class Presence extends Module<PresenceNodes> {
+  /**
+   * Remote users keyed by ids
+   */
+  private users = new Map<string, TrackedUser>();
+
+  /**
+   * Id of the requested animation frame. Null if redrawing is not scheduled
+   */
+  private redrawRequest: number | null = null;
+
+  /**
+   * Debounced redrawing on the window resize
+   */
+  private resizeDebouncer = _.debounce(() => {
+    this.scheduleRedraw();
+  // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+  }, 200);
+
+  /**
+   * CSS classes
+   */
+  private static get CSS(): { [name: string]: string } {
+    return {
+      layer: 'ce-presence',
+      caret: 'ce-presence__caret',
+      label: 'ce-presence__label',
+      selection: 'ce-presence__selection',
+      block: 'ce-presence__block',
+    };
+  }
+
+  /**
+   * @param options - Module options
+   * @param options.config - Editor configuration object
+   * @param options.eventsDispatcher - common Editor event bus
+   * @param options.i18n - Editor instance translator
+   * @param options.tooltip - Editor instance tooltip
+   */
+  constructor({ config, eventsDispatcher, i18n, tooltip }: ModuleConfig) {
+    super({
+      config,
+      eventsDispatcher,
+      i18n,
+      tooltip,
+    });
+
+    this.eventsDispatcher.on(BlockChanged, (payload) => {
+      this.blockChanged(payload.event);
+    });
+  }
+
+  /**
+   * Shows the user. Replaces previously passed state of the same user
+   *
+   * @param user - user state
+   */
+  public set(user: PresenceUser): void {
+    const selection = user.selection ?? null;
+
+    this.users.set(user.id, {
+      ...user,
+      color: user.color ?? this.pickColor(user.id),
+      caret: user.caret ? this.track(user.caret) : null,
+      selection: selection !== null
+        ? {
+          start: this.track(selection.start),
+          end: this.track(selection.end),
+        }
+        : null,
+      blocks: user.blocks ?? [],
+    });
+
+    this.scheduleRedraw();
+  }
+
+  /**
+   * Hides the user
+   *
+   * @param id - user id
+   */
+  public remove(id: string): void {
+    if (this.users.delete(id)) {
+      this.scheduleRedraw();
+    }
+  }
+
+  /**
+   * Hides all users
+   */
+  public clear(): void {
+    this.users.clear();
+    this.scheduleRedraw();
+  }
+
+  /**
+   * Module destruction
+   * Cancels scheduled redrawing and removes the layer
+   */
+  public destroy(): void {
+    if (this.redrawRequest !== null) {
+      window.cancelAnimationFrame(this.redrawRequest);
+      this.redrawRequest = null;
+    }
+
+    this.nodes.layer?.remove();
+    this.nodes.layer = undefined;
+  }
+
+  /**
+   * Keeps positions at the same characters and redraws marks on Blocks changes
+   *
+   * @param event - Block mutation event
+   */
+  private blockChanged(event: BlockMutationEvent): void {
+    if (this.users.size === 0) {
+      return;
+    }
+
+    if (event.type === BlockChangedMutationType) {
+      this.users.forEach((user) => {
+        [user.caret, user.selection?.start, user.selection?.end].forEach((position) => {
+          if (position && position.blockId === event.detail.target.id) {
+            this.updatePosition(position);
+          }
+        });
+      });
+    }
+
+    this.scheduleRedraw();
+  }
+
+  /**
+   * Remembers the input text for the position
+   *
+   * @param position - position passed by the API
+   */
+  private track(position: PresencePosition): TrackedPosition {
+    return {
+      blockId: position.blockId,
+      inputIndex: position.inputIndex,
+      offset: position.offset,
+      text: this.getInputText(position) ?? '',
+    };
+  }
+
+  /**
+   * Shifts position offset by the input text change
+   *
+   * @param position - position to update
+   */
+  private updatePosition(position: TrackedPosition): void {
+    const text = this.getInputText(position);
+
+    if (text === null) {
+      return;
+    }
+
+    const splice = diffText(position.text, text);
+
+    if (splice !== null) {
+      position.offset = shiftOffset(position.offset, splice);
+    }
+
+    position.text = text;
+  }
+
+  /**
+   * Returns input containing the position. Returns undefined if there is no such Block or input
+   *
+   * @param position - position to find input of
+   */
+  private getInput({ blockId, inputIndex }: PresencePosition): HTMLElement | undefined {
+    return this.Editor.BlockManager.getBlockById(blockId)?.inputs[inputIndex];
+  }
+
+  /**
+   * Returns text of the input containing the position
+   *
+   * @param position - position to get text for
+   */
+  private getInputText(position: PresencePosition): string | null {
+    const input = this.getInput(position);
+
+    if (input === undefined) {
+      return null;
+    }
+
+    return $.isNativeInput(input) ? input.value : input.textContent ?? '';
+  }
+
+  /**
+   * Returns DOM point corresponding to the position.
+   * Native inputs do not expose text nodes, so their start is returned
+   *
+   * @param position - position to resolve
+   */
+  private getDomPoint(position: PresencePosition): [Node, number] | null {
+    const input = this.getInput(position);
+
+    if (input === undefined) {
+      return null;
+    }
+
+    if ($.isNativeInput(input)) {
+      return [input, 0];
+    }
+
+    return getNodeByCaretOffset(input, position.offset);
+  }
+
+  /**
+   * Redraws marks in the next animation frame, so several changes cause single layout calculation
+   */
+  private scheduleRedraw(): void {
+    if (this.redrawRequest !== null) {
+      return;
+    }
+
+    this.redrawRequest = window.requestAnimationFrame(() => {
+      this.redrawRequest = null;
+      this.redraw();
+    });
+  }
+
+  /**
+   * Draws marks of all users
+   */
+  private redraw(): void {
+    const layer = this.getLayer();
+    const origin = layer.getBoundingClientRect();
+
+    layer.innerHTML = '';
+
+    this.users.forEach((user) => {
+      user.blocks?.forEach((blockId) => {
+        const block = this.Editor.BlockManager.getBlockById(blockId);
+
+        if (block !== undefined) {
+          layer.appendChild(this.makeMark(Presence.CSS.block, user, block.holder.getBoundingClientRect(), origin));
+        }
+      });
+
+      if (user.selection !== null) {
+        this.getSelectionRects(user.selection.start, user.selection.end).forEach((rect) => {
+          layer.appendChild(this.makeMark(Presence.CSS.selection, user, rect, origin));
+        });
+      }
+
+      const caretRect = user.caret !== null ? this.getCaretRect(user.caret) : null;
+
+      if (caretRect !== null) {
+        const caret = this.makeMark(Presence.CSS.caret, user, caretRect, origin);
+
+        if (user.name) {
+          const label = $.make('div', Presence.CSS.label, {
+            textContent: user.name,
+          });
+
+          caret.appendChild(label);
+        }
+
+        layer.appendChild(caret);
+      }
+    });
+  }
+
+  /**
+   * Returns client rect of the caret placed to the position
+   *
+   * @param position - caret position
+   */
+  private getCaretRect(position: PresencePosition): DOMRect | null {
+    const point = this.getDomPoint(position);
+
+    if (point === null) {
+      return null;
+    }
+
+    const range = document.createRange();
+
+    range.setStart(...point);
+    range.collapse(true);
+
+    const rect = range.getClientRects()[0];
+
+    /**
+     * Collapsed range inside the empty element has no rects, so the input start is used
+     */
+    if (rect === undefined) {
+      const inputRect = this.getInput(position)?.getBoundingClientRect();
+
+      return inputRect !== undefined ? new DOMRect(inputRect.left, inputRect.top, 0, inputRect.height) : null;
+    }
+
+    return new DOMRect(rect.left, rect.top, 0, rect.height);
+  }
+
+  /**
+   * Returns client rects of the text between two positions
+   *
+   * @param start - selection start
+   * @param end - selection end
+   */
+  private getSelectionRects(start: PresencePosition, end: PresencePosition): DOMRect[] {
+    const startPoint = this.getDomPoint(start);
+    const endPoint = this.getDomPoint(end);
+
+    if (startPoint === null || endPoint === null) {
+      return [];
+    }
+
+    const range = document.createRange();
+
+    range.setStart(...startPoint);
+
+    /**
+     * Selection could be made backward
+     */
+    if (range.comparePoint(...endPoint) < 0) {
+      range.setStart(...endPoint);
+      range.setEnd(...startPoint);
+    } else {
+      range.setEnd(...endPoint);
+    }
+
+    return Array.from(range.getClientRects()).filter(({ width }) => width > 0);
+  }
+
+  /**
+   * Makes mark element placed over the rect
+   *
+   * @param className - mark CSS class
+   * @param user - user the mark belongs to
+   * @param rect - client rect to place mark over
+   * @param origin - client rect of the layer
+   */
+  private makeMark(className: string, user: TrackedUser, rect: DOMRect, origin: DOMRect): HTMLElement {
+    const mark = $.make('div', className);
+
+    mark.dataset.userId = user.id;
+    mark.style.top = `${rect.top - origin.top}px`;
+    mark.style.left = `${rect.left - origin.left}px`;
+    mark.style.width = `${rect.width}px`;
+    mark.style.height = `${rect.height}px`;
+    mark.style.setProperty('--presence-color', user.color);
+
+    return mark;
+  }
+
+  /**
+   * Returns the layer for marks. Layer is created on the first use
+   */
+  private getLayer(): HTMLElement {
+    if (this.nodes.layer === undefined) {
+      this.nodes.layer = $.make('div', Presence.CSS.layer);
+      this.Editor.UI.nodes.wrapper.appendChild(this.nodes.layer);
+
+      this.listeners.on(window, 'resize', this.resizeDebouncer, {
+        passive: true,
+      });
+    }
+
+    return this.nodes.layer;
+  }
+
+  /**
+   * Returns color for the user passed without the color
+   *
+   * @param id - user id
+   */
+  private pickColor(id: string): string {
+    const hash = id.split('').reduce((sum, char) => sum + char.charCodeAt(0), 0);
+
+    return USER_COLORS[hash % USER_COLORS.length];
+  }
+}
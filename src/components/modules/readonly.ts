@@ -11,11 +11,6 @@ import { CriticalError } from '../errors/critical';
  * @property {boolean} readOnlyEnabled - read-only state
  */
 export default class ReadOnly extends Module {
-  /**
-   * Array of tools name which don't support read-only mode
-   */
-  private toolsDontSupportReadOnly: string[] = [];
-
   /**
    * Value to track read-only state
    *
@@ -30,25 +25,21 @@ export default class ReadOnly extends Module {
     return this.readOnlyEnabled;
   }
 
+  /**
+   * Array of tools name which don't support read-only mode. Computed on access, since Tools can be registered at runtime
+   */
+  private get toolsDontSupportReadOnly(): string[] {
+    return Array
+      .from(this.Editor.Tools.blockTools.entries())
+      .filter(([, tool]) => !tool.isReadOnlySupported)
+      .map(([ name ]) => name);
+  }
+
   /**
    * Set initial state
    */
   public async prepare(): Promise<void> {
-    const { Tools } = this.Editor;
-    const { blockTools } = Tools;
-    const toolsDontSupportReadOnly: string[] = [];
-
-    Array
-      .from(blockTools.entries())
-      .forEach(([name, tool]) => {
-        if (!tool.isReadOnlySupported) {
-          toolsDontSupportReadOnly.push(name);
-        }
-      });
-
-    this.toolsDontSupportReadOnly = toolsDontSupportReadOnly;
-
-    if (this.config.readOnly && toolsDontSupportReadOnly.length > 0) {
+    if (this.config.readOnly && this.toolsDontSupportReadOnly.length > 0) {
       this.throwCriticalError();
     }
 
@@ -111,9 +102,14 @@ export default class ReadOnly extends Module {
 
     await this.Editor.BlockManager.clear();
     await this.Editor.Renderer.render(savedBlocks.blocks);
+    await this.Editor.Renderer.isRendered;
 
     this.Editor.ModificationsObserver.enable();
 
+    this.eventsDispatcher.emit('read-only:toggled', {
+      isEnabled: this.readOnlyEnabled,
+    });
+
     return this.readOnlyEnabled;
   }
 
@@ -448,7 +448,10 @@ export default class RectangleSelection extends Module {
     if (blockInCurrentPos !== undefined) {
       index = this.Editor.BlockManager.blocks.findIndex((block) => block.holder === blockInCurrentPos.holder);
     }
-    const contentElement = this.Editor.BlockManager.lastBlock.holder.querySelector('.' + Block.CSS.content);
+    /**
+     * Last Block could be displayed as the placeholder of the same width if virtualization is enabled
+     */
+    const contentElement = this.Editor.BlockManager.lastBlock.holder.querySelector(`.${Block.CSS.content}, .${Block.CSS.placeholder}`);
     const centerOfBlock = Number.parseInt(window.getComputedStyle(contentElement).width, 10) / 2;
     const leftPos = centerOfRedactor - centerOfBlock;
     const rightPos = centerOfRedactor + centerOfBlock;
@@ -5,78 +5,172 @@ import type BlockToolAdapter from '../tools/block';
 import type { StubData } from '../../tools/stub';
 import type Block from '../block';
 
+/**
+ * Blocks data with the container and the slot Block is placed to
+ */
+interface ArrangedBlockData extends OutputBlockData {
+  /**
+   * Id of the container Block. Null for the top-level Block
+   */
+  parentId: BlockId | null;
+
+  /**
+   * Slot of the container Block. Null for the top-level Block
+   */
+  slot: string | null;
+}
+
+/**
+ * Blocks data with the id
+ */
+type IdentifiedBlockData = OutputBlockData & { id: BlockId };
+
 /**
  * Module that responsible for rendering Blocks on editor initialization
  */
 export default class Renderer extends Module {
   /**
-   * Renders passed blocks as one batch
+   * Resolves when all Blocks passed to the last render() call are inserted
+   */
+  public isRendered: Promise<void> = Promise.resolve();
+
+  /**
+   * Number of the last render() call. Chunks of the previous calls are not rendered anymore
+   */
+  private renderingId = 0;
+
+  /**
+   * Renders passed blocks. If the 'renderChunkSize' config property is passed, Blocks are inserted in chunks:
+   * returned promise resolves after the first chunk, the rest is rendered in background till the isRendered promise resolves
    *
    * @param blocksData - blocks to render
    */
   public async render(blocksData: OutputBlockData[]): Promise<void> {
-    return new Promise((resolve) => {
-      const { Tools, BlockManager } = this.Editor;
+    const { BlockManager } = this.Editor;
+    const renderingId = ++this.renderingId;
 
-      if (blocksData.length === 0) {
-        BlockManager.insert();
-      } else {
-        /**
-         * Create Blocks instances
-         */
-        const blocks = blocksData.map(({ type: tool, data, tunes, id }) => {
-          if (Tools.available.has(tool) === false) {
-            _.logLabeled(`Tool «${tool}» is not found. Check 'tools' property at the Editor.js config.`, 'warn');
+    if (blocksData.length === 0) {
+      BlockManager.insert();
 
-            data = this.composeStubDataForTool(tool, data, id);
-            tool = Tools.stubTool;
-          }
+      this.isRendered = this.waitForIdle();
 
-          let block: Block;
+      return this.isRendered;
+    }
 
-          try {
-            block = BlockManager.composeBlock({
-              id,
-              tool,
-              data,
-              tunes,
-            });
-          } catch (error) {
-            _.log(`Block «${tool}» skipped because of plugins error`, 'error', {
-              data,
-              error,
-            });
+    const arrangedData = this.arrange(blocksData);
+    const [firstChunk, ...restChunks] = this.split(arrangedData);
+    const progress = {
+      rendered: 0,
+      total: arrangedData.length,
+    };
 
-            /**
-             * If tool throws an error during render, we should render stub instead of it
-             */
-            data = this.composeStubDataForTool(tool, data, id);
-            tool = Tools.stubTool;
-
-            block = BlockManager.composeBlock({
-              id,
-              tool,
-              data,
-              tunes,
-            });
-          }
+    this.renderChunk(firstChunk, progress);
 
-          return block;
-        });
+    /**
+     * Wait till browser will render inserted Blocks
+     */
+    const firstChunkRendered = this.waitForIdle();
 
-        /**
-         * Insert batch of Blocks
-         */
-        BlockManager.insertMany(blocks);
+    this.isRendered = restChunks.reduce(async (previousChunkRendered, chunk) => {
+      await previousChunkRendered;
+
+      if (renderingId !== this.renderingId) {
+        return;
       }
 
+      this.renderChunk(chunk, progress);
+
+      await this.waitForIdle();
+    }, firstChunkRendered);
+
+    return firstChunkRendered;
+  }
+
+  /**
+   * Module destruction
+   * Stops rendering of the remaining chunks
+   */
+  public destroy(): void {
+    this.renderingId++;
+  }
+
+  /**
+   * Patches existing Blocks to match passed data instead of re-creating all of them.
+   * Blocks are matched by id: Blocks missing in passed data are removed, new ones are inserted,
+   * existing Blocks are moved to the new position and updated only if their data differs
+   *
+   * @param blocksData - blocks to render
+   */
+  public async reconcile(blocksData: OutputBlockData[]): Promise<void> {
+    const { BlockManager } = this.Editor;
+    const currentBlock = BlockManager.currentBlock;
+    const arrangedBlocksData = this.arrange(blocksData);
+    const incomingIds = new Set(arrangedBlocksData.map(({ id }) => id));
+
+    /**
+     * Remove Blocks that are not presented in the new data.
+     * Nested Blocks could be already removed along with the container
+     */
+    for (const block of [ ...BlockManager.blocks ]) {
+      if (!incomingIds.has(block.id) && BlockManager.blocks.includes(block)) {
+        await BlockManager.removeBlock(block, false);
+      }
+    }
+
+    const reconciledIds = new Set<BlockId>();
+
+    for (const [index, blockData] of arrangedBlocksData.entries()) {
+      const block = blockData.id !== undefined ? BlockManager.getBlockById(blockData.id) : undefined;
+
       /**
-       * Wait till browser will render inserted Blocks and resolve a promise
+       * Block with the same id is already placed above, so compose a new one with a new id
        */
-      window.requestIdleCallback(() => {
-        resolve();
-      }, { timeout: 2000 });
-    });
+      if (block !== undefined && reconciledIds.has(block.id)) {
+        _.logLabeled(`Block with id «${block.id}» is duplicated in passed data. New id will be generated`, 'warn');
+
+        reconciledIds.add(this.insertBlock({
+          ...blockData,
+          id: undefined,
+        }, index, blockData).id);
+
+        continue;
+      }
+
+      if (block === undefined) {
+        reconciledIds.add(this.insertBlock(blockData, index, blockData).id);
+
+        continue;
+      }
+
+      const blockIndex = BlockManager.getBlockIndex(block);
+      const isPlacementChanged = block.parentId !== blockData.parentId || block.slot !== blockData.slot;
+
+      if (blockIndex !== index || isPlacementChanged) {
+        BlockManager.move(index, blockIndex, blockData);
+      }
+
+      reconciledIds.add((await this.reconcileBlock(block, blockData)).id);
+    }
+
+    /**
+     * Remove default Blocks inserted to the slots of the new containers, since their nested Blocks are passed in the data
+     */
+    for (const block of [ ...BlockManager.blocks ]) {
+      if (!reconciledIds.has(block.id) && BlockManager.blocks.includes(block)) {
+        await BlockManager.removeBlock(block, false);
+      }
+    }
+
+    if (BlockManager.blocks.length === 0) {
+      BlockManager.insert();
+    }
+
+    /**
+     * Moving of Blocks changes current Block index, so restore it
+     */
+    if (currentBlock !== undefined && BlockManager.blocks.includes(currentBlock)) {
+      BlockManager.currentBlockIndex = BlockManager.getBlockIndex(currentBlock);
+    }
   }
 
   /**
@@ -86,7 +180,7 @@ export default class Renderer extends Module {
    * @param data - data of unavailable block
    * @param [id] - id of unavailable block
    */
-  private composeStubDataForTool(tool: string, data: BlockToolData, id?: BlockId): StubData {
+  public composeStubDataForTool(tool: string, data: BlockToolData, id?: BlockId): StubData {
     const { Tools } = this.Editor;
 
     let title = tool;
@@ -108,4 +202,351 @@ export default class Renderer extends Module {
       title,
     };
   }
+
+  /**
+   * Updates passed Block if its data differs from the passed one.
+   * If Block's Tool differs, replaces the Block with the new one
+   *
+   * @param block - Block to update
+   * @param blockData - new Block data
+   * @returns updated Block
+   */
+  public async reconcileBlock(block: Block, { type: tool, data, tunes }: OutputBlockData): Promise<Block> {
+    const { Tools, BlockManager } = this.Editor;
+    const savedData = await block.save();
+
+    if (Tools.available.has(tool) && block.name === tool && savedData !== undefined) {
+      const isDataChanged = !_.equals(savedData.data, data);
+      const isTunesChanged = tunes !== undefined && !_.equals(savedData.tunes, tunes);
+
+      if (!isDataChanged && !isTunesChanged) {
+        return block;
+      }
+
+      return BlockManager.update(
+        block,
+        isDataChanged ? this.composeDataPatch(savedData.data, data) : undefined,
+        isTunesChanged ? tunes : undefined
+      );
+    }
+
+    /**
+     * Stub Block saves original data of unavailable Tool
+     */
+    const isSameStub = block.name === Tools.stubTool && !Tools.available.has(tool) && _.equals(savedData?.data, {
+      id: block.id,
+      type: tool,
+      data,
+    });
+
+    if (isSameStub) {
+      return block;
+    }
+
+    const index = BlockManager.getBlockIndex(block);
+
+    await BlockManager.removeBlock(block, false);
+
+    return this.insertBlock({
+      id: block.id,
+      type: tool,
+      data,
+      tunes,
+    }, index, block);
+  }
+
+  /**
+   * Inserts a Block by passed data. Uses the Stub Tool if Tool is unavailable or fails to render
+   *
+   * @param blockData - data of Block to insert
+   * @param index - index to insert Block at
+   * @param placement - container and slot to insert Block to. By default, Block becomes a sibling of the Block it is inserted before
+   */
+  public insertBlock({ id, type: tool, data, tunes }: OutputBlockData, index: number, placement?: Pick<Block, 'parentId' | 'slot'>): Block {
+    const { Tools, BlockManager } = this.Editor;
+
+    if (Tools.available.has(tool) === false) {
+      _.logLabeled(`Tool «${tool}» is not found. Check 'tools' property at the Editor.js config.`, 'warn');
+
+      data = this.composeStubDataForTool(tool, data, id);
+      tool = Tools.stubTool;
+    }
+
+    try {
+      return BlockManager.insert({
+        id,
+        tool,
+        data,
+        tunes,
+        index,
+        needToFocus: false,
+        parentId: placement?.parentId,
+        slot: placement?.slot,
+      });
+    } catch (error) {
+      _.log(`Block «${tool}» skipped because of plugins error`, 'error', {
+        data,
+        error,
+      });
+
+      return BlockManager.insert({
+        id,
+        tool: Tools.stubTool,
+        data: this.composeStubDataForTool(tool, data, id),
+        tunes,
+        index,
+        needToFocus: false,
+        parentId: placement?.parentId,
+        slot: placement?.slot,
+      });
+    }
+  }
+
+  /**
+   * Creates Blocks of the chunk and appends them to the end of the document
+   *
+   * @param chunk - Blocks data to render
+   * @param progress - amount of rendered Blocks and total amount of Blocks to render. Updated by the chunk size
+   * @param progress.rendered - amount of rendered Blocks
+   * @param progress.total - total amount of Blocks to render
+   */
+  private renderChunk(chunk: ArrangedBlockData[], progress: { rendered: number; total: number }): void {
+    const { Tools, BlockManager, Virtualization } = this.Editor;
+
+    /**
+     * Create Blocks instances
+     */
+    const blocks = chunk.map(({ type: tool, data, tunes, id, parentId, slot }) => {
+      if (Tools.available.has(tool) === false) {
+        _.logLabeled(`Tool «${tool}» is not found. Check 'tools' property at the Editor.js config.`, 'warn');
+
+        data = this.composeStubDataForTool(tool, data, id);
+        tool = Tools.stubTool;
+      }
+
+      let block: Block;
+
+      try {
+        block = BlockManager.composeBlock({
+          id,
+          tool,
+          data,
+          tunes,
+          parentId,
+          slot,
+          placeholderHeight: Virtualization.getPlaceholderHeight(tool, parentId),
+        });
+      } catch (error) {
+        _.log(`Block «${tool}» skipped because of plugins error`, 'error', {
+          data,
+          error,
+        });
+
+        /**
+         * If tool throws an error during render, we should render stub instead of it
+         */
+        data = this.composeStubDataForTool(tool, data, id);
+        tool = Tools.stubTool;
+
+        block = BlockManager.composeBlock({
+          id,
+          tool,
+          data,
+          tunes,
+          parentId,
+          slot,
+        });
+      }
+
+      return block;
+    });
+
+    /**
+     * Insert batch of Blocks after the previous chunks and Blocks added by user while they were rendered
+     */
+    BlockManager.insertMany(blocks, BlockManager.blocks.length);
+
+    /**
+     * Blocks out of the viewport are kept as placeholders if virtualization is enabled
+     */
+    Virtualization.observe(blocks);
+
+    progress.rendered += blocks.length;
+
+    if (_.isFunction(this.config.onRenderProgress)) {
+      this.config.onRenderProgress(progress.rendered, progress.total);
+    }
+  }
+
+  /**
+   * Splits arranged Blocks data to chunks of the configured size. Chunk is cut only before the top-level Block,
+   * so the container is rendered together with its nested Blocks
+   *
+   * @param arrangedData - Blocks data ordered by the arrange() method
+   */
+  private split(arrangedData: ArrangedBlockData[]): ArrangedBlockData[][] {
+    const chunkSize = this.config.renderChunkSize ?? arrangedData.length;
+    const chunks: ArrangedBlockData[][] = [];
+    let chunk: ArrangedBlockData[] = [];
+
+    arrangedData.forEach((blockData) => {
+      if (blockData.parentId === null && chunk.length >= chunkSize) {
+        chunks.push(chunk);
+        chunk = [];
+      }
+
+      chunk.push(blockData);
+    });
+
+    chunks.push(chunk);
+
+    return chunks;
+  }
+
+  /**
+   * Returns a promise resolved when browser renders inserted Blocks
+   */
+  private waitForIdle(): Promise<void> {
+    return new Promise((resolve) => {
+      window.requestIdleCallback(() => {
+        resolve();
+      }, { timeout: 2000 });
+    });
+  }
+
+  /**
+   * Orders Blocks data so nested Blocks follow their containers and resolves the containers and slots of nested Blocks.
+   * Placement is taken from the container 'children' property or from the nested Block 'parent' property, in this case the first slot is used.
+   *
+   * Blocks placed to the unknown containers or slots are rendered at the top level.
+   * Empty slots get the default Block
+   *
+   * @param blocksData - Blocks data in the saved order
+   */
+  private arrange(blocksData: OutputBlockData[]): ArrangedBlockData[] {
+    const { Tools } = this.Editor;
+    const getSlots = ({ type }: OutputBlockData): string[] => Tools.blockTools.get(type)?.slots ?? [];
+
+    /**
+     * Blocks should have ids to be referenced by nested Blocks
+     */
+    const identifiedData = blocksData.map((blockData): IdentifiedBlockData => ({
+      ...blockData,
+      id: blockData.id ?? _.generateBlockId(),
+    }));
+    const dataById = new Map(identifiedData.map((blockData) => [blockData.id, blockData]));
+    const placements = new Map<IdentifiedBlockData, { parentId: BlockId; slot: string }>();
+
+    identifiedData.forEach((container) => {
+      Object.entries(container.children ?? {}).forEach(([slot, ids]) => {
+        ids.forEach((id) => {
+          const child = dataById.get(id);
+
+          if (child !== undefined && !placements.has(child)) {
+            placements.set(child, {
+              parentId: container.id,
+              slot,
+            });
+          }
+        });
+      });
+    });
+
+    identifiedData.forEach((blockData) => {
+      const parent = blockData.parent !== undefined ? dataById.get(blockData.parent) : undefined;
+
+      if (parent !== undefined && !placements.has(blockData)) {
+        placements.set(blockData, {
+          parentId: parent.id,
+          slot: getSlots(parent)[0],
+        });
+      }
+    });
+
+    /**
+     * Nested Blocks grouped by container ids and slots in the order of the container 'children' lists
+     */
+    const childrenData = new Map<BlockId, Map<string, IdentifiedBlockData[]>>();
+
+    placements.forEach(({ parentId, slot }, blockData) => {
+      const parent = dataById.get(parentId);
+
+      if (parent === undefined || parent === blockData || !getSlots(parent).includes(slot)) {
+        _.log(`Block «${blockData.id}» can not be placed to the slot «${slot}» of the Block «${parentId}», so it is rendered at the top level`, 'warn');
+
+        placements.delete(blockData);
+
+        return;
+      }
+
+      const slots = childrenData.get(parentId) ?? new Map<string, IdentifiedBlockData[]>();
+
+      slots.set(slot, [...(slots.get(slot) ?? []), blockData]);
+      childrenData.set(parentId, slots);
+    });
+
+    const arrangedData: ArrangedBlockData[] = [];
+    const visited = new Set<IdentifiedBlockData>();
+
+    const visit = (blockData: IdentifiedBlockData, parentId: BlockId | null, slot: string | null): void => {
+      visited.add(blockData);
+      arrangedData.push({
+        ...blockData,
+        parentId,
+        slot,
+      });
+
+      getSlots(blockData).forEach((containerSlot) => {
+        const children = (childrenData.get(blockData.id)?.get(containerSlot) ?? []).filter((child) => !visited.has(child));
+
+        if (children.length === 0) {
+          arrangedData.push({
+            type: this.config.defaultBlock as string,
+            data: {},
+            parentId: blockData.id,
+            slot: containerSlot,
+          });
+        }
+
+        children.forEach((child) => visit(child, blockData.id, containerSlot));
+      });
+    };
+
+    identifiedData.forEach((blockData) => {
+      if (!placements.has(blockData)) {
+        visit(blockData, null, null);
+      }
+    });
+
+    /**
+     * Blocks nested in each other cyclically are not reachable from the top level
+     */
+    identifiedData.forEach((blockData) => {
+      if (!visited.has(blockData)) {
+        _.log(`Block «${blockData.id}» is nested in itself, so it is rendered at the top level`, 'warn');
+
+        visit(blockData, null, null);
+      }
+    });
+
+    return arrangedData;
+  }
+
+  /**
+   * Composes data to pass to the BlockManager.update() so that it replaces existing data instead of merging with it
+   *
+   * @param existingData - current Block data
+   * @param data - new Block data
+   */
+  private composeDataPatch(existingData: BlockToolData, data: BlockToolData): BlockToolData {
+    const patch = { ...data };
+
+    Object.keys(existingData)
+      .filter((key) => !(key in data))
+      .forEach((key) => {
+        patch[key] = undefined;
+      });
+
+    return patch;
+  }
 }
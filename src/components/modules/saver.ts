@@ -6,14 +6,96 @@
  * @version 2.0.0
  */
 import Module from '../__module';
-import type { OutputData } from '../../../types';
-import type { SavedData, ValidatedData } from '../../../types/data-formats';
+import type { BlockId, BlockToolData, OutputBlockData, OutputData } from '../../../types';
+import type { ChangedBlocksData, SaveProblem, SaveReport } from '../../../types/api';
+import type { SavedData } from '../../../types/data-formats';
+import type { BlockMutationEvent } from '../../../types/events/block';
+import { BlockRemovedMutationType } from '../../../types/events/block/BlockRemoved';
+import type { ModuleConfig } from '../../types-internal/module-config';
 import type Block from '../block';
+import { BlockChanged } from '../events';
 import * as _ from '../utils';
-import { sanitizeBlocks } from '../utils/sanitizer';
+import { normalizeData, sanitizeBlocks } from '../utils/sanitizer';
+import { toMarkdown } from '../utils/markdown';
+import { toHTML } from '../utils/html';
 
 declare const VERSION: string;
 
+/**
+ * Block data extracted on saving along with its position and an error happened
+ */
+interface ExtractedData extends Partial<Omit<SavedData, 'id' | 'tool'>> {
+  /**
+   * Block's id
+   */
+  id: BlockId;
+
+  /**
+   * Block's Tool name
+   */
+  tool: string;
+
+  /**
+   * True if saved data passed the validation
+   */
+  isValid: boolean;
+
+  /**
+   * True if saved data was changed by the sanitizer
+   */
+  isChangedBySanitizer?: boolean;
+
+  /**
+   * Block's index
+   */
+  index: number;
+
+  /**
+   * True if Block has no content
+   */
+  isEmpty?: boolean;
+
+  /**
+   * Error thrown by the Tool on saving
+   */
+  error?: unknown;
+
+  /**
+   * Id of the container Block
+   */
+  parent?: BlockId;
+
+  /**
+   * Ids of the nested Blocks grouped by slots
+   */
+  children?: {[slot: string]: BlockId[]};
+}
+
+/**
+ * Result of validation and sanitizing of data returned by the Tool
+ */
+interface ProcessedData {
+  /**
+   * Block mutations count at the saving moment. Processed data is outdated once the Block is mutated
+   */
+  mutationsCount: number;
+
+  /**
+   * Sanitized data
+   */
+  data: BlockToolData;
+
+  /**
+   * True if data passed the validation
+   */
+  isValid: boolean;
+
+  /**
+   * True if data was changed by the sanitizer
+   */
+  isChangedBySanitizer: boolean;
+}
+
 /**
  * @classdesc This method reduces all Blocks asyncronically and calls Block's save method to extract data
  * @typedef {Saver} Saver
@@ -21,87 +103,426 @@ declare const VERSION: string;
  * @property {string} json - Editor JSON output
  */
 export default class Saver extends Module {
+  /**
+   * Validated and sanitized data of each Block.
+   * Saved data stays the same until the Block is mutated, so saving, validation and sanitizing are not repeated for clean Blocks
+   */
+  private processedDataCache = new WeakMap<Block, ProcessedData>();
+
+  /**
+   * Counter incremented on each Block mutation. Its values are used as checkpoints for the saveChanged() method
+   */
+  private revision = 0;
+
+  /**
+   * Revision of the last mutation of each Block
+   */
+  private blockRevisions = new WeakMap<Block, number>();
+
+  /**
+   * Revision of the removal of each removed Block
+   */
+  private removedBlocksRevisions = new Map<BlockId, number>();
+
+  /**
+   * @param options - Module options
+   * @param options.config - Editor configuration object
+   * @param options.eventsDispatcher - common Editor event bus
+   * @param options.i18n - Editor instance translator
+   * @param options.tooltip - Editor instance tooltip
+   */
+  constructor({ config, eventsDispatcher, i18n, tooltip }: ModuleConfig) {
+    super({
+      config,
+      eventsDispatcher,
+      i18n,
+      tooltip,
+    });
+
+    this.eventsDispatcher.on(BlockChanged, (payload) => {
+      this.blockChanged(payload.event);
+    });
+  }
+
   /**
    * Composes new chain of Promises to fire them alternatelly
    *
    * @returns {OutputData}
    */
   public async save(): Promise<OutputData> {
-    const { BlockManager, Tools } = this.Editor;
-    const blocks = BlockManager.blocks,
-        chainData = [];
-
     try {
-      blocks.forEach((block: Block) => {
-        chainData.push(this.getSavedData(block));
-      });
-
-      const extractedData = await Promise.all(chainData) as Array<Pick<SavedData, 'data' | 'tool'>>;
-      const sanitizedData = await sanitizeBlocks(extractedData, (name) => {
-        return Tools.blockTools.get(name).sanitizeConfig;
-      });
+      const { data } = await this.saveWithReport();
 
-      return this.makeOutput(sanitizedData);
+      return data;
     } catch (e) {
       _.logLabeled(`Saving failed due to the Error %o`, 'error', e);
     }
   }
 
   /**
-   * Saves and validates
+   * Saves all Blocks and collects problems happened with particular Blocks instead of dropping them silently
+   *
+   * @returns {SaveReport}
+   */
+  public async saveWithReport(): Promise<SaveReport> {
+    const problems: SaveProblem[] = [];
+
+    /**
+     * Document rendered in chunks is saved when all Blocks are inserted
+     */
+    await this.Editor.Renderer.isRendered;
+    await this.waitForLoadingTools();
+
+    this.Editor.ModificationsObserver.flushMutations();
+
+    const extractedData = await Promise.all(
+      this.Editor.BlockManager.blocks.map((block: Block, index: number) => this.getSavedData(block, index))
+    );
+
+    return {
+      data: {
+        time: +new Date(),
+        blocks: this.omitSkippedChildren(this.makeOutput(extractedData, problems)),
+        version: VERSION,
+      },
+      problems,
+    };
+  }
+
+  /**
+   * Saves a single Block
+   *
+   * @param block - Block to save
+   * @returns {OutputBlockData|undefined} - saved data or undefined if Block can not be saved
+   */
+  public async saveBlock(block: Block): Promise<OutputBlockData | undefined> {
+    this.Editor.ModificationsObserver.flushMutations();
+
+    const extractedData = await this.getSavedData(block, this.Editor.BlockManager.getBlockIndex(block));
+
+    return this.makeOutput([ extractedData ], [])[0];
+  }
+
+  /**
+   * Saves only Blocks changed since the passed checkpoint
+   *
+   * @param checkpoint - checkpoint returned by the previous call. If omitted, all Blocks are saved
+   * @returns {ChangedBlocksData}
+   */
+  public async saveChanged(checkpoint?: number): Promise<ChangedBlocksData> {
+    const { BlockManager, Renderer } = this.Editor;
+
+    await Renderer.isRendered;
+    await this.waitForLoadingTools();
+
+    this.Editor.ModificationsObserver.flushMutations();
+
+    const changedBlocks: Array<Promise<ExtractedData>> = [];
+
+    BlockManager.blocks.forEach((block: Block, index: number) => {
+      /**
+       * Blocks rendered without mutation events are unknown yet, so they are considered as changed once
+       */
+      let revision = this.blockRevisions.get(block);
+
+      if (revision === undefined) {
+        revision = ++this.revision;
+
+        this.blockRevisions.set(block, revision);
+      }
+
+      if (checkpoint === undefined || revision > checkpoint) {
+        changedBlocks.push(this.getSavedData(block, index));
+      }
+    });
+
+    const order = BlockManager.blocks.map((block: Block) => block.id);
+    const existingIds = new Set(order);
+    const removed = checkpoint === undefined ? [] : Array.from(this.removedBlocksRevisions.entries())
+      .filter(([id, revision]) => revision > checkpoint && !existingIds.has(id))
+      .map(([ id ]) => id);
+
+    return {
+      checkpoint: this.revision,
+      blocks: this.makeOutput(await Promise.all(changedBlocks), []),
+      removed,
+      order,
+    };
+  }
+
+  /**
+   * Converts saved data to Markdown using Tools exportMarkdown methods
+   *
+   * @param data - saved data
+   * @returns {string}
+   */
+  public toMarkdown(data: OutputData): string {
+    return toMarkdown(data, (toolName) => this.Editor.Tools.blockTools.get(toolName));
+  }
+
+  /**
+   * Converts saved data to HTML using Tools exportHTML methods and Tunes wrapHTML methods
+   *
+   * @param data - saved data
+   * @returns {string}
+   */
+  public toHTML(data: OutputData): string {
+    const { Tools } = this.Editor;
+
+    return toHTML(data, (toolName) => Tools.blockTools.get(toolName), (tuneName) => Tools.blockTunes.get(tuneName));
+  }
+
+  /**
+   * Remembers the revision of mutated Block
+   *
+   * @param event - Block mutation event
+   */
+  private blockChanged(event: BlockMutationEvent): void {
+    const { id } = event.detail.target;
+
+    if (event.type === BlockRemovedMutationType) {
+      this.removedBlocksRevisions.set(id, ++this.revision);
+
+      return;
+    }
+
+    const block = this.Editor.BlockManager.getBlockById(id);
+
+    if (block !== undefined) {
+      this.blockRevisions.set(block, ++this.revision);
+    }
+  }
+
+  /**
+   * Waits till Tools loaded on demand are loaded and their Blocks are re-created,
+   * so Blocks are saved by their Tools instead of the loading placeholders
+   */
+  private async waitForLoadingTools(): Promise<void> {
+    const { BlockManager, Tools } = this.Editor;
+    const loadingTools = new Set(
+      BlockManager.blocks
+        .filter((block) => !block.tool.isLoaded)
+        .map((block) => block.name)
+    );
+
+    await Promise.all(Array.from(loadingTools, (name) => Tools.load(name)));
+  }
+
+  /**
+   * Saves, validates and sanitizes Block's data
    *
    * @param {Block} block - Editor's Tool
-   * @returns {ValidatedData} - Tool's validated data
+   * @param {number} index - Block's index
+   * @returns {ExtractedData} - Tool's validated data
    */
-  private async getSavedData(block: Block): Promise<ValidatedData> {
-    const blockData = await block.save();
-    const isValid = blockData && await block.validate(blockData.data);
+  private async getSavedData(block: Block, index: number): Promise<ExtractedData> {
+    try {
+      const mutationsCount = block.mutationsCount;
+      let processedData = this.processedDataCache.get(block);
+      let tunes: SavedData['tunes'];
+
+      if (processedData !== undefined && processedData.mutationsCount === mutationsCount) {
+        tunes = block.saveTunes();
+      } else {
+        const blockData = await block.save();
+
+        if (blockData === undefined) {
+          return {
+            id: block.id,
+            tool: block.name,
+            index,
+            isValid: false,
+          };
+        }
+
+        processedData = await this.processData(block, blockData, mutationsCount);
+        tunes = blockData.tunes;
+
+        this.processedDataCache.set(block, processedData);
+      }
+
+      return {
+        ...this.getNesting(block),
+        id: block.id,
+        tool: block.name,
+        tunes,
+        /**
+         * Processed data is cached, so changes of the returned object should not affect next savings
+         */
+        data: _.deepCopy(processedData.data),
+        index,
+        isValid: processedData.isValid,
+        isChangedBySanitizer: processedData.isChangedBySanitizer,
+        isEmpty: !processedData.isValid && block.isEmpty,
+      };
+    } catch (error) {
+      return {
+        id: block.id,
+        tool: block.name,
+        index,
+        isValid: false,
+        error,
+      };
+    }
+  }
+
+  /**
+   * Returns the container id of the nested Block and the nested Blocks ids of the container
+   *
+   * @param block - Block to get nesting of
+   */
+  private getNesting(block: Block): Pick<ExtractedData, 'parent' | 'children'> {
+    const { BlockManager } = this.Editor;
 
     return {
-      ...blockData,
+      ...block.parentId !== null && {
+        parent: block.parentId,
+      },
+      ...block.slots.length > 0 && {
+        children: Object.fromEntries(block.slots.map((slot) => {
+          return [slot, BlockManager.getChildren(block, slot).map(({ id }) => id)];
+        })),
+      },
+    };
+  }
+
+  /**
+   * Removes ids of the nested Blocks skipped on saving from the containers children.
+   * Nested Blocks of the skipped containers are moved to the top level, so their content is not lost
+   *
+   * @param blocks - saved Blocks
+   */
+  private omitSkippedChildren(blocks: OutputBlockData[]): OutputBlockData[] {
+    const savedIds = new Set(blocks.map(({ id }) => id));
+
+    blocks.forEach((block) => {
+      if (block.parent !== undefined && !savedIds.has(block.parent)) {
+        delete block.parent;
+      }
+
+      if (block.children === undefined) {
+        return;
+      }
+
+      block.children = Object.fromEntries(Object.entries(block.children).map(([slot, ids]) => {
+        return [slot, ids.filter((id) => savedIds.has(id))];
+      }));
+    });
+
+    return blocks;
+  }
+
+  /**
+   * Validates and sanitizes data returned by the Tool
+   *
+   * @param block - saved Block
+   * @param blockData - data returned by the Block
+   * @param mutationsCount - Block mutations count at the saving moment
+   */
+  private async processData(block: Block, blockData: SavedData, mutationsCount: number): Promise<ProcessedData> {
+    const isValid = await block.validate(blockData.data);
+    const [ sanitizedData ] = sanitizeBlocks([ {
+      tool: blockData.tool,
+      data: blockData.data,
+    } ], (name) => {
+      return this.Editor.Tools.blockTools.get(name).sanitizeConfig;
+    });
+
+    return {
+      mutationsCount,
+      data: sanitizedData.data,
       isValid,
+      isChangedBySanitizer: !_.equals(normalizeData(sanitizedData.data), normalizeData(blockData.data)),
     };
   }
 
   /**
-   * Creates output object with saved data, time and version of editor
+   * Creates output Blocks from saved data
    *
-   * @param {ValidatedData} allExtractedData - data extracted from Blocks
-   * @returns {OutputData}
+   * @param {ExtractedData[]} allExtractedData - data extracted from Blocks
+   * @param {SaveProblem[]} problems - list to fill with problems of particular Blocks
+   * @returns {OutputBlockData[]}
    */
-  private makeOutput(allExtractedData): OutputData {
-    const blocks = [];
+  private makeOutput(allExtractedData: ExtractedData[], problems: SaveProblem[]): OutputBlockData[] {
+    const blocks: OutputBlockData[] = [];
+
+    allExtractedData.forEach(({ id, tool, data, tunes, index, isValid, isChangedBySanitizer, isEmpty, error, parent, children }) => {
+      const nesting = {
+        ...parent !== undefined && {
+          parent,
+        },
+        ...children !== undefined && {
+          children,
+        },
+      };
 
-    allExtractedData.forEach(({ id, tool, data, tunes, isValid }) => {
       if (!isValid) {
         _.log(`Block «${tool}» skipped because saved data is invalid`);
 
+        const isSaveFailed = error !== undefined || data === undefined;
+
+        /**
+         * Empty Blocks are skipped by design, so there is no content loss
+         */
+        if (!isSaveFailed && isEmpty === true) {
+          return;
+        }
+
+        problems.push({
+          type: isSaveFailed ? 'save-failed' : 'invalid',
+          blockId: id,
+          index,
+          tool,
+          message: isSaveFailed ? `Saving of the Block «${tool}» failed` : `Data of the Block «${tool}» is invalid`,
+          ...error !== undefined && {
+            error,
+          },
+        });
+
         return;
       }
 
       /** If it was stub Block, get original data */
       if (tool === this.Editor.Tools.stubTool) {
-        blocks.push(data);
+        blocks.push({
+          ...data as OutputBlockData,
+          ...nesting,
+        });
+
+        problems.push({
+          type: 'stub',
+          blockId: id,
+          index,
+          tool: data.type,
+          message: `Tool «${data.type}» is not available, so the Block is saved with the original data`,
+        });
 
         return;
       }
 
+      if (isChangedBySanitizer === true) {
+        problems.push({
+          type: 'sanitized',
+          blockId: id,
+          index,
+          tool,
+          message: `Data of the Block «${tool}» was changed by the sanitizer`,
+        });
+      }
+
       const output = {
         id,
         type: tool,
         data,
-        ...!_.isEmpty(tunes) && {
+        ...tunes !== undefined && !_.isEmpty(tunes) && {
           tunes,
         },
+        ...nesting,
       };
 
       blocks.push(output);
     });
 
-    return {
-      time: +new Date(),
-      blocks,
-      version: VERSION,
-    };
+    return blocks;
   }
 }
@@ -2,7 +2,6 @@ import Module from '../../__module';
 import $ from '../../dom';
 import SelectionUtils from '../../selection';
 import type Block from '../../block';
-import I18n from '../../i18n';
 import { I18nInternalNS } from '../../i18n/namespace-internal';
 import type Flipper from '../../flipper';
 import type { MenuConfigItem } from '../../../../types/tools';
@@ -14,6 +13,7 @@ import { isMobileScreen } from '../../utils';
 import { EditorMobileLayoutToggled } from '../../events';
 import { IconReplace } from '@codexteam/icons';
 import { getConvertibleToolsForBlock } from '../../utils/blocks';
+import BlockAPI from '../../block/api';
 
 /**
  * HTML Elements that used for BlockSettings
@@ -33,6 +33,8 @@ interface BlockSettingsNodes {
 export default class BlockSettings extends Module<BlockSettingsNodes> {
   /**
    * Module Events
+   *
+   * @deprecated — use 'block-settings:opened' and 'block-settings:closed' events of the EditorEventMap
    */
   public get events(): { opened: string; closed: string } {
     return {
@@ -127,6 +129,11 @@ export default class BlockSettings extends Module<BlockSettingsNodes> {
     const { toolTunes, commonTunes } = targetBlock.getTunes();
 
     /** Tell to subscribers that block settings is opened */
+    this.eventsDispatcher.emit('block-settings:opened', {
+      // we cast to any because our BlockAPI has no "new" signature
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      block: new (BlockAPI as any)(targetBlock),
+    });
     this.eventsDispatcher.emit(this.events.opened);
 
     const PopoverClass = isMobileScreen() ? PopoverMobile : PopoverDesktop;
@@ -136,9 +143,10 @@ export default class BlockSettings extends Module<BlockSettingsNodes> {
       items: await this.getTunesItems(targetBlock, commonTunes, toolTunes),
       scopeElement: this.Editor.API.methods.ui.nodes.redactor,
       messages: {
-        nothingFound: I18n.ui(I18nInternalNS.ui.popover, 'Nothing found'),
-        search: I18n.ui(I18nInternalNS.ui.popover, 'Filter'),
+        nothingFound: this.i18n.ui(I18nInternalNS.ui.popover, 'Nothing found'),
+        search: this.i18n.ui(I18nInternalNS.ui.popover, 'Filter'),
       },
+      tooltip: this.tooltip,
     });
 
     this.popover.on(PopoverEvent.Closed, this.onPopoverClose);
@@ -172,7 +180,7 @@ export default class BlockSettings extends Module<BlockSettingsNodes> {
      *
      * So, we need to restore selection back to Block after closing the Block Settings
      */
-    if (!SelectionUtils.isAtEditor) {
+    if (!SelectionUtils.isRangeInsideContainer(this.Editor.UI.nodes.redactor)) {
       this.selection.restore();
     }
 
@@ -186,6 +194,7 @@ export default class BlockSettings extends Module<BlockSettingsNodes> {
     }
 
     /** Tell to subscribers that block settings is closed */
+    this.eventsDispatcher.emit('block-settings:closed');
     this.eventsDispatcher.emit(this.events.closed);
 
     if (this.popover) {
@@ -220,7 +229,7 @@ export default class BlockSettings extends Module<BlockSettingsNodes> {
       tool.toolbox.forEach((toolboxItem) => {
         result.push({
           icon: toolboxItem.icon,
-          title: I18n.t(I18nInternalNS.toolNames, toolboxItem.title),
+          title: this.i18n.t(I18nInternalNS.toolNames, toolboxItem.title),
           name: tool.name,
           closeOnActivate: true,
           onActivate: async () => {
@@ -242,7 +251,7 @@ export default class BlockSettings extends Module<BlockSettingsNodes> {
       items.push({
         icon: IconReplace,
         name: 'convert-to',
-        title: I18n.ui(I18nInternalNS.ui.popover, 'Convert to'),
+        title: this.i18n.ui(I18nInternalNS.ui.popover, 'Convert to'),
         children: {
           searchable: true,
           items: convertToItems,
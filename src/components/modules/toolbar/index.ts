@@ -1,14 +1,13 @@
 import Module from '../../__module';
 import $, { calculateBaseline } from '../../dom';
 import * as _ from '../../utils';
-import I18n from '../../i18n';
 import { I18nInternalNS } from '../../i18n/namespace-internal';
-import * as tooltip from '../../utils/tooltip';
 import type { ModuleConfig } from '../../../types-internal/module-config';
 import type Block from '../../block';
 import Toolbox, { ToolboxEvent } from '../../ui/toolbox';
 import { IconMenu, IconPlus } from '@codexteam/icons';
 import { BlockHovered } from '../../events/BlockHovered';
+import BlockAPI from '../../block/api';
 import { beautifyShortcut } from '../../utils';
 import { getKeyboardKeyForCode } from '../../utils/keyboard';
 
@@ -104,16 +103,29 @@ export default class Toolbar extends Module<ToolbarNodes> {
    */
   private toolboxInstance: Toolbox | null = null;
 
+  /**
+   * Translated texts of the Plus Button and Block Tunes toggler tooltips. Updated when the locale is changed
+   */
+  private tooltipTexts: {
+    add: Text;
+    clickToTune: Text;
+    dragToMove: HTMLElement;
+  } | null = null;
+
   /**
    * @class
    * @param moduleConfiguration - Module Configuration
    * @param moduleConfiguration.config - Editor's config
    * @param moduleConfiguration.eventsDispatcher - Editor's event dispatcher
+   * @param moduleConfiguration.i18n - Editor instance translator
+   * @param moduleConfiguration.tooltip - Editor instance tooltip
    */
-  constructor({ config, eventsDispatcher }: ModuleConfig) {
+  constructor({ config, eventsDispatcher, i18n, tooltip }: ModuleConfig) {
     super({
       config,
       eventsDispatcher,
+      i18n,
+      tooltip,
     });
   }
 
@@ -239,6 +251,30 @@ export default class Toolbar extends Module<ToolbarNodes> {
     }
   }
 
+  /**
+   * Translates the tooltips and the Toolbox with the current dictionary
+   */
+  public updateLocale(): void {
+    this.translateTooltips();
+    this.updateToolbox();
+  }
+
+  /**
+   * Creates the Toolbox again to display the Block Tools registered or unregistered at runtime
+   */
+  public updateToolbox(): void {
+    if (this.toolboxInstance === null || this.Editor.ReadOnly.isEnabled) {
+      return;
+    }
+
+    const nextSibling = this.toolboxInstance.getElement()?.nextSibling ?? null;
+
+    this.toolboxInstance.close();
+    this.toolboxInstance.destroy();
+
+    this.nodes.actions.insertBefore(this.makeToolbox(), nextSibling);
+  }
+
   /**
    * Move Toolbar to the passed (or current) Block
    *
@@ -364,6 +400,12 @@ export default class Toolbar extends Module<ToolbarNodes> {
     }
 
     this.open();
+
+    this.eventsDispatcher.emit('toolbar:opened', {
+      // we cast to any because our BlockAPI has no "new" signature
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      block: new (BlockAPI as any)(block),
+    });
   }
 
   /**
@@ -374,6 +416,8 @@ export default class Toolbar extends Module<ToolbarNodes> {
       return;
     }
 
+    const wasOpened = this.nodes.wrapper?.classList.contains(this.CSS.toolbarOpened);
+
     this.nodes.wrapper?.classList.remove(this.CSS.toolbarOpened);
 
     /** Close components */
@@ -381,6 +425,10 @@ export default class Toolbar extends Module<ToolbarNodes> {
     this.toolboxInstance?.close();
     this.Editor.BlockSettings.close();
     this.reset();
+
+    if (wasOpened) {
+      this.eventsDispatcher.emit('toolbar:closed');
+    }
   }
 
   /**
@@ -439,7 +487,7 @@ export default class Toolbar extends Module<ToolbarNodes> {
     $.append(this.nodes.actions, this.nodes.plusButton);
 
     this.readOnlyMutableListeners.on(this.nodes.plusButton, 'click', () => {
-      tooltip.hide(true);
+      this.tooltip?.hide(true);
       this.plusButtonClicked();
     }, false);
 
@@ -447,13 +495,14 @@ export default class Toolbar extends Module<ToolbarNodes> {
      * Add events to show/hide tooltip for plus button
      */
     const tooltipContent = $.make('div');
+    const addText = $.text('');
 
-    tooltipContent.appendChild(document.createTextNode(I18n.ui(I18nInternalNS.ui.toolbar.toolbox, 'Add')));
+    tooltipContent.appendChild(addText);
     tooltipContent.appendChild($.make('div', this.CSS.plusButtonShortcut, {
       textContent: '/',
     }));
 
-    tooltip.onHover(this.nodes.plusButton, tooltipContent, {
+    this.tooltip?.onHover(this.nodes.plusButton, tooltipContent, {
       hidingDelay: 400,
     });
 
@@ -465,20 +514,30 @@ export default class Toolbar extends Module<ToolbarNodes> {
      */
     this.nodes.settingsToggler = $.make('span', this.CSS.settingsToggler, {
       innerHTML: IconMenu,
+      draggable: true,
     });
 
     $.append(this.nodes.actions, this.nodes.settingsToggler);
 
     const blockTunesTooltip = $.make('div');
-    const blockTunesTooltipEl = $.text(I18n.ui(I18nInternalNS.ui.blockTunes.toggler, 'Click to tune'));
+    const blockTunesTooltipEl = $.text('');
+    const dragToMoveEl = $.make('div');
     const slashRealKey = await getKeyboardKeyForCode('Slash', '/');
 
     blockTunesTooltip.appendChild(blockTunesTooltipEl);
+    blockTunesTooltip.appendChild(dragToMoveEl);
     blockTunesTooltip.appendChild($.make('div', this.CSS.plusButtonShortcut, {
       textContent: beautifyShortcut(`CMD + ${slashRealKey}`),
     }));
 
-    tooltip.onHover(this.nodes.settingsToggler, blockTunesTooltip, {
+    this.tooltipTexts = {
+      add: addText,
+      clickToTune: blockTunesTooltipEl,
+      dragToMove: dragToMoveEl,
+    };
+    this.translateTooltips();
+
+    this.tooltip?.onHover(this.nodes.settingsToggler, blockTunesTooltip, {
       hidingDelay: 400,
     });
 
@@ -494,6 +553,19 @@ export default class Toolbar extends Module<ToolbarNodes> {
     $.append(this.Editor.UI.nodes.wrapper, this.nodes.wrapper);
   }
 
+  /**
+   * Fills the Plus Button and Block Tunes toggler tooltips with the texts of the current dictionary
+   */
+  private translateTooltips(): void {
+    if (this.tooltipTexts === null) {
+      return;
+    }
+
+    this.tooltipTexts.add.textContent = this.i18n.ui(I18nInternalNS.ui.toolbar.toolbox, 'Add');
+    this.tooltipTexts.clickToTune.textContent = this.i18n.ui(I18nInternalNS.ui.blockTunes.toggler, 'Click to tune');
+    this.tooltipTexts.dragToMove.textContent = this.i18n.ui(I18nInternalNS.ui.blockTunes.toggler, 'or drag to move');
+  }
+
   /**
    * Creates the Toolbox instance and return it's rendered element
    */
@@ -505,17 +577,30 @@ export default class Toolbar extends Module<ToolbarNodes> {
       api: this.Editor.API.methods,
       tools: this.Editor.Tools.blockTools,
       i18nLabels: {
-        filter: I18n.ui(I18nInternalNS.ui.popover, 'Filter'),
-        nothingFound: I18n.ui(I18nInternalNS.ui.popover, 'Nothing found'),
+        filter: this.i18n.ui(I18nInternalNS.ui.popover, 'Filter'),
+        nothingFound: this.i18n.ui(I18nInternalNS.ui.popover, 'Nothing found'),
       },
+      i18n: this.i18n,
+      tooltip: this.tooltip,
     });
 
     this.toolboxInstance.on(ToolboxEvent.Opened, () => {
       this.Editor.UI.nodes.wrapper.classList.add(this.CSS.openedToolboxHolderModifier);
+      this.eventsDispatcher.emit('toolbox:opened');
     });
 
     this.toolboxInstance.on(ToolboxEvent.Closed, () => {
-      this.Editor.UI.nodes.wrapper.classList.remove(this.CSS.openedToolboxHolderModifier);
+      const { wrapper } = this.Editor.UI.nodes;
+
+      /**
+       * Toolbox emits 'closed' on every close() call, so report only the real state change
+       */
+      if (!wrapper.classList.contains(this.CSS.openedToolboxHolderModifier)) {
+        return;
+      }
+
+      wrapper.classList.remove(this.CSS.openedToolboxHolderModifier);
+      this.eventsDispatcher.emit('toolbox:closed');
     });
 
     this.toolboxInstance.on(ToolboxEvent.BlockAdded, ({ block }) => {
@@ -575,9 +660,20 @@ export default class Toolbar extends Module<ToolbarNodes> {
         this.toolboxInstance.close();
       }
 
-      tooltip.hide(true);
+      this.tooltip?.hide(true);
     }, true);
 
+    /**
+     * Dragging the Settings toggler reorders the hovered Block or all selected Blocks
+     */
+    this.readOnlyMutableListeners.on(this.nodes.settingsToggler, 'dragstart', (event: DragEvent) => {
+      this.Editor.BlockSettings.close();
+
+      this.tooltip?.hide(true);
+
+      this.Editor.DragNDrop.startBlocksDragging(this.hoveredBlock, event);
+    });
+
     /**
      * Subscribe to the 'block-hovered' event if current view is not mobile
      *
@@ -4,7 +4,6 @@ import $ from '../../dom';
 import SelectionUtils from '../../selection';
 import * as _ from '../../utils';
 import type { InlineTool as IInlineTool } from '../../../../types';
-import I18n from '../../i18n';
 import { I18nInternalNS } from '../../i18n/namespace-internal';
 import Shortcuts from '../../utils/shortcuts';
 import type { ModuleConfig } from '../../../types-internal/module-config';
@@ -61,11 +60,15 @@ export default class InlineToolbar extends Module<InlineToolbarNodes> {
    * @param moduleConfiguration - Module Configuration
    * @param moduleConfiguration.config - Editor's config
    * @param moduleConfiguration.eventsDispatcher - Editor's event dispatcher
+   * @param moduleConfiguration.i18n - Editor instance translator
+   * @param moduleConfiguration.tooltip - Editor instance tooltip
    */
-  constructor({ config, eventsDispatcher }: ModuleConfig) {
+  constructor({ config, eventsDispatcher, i18n, tooltip }: ModuleConfig) {
     super({
       config,
       eventsDispatcher,
+      i18n,
+      tooltip,
     });
 
     window.requestIdleCallback(() => {
@@ -131,6 +134,13 @@ export default class InlineToolbar extends Module<InlineToolbarNodes> {
     this.popover = null;
   }
 
+  /**
+   * Toggles RTL styles of the Inline Toolbar according to the current text direction
+   */
+  public updateDirection(): void {
+    this.nodes.wrapper?.classList.toggle(this.Editor.UI.CSS.editorRtlFix, this.isRtl);
+  }
+
   /**
    * Check if node is contained by Inline Toolbar
    *
@@ -198,9 +208,10 @@ export default class InlineToolbar extends Module<InlineToolbarNodes> {
       items: popoverItems,
       scopeElement: this.Editor.API.methods.ui.nodes.redactor,
       messages: {
-        nothingFound: I18n.ui(I18nInternalNS.ui.popover, 'Nothing found'),
-        search: I18n.ui(I18nInternalNS.ui.popover, 'Filter'),
+        nothingFound: this.i18n.ui(I18nInternalNS.ui.popover, 'Nothing found'),
+        search: this.i18n.ui(I18nInternalNS.ui.popover, 'Filter'),
       },
+      tooltip: this.tooltip,
     });
 
     this.move(this.popover.size.width);
@@ -380,7 +391,7 @@ export default class InlineToolbar extends Module<InlineToolbarNodes> {
 
       const shortcutBeautified = shortcut !== undefined ? _.beautifyShortcut(shortcut) : undefined;
 
-      const toolTitle = I18n.t(
+      const toolTitle = this.i18n.t(
         I18nInternalNS.toolNames,
         tool.title || _.capitalize(tool.name)
       );
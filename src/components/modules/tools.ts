@@ -1,6 +1,7 @@
 import Paragraph from '@editorjs/paragraph';
 import Module from '../__module';
 import * as _ from '../utils';
+import { I18nInternalNS } from '../i18n/namespace-internal';
 import type { SanitizerConfig, ToolConfig, ToolConstructable, ToolSettings } from '../../../types';
 import BoldInlineTool from '../inline-tools/inline-tool-bold';
 import ItalicInlineTool from '../inline-tools/inline-tool-italic';
@@ -15,6 +16,7 @@ import MoveDownTune from '../block-tunes/block-tune-move-down';
 import DeleteTune from '../block-tunes/block-tune-delete';
 import MoveUpTune from '../block-tunes/block-tune-move-up';
 import ToolsCollection from '../tools/collection';
+import type { ToolClass } from '../tools/collection';
 
 /**
  * @module Editor.js Tools Submodule
@@ -83,6 +85,11 @@ export default class Tools extends Module {
    */
   private factory: ToolsFactory;
 
+  /**
+   * Unified settings of the Tools by their names. Used by the factory, so Tools registered at runtime are added here
+   */
+  private toolsSettings: {[name: string]: ToolSettings} = {};
+
   /**
    * Tools` classes available to use
    */
@@ -93,6 +100,11 @@ export default class Tools extends Module {
    */
   private readonly toolsUnavailable: ToolsCollection = new ToolsCollection();
 
+  /**
+   * Promises of the Tools being loaded on demand by their names
+   */
+  private readonly loadingTools = new Map<string, Promise<boolean>>();
+
   /**
    * Returns internal tools
    */
@@ -119,6 +131,7 @@ export default class Tools extends Module {
 
     const config = this.prepareConfig();
 
+    this.toolsSettings = config;
     this.factory = new ToolsFactory(config, this.config, this.Editor.API);
 
     /**
@@ -145,6 +158,116 @@ export default class Tools extends Module {
     this.prepareBlockTools();
   }
 
+  /**
+   * Registers the Tool after the Editor is initialized: prepares it, updates the Toolbox, paste handling and the Inline Toolbar,
+   * and renders the Blocks of this Tool displayed as Stubs
+   *
+   * @param name - Tool name
+   * @param settings - Tool class or settings object, the same as in the «tools» config property
+   */
+  public async register(name: string, settings: ToolConstructable | ToolSettings): Promise<void> {
+    if (this.available.has(name) || this.unavailable.has(name)) {
+      throw Error(`Tool «${name}» is already registered`);
+    }
+
+    this.validateTool(name, settings);
+
+    const toolSettings = this.unifySettings(settings);
+
+    this.toolsSettings[name] = toolSettings;
+
+    await _.sequence(this.getListOfPrepareFunctions({ [name]: toolSettings }), (data: { toolName: string }) => {
+      this.toolPrepareMethodSuccess(data);
+    }, (data: { toolName: string }) => {
+      this.toolPrepareMethodFallback(data);
+    });
+
+    const tool = this.available.get(name);
+
+    if (tool === undefined || (tool.isBlock() && !tool.isReadOnlySupported && this.Editor.ReadOnly.isEnabled)) {
+      this.toolsAvailable.delete(name);
+      this.toolsUnavailable.delete(name);
+      delete this.toolsSettings[name];
+
+      throw Error(tool === undefined
+        ? `Tool «${name}» is not registered because of the preparation failure`
+        : `Tool «${name}» is not registered because it does not support the read-only mode`);
+    }
+
+    this.applyToolsChange();
+
+    if (tool.isBlock()) {
+      await this.Editor.BlockManager.refreshBlocksOfTool(name);
+    }
+  }
+
+  /**
+   * Unregisters the Tool: Blocks of the Block Tool are replaced with Stubs keeping their data,
+   * the Toolbox, paste handling and the Inline Toolbar are updated
+   *
+   * @param name - Tool name
+   */
+  public async unregister(name: string): Promise<void> {
+    const tool = this.available.get(name) ?? this.unavailable.get(name);
+
+    if (tool === undefined) {
+      throw Error(`Tool «${name}» is not registered`);
+    }
+
+    if (tool.isInternal || name === this.config.defaultBlock) {
+      throw Error(`Tool «${name}» can not be unregistered because it is used by the Editor`);
+    }
+
+    this.toolsAvailable.delete(name);
+    this.toolsUnavailable.delete(name);
+    this.loadingTools.delete(name);
+    delete this.toolsSettings[name];
+
+    this.applyToolsChange();
+
+    if (tool.isBlock()) {
+      await this.Editor.BlockManager.refreshBlocksOfTool(name);
+    }
+
+    if (_.isFunction(tool.reset)) {
+      await tool.reset();
+    }
+  }
+
+  /**
+   * Loads the Block Tool passed as a loader function. Resolves immediately if the Tool is already loaded.
+   * If loading fails, it is retried on the next call
+   *
+   * @param name - Tool name
+   * @returns {Promise<boolean>} - false if the Tool failed to load
+   */
+  public load(name: string): Promise<boolean> {
+    const tool = this.blockTools.get(name);
+
+    if (tool === undefined || tool.isLoaded) {
+      return Promise.resolve(true);
+    }
+
+    let loading = this.loadingTools.get(name);
+
+    if (loading === undefined) {
+      loading = tool.load()
+        .then(() => true)
+        .catch((error) => {
+          _.log(`Tool «${name}» is not loaded because of %o`, 'error', error);
+
+          return false;
+        })
+        .finally(() => {
+          this.loadingTools.delete(name);
+        });
+
+      this.loadingTools.set(name, loading);
+    }
+
+    return loading;
+  }
+
   /**
    * Return general Sanitizer config for all inline tools
    */
@@ -180,6 +303,9 @@ export default class Tools extends Module {
       convertTo: {
         class: ConvertInlineTool,
         isInternal: true,
+        config: {
+          translateToolName: (title: string): string => this.i18n.t(I18nInternalNS.toolNames, title),
+        },
       },
       link: {
         class: LinkInlineTool,
@@ -275,9 +401,14 @@ export default class Tools extends Module {
     Object
       .entries(config)
       .forEach(([toolName, settings]) => {
+        /**
+         * Tools loaded on demand are prepared after loading
+         */
+        const prepare = _.isToolLoader(settings.class) ? undefined : settings.class?.prepare;
+
         toolPreparationList.push({
           // eslint-disable-next-line @typescript-eslint/no-empty-function
-          function: _.isFunction(settings.class.prepare) ? settings.class.prepare : (): void => {},
+          function: _.isFunction(prepare) ? prepare : (): void => {},
           data: {
             toolName,
             config: settings.config,
@@ -288,6 +419,29 @@ export default class Tools extends Module {
     return toolPreparationList;
   }
 
+  /**
+   * Updates the Tools dependent parts of the Editor after the Tool is registered or unregistered
+   */
+  private applyToolsChange(): void {
+    const { Toolbar, InlineToolbar, Paste } = this.Editor;
+
+    _.clearCache(this, 'getAllInlineToolsSanitizeConfig');
+
+    this.prepareBlockTools();
+
+    /**
+     * Sanitize configs are composed from the Inline Tools and Block Tunes assigned to the Block Tool
+     */
+    this.blockTools.forEach((tool) => {
+      _.clearCache(tool, 'baseSanitizeConfig');
+      _.clearCache(tool, 'sanitizeConfig');
+    });
+
+    InlineToolbar.close();
+    Toolbar.updateToolbox();
+    Paste.updateToolsConfigs();
+  }
+
   /**
    * Assign enabled Inline Tools and Block Tunes for Block Tool
    */
@@ -317,14 +471,12 @@ export default class Tools extends Module {
      * - if common settings is 'true' or not specified, get default order
      */
     if (tool.enabledInlineTools === true) {
-      tool.inlineTools = new ToolsCollection<InlineToolAdapter>(
-        Array.isArray(this.config.inlineToolbar)
-          ? this.config.inlineToolbar.map(name => [name, this.inlineTools.get(name)])
-          /**
-           * If common settings is 'true' or not specified (will be set as true at core.ts), get the default order
-           */
-          : Array.from(this.inlineTools.entries())
-      );
+      tool.inlineTools = Array.isArray(this.config.inlineToolbar)
+        ? this.pick(this.inlineTools, this.config.inlineToolbar)
+        /**
+         * If common settings is 'true' or not specified (will be set as true at core.ts), get the default order
+         */
+        : new ToolsCollection<InlineToolAdapter>(Array.from(this.inlineTools.entries()));
 
       return;
     }
@@ -333,10 +485,8 @@ export default class Tools extends Module {
      * If user pass the list of inline tools for the particular tool, return it.
      */
     if (Array.isArray(tool.enabledInlineTools)) {
-      tool.inlineTools = new ToolsCollection<InlineToolAdapter>(
-        /** Prepend ConvertTo Inline Tool */
-        ['convertTo', ...tool.enabledInlineTools].map(name => [name, this.inlineTools.get(name)])
-      );
+      /** Prepend ConvertTo Inline Tool */
+      tool.inlineTools = this.pick(this.inlineTools, ['convertTo', ...tool.enabledInlineTools]);
     }
   }
 
@@ -351,9 +501,7 @@ export default class Tools extends Module {
     }
 
     if (Array.isArray(tool.enabledBlockTunes)) {
-      const userTunes = new ToolsCollection<BlockTuneAdapter>(
-        tool.enabledBlockTunes.map(name => [name, this.blockTunes.get(name)])
-      );
+      const userTunes = this.pick(this.blockTunes, tool.enabledBlockTunes);
 
       tool.tunes = new ToolsCollection<BlockTuneAdapter>([...userTunes, ...this.blockTunes.internalTools]);
 
@@ -361,9 +509,7 @@ export default class Tools extends Module {
     }
 
     if (Array.isArray(this.config.tunes)) {
-      const userTunes = new ToolsCollection<BlockTuneAdapter>(
-        this.config.tunes.map(name => [name, this.blockTunes.get(name)])
-      );
+      const userTunes = this.pick(this.blockTunes, this.config.tunes);
 
       tool.tunes = new ToolsCollection<BlockTuneAdapter>([...userTunes, ...this.blockTunes.internalTools]);
 
@@ -373,6 +519,20 @@ export default class Tools extends Module {
     tool.tunes = this.blockTunes.internalTools;
   }
 
+  /**
+   * Returns collection of the Tools with passed names in the passed order. Missing Tools, for example unregistered ones, are skipped
+   *
+   * @param tools - collection to pick Tools from
+   * @param names - names of the Tools to pick
+   */
+  private pick<T extends ToolClass>(tools: ToolsCollection<T>, names: string[]): ToolsCollection<T> {
+    return new ToolsCollection<T>(
+      names
+        .filter(name => tools.has(name))
+        .map(name => [name, tools.get(name)])
+    );
+  }
+
   /**
    * Validate Tools configuration objects and throw Error for user if it is invalid
    */
@@ -386,17 +546,25 @@ export default class Tools extends Module {
           return;
         }
 
-        const tool = this.config.tools[toolName];
-
-        if (!_.isFunction(tool) && !_.isFunction((tool as ToolSettings).class)) {
-          throw Error(
-            `Tool «${toolName}» must be a constructor function or an object with function in the «class» property`
-          );
-        }
+        this.validateTool(toolName, this.config.tools[toolName]);
       }
     }
   }
 
+  /**
+   * Throws Error for user if the Tool configuration object is invalid
+   *
+   * @param toolName - Tool name
+   * @param tool - Tool class or settings object
+   */
+  private validateTool(toolName: string, tool: ToolConstructable | ToolSettings): void {
+    if (!_.isFunction(tool) && !_.isFunction((tool as ToolSettings)?.class)) {
+      throw Error(
+        `Tool «${toolName}» must be a constructor function or an object with function in the «class» property`
+      );
+    }
+  }
+
   /**
    * Unify tools config
    */
@@ -407,17 +575,23 @@ export default class Tools extends Module {
      * Save Tools settings to a map
      */
     for (const toolName in this.config.tools) {
-      /**
-       * If Tool is an object not a Tool's class then
-       * save class and settings separately
-       */
-      if (_.isObject(this.config.tools[toolName])) {
-        config[toolName] = this.config.tools[toolName] as ToolSettings;
-      } else {
-        config[toolName] = { class: this.config.tools[toolName] as ToolConstructable };
-      }
+      config[toolName] = this.unifySettings(this.config.tools[toolName]);
     }
 
     return config;
   }
+
+  /**
+   * If Tool is an object not a Tool's class then
+   * save class and settings separately
+   *
+   * @param tool - Tool class or settings object
+   */
+  private unifySettings(tool: ToolConstructable | ToolSettings): ToolSettings {
+    if (_.isObject(tool)) {
+      return tool as ToolSettings;
+    }
+
+    return { class: tool as ToolConstructable };
+  }
 }
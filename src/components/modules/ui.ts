@@ -17,6 +17,7 @@ import styles from '../../styles/main.css?inline';
 import { BlockHovered } from '../events/BlockHovered';
 import { selectionChangeDebounceTimeout } from '../constants';
 import { EditorMobileLayoutToggled } from '../events';
+import BlockAPI from '../block/api';
 /**
  * HTML Elements used for UI
  */
@@ -188,6 +189,13 @@ export default class UI extends Module<UINodes> {
     this.nodes.wrapper.classList.toggle(this.CSS.editorEmpty, BlockManager.isEditorEmpty);
   }
 
+  /**
+   * Toggles RTL styles according to the current text direction
+   */
+  public updateDirection(): void {
+    this.nodes.wrapper.classList.toggle(this.CSS.editorRtlFix, this.isRtl);
+  }
+
   /**
    * Check if one of Toolbar is opened
    * Used to prevent global keydowns (for example, Enter) conflicts with Enter-on-toolbar
@@ -252,6 +260,22 @@ export default class UI extends Module<UINodes> {
     this.documentTouched(event);
   };
 
+  /**
+   * Event listener for 'focusin' and 'focusout' events.
+   * Moving focus between elements inside the Editor is not reported
+   *
+   * @param event - FocusEvent
+   */
+  private focusChangedListener = (event: Event): void => {
+    const { relatedTarget } = event as FocusEvent;
+
+    if (relatedTarget instanceof Node && this.nodes.wrapper.contains(relatedTarget)) {
+      return;
+    }
+
+    this.eventsDispatcher.emit(event.type === 'focusin' ? 'editor:focused' : 'editor:blurred');
+  };
+
   /**
    * Check for mobile mode and save the result
    */
@@ -263,7 +287,7 @@ export default class UI extends Module<UINodes> {
        * Dispatch global event
        */
       this.eventsDispatcher.emit(EditorMobileLayoutToggled, {
-        isEnabled: this.isMobile,
+        isEnabled: isMobile,
       });
     }
 
@@ -360,6 +384,9 @@ export default class UI extends Module<UINodes> {
       passive: true,
     });
 
+    this.listeners.on(this.nodes.wrapper, 'focusin', this.focusChangedListener);
+    this.listeners.on(this.nodes.wrapper, 'focusout', this.focusChangedListener);
+
     this.listeners.on(this.nodes.redactor, 'mousedown', this.documentTouchedListener, {
       capture: true,
       passive: true,
@@ -377,6 +404,8 @@ export default class UI extends Module<UINodes> {
   private unbindReadOnlyInsensitiveListeners(): void {
     this.listeners.off(document, 'selectionchange', this.selectionChangeDebounced);
     this.listeners.off(window, 'resize', this.resizeDebouncer);
+    this.listeners.off(this.nodes.wrapper, 'focusin', this.focusChangedListener);
+    this.listeners.off(this.nodes.wrapper, 'focusout', this.focusChangedListener);
     this.listeners.off(this.nodes.redactor, 'mousedown', this.documentTouchedListener);
     this.listeners.off(this.nodes.redactor, 'touchstart', this.documentTouchedListener);
   }
@@ -440,8 +469,16 @@ export default class UI extends Module<UINodes> {
 
       blockHoveredEmitted = hoveredBlock;
 
+      const block = this.Editor.BlockManager.getBlockByChildNode(hoveredBlock);
+
       this.eventsDispatcher.emit(BlockHovered, {
-        block: this.Editor.BlockManager.getBlockByChildNode(hoveredBlock),
+        block,
+      });
+
+      this.eventsDispatcher.emit('block:hovered', {
+        // we cast to any because our BlockAPI has no "new" signature
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        block: new (BlockAPI as any)(block),
       });
     // eslint-disable-next-line @typescript-eslint/no-magic-numbers
     }, 20), {
@@ -669,7 +706,7 @@ export default class UI extends Module<UINodes> {
      * Do not fire check on clicks at the Inline Toolbar buttons
      */
     const target = event.target as HTMLElement;
-    const clickedInsideOfEditor = this.nodes.holder.contains(target) || Selection.isAtEditor;
+    const clickedInsideOfEditor = this.nodes.holder.contains(target) || Selection.isRangeInsideContainer(this.nodes.redactor);
 
     if (!clickedInsideOfEditor) {
       /**
@@ -825,8 +862,9 @@ export default class UI extends Module<UINodes> {
        * - last-block is not a default-block (Text)
        *   to prevent unnecessary tree-walking on Tools with many nodes (for ex. Table)
        * - Or, default-block is not empty
+       * - Or, last-block is nested in the container
        */
-      if (!BlockManager.lastBlock.tool.isDefault || !BlockManager.lastBlock.isEmpty) {
+      if (!BlockManager.lastBlock.tool.isDefault || !BlockManager.lastBlock.isEmpty || BlockManager.lastBlock.parentId !== null) {
         BlockManager.insertAtEnd();
       }
 
@@ -904,9 +942,42 @@ export default class UI extends Module<UINodes> {
       this.Editor.BlockManager.setCurrentBlockByChildNode(focusedElement);
     }
 
+    this.emitSelectionEvents();
+
     this.Editor.InlineToolbar.tryToShow(true);
   }
 
+  /**
+   * Tells subscribers about the caret position or the selected text inside the current Block
+   */
+  private emitSelectionEvents(): void {
+    const range = Selection.range;
+    const { currentBlock } = this.Editor.BlockManager;
+
+    if (range === null || currentBlock === undefined) {
+      return;
+    }
+
+    // we cast to any because our BlockAPI has no "new" signature
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const block = new (BlockAPI as any)(currentBlock);
+
+    if (range.collapsed) {
+      this.eventsDispatcher.emit('caret:moved', {
+        block,
+        range,
+      });
+
+      return;
+    }
+
+    this.eventsDispatcher.emit('selection:changed', {
+      block,
+      range,
+      text: range.toString(),
+    });
+  }
+
   /**
    * Editor.js provides and ability to show placeholders for empty contenteditable elements
    *
@@ -0,0 +1,261 @@
+import Module from '../__module';
+import type Block from '../block';
+import type { ModuleConfig } from '../../types-internal/module-config';
+import { BlockChanged } from '../events';
+import { BlockAddedMutationType } from '../../../types/events/block/BlockAdded';
+import { virtualizationDefaultEstimatedHeight, virtualizationDefaultMargin } from '../constants';
+import SelectionUtils from '../selection';
+import * as _ from '../utils';
+import type { BlockId } from '../../../types';
+
+/**
+ * @module Virtualization
+ *
+ * Renders only Blocks near the viewport when the 'virtualization' config property is passed.
+ * Top-level Blocks are composed with placeholders, and Tools render their content when they appear near the viewport.
+ * Content of Blocks scrolled far from the viewport is replaced with placeholders of the measured height again.
+ * Placeholders contain the text of Blocks, so browser's page search finds it.
+ * Blocks themselves stay in the BlockManager, so saving, caret navigation and API work with the whole document:
+ * Block not rendered yet is saved with its initial data and rendered once its content is accessed.
+ *
+ * Only the top-level Blocks are tracked. Containers are rendered on insertion, since nested Blocks are placed to their slots,
+ * and nested Blocks are detached together with their container
+ */
+export default class Virtualization extends Module {
+  /**
+   * Observer tracking Blocks appearing near the viewport. Null if virtualization is disabled
+   */
+  private observer: IntersectionObserver | null = null;
+
+  /**
+   * Tracked Blocks by their holders
+   */
+  private trackedBlocks = new Map<Element, Block>();
+
+  /**
+   * Height of the placeholder of the Block that has not been measured yet
+   */
+  private estimatedHeight = virtualizationDefaultEstimatedHeight;
+
+  /**
+   * Distance in px from the viewport edges within which Blocks are rendered
+   */
+  private margin = virtualizationDefaultMargin;
+
+  /**
+   * @param options - Module options
+   * @param options.config - Editor configuration object
+   * @param options.eventsDispatcher - common Editor event bus
+   * @param options.i18n - Editor instance translator
+   * @param options.tooltip - Editor instance tooltip
+   */
+  constructor({ config, eventsDispatcher, i18n, tooltip }: ModuleConfig) {
+    super({
+      config,
+      eventsDispatcher,
+      i18n,
+      tooltip,
+    });
+
+    /**
+     * Blocks inserted by user are rendered, but they should be detached when scrolled out of the viewport
+     */
+    this.eventsDispatcher.on(BlockChanged, ({ event }) => {
+      if (this.observer === null || event.type !== BlockAddedMutationType) {
+        return;
+      }
+
+      const block = this.Editor.BlockManager.getBlockById(event.detail.target.id);
+
+      if (block !== undefined) {
+        this.track(block);
+      }
+    });
+  }
+
+  /**
+   * Returns true if the 'virtualization' config property is passed
+   */
+  public get isEnabled(): boolean {
+    return this.observer !== null;
+  }
+
+  /**
+   * Creates the observer with the configured margin
+   */
+  public prepare(): void {
+    const settings = this.config.virtualization;
+
+    if (settings === undefined || settings === false) {
+      return;
+    }
+
+    const {
+      margin = virtualizationDefaultMargin,
+      estimatedHeight = virtualizationDefaultEstimatedHeight,
+    } = settings === true ? {} : settings;
+
+    this.estimatedHeight = estimatedHeight;
+    this.margin = margin;
+    this.observer = new IntersectionObserver((entries) => {
+      this.processIntersections(entries);
+    }, {
+      rootMargin: `${margin}px 0px`,
+    });
+  }
+
+  /**
+   * Returns height of the placeholder the Block should be composed with, so Tool renders it only near the viewport.
+   * Returns undefined if virtualization is disabled or the Block is rendered on insertion: nested Blocks and containers are placed to the slots
+   *
+   * @param tool - name of the Block Tool
+   * @param parentId - id of the Block container. Null for the top-level Block
+   */
+  public getPlaceholderHeight(tool: string, parentId: BlockId | null): number | undefined {
+    if (this.observer === null || parentId !== null) {
+      return undefined;
+    }
+
+    const slots = this.Editor.Tools.blockTools.get(tool)?.slots ?? [];
+
+    return slots.length === 0 ? this.estimatedHeight : undefined;
+  }
+
+  /**
+   * Starts tracking inserted Blocks. Content of the rendered ones is detached until they appear near the viewport.
+   * Called right after Blocks are inserted, so their content is not laid out
+   *
+   * @param blocks - inserted Blocks
+   */
+  public observe(blocks: Block[]): void {
+    if (this.observer === null) {
+      return;
+    }
+
+    const topLevelBlocks = blocks.filter((block) => block.parentId === null);
+
+    topLevelBlocks.forEach((block) => {
+      block.detachContent(this.estimatedHeight);
+
+      this.track(block);
+    });
+
+    /**
+     * Observer reports intersections after the next frame, so Blocks of the first screen are shown right away
+     */
+    topLevelBlocks
+      .filter((block) => this.isNearViewport(block))
+      .forEach((block) => this.show(block));
+  }
+
+  /**
+   * Returns detached content of the Block and its containers to the DOM, for example before the caret is set to the Block
+   *
+   * @param block - Block to show
+   */
+  public reveal(block: Block): void {
+    const { BlockManager } = this.Editor;
+    let topLevelBlock: Block | undefined = block;
+
+    while (topLevelBlock !== undefined && topLevelBlock.parentId !== null) {
+      topLevelBlock = BlockManager.getBlockById(topLevelBlock.parentId);
+    }
+
+    topLevelBlock?.attachContent();
+  }
+
+  /**
+   * Module destruction
+   * Stops tracking Blocks
+   */
+  public destroy(): void {
+    this.observer?.disconnect();
+    this.trackedBlocks.clear();
+  }
+
+  /**
+   * Starts tracking the top-level Block
+   *
+   * @param block - Block to track
+   */
+  private track(block: Block): void {
+    if (this.observer === null || block.parentId !== null || this.trackedBlocks.has(block.holder)) {
+      return;
+    }
+
+    this.trackedBlocks.set(block.holder, block);
+    this.observer.observe(block.holder);
+  }
+
+  /**
+   * Attaches content of Blocks appeared near the viewport and detaches content of disappeared ones
+   *
+   * @param entries - changed intersections
+   */
+  private processIntersections(entries: IntersectionObserverEntry[]): void {
+    entries.forEach(({ target, isIntersecting, boundingClientRect }) => {
+      const block = this.trackedBlocks.get(target);
+
+      if (block === undefined) {
+        return;
+      }
+
+      /**
+       * Block has been removed or nested into the container
+       */
+      if (!target.isConnected || block.parentId !== null) {
+        this.trackedBlocks.delete(target);
+        this.observer?.unobserve(target);
+
+        return;
+      }
+
+      if (isIntersecting) {
+        this.show(block);
+      } else if (!this.isInUse(block)) {
+        block.detachContent(boundingClientRect.height);
+      }
+    });
+  }
+
+  /**
+   * Attaches content of the Block, so Tool renders it if it has not been rendered yet.
+   * If Tool fails, the placeholder is kept and the Block is saved with its initial data
+   *
+   * @param block - top-level Block
+   */
+  private show(block: Block): void {
+    try {
+      block.attachContent();
+    } catch (error) {
+      _.log(`Block «${block.name}» can not be rendered because of plugins error`, 'error', {
+        error,
+      });
+    }
+  }
+
+  /**
+   * Returns true if the Block is within the configured margin from the viewport
+   *
+   * @param block - top-level Block
+   */
+  private isNearViewport(block: Block): boolean {
+    const { top, bottom } = block.holder.getBoundingClientRect();
+
+    return bottom >= -this.margin && top <= window.innerHeight + this.margin;
+  }
+
+  /**
+   * Returns true if the Block contains focus, selection or the current Block, so its content can not be detached
+   *
+   * @param block - top-level Block
+   */
+  private isInUse(block: Block): boolean {
+    const { BlockManager } = this.Editor;
+    const { currentBlock } = BlockManager;
+
+    return block.holder.contains(document.activeElement) ||
+      SelectionUtils.isRangeInsideContainer(block.holder) ||
+      (currentBlock !== undefined && (currentBlock === block || BlockManager.getDescendants(block).includes(currentBlock)));
+  }
+}
@@ -31,6 +31,10 @@ export enum UserSettings {
    * Tool configuration
    */
   Config = 'config',
+  /**
+   * Paste config overriding Tool's one
+   */
+  PasteConfig = 'pasteConfig',
 }
 
 /**
@@ -71,7 +75,23 @@ export enum InternalBlockToolSettings {
   /**
    * Tool paste config
    */
-  PasteConfig = 'pasteConfig'
+  PasteConfig = 'pasteConfig',
+  /**
+   * Tool method that exports its data to Markdown
+   */
+  ExportMarkdown = 'exportMarkdown',
+  /**
+   * Tool method that composes its data from the Markdown element
+   */
+  ImportMarkdown = 'importMarkdown',
+  /**
+   * Tool method that exports its data to HTML
+   */
+  ExportHTML = 'exportHTML',
+  /**
+   * Slots containing nested Blocks
+   */
+  Slots = 'slots'
 }
 
 /**
@@ -102,6 +122,10 @@ export enum InternalTuneSettings {
    * Flag specifies Tool is Block Tune
    */
   IsTune = 'isTune',
+  /**
+   * Tune method that wraps HTML exported by the Block Tool
+   */
+  WrapHTML = 'wrapHTML',
 }
 
 export type ToolOptions = Omit<ToolSettings, 'class'>;
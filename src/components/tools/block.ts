@@ -5,13 +5,18 @@ import type {
   BlockToolConstructable,
   BlockToolData,
   ConversionConfig,
+  MarkdownBlock,
   PasteConfig, SanitizerConfig, ToolboxConfig,
-  ToolboxConfigEntry
+  ToolboxConfigEntry,
+  ToolConstructable,
+  ToolLoader
 } from '@/types';
 import * as _ from '../utils';
 import type InlineToolAdapter from './inline';
 import type BlockTuneAdapter from './tune';
+import Loader from '../../tools/loader';
 import ToolsCollection from './collection';
+import { composeSanitizeConfig } from '../utils/sanitizer';
 import type { BlockToolAdapter as BlockToolAdapterInterface } from '@/types/tools/adapters/block-tool-adapter';
 import { ToolType } from '@/types/tools/adapters/tool-type';
 
@@ -47,6 +52,19 @@ export default class BlockToolAdapter extends BaseToolAdapter<ToolType.Block, IB
    * @param readOnly - True if Editor is in read-only mode
    */
   public create(data: BlockToolData, block: BlockAPI, readOnly: boolean): IBlockTool {
+    /**
+     * Block of the Tool not loaded yet is rendered with the loading placeholder
+     */
+    if (!this.isLoaded) {
+      return new Loader({
+        data,
+        block,
+        readOnly,
+        api: this.api,
+        config: this.settings,
+      });
+    }
+
     // eslint-disable-next-line new-cap
     return new this.constructable({
       data,
@@ -57,10 +75,65 @@ export default class BlockToolAdapter extends BaseToolAdapter<ToolType.Block, IB
     }) as IBlockTool;
   }
 
+  /**
+   * Returns false if the function loading the Tool class has been passed instead of it and the Tool is not loaded yet
+   */
+  public get isLoaded(): boolean {
+    return !_.isToolLoader(this.constructable);
+  }
+
+  /**
+   * Loads the Tool class by the passed loader function and prepares the Tool
+   */
+  public async load(): Promise<void> {
+    if (this.isLoaded) {
+      return;
+    }
+
+    const loaded = await (this.constructable as unknown as ToolLoader)();
+    const constructable = _.isFunction(loaded) ? loaded : (loaded as { default?: ToolConstructable })?.default;
+
+    if (!_.isFunction(constructable)) {
+      throw new Error(`Loader of the «${this.name}» Tool should resolve with the Tool class or the module exporting it by default`);
+    }
+
+    this.constructable = constructable as unknown as BlockToolConstructable;
+
+    /**
+     * Sanitize config could be composed before the Tool class has been loaded
+     */
+    _.clearCache(this, 'sanitizeConfig');
+
+    await this.prepare();
+  }
+
+  /**
+   * Calls Tool's validate method without creating the Tool instance,
+   * so data can be validated where Block can not be rendered, for example on the server side
+   *
+   * @param data - Tool data to validate
+   */
+  public async validate(data: BlockToolData): Promise<boolean> {
+    const validate = this.constructable.prototype?.validate;
+
+    if (!_.isFunction(validate)) {
+      return true;
+    }
+
+    return validate.call(Object.create(this.constructable.prototype), data);
+  }
+
   /**
    * Returns true if read-only mode is supported by Tool
    */
   public get isReadOnlySupported(): boolean {
+    /**
+     * Read-only support is unknown until the Tool is loaded, while the loading placeholder supports it
+     */
+    if (!this.isLoaded) {
+      return true;
+    }
+
     return this.constructable[InternalBlockToolSettings.IsReadOnlySupported] === true;
   }
 
@@ -88,6 +161,17 @@ export default class BlockToolAdapter extends BaseToolAdapter<ToolType.Block, IB
     const toolToolboxSettings = this.constructable[InternalBlockToolSettings.Toolbox] as ToolboxConfig;
     const userToolboxSettings = this.config[UserSettings.Toolbox];
 
+    /**
+     * Tool not loaded yet is shown in the Toolbox only if the toolbox settings are passed by user
+     */
+    if (!this.isLoaded) {
+      if (!userToolboxSettings) {
+        return;
+      }
+
+      return Array.isArray(userToolboxSettings) ? userToolboxSettings : [ userToolboxSettings ];
+    }
+
     if (_.isEmpty(toolToolboxSettings)) {
       return;
     }
@@ -135,6 +219,15 @@ export default class BlockToolAdapter extends BaseToolAdapter<ToolType.Block, IB
     }
   }
 
+  /**
+   * Returns names of the slots containing nested Blocks. Empty for the Tools that are not containers
+   */
+  public get slots(): string[] {
+    const slots = this.constructable[InternalBlockToolSettings.Slots];
+
+    return Array.isArray(slots) ? slots : [];
+  }
+
   /**
    * Returns Tool conversion configuration
    */
@@ -142,6 +235,33 @@ export default class BlockToolAdapter extends BaseToolAdapter<ToolType.Block, IB
     return this.constructable[InternalBlockToolSettings.ConversionConfig];
   }
 
+  /**
+   * Returns Tool method that exports its data to Markdown
+   */
+  public get exportMarkdown(): ((data: BlockToolData) => string) | undefined {
+    const exportMarkdown = this.constructable[InternalBlockToolSettings.ExportMarkdown];
+
+    return _.isFunction(exportMarkdown) ? exportMarkdown.bind(this.constructable) : undefined;
+  }
+
+  /**
+   * Returns Tool method that exports its data to HTML
+   */
+  public get exportHTML(): ((data: BlockToolData) => string) | undefined {
+    const exportHTML = this.constructable[InternalBlockToolSettings.ExportHTML];
+
+    return _.isFunction(exportHTML) ? exportHTML.bind(this.constructable) : undefined;
+  }
+
+  /**
+   * Returns Tool method that composes its data from the Markdown element
+   */
+  public get importMarkdown(): ((block: MarkdownBlock) => BlockToolData | undefined) | undefined {
+    const importMarkdown = this.constructable[InternalBlockToolSettings.ImportMarkdown];
+
+    return _.isFunction(importMarkdown) ? importMarkdown.bind(this.constructable) : undefined;
+  }
+
   /**
    * Returns enabled inline tools for Tool
    */
@@ -160,7 +280,7 @@ export default class BlockToolAdapter extends BaseToolAdapter<ToolType.Block, IB
    * Returns Tool paste configuration
    */
   public get pasteConfig(): PasteConfig {
-    return this.constructable[InternalBlockToolSettings.PasteConfig] ?? {};
+    return this.config[UserSettings.PasteConfig] ?? this.constructable[InternalBlockToolSettings.PasteConfig] ?? {};
   }
 
   /**
@@ -168,33 +288,7 @@ export default class BlockToolAdapter extends BaseToolAdapter<ToolType.Block, IB
    */
   @_.cacheable
   public get sanitizeConfig(): SanitizerConfig {
-    const toolRules = super.sanitizeConfig;
-    const baseConfig = this.baseSanitizeConfig;
-
-    if (_.isEmpty(toolRules)) {
-      return baseConfig;
-    }
-
-    const toolConfig = {} as SanitizerConfig;
-
-    for (const fieldName in toolRules) {
-      if (Object.prototype.hasOwnProperty.call(toolRules, fieldName)) {
-        const rule = toolRules[fieldName];
-
-        /**
-         * If rule is object, merge it with Inline Tools configuration
-         *
-         * Otherwise pass as it is
-         */
-        if (_.isObject(rule)) {
-          toolConfig[fieldName] = Object.assign({}, baseConfig, rule);
-        } else {
-          toolConfig[fieldName] = rule;
-        }
-      }
-    }
-
-    return toolConfig;
+    return composeSanitizeConfig(super.sanitizeConfig, this.baseSanitizeConfig);
   }
 
   /**
@@ -49,8 +49,12 @@ export default class ToolsFactory {
    * @param name - tool name
    */
   public get(name: string): InlineToolAdapter | BlockToolAdapter | BlockTuneAdapter {
-    const { class: constructable, isInternal = false, ...config } = this.config[name];
+    const { class: toolClass, isInternal = false, ...config } = this.config[name];
 
+    /**
+     * Loader function is kept by the Block Tool adapter until the Tool is loaded
+     */
+    const constructable = toolClass as ToolConstructable;
     const Constructor = this.getConstructor(constructable);
     const isTune = constructable[InternalTuneSettings.IsTune];
 
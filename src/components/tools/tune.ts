@@ -1,8 +1,9 @@
-import BaseToolAdapter from './base';
+import BaseToolAdapter, { InternalTuneSettings } from './base';
 import type { BlockAPI, BlockTune as IBlockTune, BlockTuneConstructable } from '@/types';
 import type { BlockTuneData } from '@/types/block-tunes/block-tune-data';
 import type { BlockTuneAdapter as BlockTuneAdapterInterface } from '@/types/tools/adapters/block-tune-adapter';
 import { ToolType } from '@/types/tools/adapters/tool-type';
+import * as _ from '../utils';
 
 /**
  * Stub class for BlockTunes
@@ -35,4 +36,13 @@ export default class BlockTuneAdapter extends BaseToolAdapter<ToolType.Tune, IBl
       data,
     });
   }
+
+  /**
+   * Returns Tune method that wraps HTML exported by the Block Tool
+   */
+  public get wrapHTML(): ((html: string, data: BlockTuneData) => string) | undefined {
+    const wrapHTML = this.constructable[InternalTuneSettings.WrapHTML];
+
+    return _.isFunction(wrapHTML) ? wrapHTML.bind(this.constructable) : undefined;
+  }
 }
@@ -5,7 +5,8 @@ import type BlockToolAdapter from '../tools/block';
 import type ToolsCollection from '../tools/collection';
 import type { API, BlockToolData, ToolboxConfigEntry, PopoverItemParams, BlockAPI } from '@/types';
 import EventsDispatcher from '../utils/events';
-import I18n from '../i18n';
+import type I18n from '../i18n';
+import type Tooltip from '../utils/tooltip';
 import { I18nInternalNS } from '../i18n/namespace-internal';
 import { PopoverEvent } from '@/types/utils/popover/popover-event';
 import Listeners from '../utils/listeners';
@@ -106,6 +107,16 @@ export default class Toolbox extends EventsDispatcher<ToolboxEventMap> {
    */
   private i18nLabels: Record<ToolboxTextLabelsKeys, string>;
 
+  /**
+   * Translator of the Editor instance the Toolbox belongs to
+   */
+  private i18n: I18n;
+
+  /**
+   * Tooltip of the Editor instance used for the items hints
+   */
+  private tooltip?: Tooltip;
+
   /**
    * Current module HTML Elements
    */
@@ -130,13 +141,24 @@ export default class Toolbox extends EventsDispatcher<ToolboxEventMap> {
    * @param options - available parameters
    * @param options.api - Editor API methods
    * @param options.tools - Tools available to check whether some of them should be displayed at the Toolbox or not
+   * @param options.i18nLabels - translated text labels
+   * @param options.i18n - Editor instance translator used for the Tools titles
+   * @param options.tooltip - Editor instance tooltip
    */
-  constructor({ api, tools, i18nLabels }: {api: API; tools: ToolsCollection<BlockToolAdapter>; i18nLabels: Record<ToolboxTextLabelsKeys, string>}) {
+  constructor({ api, tools, i18nLabels, i18n, tooltip }: {
+    api: API;
+    tools: ToolsCollection<BlockToolAdapter>;
+    i18nLabels: Record<ToolboxTextLabelsKeys, string>;
+    i18n: I18n;
+    tooltip?: Tooltip;
+  }) {
     super();
 
     this.api = api;
     this.tools = tools;
     this.i18nLabels = i18nLabels;
+    this.i18n = i18n;
+    this.tooltip = tooltip;
 
     this.enableShortcuts();
 
@@ -252,6 +274,7 @@ export default class Toolbox extends EventsDispatcher<ToolboxEventMap> {
         search: this.i18nLabels.filter,
       },
       items: this.toolboxItemsToBeDisplayed,
+      tooltip: this.tooltip,
     });
 
     this.popover.on(PopoverEvent.Closed, this.onPopoverClose);
@@ -311,7 +334,7 @@ export default class Toolbox extends EventsDispatcher<ToolboxEventMap> {
     const toPopoverItem = (toolboxItem: ToolboxConfigEntry, tool: BlockToolAdapter, displaySecondaryLabel = true): PopoverItemParams => {
       return {
         icon: toolboxItem.icon,
-        title: I18n.t(I18nInternalNS.toolNames, toolboxItem.title || _.capitalize(tool.name)),
+        title: this.i18n.t(I18nInternalNS.toolNames, toolboxItem.title || _.capitalize(tool.name)),
         name: tool.name,
         onActivate: (): void => {
           this.toolButtonActivated(tool.name, toolboxItem.data);
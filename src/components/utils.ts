@@ -4,6 +4,7 @@
 
 import { nanoid } from 'nanoid';
 import Dom from './dom';
+import type { ToolLoader } from '../../types';
 
 /**
  * Possible log levels
@@ -87,7 +88,7 @@ function _log(
   args?: any,
   style = 'color: inherit'
 ): void {
-  if (!('console' in window) || !window.console[type]) {
+  if (typeof console === 'undefined' || !console[type]) {
     return;
   }
 
@@ -167,12 +168,12 @@ export function setLogLevel(logLevel: LogLevels): void {
 /**
  * _log method proxy without Editor.js label
  */
-export const log = _log.bind(window, false);
+export const log = _log.bind(null, false);
 
 /**
  * _log method proxy with Editor.js label
  */
-export const logLabeled = _log.bind(window, true);
+export const logLabeled = _log.bind(null, true);
 
 /**
  * Return string representation of the object type
@@ -262,6 +263,17 @@ export function isClass(fn: any): boolean {
   return isFunction(fn) && /^\s*class\s+/.test(fn.toString());
 }
 
+/**
+ * Check if the Tool is passed as a loader function instead of the class.
+ * Arrow and async functions have no prototype unlike classes
+ *
+ * @param fn - Tool class or loader function
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function isToolLoader(fn: any): fn is ToolLoader {
+  return isFunction(fn) && fn.prototype === undefined;
+}
+
 /**
  * Checks if object is empty
  *
@@ -590,6 +602,25 @@ export function deepMerge<T extends object>(target, ...sources): T {
   return deepMerge(target, ...sources);
 }
 
+/**
+ * Copies plain data recursively: objects and arrays are copied, other values are kept as is
+ *
+ * @param value - data to copy
+ */
+export function deepCopy<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => deepCopy(item)) as unknown as T;
+  }
+
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, deepCopy(item)])
+    ) as T;
+  }
+
+  return value;
+}
+
 /**
  * Return true if current device supports touch events
  *
@@ -599,7 +630,7 @@ export function deepMerge<T extends object>(target, ...sources): T {
  * @see http://www.stucox.com/blog/you-cant-detect-a-touchscreen/
  * @returns {boolean}
  */
-export const isTouchSupported: boolean = 'ontouchstart' in document.documentElement;
+export const isTouchSupported: boolean = typeof document !== 'undefined' && 'ontouchstart' in document.documentElement;
 
 /**
  * Make shortcut command more human-readable
@@ -750,6 +781,16 @@ export function cacheable<Target, Value, Arguments extends unknown[] = unknown[]
   return descriptor;
 }
 
+/**
+ * Clears the value cached by the cacheable decorator, so it is computed again on the next access
+ *
+ * @param instance - instance the value is cached for
+ * @param propertyKey - method or accessor name
+ */
+export function clearCache(instance: object, propertyKey: string): void {
+  delete (instance as Record<string, unknown>)[`#${propertyKey}Cache`];
+}
+
 /**
  * All screens below this width will be treated as mobile;
  */
@@ -773,13 +814,25 @@ export const isIosDevice =
     (window.navigator.platform === 'MacIntel' && window.navigator.maxTouchPoints > 1));
 
 /**
- * Compares two values with unknown type
+ * Compares two values with unknown type.
+ * Objects are compared deeply regardless of the keys order, properties with undefined values are ignored as in JSON
  *
  * @param var1 - value to compare
  * @param var2 - value to compare with
  * @returns {boolean} true if they are equal
  */
 export function equals(var1: unknown, var2: unknown): boolean {
+  if (Array.isArray(var1) && Array.isArray(var2)) {
+    return var1.length === var2.length && var1.every((item, index) => equals(item, var2[index]));
+  }
+
+  if (isObject(var1) && isObject(var2)) {
+    const keys1 = Object.keys(var1).filter((key) => var1[key] !== undefined);
+    const keys2 = Object.keys(var2).filter((key) => var2[key] !== undefined);
+
+    return keys1.length === keys2.length && keys1.every((key) => equals(var1[key], var2[key]));
+  }
+
   const isVar1NonPrimitive = Array.isArray(var1) || isObject(var1);
   const isVar2NonPrimitive = Array.isArray(var2) || isObject(var2);
 
@@ -789,3 +842,16 @@ export function equals(var1: unknown, var2: unknown): boolean {
 
   return var1 === var2;
 }
+
+/**
+ * Escapes characters having special meaning in HTML
+ *
+ * @param text - plain text to escape
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
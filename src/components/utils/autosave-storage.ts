@@ -0,0 +1,146 @@
+import type { AutosaveStorageAdapter } from '../../../types/configs/autosave-config';
+import type { OutputData } from '../../../types';
+
+/**
+ * Autosave storage keeping drafts in the localStorage
+ *
+ * @example new EditorJS({ autosave: { key: 'document-id', storage: new EditorJS.LocalStorageAdapter() } })
+ */
+export class LocalStorageAdapter implements AutosaveStorageAdapter {
+  /**
+   * Prefix of the localStorage keys, so drafts do not interfere with other stored values
+   */
+  private readonly prefix: string;
+
+  /**
+   * @param prefix - prefix of the localStorage keys
+   */
+  constructor(prefix = 'editorjs-draft:') {
+    this.prefix = prefix;
+  }
+
+  /**
+   * Returns the draft stored with passed key
+   *
+   * @param key - draft key
+   */
+  public async load(key: string): Promise<OutputData | null> {
+    const stored = window.localStorage.getItem(this.prefix + key);
+
+    return stored !== null ? JSON.parse(stored) : null;
+  }
+
+  /**
+   * Stores the draft
+   *
+   * @param key - draft key
+   * @param data - saved data
+   */
+  public async save(key: string, data: OutputData): Promise<void> {
+    window.localStorage.setItem(this.prefix + key, JSON.stringify(data));
+  }
+
+  /**
+   * Removes the draft
+   *
+   * @param key - draft key
+   */
+  public async remove(key: string): Promise<void> {
+    window.localStorage.removeItem(this.prefix + key);
+  }
+}
+
+/**
+ * Autosave storage keeping drafts in the IndexedDB. Suitable for large documents exceeding the localStorage quota
+ *
+ * @example new EditorJS({ autosave: { key: 'document-id', storage: new EditorJS.IndexedDBAdapter() } })
+ */
+export class IndexedDBAdapter implements AutosaveStorageAdapter {
+  /**
+   * Name of the object store containing drafts
+   */
+  private static readonly storeName = 'drafts';
+
+  /**
+   * Name of the database
+   */
+  private readonly databaseName: string;
+
+  /**
+   * Opened database. Database is opened on the first request
+   */
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param databaseName - name of the database
+   */
+  constructor(databaseName = 'editorjs') {
+    this.databaseName = databaseName;
+  }
+
+  /**
+   * Returns the draft stored with passed key
+   *
+   * @param key - draft key
+   */
+  public async load(key: string): Promise<OutputData | null> {
+    const stored = await this.request<OutputData | undefined>('readonly', (store) => store.get(key));
+
+    return stored ?? null;
+  }
+
+  /**
+   * Stores the draft
+   *
+   * @param key - draft key
+   * @param data - saved data
+   */
+  public async save(key: string, data: OutputData): Promise<void> {
+    await this.request('readwrite', (store) => store.put(data, key));
+  }
+
+  /**
+   * Removes the draft
+   *
+   * @param key - draft key
+   */
+  public async remove(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  /**
+   * Makes request to the drafts store
+   *
+   * @param mode - transaction mode
+   * @param makeRequest - creates request to the store
+   */
+  private async request<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const request = makeRequest(database.transaction(IndexedDBAdapter.storeName, mode).objectStore(IndexedDBAdapter.storeName));
+
+      request.onsuccess = (): void => resolve(request.result);
+      request.onerror = (): void => reject(request.error);
+    });
+  }
+
+  /**
+   * Opens the database and creates the drafts store if needed
+   */
+  private open(): Promise<IDBDatabase> {
+    if (this.database === null) {
+      this.database = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(this.databaseName, 1);
+
+        request.onupgradeneeded = (): void => {
+          request.result.createObjectStore(IndexedDBAdapter.storeName);
+        };
+        request.onsuccess = (): void => resolve(request.result);
+        request.onerror = (): void => reject(request.error);
+      });
+    }
+
+    return this.database;
+  }
+}
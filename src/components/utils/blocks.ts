@@ -1,12 +1,19 @@
-import type { BlockAPI, ToolConfig } from '../../../types';
+import type { BlockAPI, BlockId, OutputBlockData, ToolConfig } from '../../../types';
+import type { BlockTuneData } from '../../../types/block-tunes/block-tune-data';
 import type { ConversionConfig } from '../../../types/configs/conversion-config';
 import type { SavedData } from '../../../types/data-formats';
 import type { BlockToolData } from '../../../types/tools/block-tool-data';
 import type Block from '../block';
 import type BlockToolAdapter from '../tools/block';
-import { isFunction, isString, log, equals, isEmpty } from '../utils';
+import { isFunction, isString, isObject, log, equals, isEmpty } from '../utils';
 import { isToolConvertable } from './tools';
 
+/**
+ * Saved Block state. Unlike OutputBlockData, id is always defined
+ */
+export interface BlockSnapshot extends OutputBlockData {
+  id: BlockId;
+}
 
 /**
  * Check if block has valid conversion config for export or import.
@@ -143,6 +150,16 @@ export function areBlocksMergeable(targetBlock: Block, blockToMerge: Block): boo
   return isBlockConvertable(blockToMerge, 'export') && isBlockConvertable(targetBlock, 'import');
 }
 
+/**
+ * Check if Blocks are placed to the same slot of the same container or both are top-level Blocks
+ *
+ * @param first - first Block
+ * @param second - second Block
+ */
+export function areBlocksSiblings(first: Block, second: Block): boolean {
+  return first.parentId === second.parentId && first.slot === second.slot;
+}
+
 /**
  * Using conversionConfig, convert block data to string.
  *
@@ -169,6 +186,40 @@ export function convertBlockDataToString(blockData: BlockToolData, conversionCon
   }
 }
 
+/**
+ * Returns plain text of the block data, for example to display it until the Tool renders the Block.
+ * Uses the exported string if the Tool provides the conversionConfig, otherwise joins all string values of the data
+ *
+ * @param blockData - block data to get text of
+ * @param conversionConfig - tool's conversion config
+ */
+export function convertBlockDataToText(blockData: BlockToolData, conversionConfig?: ConversionConfig): string {
+  const collectStrings = (value: unknown): string[] => {
+    if (isString(value)) {
+      return [ value ];
+    }
+
+    if (Array.isArray(value) || isObject(value)) {
+      return Object.values(value).flatMap(collectStrings);
+    }
+
+    return [];
+  };
+
+  const html = conversionConfig?.export !== undefined
+    ? convertBlockDataToString(blockData, conversionConfig)
+    : collectStrings(blockData).join(' ');
+
+  /**
+   * Template content is inert, so images of the string are not loaded
+   */
+  const template = document.createElement('template');
+
+  template.innerHTML = html ?? '';
+
+  return template.content.textContent ?? '';
+}
+
 /**
  * Using conversionConfig, convert string to block data.
  *
@@ -198,3 +249,25 @@ export function convertStringToBlockData(stringToImport: string, conversionConfi
   }
 }
 
+/**
+ * Composes Block state from the saved data
+ *
+ * @param id - Block id
+ * @param saving - result of the Block save() method
+ */
+export async function takeBlockSnapshot(id: BlockId, saving: ReturnType<BlockAPI['save']>): Promise<BlockSnapshot | undefined> {
+  const saved = await saving;
+
+  if (!saved) {
+    return;
+  }
+
+  const { tunes } = saved as typeof saved & { tunes?: { [name: string]: BlockTuneData } };
+
+  return {
+    id,
+    type: saved.tool,
+    data: saved.data,
+    tunes: tunes !== undefined ? { ...tunes } : undefined,
+  };
+}
@@ -186,3 +186,64 @@ export function isCaretAtEndOfInput(input: HTMLElement): boolean {
    */
   return checkContenteditableSliceForEmptiness(input, caretNode, caretOffset, 'right');
 }
+
+/**
+ * Returns caret position inside the passed input as a number of characters from the input start
+ * Returns null if caret is placed outside the input
+ *
+ * @param input - input where caret offset should be calculated
+ */
+export function getCaretOffset(input: HTMLElement): number | null {
+  /**
+   * In case of native input, selectionEnd already contains the offset
+   */
+  if ($.isNativeInput(input)) {
+    return document.activeElement === input ? input.selectionEnd : null;
+  }
+
+  const [caretNode, caretOffset] = getCaretNodeAndOffset();
+
+  if (caretNode === null || !input.contains(caretNode)) {
+    return null;
+  }
+
+  const range = document.createRange();
+
+  range.setStart(input, 0);
+  range.setEnd(caretNode, caretOffset);
+
+  return range.toString().length;
+}
+
+/**
+ * Finds text node and offset inside it corresponding to the passed characters offset from the input start.
+ * Can be used to restore caret position calculated by {@link getCaretOffset}
+ *
+ * If offset exceeds the content length, the end of the input is returned
+ *
+ * @param input - contenteditable element to search in
+ * @param offset - characters offset from the input start
+ */
+export function getNodeByCaretOffset(input: HTMLElement, offset: number): [ Node, number ] {
+  const walker = document.createTreeWalker(input, NodeFilter.SHOW_TEXT);
+  let passed = 0;
+  let lastTextNode: Node | null = null;
+
+  while (walker.nextNode()) {
+    const textNode = walker.currentNode;
+    const length = textNode.textContent?.length ?? 0;
+
+    if (passed + length >= offset) {
+      return [textNode, offset - passed];
+    }
+
+    passed += length;
+    lastTextNode = textNode;
+  }
+
+  if (lastTextNode !== null) {
+    return [lastTextNode, lastTextNode.textContent?.length ?? 0];
+  }
+
+  return [input, 0];
+}
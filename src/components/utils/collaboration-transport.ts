@@ -0,0 +1,126 @@
+import type { CollaborationMessage, CollaborationTransport } from '../../../types/configs/collaboration-config';
+
+/**
+ * Transport delivering messages between Editor instances created on the same page.
+ * Useful for testing the collaboration without a server
+ *
+ * @example new EditorJS({ collaboration: { transport: new EditorJS.InMemoryTransport('document-id') } })
+ */
+export class InMemoryTransport implements CollaborationTransport {
+  /**
+   * Transports connected to each channel
+   */
+  private static channels = new Map<string, Set<InMemoryTransport>>();
+
+  /**
+   * Name of the channel shared by collaborating instances
+   */
+  private readonly channelName: string;
+
+  /**
+   * Subscribed message handlers
+   */
+  private handlers = new Set<(message: CollaborationMessage) => void>();
+
+  /**
+   * @param channelName - name of the channel shared by collaborating instances
+   */
+  constructor(channelName: string) {
+    this.channelName = channelName;
+
+    const channel = InMemoryTransport.channels.get(channelName) ?? new Set();
+
+    channel.add(this);
+    InMemoryTransport.channels.set(channelName, channel);
+  }
+
+  /**
+   * Delivers message to other transports of the channel asynchronously, as a network would do
+   *
+   * @param message - message to send
+   */
+  public send(message: CollaborationMessage): void {
+    const copy = JSON.stringify(message);
+
+    InMemoryTransport.channels.get(this.channelName)?.forEach((transport) => {
+      if (transport === this) {
+        return;
+      }
+
+      setTimeout(() => {
+        transport.handlers.forEach((handler) => handler(JSON.parse(copy)));
+      });
+    });
+  }
+
+  /**
+   * Subscribes to messages sent by other transports of the channel
+   *
+   * @param handler - called with each received message
+   */
+  public subscribe(handler: (message: CollaborationMessage) => void): () => void {
+    this.handlers.add(handler);
+
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  /**
+   * Disconnects transport from the channel
+   */
+  public destroy(): void {
+    this.handlers.clear();
+    InMemoryTransport.channels.get(this.channelName)?.delete(this);
+  }
+}
+
+/**
+ * Transport delivering messages between Editor instances opened in different tabs or frames of the same origin
+ *
+ * @example new EditorJS({ collaboration: { transport: new EditorJS.BroadcastChannelTransport('document-id') } })
+ */
+export class BroadcastChannelTransport implements CollaborationTransport {
+  /**
+   * Channel shared by collaborating instances
+   */
+  private readonly channel: BroadcastChannel;
+
+  /**
+   * @param channelName - name of the channel shared by collaborating instances
+   */
+  constructor(channelName: string) {
+    this.channel = new BroadcastChannel(channelName);
+  }
+
+  /**
+   * Posts message to the channel
+   *
+   * @param message - message to send
+   */
+  public send(message: CollaborationMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  /**
+   * Subscribes to messages posted to the channel by other instances
+   *
+   * @param handler - called with each received message
+   */
+  public subscribe(handler: (message: CollaborationMessage) => void): () => void {
+    const listener = (event: MessageEvent<CollaborationMessage>): void => handler(event.data);
+
+    this.channel.addEventListener('message', listener);
+
+    return () => {
+      this.channel.removeEventListener('message', listener);
+    };
+  }
+
+  /**
+   * Closes the channel
+   */
+  public destroy(): void {
+    this.channel.close();
+  }
+}
@@ -0,0 +1,339 @@
+import type { CollaborationOperation, TextCollaborationOperation } from '../../../types/configs/collaboration-config';
+
+/**
+ * Position of the operation in the global order of operations
+ */
+export type OperationStamp = Pick<CollaborationOperation, 'clientId' | 'clock'>;
+
+/**
+ * Replacement of a part of the string
+ */
+export interface TextSplice {
+  /**
+   * Index of the first replaced character
+   */
+  index: number;
+
+  /**
+   * Number of removed characters
+   */
+  deleteCount: number;
+
+  /**
+   * Inserted string
+   */
+  insert: string;
+}
+
+/**
+ * Change of the shared string, see {@link SharedText}
+ */
+export type TextChange = Pick<TextCollaborationOperation, 'afterCharId' | 'insert' | 'remove'>;
+
+/**
+ * Returns stamp of the operation
+ *
+ * @param operation - operation to get stamp of
+ */
+export function getStamp({ clientId, clock }: OperationStamp): OperationStamp {
+  return {
+    clientId,
+    clock,
+  };
+}
+
+/**
+ * Compares operations stamps. Operations with equal clocks are ordered by client ids,
+ * so all Editor instances order concurrent operations in the same way
+ *
+ * @param a - first stamp
+ * @param b - second stamp
+ * @returns positive number if the first stamp is later, negative if earlier and 0 if they are equal
+ */
+export function compareStamps(a: OperationStamp, b: OperationStamp): number {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+
+  if (a.clientId === b.clientId) {
+    return 0;
+  }
+
+  return a.clientId > b.clientId ? 1 : -1;
+}
+
+/**
+ * Composes the single splice transforming one string into another.
+ * Returns null if strings are equal
+ *
+ * @param before - string before the change
+ * @param after - string after the change
+ */
+export function diffText(before: string, after: string): TextSplice | null {
+  if (before === after) {
+    return null;
+  }
+
+  let start = 0;
+
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+
+  while (beforeEnd > start && afterEnd > start && before[beforeEnd - 1] === after[afterEnd - 1]) {
+    beforeEnd--;
+    afterEnd--;
+  }
+
+  return {
+    index: start,
+    deleteCount: beforeEnd - start,
+    insert: after.slice(start, afterEnd),
+  };
+}
+
+/**
+ * Matches tags, entities and single characters of HTML string
+ */
+const htmlTokenRegExp = /<[^<>]*>|&(?:#x[\da-f]+|#\d+|[a-z]+\d*);|[\s\S]/gi;
+
+/**
+ * Elements that can not have children
+ */
+const voidElements = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+
+/**
+ * Returns offsets of the HTML string where tags and entities start and end
+ *
+ * @param html - HTML string to split
+ */
+function getTokenBoundaries(html: string): Set<number> {
+  const boundaries = new Set([ 0 ]);
+  let offset = 0;
+
+  /**
+   * Tokens follow each other without gaps, since any character is a token
+   */
+  (html.match(htmlTokenRegExp) ?? []).forEach((token) => {
+    offset += token.length;
+    boundaries.add(offset);
+  });
+
+  return boundaries;
+}
+
+/**
+ * Composes the single splice transforming one HTML string into another.
+ * Unlike {@link diffText}, the splice never starts or ends inside a tag or an entity,
+ * so concurrent changes can not be merged into the middle of them.
+ * Returns null if strings are equal
+ *
+ * @param before - HTML string before the change
+ * @param after - HTML string after the change
+ */
+export function diffHtml(before: string, after: string): TextSplice | null {
+  const splice = diffText(before, after);
+
+  if (splice === null) {
+    return null;
+  }
+
+  const beforeBoundaries = getTokenBoundaries(before);
+  const afterBoundaries = getTokenBoundaries(after);
+  let start = splice.index;
+  let suffixLength = before.length - splice.index - splice.deleteCount;
+
+  /**
+   * Prefix is common for both strings, so its boundaries are the same
+   */
+  while (!beforeBoundaries.has(start)) {
+    start--;
+  }
+
+  while (!beforeBoundaries.has(before.length - suffixLength) || !afterBoundaries.has(after.length - suffixLength)) {
+    suffixLength--;
+  }
+
+  return {
+    index: start,
+    deleteCount: before.length - suffixLength - start,
+    insert: after.slice(start, after.length - suffixLength),
+  };
+}
+
+/**
+ * Checks that all tags of the HTML string are complete and closed in the right order
+ *
+ * @param html - HTML string to check
+ */
+export function isWellFormedHtml(html: string): boolean {
+  const openedTags: string[] = [];
+
+  for (const token of html.match(htmlTokenRegExp) ?? []) {
+    if (token === '<' || token === '>') {
+      return false;
+    }
+
+    const tag = token.match(/^<(\/?)([a-z][^\s/>]*)/i);
+
+    if (tag === null || voidElements.includes(tag[2].toLowerCase()) || token.endsWith('/>')) {
+      continue;
+    }
+
+    if (tag[1] === '') {
+      openedTags.push(tag[2].toLowerCase());
+    } else if (openedTags.pop() !== tag[2].toLowerCase()) {
+      return false;
+    }
+  }
+
+  return openedTags.length === 0;
+}
+
+/**
+ * Returns position in the string after the splice is applied.
+ * Position inside the replaced part is moved to the end of the inserted string
+ *
+ * @param offset - position before the splice
+ * @param splice - applied splice
+ */
+export function shiftOffset(offset: number, splice: TextSplice): number {
+  if (offset <= splice.index) {
+    return offset;
+  }
+
+  if (offset >= splice.index + splice.deleteCount) {
+    return offset - splice.deleteCount + splice.insert.length;
+  }
+
+  return splice.index + splice.insert.length;
+}
+
+/**
+ * Character of the shared string. Removed characters are kept, so concurrent insertions after them can be placed
+ */
+interface SharedCharacter extends OperationStamp {
+  /**
+   * Unique character id composed from the operation stamp and the character offset in the inserted string
+   */
+  id: string;
+
+  /**
+   * Character itself
+   */
+  value: string;
+
+  /**
+   * True if the character has been removed
+   */
+  isRemoved: boolean;
+}
+
+/**
+ * String that can be edited by several clients concurrently (replicated growable array).
+ * Each inserted character gets unique id, so operations refer to characters instead of indexes
+ * and can be applied in any order with the same result
+ */
+export class SharedText {
+  /**
+   * All characters ever inserted, including removed ones
+   */
+  private characters: SharedCharacter[] = [];
+
+  /**
+   * @param text - initial string. Should be the same for all clients
+   * @param stamp - stamp of the operation that has set the initial string
+   */
+  constructor(text: string, stamp: OperationStamp) {
+    this.insert(null, text, stamp);
+  }
+
+  /**
+   * Returns current string
+   */
+  public toString(): string {
+    return this.characters
+      .filter(({ isRemoved }) => !isRemoved)
+      .map(({ value }) => value)
+      .join('');
+  }
+
+  /**
+   * Applies local splice and returns the change that should be applied by other clients
+   *
+   * @param splice - replacement of a part of the current string
+   * @param stamp - stamp of the local operation
+   */
+  public splice(splice: TextSplice, stamp: OperationStamp): TextChange {
+    const visible = this.characters.filter(({ isRemoved }) => !isRemoved);
+    const change: TextChange = {
+      afterCharId: splice.index > 0 ? visible[splice.index - 1]?.id ?? null : null,
+      insert: splice.insert,
+      remove: visible.slice(splice.index, splice.index + splice.deleteCount).map(({ id }) => id),
+    };
+
+    this.apply(change, stamp);
+
+    return change;
+  }
+
+  /**
+   * Applies the change made by any client
+   *
+   * @param change - change to apply
+   * @param stamp - stamp of the operation produced the change
+   */
+  public apply(change: TextChange, stamp: OperationStamp): void {
+    const removed = new Set(change.remove);
+
+    this.characters.forEach((character) => {
+      if (removed.has(character.id)) {
+        character.isRemoved = true;
+      }
+    });
+
+    this.insert(change.afterCharId, change.insert, stamp);
+  }
+
+  /**
+   * Inserts string after the character with passed id.
+   * Strings inserted after the same character by the later operations stay before
+   *
+   * @param afterCharId - id of the preceding character. Null to insert at the start
+   * @param text - string to insert
+   * @param stamp - stamp of the operation
+   */
+  private insert(afterCharId: string | null, text: string, stamp: OperationStamp): void {
+    const firstId = `${stamp.clientId}:${stamp.clock}:0`;
+
+    if (text.length === 0 || this.characters.some(({ id }) => id === firstId)) {
+      return;
+    }
+
+    let index = afterCharId === null ? 0 : this.characters.findIndex(({ id }) => id === afterCharId) + 1;
+
+    /**
+     * Preceding character is unknown, so the string has been replaced by a concurrent update
+     */
+    if (afterCharId !== null && index === 0) {
+      return;
+    }
+
+    while (index < this.characters.length && compareStamps(this.characters[index], stamp) > 0) {
+      index++;
+    }
+
+    const characters = text.split('').map((value, offset) => ({
+      id: `${stamp.clientId}:${stamp.clock}:${offset}`,
+      clientId: stamp.clientId,
+      clock: stamp.clock,
+      value,
+      isRemoved: false,
+    }));
+
+    this.characters.splice(index, 0, ...characters);
+  }
+}
@@ -0,0 +1,109 @@
+import type { BlockToolData, ConversionConfig, OutputBlockData, OutputData, SanitizerConfig } from '../../../types';
+import type { BlockTuneData } from '../../../types/block-tunes/block-tune-data';
+import { convertBlockDataToString } from './blocks';
+import { sanitizeBlocks } from './sanitizer';
+import { isFunction, isString, log } from '../utils';
+import Stub from '../../tools/stub';
+
+/**
+ * Part of the Block Tool used to export its data to HTML
+ */
+export interface HTMLExportableTool {
+  /**
+   * Returns HTML representation of the Tool data
+   */
+  exportHTML?: (data: BlockToolData) => string;
+
+  /**
+   * Used as a fallback if Tool does not provide the exportHTML method
+   */
+  conversionConfig?: ConversionConfig;
+
+  /**
+   * Config used to sanitize Tool data before the export
+   */
+  sanitizeConfig: SanitizerConfig;
+}
+
+/**
+ * Part of the Block Tune used to wrap HTML exported by the Block Tool
+ */
+export interface HTMLExportableTune {
+  /**
+   * Wraps HTML exported by the Block Tool
+   */
+  wrapHTML?: (html: string, data: BlockTuneData) => string;
+}
+
+/**
+ * Converts Block to HTML using Tool's exportHTML method and wraps it with Tunes.
+ * Falls back to the string exported by the conversionConfig wrapped with the paragraph
+ *
+ * @param block - saved Block
+ * @param tool - Block's Tool. If undefined, Block is exported as a Stub
+ * @param getTune - returns Tune by its name, undefined if Tune is not available
+ */
+export function blockToHTML(
+  block: OutputBlockData,
+  tool: HTMLExportableTool | undefined,
+  getTune: (tuneName: string) => HTMLExportableTune | undefined
+): string {
+  if (tool === undefined) {
+    return Stub.exportHTML({
+      title: block.type,
+      savedData: block,
+    });
+  }
+
+  const [ { data } ] = sanitizeBlocks([ {
+    tool: block.type,
+    data: block.data,
+  } ], tool.sanitizeConfig);
+  let html: string;
+
+  if (isFunction(tool.exportHTML)) {
+    html = tool.exportHTML(data);
+  } else {
+    const exported = convertBlockDataToString(data, tool.conversionConfig);
+
+    html = isString(exported) && exported.trim() !== '' ? `<p>${exported}</p>` : '';
+  }
+
+  if (html === '' || block.tunes === undefined) {
+    return html;
+  }
+
+  return Object.entries(block.tunes).reduce((wrapped, [tuneName, tuneData]) => {
+    const tune = getTune(tuneName);
+
+    if (tune === undefined || !isFunction(tune.wrapHTML)) {
+      return wrapped;
+    }
+
+    try {
+      return tune.wrapHTML(wrapped, tuneData);
+    } catch (e) {
+      log(`Tune «${tuneName}» failed to wrap HTML`, 'error', e);
+
+      return wrapped;
+    }
+  }, html);
+}
+
+/**
+ * Converts saved data to HTML. Blocks of unavailable Tools are exported by the Stub
+ *
+ * @param data - saved data
+ * @param getTool - returns Tool by its name, undefined if Tool is not available
+ * @param getTune - returns Tune by its name, undefined if Tune is not available
+ */
+export function toHTML(
+  data: OutputData,
+  getTool: (toolName: string) => HTMLExportableTool | undefined,
+  getTune: (tuneName: string) => HTMLExportableTune | undefined
+): string {
+  return data.blocks
+    .map((block) => blockToHTML(block, getTool(block.type), getTune))
+    .filter((html) => html !== '')
+    .join('\n');
+}
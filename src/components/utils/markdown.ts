@@ -0,0 +1,577 @@
+import type { BlockToolData, ConversionConfig, MarkdownBlock, OutputData } from '../../../types';
+import { convertBlockDataToString } from './blocks';
+import { escapeHtml, isFunction, isString, log } from '../utils';
+
+/**
+ * Part of the Block Tool used to export its data to Markdown
+ */
+export interface MarkdownExportableTool {
+  /**
+   * Returns Markdown representation of the Tool data
+   */
+  exportMarkdown?: (data: BlockToolData) => string;
+
+  /**
+   * Used as a fallback if Tool does not provide the exportMarkdown method
+   */
+  conversionConfig?: ConversionConfig;
+}
+
+/**
+ * HTML tag opened while converting inline HTML to Markdown
+ */
+interface OpenedTag {
+  /**
+   * Lowercased tag name
+   */
+  tag: string;
+
+  /**
+   * Tag attributes string
+   */
+  attributes: string;
+
+  /**
+   * Markdown composed from the tag content
+   */
+  content: string;
+}
+
+/**
+ * Markdown delimiters of inline formatting tags
+ */
+const inlineDelimiters: Record<string, string> = {
+  b: '**',
+  strong: '**',
+  i: '*',
+  em: '*',
+  s: '~~',
+  del: '~~',
+};
+
+/**
+ * Named HTML entities that can appear in the Tools output
+ */
+const htmlEntities: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' ',
+};
+
+/**
+ * Replaces HTML entities with the characters they represent
+ *
+ * @param text - text to decode
+ */
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const charCode = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+
+      return String.fromCodePoint(charCode);
+    }
+
+    return htmlEntities[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Escapes characters having special meaning in Markdown
+ *
+ * @param text - plain text to escape
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>~]/g, '\\$&');
+}
+
+/**
+ * Wraps text into the inline delimiters. Leading and trailing whitespaces are moved outside,
+ * since Markdown does not allow them next to delimiters
+ *
+ * @param text - text to wrap
+ * @param opening - opening delimiter
+ * @param closing - closing delimiter
+ */
+function wrapInline(text: string, opening: string, closing = opening): string {
+  const [, leading, content, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray;
+
+  if (content.length === 0) {
+    return text;
+  }
+
+  return `${leading}${opening}${content}${closing}${trailing}`;
+}
+
+/**
+ * Returns value of the attribute from the HTML tag attributes string
+ *
+ * @param attributes - attributes string, for example ' href="https://editorjs.io" target="_blank"'
+ * @param name - attribute name
+ */
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+
+  if (match === null) {
+    return undefined;
+  }
+
+  return decodeHtmlEntities(match[1] ?? match[2] ?? match[3]);
+}
+
+/**
+ * Composes Markdown for the content of the closed inline tag
+ *
+ * @param tag - tag name
+ * @param attributes - tag attributes string
+ * @param content - Markdown composed from the tag content
+ */
+function composeInline(tag: string, attributes: string, content: string): string {
+  if (tag === 'a') {
+    const href = getAttribute(attributes, 'href');
+
+    if (href === undefined || content.trim().length === 0) {
+      return content;
+    }
+
+    /**
+     * Whitespaces and parentheses break the link destination
+     */
+    const url = href
+      .replace(/\s/g, encodeURIComponent)
+      .replace(/\(/g, '%28')
+      .replace(/\)/g, '%29');
+
+    return wrapInline(content, '[', `](${url})`);
+  }
+
+  /**
+   * Escaping does not work inside code spans, so content is restored as is
+   */
+  if (tag === 'code') {
+    const code = content.replace(/\\([\\`*_[\]<>~])/g, '$1');
+    const delimiter = code.includes('`') ? '``' : '`';
+
+    return wrapInline(code, delimiter);
+  }
+
+  if (tag in inlineDelimiters) {
+    return wrapInline(content, inlineDelimiters[tag]);
+  }
+
+  return content;
+}
+
+/**
+ * Converts inline HTML produced by the Inline Tools (bold, italic, link, etc.) into Markdown.
+ * Unknown tags are dropped while their content is kept. DOM is not used, so it works in any environment
+ *
+ * @param html - HTML string to convert
+ */
+export function htmlToMarkdown(html: string): string {
+  /**
+   * Stack of open tags with the Markdown composed from their content
+   */
+  const stack: OpenedTag[] = [ {
+    tag: '',
+    attributes: '',
+    content: '',
+  } ];
+  /**
+   * Content of scripts and styles is not a text, so these elements are dropped along with it
+   */
+  const textHtml = html.replace(/<(script|style)\b[^>]*>[\s\S]*?(<\/\1\s*>|$)/gi, '');
+  const tokens = textHtml.match(/<\/?[a-z][^>]*>|[^<]+|</gi) ?? [];
+
+  /**
+   * Closes opened tags until the stack has passed depth, appending their Markdown to the parent ones
+   *
+   * @param depth - stack depth to keep
+   */
+  const closeTags = (depth: number): void => {
+    while (stack.length > depth) {
+      const closed = stack.pop() as OpenedTag;
+
+      stack[stack.length - 1].content += composeInline(closed.tag, closed.attributes, closed.content);
+    }
+  };
+
+  tokens.forEach((token) => {
+    const tagMatch = token.match(/^<(\/?)([a-z][a-z\d]*)([^>]*)>$/i);
+    const current = stack[stack.length - 1];
+
+    if (tagMatch === null) {
+      current.content += escapeMarkdown(decodeHtmlEntities(token));
+
+      return;
+    }
+
+    const [, closingSlash, tagName, attributes] = tagMatch;
+    const tag = tagName.toLowerCase();
+
+    if (tag === 'br') {
+      current.content += '\\\n';
+
+      return;
+    }
+
+    if (closingSlash === '') {
+      if (!attributes.endsWith('/')) {
+        stack.push({
+          tag,
+          attributes,
+          content: '',
+        });
+      }
+
+      return;
+    }
+
+    /**
+     * Close the tag and all unclosed tags inside it
+     */
+    const openedIndex = stack.map(({ tag: openedTag }) => openedTag).lastIndexOf(tag);
+
+    if (openedIndex <= 0) {
+      return;
+    }
+
+    closeTags(openedIndex);
+  });
+
+  closeTags(1);
+
+  /**
+   * Escape line beginnings that would be treated as block-level Markdown syntax
+   */
+  return stack[0].content
+    .replace(/^(\s*)(#{1,6}\s|[-+]\s|\d+[.)]\s)/gm, (_, indent: string, marker: string) => {
+      return /^\d/.test(marker) ? `${indent}${marker.replace(/[.)]/, '\\$&')}` : `${indent}\\${marker}`;
+    })
+    .trim();
+}
+
+/**
+ * Converts Block data to Markdown using Tool's exportMarkdown method.
+ * Falls back to the string exported by the conversionConfig
+ *
+ * @param data - Block data
+ * @param tool - Block's Tool
+ */
+export function blockToMarkdown(data: BlockToolData, tool: MarkdownExportableTool): string {
+  if (isFunction(tool.exportMarkdown)) {
+    return tool.exportMarkdown(data);
+  }
+
+  const exported = convertBlockDataToString(data, tool.conversionConfig);
+
+  return isString(exported) ? htmlToMarkdown(exported) : '';
+}
+
+/**
+ * Converts saved data to Markdown. Blocks are separated by empty lines
+ *
+ * @param data - saved data
+ * @param getTool - returns Tool by its name, undefined if Tool is not available
+ */
+export function toMarkdown(data: OutputData, getTool: (toolName: string) => MarkdownExportableTool | undefined): string {
+  return data.blocks
+    .map(({ type, data: blockData }) => {
+      const tool = getTool(type);
+
+      if (tool === undefined) {
+        log(`Tool «${type}» is not available. Block is skipped on Markdown export`, 'warn');
+
+        return '';
+      }
+
+      return blockToMarkdown(blockData, tool);
+    })
+    .filter((markdown) => markdown.trim().length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Characters that can be escaped by the backslash in Markdown
+ */
+const escapedCharacterPattern = /\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g;
+
+/**
+ * Links with these protocols are not converted to prevent scripts execution
+ */
+const unsafeUrlPattern = /^\s*(javascript|vbscript|data):/i;
+
+/**
+ * Marks the index of a fragment that is already converted to HTML
+ */
+const placeholderMark = '\uE000';
+
+/**
+ * Block-level Markdown syntax patterns
+ */
+const fencePattern = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)/;
+const headingPattern = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const setextUnderlinePattern = /^ {0,3}(=+|-+)[ \t]*$/;
+const delimiterPattern = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const quotePattern = /^ {0,3}> ?(.*)$/;
+const listItemPattern = /^[ \t]*([-*+]|\d{1,9}[.)])[ \t]+(.*)$/;
+
+/**
+ * Inline Markdown syntax patterns that are unlikely to appear in a plain text
+ */
+const inlineSyntaxPatterns = [
+  /(\*\*|__|~~)\S(?:[\s\S]*?\S)?\1/,
+  /\[[^\]]+\]\([^)\s]+\)/,
+  /`[^`\n]+`/,
+];
+
+/**
+ * Converts inline Markdown (bold, italic, strikethrough, links, inline code and line breaks) into HTML.
+ * Other HTML special characters are escaped
+ *
+ * @param markdown - inline Markdown to convert
+ */
+export function markdownToHtml(markdown: string): string {
+  /**
+   * Fragments converted first are replaced with placeholders to protect them from the further processing
+   */
+  const fragments: string[] = [];
+  const hold = (html: string): string => `${placeholderMark}${fragments.push(html) - 1}${placeholderMark}`;
+
+  const withoutCode = markdown
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, delimiter: string, code: string) => {
+      return hold(`<code>${escapeHtml(code.replace(/^ ([\s\S]*) $/, '$1'))}</code>`);
+    })
+    .replace(/(?:\\| {2,})\r?\n/g, () => hold('<br>'))
+    .replace(escapedCharacterPattern, (_, char: string) => hold(escapeHtml(char)));
+
+  const html = escapeHtml(withoutCode)
+    .replace(/\[([^\]]*)\]\(\s*([^\s)]*)(?:\s+&quot;.*?&quot;)?\s*\)/g, (link, text: string, url: string) => {
+      return unsafeUrlPattern.test(url) ? text : `<a href="${url}">${text}</a>`;
+    })
+    .replace(/\*\*\*(?=\S)([\s\S]*?\S)\*\*\*/g, '<b><i>$1</i></b>')
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<b>$2</b>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<i>$1</i>')
+    .replace(/(^|[^\p{L}\d])_(?=\S)([\s\S]*?\S)_(?![\p{L}\d])/gu, '$1<i>$2</i>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+    .replace(/[ \t]*\r?\n[ \t]*/g, ' ');
+
+  return html.replace(new RegExp(`${placeholderMark}(\\d+)${placeholderMark}`, 'g'), (_, index: string) => fragments[Number(index)]);
+}
+
+/**
+ * Checks if passed text contains Markdown syntax.
+ * Code fences and headings are enough, otherwise several different constructs are required
+ * so plain text with a single line looking like a list item or a quote is not treated as Markdown
+ *
+ * @param text - text to check
+ */
+export function isMarkdown(text: string): boolean {
+  const lines = text.split(/\r?\n/);
+
+  if (lines.some((line) => fencePattern.test(line) || Boolean(line.match(headingPattern)?.[2]))) {
+    return true;
+  }
+
+  const constructs = [
+    lines.filter((line) => listItemPattern.test(line)).length > 1,
+    lines.some((line) => quotePattern.test(line)),
+    ...inlineSyntaxPatterns.map((pattern) => pattern.test(text)),
+  ];
+
+  return constructs.filter(Boolean).length > 1;
+}
+
+/**
+ * Returns width of the line indentation, tabs are counted as four spaces
+ *
+ * @param line - line to measure
+ */
+function getIndent(line: string): number {
+  return (line.match(/^[ \t]*/)?.[0] ?? '').replace(/\t/g, '    ').length;
+}
+
+/**
+ * Checks if line starts a new block-level Markdown element
+ *
+ * @param line - line to check
+ */
+function isBlockStart(line: string): boolean {
+  return [fencePattern, headingPattern, delimiterPattern, quotePattern, listItemPattern].some((pattern) => pattern.test(line));
+}
+
+/**
+ * Splits Markdown into the block-level elements: paragraphs, headings, lists, quotes, code fences and delimiters.
+ * Inline marks of the text content are converted to HTML
+ *
+ * @param markdown - Markdown to parse
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const lines = markdown.split(/\r?\n/);
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  /**
+   * Adds collected paragraph lines as a paragraph element
+   */
+  const closeParagraph = (): void => {
+    if (paragraph.length > 0) {
+      blocks.push({
+        type: 'paragraph',
+        text: markdownToHtml(paragraph.join('\n').trim()),
+      });
+    }
+
+    paragraph = [];
+  };
+
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = line.match(fencePattern);
+    const heading = line.match(headingPattern);
+    const listItem = line.match(listItemPattern);
+
+    i++;
+
+    if (line.trim() === '') {
+      closeParagraph();
+    } else if (fence !== null) {
+      const [, marker, language] = fence;
+      const closingFencePattern = new RegExp(`^ {0,3}${marker[0]}{${marker.length},}[ \\t]*$`);
+      const code: string[] = [];
+
+      closeParagraph();
+
+      while (i < lines.length && !closingFencePattern.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+
+      /**
+       * Skip the closing fence
+       */
+      i++;
+
+      blocks.push({
+        type: 'code',
+        text: code.join('\n'),
+        ...language !== '' && { language },
+      });
+    } else if (paragraph.length > 0 && setextUnderlinePattern.test(line)) {
+      blocks.push({
+        type: 'heading',
+        text: markdownToHtml(paragraph.join('\n').trim()),
+        level: line.trim()[0] === '=' ? 1 : 2,
+      });
+
+      paragraph = [];
+    } else if (delimiterPattern.test(line)) {
+      closeParagraph();
+
+      blocks.push({
+        type: 'delimiter',
+        text: '',
+      });
+    } else if (heading !== null) {
+      closeParagraph();
+
+      blocks.push({
+        type: 'heading',
+        text: markdownToHtml(heading[2] ?? ''),
+        level: heading[1].length,
+      });
+    } else if (quotePattern.test(line)) {
+      const quote = [ line.replace(quotePattern, '$1') ];
+
+      closeParagraph();
+
+      while (i < lines.length && quotePattern.test(lines[i])) {
+        quote.push(lines[i].replace(quotePattern, '$1'));
+        i++;
+      }
+
+      blocks.push({
+        type: 'quote',
+        text: markdownToHtml(quote.join('\n').trim()),
+      });
+    } else if (listItem !== null) {
+      const ordered = /\d/.test(listItem[1]);
+      const items = [ listItem[2] ];
+      const levels = [ 0 ];
+
+      /**
+       * Indentations of the item markers for each nesting level
+       */
+      const indents = [ getIndent(line) ];
+
+      closeParagraph();
+
+      /**
+       * Nested items are added to the same list with their nesting levels, wrapped lines are joined with the previous item
+       */
+      while (i < lines.length) {
+        const nextItem = lines[i].match(listItemPattern);
+        const isEmptyLine = lines[i].trim() === '';
+        const isLooseListGap = isEmptyLine && i + 1 < lines.length && listItemPattern.test(lines[i + 1]);
+        const indent = getIndent(lines[i]);
+        const isNested = nextItem !== null && indent > indents[0];
+
+        if (nextItem !== null && (isNested || /\d/.test(nextItem[1]) === ordered)) {
+          while (indent < indents[indents.length - 1]) {
+            indents.pop();
+          }
+
+          if (indent > indents[indents.length - 1]) {
+            indents.push(indent);
+          }
+
+          items.push(nextItem[2]);
+          levels.push(indents.length - 1);
+        } else if (!isEmptyLine && !isBlockStart(lines[i])) {
+          items[items.length - 1] += `\n${lines[i]}`;
+        } else if (!isLooseListGap) {
+          break;
+        }
+
+        i++;
+      }
+
+      blocks.push({
+        type: 'list',
+        text: '',
+        items: items.map((item) => markdownToHtml(item.trim())),
+        levels,
+        ordered,
+      });
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  closeParagraph();
+
+  return blocks;
+}
+
+/**
+ * Composes HTML of the Markdown element used to create the default Block
+ * when no Tool can import the element
+ *
+ * @param block - block-level Markdown element
+ */
+export function getMarkdownBlockHtml(block: MarkdownBlock): string {
+  switch (block.type) {
+    case 'list':
+      return (block.items ?? []).join('<br>');
+
+    case 'code':
+      return escapeHtml(block.text).replace(/\n/g, '<br>');
+
+    default:
+      return block.text;
+  }
+}
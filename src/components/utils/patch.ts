@@ -0,0 +1,289 @@
+import type { BlockId, OutputBlockData, OutputData } from '../../../types';
+import type { BlockDataChange, PatchOperation } from '../../../types/data-formats';
+import { equals, isObject } from '../utils';
+
+/**
+ * Saved Block which id is defined
+ */
+type IdentifiedBlock = OutputBlockData & { id: BlockId };
+
+/**
+ * Checks that every Block has an id, since Blocks are compared by their ids
+ *
+ * @param blocks - Blocks to check
+ */
+function assertBlocksIdentified(blocks: OutputBlockData[]): asserts blocks is IdentifiedBlock[] {
+  if (blocks.some(({ id }) => id === undefined)) {
+    throw new Error('Blocks without id can not be compared');
+  }
+}
+
+/**
+ * Returns indexes of the longest increasing subsequence of passed numbers
+ *
+ * @param numbers - sequence to process
+ */
+function getLongestIncreasingSubsequence(numbers: number[]): Set<number> {
+  const lengths = numbers.map(() => 1);
+  const previous = numbers.map(() => -1);
+  let lastIndex = -1;
+
+  numbers.forEach((value, i) => {
+    for (let j = 0; j < i; j++) {
+      if (numbers[j] < value && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+
+    if (lastIndex === -1 || lengths[i] > lengths[lastIndex]) {
+      lastIndex = i;
+    }
+  });
+
+  const result = new Set<number>();
+
+  for (let i = lastIndex; i !== -1; i = previous[i]) {
+    result.add(i);
+  }
+
+  return result;
+}
+
+/**
+ * Composes list of changed values of two versions of the same value
+ *
+ * @param before - value before the change
+ * @param after - value after the change
+ * @param path - path to the value
+ */
+function diffValues(before: unknown, after: unknown, path: Array<string | number>): BlockDataChange[] {
+  if (equals(before, after)) {
+    return [];
+  }
+
+  const areObjects = isObject(before) && isObject(after);
+  const areArrays = Array.isArray(before) && Array.isArray(after);
+
+  if (!areObjects && !areArrays) {
+    return [ {
+      path,
+      ...before !== undefined && { before },
+      ...after !== undefined && { after },
+    } ];
+  }
+
+  const beforeValue = before as Record<string | number, unknown>;
+  const afterValue = after as Record<string | number, unknown>;
+  const keys: Array<string | number> = areArrays
+    ? Array.from({ length: Math.max((before as unknown[]).length, (after as unknown[]).length) }, (_, i) => i)
+    : Array.from(new Set([...Object.keys(beforeValue), ...Object.keys(afterValue)]));
+
+  return keys.flatMap((key) => diffValues(beforeValue[key], afterValue[key], [...path, key]));
+}
+
+/**
+ * Returns a copy of passed value with the value by path replaced.
+ * If new value is undefined, the value by path is removed
+ *
+ * @param target - value to copy
+ * @param path - path to the value to replace
+ * @param value - new value
+ */
+function setByPath(target: unknown, path: Array<string | number>, value: unknown): unknown {
+  if (path.length === 0) {
+    return value;
+  }
+
+  const [key, ...restPath] = path;
+
+  if (Array.isArray(target)) {
+    const copy = [ ...target ];
+
+    copy[key as number] = setByPath(copy[key as number], restPath, value);
+
+    /**
+     * Removed items are at the end of array, since diff compares arrays by indexes
+     */
+    while (copy.length > 0 && copy[copy.length - 1] === undefined) {
+      copy.pop();
+    }
+
+    return copy;
+  }
+
+  const copy: Record<string | number, unknown> = isObject(target) ? { ...target } : {};
+  const newValue = setByPath(copy[key], restPath, value);
+
+  if (newValue === undefined) {
+    delete copy[key];
+  } else {
+    copy[key] = newValue;
+  }
+
+  return copy;
+}
+
+/**
+ * Composes list of operations that transform Blocks of the first document into Blocks of the second one.
+ * Blocks are matched by their ids.
+ *
+ * Operations are ordered to be applied one by one:
+ *  1. Removals in the descending order of indexes
+ *  2. Insertions and moves in the ascending order of new indexes
+ *  3. Changes of Blocks type, data, tunes and nesting
+ *
+ * @param before - document before changes
+ * @param after - document after changes
+ */
+export function diff(before: OutputData, after: OutputData): PatchOperation[] {
+  const blocksBefore = before.blocks;
+  const blocksAfter = after.blocks;
+
+  assertBlocksIdentified(blocksBefore);
+  assertBlocksIdentified(blocksAfter);
+
+  const operations: PatchOperation[] = [];
+  const idsAfter = new Set(blocksAfter.map(({ id }) => id));
+  const blocksBeforeById = new Map(blocksBefore.map((block) => [block.id, block]));
+
+  for (let index = blocksBefore.length - 1; index >= 0; index--) {
+    const block = blocksBefore[index];
+
+    if (!idsAfter.has(block.id)) {
+      operations.push({
+        type: 'block-removed',
+        id: block.id,
+        index,
+        block,
+      });
+    }
+  }
+
+  /**
+   * Blocks that keep their relative order are not moved, only other ones are placed next to their new predecessors
+   */
+  const currentOrder = blocksBefore.map(({ id }) => id).filter((id) => idsAfter.has(id));
+  const keptBlocks = blocksAfter.filter(({ id }) => blocksBeforeById.has(id));
+  const notMovedIndexes = getLongestIncreasingSubsequence(keptBlocks.map(({ id }) => currentOrder.indexOf(id)));
+  const notMovedIds = new Set(keptBlocks.filter((_, i) => notMovedIndexes.has(i)).map(({ id }) => id));
+
+  blocksAfter.forEach((block, i) => {
+    if (notMovedIds.has(block.id)) {
+      return;
+    }
+
+    const index = i === 0 ? 0 : currentOrder.indexOf(blocksAfter[i - 1].id) + 1;
+
+    if (!blocksBeforeById.has(block.id)) {
+      currentOrder.splice(index, 0, block.id);
+
+      operations.push({
+        type: 'block-added',
+        id: block.id,
+        index,
+        block,
+      });
+
+      return;
+    }
+
+    const fromIndex = currentOrder.indexOf(block.id);
+    const toIndex = fromIndex < index ? index - 1 : index;
+
+    currentOrder.splice(fromIndex, 1);
+    currentOrder.splice(toIndex, 0, block.id);
+
+    if (fromIndex !== toIndex) {
+      operations.push({
+        type: 'block-moved',
+        id: block.id,
+        fromIndex,
+        toIndex,
+      });
+    }
+  });
+
+  blocksAfter.forEach((block) => {
+    const blockBefore = blocksBeforeById.get(block.id);
+
+    if (blockBefore === undefined) {
+      return;
+    }
+
+    const changes = (['type', 'data', 'tunes', 'parent', 'children'] as const).flatMap((key) => diffValues(blockBefore[key], block[key], [ key ]));
+
+    if (changes.length > 0) {
+      operations.push({
+        type: 'block-changed',
+        id: block.id,
+        changes,
+      });
+    }
+  });
+
+  return operations;
+}
+
+/**
+ * Applies changes of the 'block-changed' operation to the Block
+ *
+ * @param block - Block to change
+ * @param changes - list of changed values
+ */
+export function applyBlockChanges(block: OutputBlockData, changes: BlockDataChange[]): OutputBlockData {
+  return changes.reduce<unknown>((result, { path, after }) => setByPath(result, path, after), block) as OutputBlockData;
+}
+
+/**
+ * Applies operations composed by the diff() to the document. Passed document is not mutated
+ *
+ * @param data - document to patch
+ * @param operations - operations to apply
+ */
+export function applyPatch(data: OutputData, operations: PatchOperation[]): OutputData {
+  const blocks = [ ...data.blocks ];
+
+  /**
+   * Returns index of the Block with passed id
+   *
+   * @param id - Block id
+   */
+  const getIndex = (id: BlockId): number => {
+    const index = blocks.findIndex((block) => block.id === id);
+
+    if (index === -1) {
+      throw new Error(`Block with id "${id}" not found`);
+    }
+
+    return index;
+  };
+
+  operations.forEach((operation) => {
+    switch (operation.type) {
+      case 'block-added':
+        blocks.splice(operation.index, 0, operation.block);
+        break;
+
+      case 'block-removed':
+        blocks.splice(getIndex(operation.id), 1);
+        break;
+
+      case 'block-moved':
+        blocks.splice(operation.toIndex, 0, ...blocks.splice(getIndex(operation.id), 1));
+        break;
+
+      case 'block-changed': {
+        const index = getIndex(operation.id);
+
+        blocks[index] = applyBlockChanges(blocks[index], operation.changes);
+        break;
+      }
+    }
+  });
+
+  return {
+    ...data,
+    blocks,
+  };
+}
@@ -5,6 +5,7 @@ import type {
   PopoverItemRenderParamsMap,
   PopoverItemType
 } from '@/types/utils/popover/popover-item';
+import type { Tooltip } from '@/types/api';
 import { PopoverItem } from '../popover-item';
 import { css } from './popover-item-default.const';
 
@@ -78,9 +79,10 @@ export class PopoverItemDefault extends PopoverItem {
    * @param params - popover item construction params
    * @param renderParams - popover item render params.
    * The parameters that are not set by user via popover api but rather depend on technical implementation
+   * @param tooltip - tooltip used to display the item hint
    */
-  constructor(protected readonly params: PopoverItemDefaultParams, renderParams?: PopoverItemRenderParamsMap[PopoverItemType.Default]) {
-    super(params);
+  constructor(protected readonly params: PopoverItemDefaultParams, renderParams?: PopoverItemRenderParamsMap[PopoverItemType.Default], tooltip?: Tooltip) {
+    super(params, tooltip);
 
     this.nodes.root = this.make(params, renderParams);
   }
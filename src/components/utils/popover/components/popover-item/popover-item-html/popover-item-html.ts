@@ -1,5 +1,6 @@
 import { PopoverItem } from '../popover-item';
 import type { PopoverItemHtmlParams, PopoverItemRenderParamsMap, PopoverItemType } from '@/types/utils/popover/popover-item';
+import type { Tooltip } from '@/types/api';
 import { css } from './popover-item-html.const';
 import Dom from '../../../../../dom';
 
@@ -18,9 +19,10 @@ export class PopoverItemHtml extends PopoverItem {
    * @param params – instance parameters
    * @param renderParams – popover item render params.
    * The parameters that are not set by user via popover api but rather depend on technical implementation
+   * @param tooltip – tooltip used to display the item hint
    */
-  constructor(params: PopoverItemHtmlParams, renderParams?: PopoverItemRenderParamsMap[PopoverItemType.Html]) {
-    super(params);
+  constructor(params: PopoverItemHtmlParams, renderParams?: PopoverItemRenderParamsMap[PopoverItemType.Html], tooltip?: Tooltip) {
+    super(params, tooltip);
 
     this.nodes = {
       root: Dom.make('div', css.root),
@@ -1,6 +1,6 @@
-import * as tooltip from '../../../../utils/tooltip';
 import { type HintPosition, Hint } from '../hint';
 import type { PopoverItemParams } from '@/types/utils/popover/popover-item';
+import type { Tooltip } from '@/types/api';
 
 /**
  * Popover item abstract class
@@ -10,8 +10,9 @@ export abstract class PopoverItem {
    * Constructs the instance
    *
    * @param params - instance parameters
+   * @param tooltip - tooltip used to display the item hint
    */
-  constructor(protected readonly params?: PopoverItemParams) {}
+  constructor(protected readonly params?: PopoverItemParams, protected readonly tooltip?: Tooltip) {}
 
   /**
    * Item name if exists
@@ -29,7 +30,7 @@ export abstract class PopoverItem {
    * Destroys the instance
    */
   public destroy(): void {
-    tooltip.hide();
+    this.tooltip?.hide();
   }
 
   /**
@@ -82,7 +83,7 @@ export abstract class PopoverItem {
   protected addHint(itemElement: HTMLElement, hintData: { title: string, description?: string; position: HintPosition }): void {
     const content = new Hint(hintData);
 
-    tooltip.onHover(itemElement, content.getElement(), {
+    this.tooltip?.onHover(itemElement, content.getElement(), {
       placement: hintData.position,
       hidingDelay: 100,
     });
@@ -171,9 +171,9 @@ export abstract class PopoverAbstract<Nodes extends PopoverNodes = PopoverNodes>
         case PopoverItemType.Separator:
           return new PopoverItemSeparator();
         case PopoverItemType.Html:
-          return new PopoverItemHtml(item, this.itemsRenderParams[PopoverItemType.Html]);
+          return new PopoverItemHtml(item, this.itemsRenderParams[PopoverItemType.Html], this.params.tooltip);
         default:
-          return new PopoverItemDefault(item, this.itemsRenderParams[PopoverItemType.Default]);
+          return new PopoverItemDefault(item, this.itemsRenderParams[PopoverItemType.Default], this.params.tooltip);
       }
     });
   }
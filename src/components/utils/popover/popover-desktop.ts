@@ -259,6 +259,7 @@ export class PopoverDesktop extends PopoverAbstract {
       nestingLevel: this.nestingLevel + 1,
       flippable: item.isChildrenFlippable,
       messages: this.messages,
+      tooltip: this.params.tooltip,
     });
 
     item.onChildrenOpen();
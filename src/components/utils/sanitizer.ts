@@ -30,6 +30,7 @@ import * as _ from '../utils';
  */
 
 import HTMLJanitor from 'html-janitor';
+import { cleanString, normalizeString } from './string-sanitizer';
 import type { BlockToolData, SanitizerConfig } from '../../../types';
 import type { SavedData } from '../../../types/data-formats';
 
@@ -41,10 +42,10 @@ import type { SavedData } from '../../../types/data-formats';
  * @param blocksData - blocks' data to sanitize
  * @param sanitizeConfig — sanitize config to use or function to get config for Tool
  */
-export function sanitizeBlocks(
-  blocksData: Array<Pick<SavedData, 'data' | 'tool'>>,
+export function sanitizeBlocks<T extends Pick<SavedData, 'data' | 'tool'>>(
+  blocksData: T[],
   sanitizeConfig: SanitizerConfig | ((toolName: string) => SanitizerConfig)
-): Array<Pick<SavedData, 'data' | 'tool'>> {
+): T[] {
   return blocksData.map((block) => {
     const toolConfig = _.isFunction(sanitizeConfig) ? sanitizeConfig(block.tool) : sanitizeConfig;
 
@@ -66,6 +67,13 @@ export function sanitizeBlocks(
  * @returns {string} clean HTML
  */
 export function clean(taintString: string, customConfig: SanitizerConfig = {} as SanitizerConfig): string {
+  /**
+   * HTMLJanitor parses HTML with the document, so there is a DOM-free implementation for the server side
+   */
+  if (typeof document === 'undefined') {
+    return cleanString(taintString, customConfig);
+  }
+
   const sanitizerConfig = {
     tags: customConfig,
   };
@@ -78,6 +86,73 @@ export function clean(taintString: string, customConfig: SanitizerConfig = {} as
   return sanitizerInstance.clean(taintString);
 }
 
+/**
+ * Serializes HTML strings of the data the same way as the sanitizer does, keeping all tags and attributes.
+ * Allows to compare data ignoring differences in entities and quotes of attributes
+ *
+ * @param data - data to normalize
+ */
+export function normalizeData<T>(data: T): T {
+  if (Array.isArray(data)) {
+    return data.map((item) => normalizeData(item)) as T;
+  }
+
+  if (_.isObject(data)) {
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [key, normalizeData(value)])) as T;
+  }
+
+  if (!_.isString(data)) {
+    return data;
+  }
+
+  if (typeof document === 'undefined') {
+    return normalizeString(data) as T;
+  }
+
+  /**
+   * Template content is inert, so scripts and images of the string are not loaded
+   */
+  const template = document.createElement('template');
+
+  template.innerHTML = data;
+
+  return template.innerHTML as T;
+}
+
+/**
+ * Composes sanitize config of Block Tool data: rules of the Tool fields are extended with the base config,
+ * for example composed from the Inline Tools configs
+ *
+ * @param toolRules - sanitize config specified by Tool for its data fields
+ * @param baseConfig - config allowed for all fields
+ */
+export function composeSanitizeConfig(toolRules: SanitizerConfig, baseConfig: SanitizerConfig): SanitizerConfig {
+  if (_.isEmpty(toolRules)) {
+    return baseConfig;
+  }
+
+  const toolConfig = {} as SanitizerConfig;
+
+  for (const fieldName in toolRules) {
+    if (Object.prototype.hasOwnProperty.call(toolRules, fieldName)) {
+      const rule = toolRules[fieldName];
+
+      /**
+       * If rule is object, merge it with the base configuration
+       *
+       * Otherwise pass as it is
+       */
+      if (_.isObject(rule)) {
+        toolConfig[fieldName] = Object.assign({}, baseConfig, rule);
+      } else {
+        toolConfig[fieldName] = rule;
+      }
+    }
+  }
+
+  return toolConfig;
+}
+
 /**
  * Method recursively reduces Block's data and cleans with passed rules
  *
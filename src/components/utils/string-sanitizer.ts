@@ -0,0 +1,374 @@
+/* eslint-disable @typescript-eslint/no-use-before-define */
+/**
+ * DOM-free implementation of the HTMLJanitor rules
+ *
+ * Used to clean strings where there is no document to parse HTML with, for example on the server side.
+ * Markup is parsed by the simplified tokenizer, so browser-specific error recovery is not reproduced
+ */
+
+import type { SanitizerConfig } from '../../../types';
+import type { TagConfig } from '../../../types/configs/sanitizer-config';
+import { log } from '../utils';
+
+/**
+ * Element of the parsed HTML tree
+ */
+interface ParsedElement {
+  type: 'element';
+
+  /**
+   * Lowercased tag name
+   */
+  name: string;
+
+  /**
+   * List of attributes names and values in the source order
+   */
+  attributes: [string, string][];
+
+  children: ParsedNode[];
+}
+
+/**
+ * Text of the parsed HTML tree
+ */
+interface ParsedText {
+  type: 'text';
+
+  /**
+   * Source text with entities kept as is
+   */
+  text: string;
+
+  /**
+   * True for content of the elements that is not parsed as HTML, for example SCRIPT
+   */
+  isRaw: boolean;
+}
+
+/**
+ * Comment of the parsed HTML tree
+ */
+interface ParsedComment {
+  type: 'comment';
+}
+
+type ParsedNode = ParsedElement | ParsedText | ParsedComment;
+
+/**
+ * Elements that can not have children
+ */
+const voidElements = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+
+/**
+ * Elements which content is not parsed as HTML
+ */
+const rawTextElements = ['script', 'style'];
+
+/**
+ * Block elements that should not be nested, the same as in HTMLJanitor
+ */
+const blockElements = ['p', 'li', 'td', 'th', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre'];
+
+/**
+ * Inline elements that should not contain block elements, the same as in HTMLJanitor
+ */
+const inlineElements = ['a', 'b', 'strong', 'i', 'em', 'sub', 'sup', 'u', 'strike'];
+
+/**
+ * Matches comment, closing tag or opening tag
+ */
+const tokenRegExp = /<!--[\s\S]*?(?:-->|$)|<\/([a-z][^\s/>]*)[^>]*>|<([a-z][^\s/>]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/gi;
+
+/**
+ * Matches attribute name with optional double-quoted, single-quoted or unquoted value
+ */
+const attributeRegExp = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/**
+ * Cleans string from unwanted tags and attributes without DOM
+ *
+ * @param taintString - HTML string to clean
+ * @param config - allowed tags
+ */
+export function cleanString(taintString: string, config: SanitizerConfig): string {
+  const root: ParsedElement = {
+    type: 'element',
+    name: 'div',
+    attributes: [],
+    children: parse(taintString),
+  };
+
+  sanitizeChildren(root, config, true);
+
+  return serialize(root.children);
+}
+
+/**
+ * Serializes HTML string the same way as cleanString() does, but keeps all tags and attributes
+ *
+ * @param html - HTML string to normalize
+ */
+export function normalizeString(html: string): string {
+  return serialize(parse(html));
+}
+
+/**
+ * Parses HTML string to the tree
+ *
+ * @param html - HTML string to parse
+ */
+function parse(html: string): ParsedNode[] {
+  const root: ParsedNode[] = [];
+  const stack: ParsedElement[] = [];
+  const append = (node: ParsedNode): void => {
+    (stack.length > 0 ? stack[stack.length - 1].children : root).push(node);
+  };
+  const appendText = (text: string): void => {
+    if (text !== '') {
+      append({
+        type: 'text',
+        text,
+        isRaw: false,
+      });
+    }
+  };
+
+  const tokens = new RegExp(tokenRegExp.source, tokenRegExp.flags);
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokens.exec(html)) !== null) {
+    const [, closingTag, openingTag, attributes] = match;
+
+    appendText(html.slice(lastIndex, match.index));
+    lastIndex = tokens.lastIndex;
+
+    if (closingTag !== undefined) {
+      const index = stack.map(({ name }) => name).lastIndexOf(closingTag.toLowerCase());
+
+      /**
+       * Closing tag without the opened one is ignored
+       */
+      if (index !== -1) {
+        stack.length = index;
+      }
+
+      continue;
+    }
+
+    if (openingTag === undefined) {
+      append({ type: 'comment' });
+
+      continue;
+    }
+
+    const element: ParsedElement = {
+      type: 'element',
+      name: openingTag.toLowerCase(),
+      attributes: parseAttributes(attributes),
+      children: [],
+    };
+
+    append(element);
+
+    if (voidElements.includes(element.name)) {
+      continue;
+    }
+
+    if (rawTextElements.includes(element.name)) {
+      const closingIndex = html.toLowerCase().indexOf(`</${element.name}`, lastIndex);
+      const contentEnd = closingIndex === -1 ? html.length : closingIndex;
+      const closingEnd = closingIndex === -1 ? html.length : html.indexOf('>', closingIndex) + 1 || html.length;
+
+      if (contentEnd > lastIndex) {
+        element.children.push({
+          type: 'text',
+          text: html.slice(lastIndex, contentEnd),
+          isRaw: true,
+        });
+      }
+
+      lastIndex = closingEnd;
+      tokens.lastIndex = closingEnd;
+
+      continue;
+    }
+
+    stack.push(element);
+  }
+
+  appendText(html.slice(lastIndex));
+
+  return root;
+}
+
+/**
+ * Parses attributes string of the opening tag
+ *
+ * @param attributes - string containing tag attributes
+ */
+function parseAttributes(attributes: string): [string, string][] {
+  const parsed: [string, string][] = [];
+  const regExp = new RegExp(attributeRegExp.source, attributeRegExp.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = regExp.exec(attributes)) !== null) {
+    const name = match[1].toLowerCase();
+
+    /**
+     * The first attribute wins as it is in browsers
+     */
+    if (parsed.some(([ parsedName ]) => parsedName === name)) {
+      continue;
+    }
+
+    parsed.push([name, match[2] ?? match[3] ?? match[4] ?? '']);
+  }
+
+  return parsed;
+}
+
+/**
+ * Removes nodes disallowed by config from the element children.
+ * Mirrors HTMLJanitor: disallowed elements are unwrapped, comments and whitespaces around blocks are removed
+ *
+ * @param parent - element which children should be cleaned
+ * @param config - allowed tags
+ * @param isTopContainer - true for the root element
+ */
+function sanitizeChildren(parent: ParsedElement, config: SanitizerConfig, isTopContainer = false): void {
+  const children = parent.children;
+  let index = 0;
+
+  while (index < children.length) {
+    const node = children[index];
+
+    if (node.type === 'comment' || (node.type === 'text' && isWhitespaceNearBlock(children, index))) {
+      children.splice(index, 1);
+      index = 0;
+
+      continue;
+    }
+
+    if (node.type === 'text') {
+      index++;
+
+      continue;
+    }
+
+    const allowedAttributes = getAllowedAttributes(config, node.name);
+    const isInvalid = inlineElements.includes(node.name) && node.children.some(isBlockElement);
+    const isNestedBlockElement = !isTopContainer && isBlockElement(parent) && isBlockElement(node);
+
+    if (isInvalid || isNestedBlockElement || allowedAttributes === undefined || allowedAttributes === false) {
+      /**
+       * Do not keep the inner text of SCRIPT/STYLE elements
+       */
+      const content = rawTextElements.includes(node.name) ? [] : node.children;
+
+      children.splice(index, 1, ...content);
+      index = 0;
+
+      continue;
+    }
+
+    if (allowedAttributes !== true) {
+      node.attributes = node.attributes.filter(([name, value]) => {
+        const rule = allowedAttributes[name];
+
+        return rule === true || (typeof rule === 'string' && rule === value);
+      });
+    }
+
+    sanitizeChildren(node, config);
+    index++;
+  }
+}
+
+/**
+ * Returns rule for the tag
+ * Rules specified as functions receive DOM element, so they can not be used without DOM and the tag is unwrapped
+ *
+ * @param config - allowed tags
+ * @param name - tag name
+ */
+function getAllowedAttributes(config: SanitizerConfig, name: string): TagConfig | undefined {
+  const rule = config[name];
+
+  if (typeof rule === 'function') {
+    log(`Sanitizer rule for the «${name}» tag is a function and can not be applied without DOM, tag is removed`, 'warn');
+
+    return false;
+  }
+
+  return rule;
+}
+
+/**
+ * Checks if text node at the passed index contains only whitespaces and is next to the block element
+ *
+ * @param nodes - list of nodes
+ * @param index - index of the text node
+ */
+function isWhitespaceNearBlock(nodes: ParsedNode[], index: number): boolean {
+  const node = nodes[index] as ParsedText;
+
+  if (node.isRaw || node.text.trim() !== '') {
+    return false;
+  }
+
+  const previousElement = nodes.slice(0, index).reverse()
+    .find(({ type }) => type === 'element');
+  const nextElement = nodes.slice(index + 1).find(({ type }) => type === 'element');
+
+  return [previousElement, nextElement].some((element) => element !== undefined && isBlockElement(element));
+}
+
+/**
+ * Checks if node is a block element
+ *
+ * @param node - node to check
+ */
+function isBlockElement(node: ParsedNode): boolean {
+  return node.type === 'element' && blockElements.includes(node.name);
+}
+
+/**
+ * Composes HTML string from the parsed nodes
+ *
+ * @param nodes - nodes to serialize
+ */
+function serialize(nodes: ParsedNode[]): string {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return node.isRaw ? node.text : escapeText(node.text);
+      case 'element': {
+        const attributes = node.attributes
+          .map(([name, value]) => ` ${name}="${escapeText(value).replace(/"/g, '&quot;')}"`)
+          .join('');
+
+        if (voidElements.includes(node.name)) {
+          return `<${node.name}${attributes}>`;
+        }
+
+        return `<${node.name}${attributes}>${serialize(node.children)}</${node.name}>`;
+      }
+      default:
+        return '';
+    }
+  }).join('');
+}
+
+/**
+ * Escapes characters that can not appear in the text as is. Entities are kept
+ *
+ * @param text - text to escape
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!(?:#x[\da-f]+|#\d+|[a-z]+\d*);)/gi, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -6,66 +6,67 @@ import CodeXTooltips from 'codex-tooltip';
 import type { TooltipOptions, TooltipContent } from 'codex-tooltip/types';
 
 /**
- * Tooltips lib: CodeX Tooltips
+ * Wrapper over the CodeX Tooltips library
+ *
+ * Each Editor instance owns its Tooltip, so destroying one Editor does not break tooltips of others
  *
  * @see https://github.com/codex-team/codex.tooltips
  */
-let lib: null | CodeXTooltips = null;
+export default class Tooltip {
+  /**
+   * Tooltips lib instance
+   */
+  private lib: CodeXTooltips | null = null;
 
-/**
- * If library is needed, but it is not initialized yet, this function will initialize it
- *
- * For example, if editor was destroyed and then initialized again
- */
-function prepare(): void {
-  if (lib) {
-    return;
+  /**
+   * Shows tooltip on element with passed HTML content
+   *
+   * @param {HTMLElement} element - any HTML element in DOM
+   * @param content - tooltip's content
+   * @param options - showing settings
+   */
+  public show(element: HTMLElement, content: TooltipContent, options?: TooltipOptions): void {
+    this.prepare().show(element, content, options);
   }
 
-  lib = new CodeXTooltips();
-}
-
-/**
- * Shows tooltip on element with passed HTML content
- *
- * @param {HTMLElement} element - any HTML element in DOM
- * @param content - tooltip's content
- * @param options - showing settings
- */
-export function show(element: HTMLElement, content: TooltipContent, options?: TooltipOptions): void {
-  prepare();
-
-  lib?.show(element, content, options);
-}
-
-/**
- * Hides tooltip
- *
- * @param skipHidingDelay — pass true to immediately hide the tooltip
- */
-export function hide(skipHidingDelay = false): void {
-  prepare();
+  /**
+   * Hides tooltip
+   *
+   * @param skipHidingDelay — pass true to immediately hide the tooltip
+   */
+  public hide(skipHidingDelay = false): void {
+    this.prepare().hide(skipHidingDelay);
+  }
 
-  lib?.hide(skipHidingDelay);
-}
+  /**
+   * Binds 'mouseenter' and 'mouseleave' events that shows/hides the Tooltip
+   *
+   * @param {HTMLElement} element - any HTML element in DOM
+   * @param content - tooltip's content
+   * @param options - showing settings
+   */
+  public onHover(element: HTMLElement, content: TooltipContent, options?: TooltipOptions): void {
+    this.prepare().onHover(element, content, options);
+  }
 
-/**
- * Binds 'mouseenter' and 'mouseleave' events that shows/hides the Tooltip
- *
- * @param {HTMLElement} element - any HTML element in DOM
- * @param content - tooltip's content
- * @param options - showing settings
- */
-export function onHover(element: HTMLElement, content: TooltipContent, options?: TooltipOptions): void {
-  prepare();
+  /**
+   * Release the library
+   */
+  public destroy(): void {
+    this.lib?.destroy();
+    this.lib = null;
+  }
 
-  lib?.onHover(element, content, options);
-}
+  /**
+   * If library is needed, but it is not initialized yet, this method will initialize it
+   *
+   * For example, if the tooltip was destroyed and then used again
+   */
+  private prepare(): CodeXTooltips {
+    if (!this.lib) {
+      this.lib = new CodeXTooltips();
+    }
 
-/**
- * Release the library
- */
-export function destroy(): void {
-  lib?.destroy();
-  lib = null;
+    return this.lib;
+  }
 }
@@ -0,0 +1,216 @@
+'use strict';
+
+import type {
+  API,
+  BlockToolData,
+  EditorConfig,
+  OutputBlockData,
+  OutputData
+} from '../types';
+import type { HeadlessConfig } from '../types/headless';
+import type { EditorModules } from './types-internal/editor-modules';
+import type { ModuleConfig } from './types-internal/module-config';
+import Tools from './components/modules/tools';
+import SanitizerAPI from './components/modules/api/sanitizer';
+import I18nAPI from './components/modules/api/i18n';
+import I18n from './components/i18n';
+import EventsDispatcher from './components/utils/events';
+import * as _ from './components/utils';
+import { clean, sanitizeBlocks } from './components/utils/sanitizer';
+import { convertBlockDataToString, convertStringToBlockData } from './components/utils/blocks';
+import { toMarkdown } from './components/utils/markdown';
+import { toHTML } from './components/utils/html';
+
+/**
+ * Editor.js headless
+ *
+ * Processes saved data with the same Tools as the Editor does, but without DOM rendering and holder element.
+ * Tools are never constructed, only their static properties and validate() method are used,
+ * so it can be used in Node.js with jsdom or without DOM at all
+ *
+ * @license Apache-2.0
+ * @see Editor.js <https://editorjs.io>
+ * @author CodeX Team <https://codex.so>
+ */
+export default class EditorJSHeadless {
+  /**
+   * Promise that resolves when Tools are prepared
+   */
+  public isReady: Promise<void>;
+
+  /**
+   * Tools module used to load Tools the same way Editor does
+   */
+  private readonly tools: Tools;
+
+  /**
+   * @param configuration - Tools configuration, the same as passed to the Editor
+   */
+  constructor(configuration: HeadlessConfig = {}) {
+    const config: EditorConfig = {
+      ...configuration,
+      defaultBlock: configuration.defaultBlock ?? 'paragraph',
+      tools: configuration.tools ?? {},
+      i18n: configuration.i18n ?? {},
+      inlineToolbar: configuration.inlineToolbar !== undefined ? configuration.inlineToolbar : true,
+    };
+
+    _.setLogLevel(config.logLevel ?? _.LogLevels.VERBOSE);
+
+    const i18n = new I18n(configuration.i18n?.messages);
+
+    if (configuration.i18n?.locale !== undefined) {
+      i18n.setLocale(configuration.i18n.locale);
+    }
+
+    if (configuration.i18n?.onMissingTranslation !== undefined) {
+      i18n.setMissingTranslationHandler(configuration.i18n.onMissingTranslation);
+    }
+
+    const moduleConfig: ModuleConfig = {
+      config,
+      eventsDispatcher: new EventsDispatcher(),
+      i18n,
+    };
+    const sanitizerAPI = new SanitizerAPI(moduleConfig);
+    const i18nAPI = new I18nAPI(moduleConfig);
+
+    this.tools = new Tools(moduleConfig);
+
+    /**
+     * Tools get only API methods that do not depend on rendered Editor
+     */
+    this.tools.state = {
+      API: {
+        getMethodsForTool: (toolName: string, isTune: boolean): Partial<API> => ({
+          sanitizer: sanitizerAPI.methods,
+          i18n: i18nAPI.getMethodsForTool(toolName, isTune),
+        }),
+      },
+    } as unknown as EditorModules;
+
+    this.isReady = this.tools.prepare();
+  }
+
+  /**
+   * Checks saved data with Tools validate() methods.
+   * Blocks of unknown Tools are treated as invalid
+   *
+   * @param data - saved data to check
+   * @returns true if all Blocks are valid
+   */
+  public async validate(data: OutputData): Promise<boolean> {
+    const results = await Promise.all(data.blocks.map((block) => this.validateBlock(block)));
+
+    return results.every(Boolean);
+  }
+
+  /**
+   * Checks Block data with its Tool validate() method
+   *
+   * @param block - saved Block data
+   */
+  public async validateBlock(block: OutputBlockData): Promise<boolean> {
+    await this.isReady;
+
+    const tool = this.tools.blockTools.get(block.type);
+
+    if (tool === undefined) {
+      return false;
+    }
+
+    return tool.validate(block.data);
+  }
+
+  /**
+   * Cleans saved data with sanitize configs of Tools, enabled Inline Tools and Block Tunes.
+   * Data of unknown Tools is returned as is
+   *
+   * @param data - saved data to clean
+   * @returns new object with clean data
+   */
+  public async sanitize(data: OutputData): Promise<OutputData> {
+    await this.isReady;
+
+    const sanitizedBlocks = sanitizeBlocks(
+      data.blocks.map((block) => ({
+        tool: block.type,
+        data: block.data,
+      })),
+      (toolName) => this.tools.blockTools.get(toolName)?.sanitizeConfig ?? {}
+    );
+
+    return {
+      ...data,
+      blocks: data.blocks.map((block, index) => ({
+        ...block,
+        data: sanitizedBlocks[index].data,
+      })),
+    };
+  }
+
+  /**
+   * Converts Block to another Tool using their conversion configs, the same as api.blocks.convert() does
+   *
+   * @param block - saved Block data to convert
+   * @param targetToolName - name of the Tool to convert to
+   * @param dataOverrides - optional data overrides for the new Block
+   * @throws Error if conversion is not possible
+   */
+  public async convert(block: OutputBlockData, targetToolName: string, dataOverrides?: BlockToolData): Promise<OutputBlockData> {
+    await this.isReady;
+
+    const tool = this.tools.blockTools.get(block.type);
+    const targetTool = this.tools.blockTools.get(targetToolName);
+
+    if (tool === undefined) {
+      throw new Error(`Could not convert Block. Tool «${block.type}» not found.`);
+    }
+
+    if (targetTool === undefined) {
+      throw new Error(`Could not convert Block. Tool «${targetToolName}» not found.`);
+    }
+
+    if (!_.isFunction(tool.conversionConfig?.export) && !_.isString(tool.conversionConfig?.export)) {
+      throw new Error(`Could not convert Block. Tool «${block.type}» does not provide conversionConfig.export.`);
+    }
+
+    if (!_.isFunction(targetTool.conversionConfig?.import) && !_.isString(targetTool.conversionConfig?.import)) {
+      throw new Error(`Could not convert Block. Tool «${targetToolName}» does not provide conversionConfig.import.`);
+    }
+
+    const exportedData = clean(
+      convertBlockDataToString(block.data, tool.conversionConfig),
+      targetTool.sanitizeConfig
+    );
+    const data = convertStringToBlockData(exportedData, targetTool.conversionConfig, targetTool.settings);
+
+    return {
+      ...block,
+      type: targetToolName,
+      data: dataOverrides !== undefined ? Object.assign(data, dataOverrides) : data,
+    };
+  }
+
+  /**
+   * Converts saved data to Markdown using Tools exportMarkdown methods
+   *
+   * @param data - saved data
+   */
+  public async toMarkdown(data: OutputData): Promise<string> {
+    await this.isReady;
+
+    return toMarkdown(data, (toolName) => this.tools.blockTools.get(toolName));
+  }
+
+  /**
+   * Converts saved data to HTML using Tools exportHTML methods and Tunes wrapHTML methods
+   *
+   * @param data - saved data
+   */
+  public async toHTML(data: OutputData): Promise<string> {
+    await this.isReady;
+
+    return toHTML(data, (toolName) => this.tools.blockTools.get(toolName), (tuneName) => this.tools.blockTunes.get(tuneName));
+  }
+}
@@ -0,0 +1,59 @@
+import $ from '../../components/dom';
+import type { BlockTool, BlockToolConstructorOptions, BlockToolData } from '../../../types';
+
+/**
+ * This tool will be shown in place of a block while its Tool is loaded on demand
+ * It will store Block data inside and pass it back if the Block is saved before the Tool is loaded
+ */
+export default class Loader implements BlockTool {
+  /**
+   * Notify core that tool supports read-only mode
+   */
+  public static isReadOnlySupported = true;
+
+  /**
+   * Loader styles
+   */
+  private CSS = {
+    wrapper: 'ce-loader',
+  };
+
+  /**
+   * Loader holder
+   */
+  private readonly wrapper: HTMLElement;
+
+  /**
+   * Data of the Block
+   */
+  private readonly savedData: BlockToolData;
+
+  /**
+   * @param options - constructor options
+   * @param options.data - data of the Block
+   */
+  constructor({ data }: BlockToolConstructorOptions) {
+    this.savedData = data;
+
+    this.wrapper = $.make('div', this.CSS.wrapper);
+    this.wrapper.setAttribute('aria-busy', 'true');
+  }
+
+  /**
+   * Returns loader holder
+   *
+   * @returns {HTMLElement}
+   */
+  public render(): HTMLElement {
+    return this.wrapper;
+  }
+
+  /**
+   * Return Block data
+   *
+   * @returns {BlockToolData}
+   */
+  public save(): BlockToolData {
+    return this.savedData;
+  }
+}
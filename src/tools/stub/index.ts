@@ -1,4 +1,5 @@
 import $ from '../../components/dom';
+import { escapeHtml } from '../../components/utils';
 import type { API, BlockTool, BlockToolConstructorOptions, BlockToolData } from '../../../types';
 import { IconWarning } from '@codexteam/icons';
 
@@ -45,9 +46,9 @@ export default class Stub implements BlockTool {
   private readonly title: string;
 
   /**
-   * Stub hint
+   * Stub hint element, translated again on the locale changing
    */
-  private readonly subtitle: string;
+  private readonly subtitle: HTMLElement;
 
   /**
    * Original Tool data
@@ -62,12 +63,24 @@ export default class Stub implements BlockTool {
   constructor({ data, api }: BlockToolConstructorOptions<StubData>) {
     this.api = api;
     this.title = data.title || this.api.i18n.t('Error');
-    this.subtitle = this.api.i18n.t('The block can not be displayed correctly.');
     this.savedData = data.savedData;
+    this.subtitle = $.make('div', this.CSS.subtitle, {
+      textContent: this.api.i18n.t('The block can not be displayed correctly.'),
+    });
 
     this.wrapper = this.make();
   }
 
+  /**
+   * Exports Block of unavailable Tool to HTML as its title
+   *
+   * @param data - stub tool data
+   * @returns {string}
+   */
+  public static exportHTML(data: StubData): string {
+    return `<div class="ce-stub">${escapeHtml(data.title)}</div>`;
+  }
+
   /**
    * Returns stub holder
    *
@@ -86,6 +99,13 @@ export default class Stub implements BlockTool {
     return this.savedData;
   }
 
+  /**
+   * Translates the hint with the replaced dictionary
+   */
+  public localeChanged(): void {
+    this.subtitle.textContent = this.api.i18n.t('The block can not be displayed correctly.');
+  }
+
   /**
    * Create Tool html markup
    *
@@ -98,14 +118,11 @@ export default class Stub implements BlockTool {
     const title = $.make('div', this.CSS.title, {
       textContent: this.title,
     });
-    const subtitle = $.make('div', this.CSS.subtitle, {
-      textContent: this.subtitle,
-    });
 
     wrapper.innerHTML = icon;
 
     infoContainer.appendChild(title);
-    infoContainer.appendChild(subtitle);
+    infoContainer.appendChild(this.subtitle);
 
     wrapper.appendChild(infoContainer);
 
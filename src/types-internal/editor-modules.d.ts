@@ -1,12 +1,15 @@
 /** ./api */
+import AutosaveAPI from '../components/modules/api/autosave';
 import BlocksAPI from '../components/modules/api/blocks';
 import CaretAPI from '../components/modules/api/caret';
 import EventsAPI from '../components/modules/api/events';
+import HistoryAPI from '../components/modules/api/history';
 import I18nAPI from '../components/modules/api/i18n';
 import API from '../components/modules/api/index';
 import InlineToolbarAPI from '../components/modules/api/inlineToolbar';
 import ListenersAPI from '../components/modules/api/listeners';
 import NotifierAPI from '../components/modules/api/notifier';
+import PresenceAPI from '../components/modules/api/presence';
 import ReadOnlyAPI from '../components/modules/api/readonly';
 import SanitizerAPI from '../components/modules/api/sanitizer';
 import SaverAPI from '../components/modules/api/saver';
@@ -22,33 +25,41 @@ import Toolbar from '../components/modules/toolbar/index';
 import InlineToolbar from '../components/modules/toolbar/inline';
 
 /** . */
+import Autosave from '../components/modules/autosave';
 import BlockEvents from '../components/modules/blockEvents';
 import BlockManager from '../components/modules/blockManager';
 import BlockSelection from '../components/modules/blockSelection';
 import Caret from '../components/modules/caret';
+import Collaboration from '../components/modules/collaboration';
 import CrossBlockSelection from '../components/modules/crossBlockSelection';
 import DragNDrop from '../components/modules/dragNDrop';
+import History from '../components/modules/history';
 import ModificationsObserver from '../components/modules/modificationsObserver';
 import Paste from '../components/modules/paste';
+import Presence from '../components/modules/presence';
 import ReadOnly from '../components/modules/readonly';
 import RectangleSelection from '../components/modules/rectangleSelection';
 import Renderer from '../components/modules/renderer';
 import Saver from '../components/modules/saver';
 import Tools from '../components/modules/tools';
 import UI from '../components/modules/ui';
+import Virtualization from '../components/modules/virtualization';
 import ToolsAPI from '../components/modules/api/tools';
 
 export interface EditorModules {
   // API Modules
+  AutosaveAPI: AutosaveAPI,
   BlocksAPI: BlocksAPI,
   CaretAPI: CaretAPI,
   ToolsAPI: ToolsAPI,
   EventsAPI: EventsAPI,
+  HistoryAPI: HistoryAPI,
   I18nAPI: I18nAPI,
   API: API,
   InlineToolbarAPI: InlineToolbarAPI,
   ListenersAPI: ListenersAPI,
   NotifierAPI: NotifierAPI,
+  PresenceAPI: PresenceAPI,
   ReadOnlyAPI: ReadOnlyAPI,
   SanitizerAPI: SanitizerAPI,
   SaverAPI: SaverAPI,
@@ -64,18 +75,23 @@ export interface EditorModules {
   InlineToolbar: InlineToolbar,
 
   // Modules
+  Autosave: Autosave,
   BlockEvents: BlockEvents,
   BlockManager: BlockManager,
   BlockSelection: BlockSelection,
   Caret: Caret,
+  Collaboration: Collaboration,
   CrossBlockSelection: CrossBlockSelection,
   DragNDrop: DragNDrop,
+  History: History,
   ModificationsObserver: ModificationsObserver,
   Paste: Paste,
+  Presence: Presence,
   ReadOnly: ReadOnly,
   RectangleSelection: RectangleSelection,
   Renderer: Renderer,
   Saver: Saver,
   Tools: Tools,
   UI: UI,
+  Virtualization: Virtualization,
 }
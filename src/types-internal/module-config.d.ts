@@ -1,6 +1,8 @@
-import { EditorConfig } from '../../types/index';
-import { EditorEventMap } from '../components/events';
-import EventsDispatcher from '../components/utils/events';
+import type { EditorConfig } from '../../types/index';
+import type { EditorEventMap } from '../components/events';
+import type EventsDispatcher from '../components/utils/events';
+import type I18n from '../components/i18n';
+import type Tooltip from '../components/utils/tooltip';
 
 /**
  * Describes object passed to Editor modules constructor
@@ -8,4 +10,10 @@ import EventsDispatcher from '../components/utils/events';
 export interface ModuleConfig {
   config: EditorConfig;
   eventsDispatcher: EventsDispatcher<EditorEventMap>;
+  i18n: I18n;
+
+  /**
+   * Not passed in headless mode where there is no UI to show tooltips
+   */
+  tooltip?: Tooltip;
 }
@@ -0,0 +1,53 @@
+import type { BlockTool } from '../../../../types';
+
+/**
+ * Container Tool with two slots for nested Blocks
+ */
+export default class ColumnsToolMock implements BlockTool {
+  /**
+   * Slot elements by slot names
+   */
+  private slotElements: Record<string, HTMLElement> = {};
+
+  /**
+   * Names of the slots nested Blocks are placed to
+   */
+  public static get slots(): string[] {
+    return ['left', 'right'];
+  }
+
+  /**
+   * Renders wrapper containing element for each slot
+   */
+  public render(): HTMLElement {
+    const wrapper = document.createElement('div');
+
+    wrapper.dataset.cyType = 'columns-tool';
+
+    ColumnsToolMock.slots.forEach((slot) => {
+      const element = document.createElement('div');
+
+      element.dataset.cySlot = slot;
+      this.slotElements[slot] = element;
+      wrapper.appendChild(element);
+    });
+
+    return wrapper;
+  }
+
+  /**
+   * Returns element nested Blocks of the slot are appended to
+   *
+   * @param slot - slot name
+   */
+  public getSlotElement(slot: string): HTMLElement | undefined {
+    return this.slotElements[slot];
+  }
+
+  /**
+   * Save method mock
+   */
+  public save(): Record<string, never> {
+    return {};
+  }
+}
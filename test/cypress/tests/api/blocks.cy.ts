@@ -2,6 +2,7 @@ import type EditorJS from '../../../../types/index';
 import type { ConversionConfig, ToolboxConfig, ToolConfig } from '../../../../types';
 import ToolMock, { type MockToolData } from '../../fixtures/tools/ToolMock';
 import { nanoid } from 'nanoid';
+import { historyBatchTimeout, modificationsObserverBatchTimeout } from '../../../../src/components/constants';
 
 /**
  * There will be described test cases of 'blocks.*' API
@@ -524,4 +525,469 @@ describe('api.blocks', () => {
       });
     });
   });
+
+  /**
+   * api.blocks.render(data, { reconcile: true })
+   */
+  describe('.render() with reconcile option', function () {
+    const blocks = [
+      {
+        id: 'first-block',
+        type: 'paragraph',
+        data: {
+          text: 'First block',
+        },
+      },
+      {
+        id: 'second-block',
+        type: 'paragraph',
+        data: {
+          text: 'Second block',
+        },
+      },
+      {
+        id: 'third-block',
+        type: 'paragraph',
+        data: {
+          text: 'Third block',
+        },
+      },
+    ];
+
+    it('should keep unchanged Blocks instead of re-creating them', function () {
+      cy.createEditor({
+        data: {
+          blocks,
+        },
+      }).then(async (editor) => {
+        const holderBefore = editor.blocks.getById('second-block')?.holder;
+
+        await editor.render({
+          blocks: [
+            blocks[0],
+            blocks[1],
+            {
+              id: 'third-block',
+              type: 'paragraph',
+              data: {
+                text: 'Updated third block',
+              },
+            },
+          ],
+        }, { reconcile: true });
+
+        const { blocks: savedBlocks } = await editor.save();
+
+        expect(holderBefore).to.be.instanceOf(HTMLElement);
+        expect(editor.blocks.getById('second-block')?.holder).to.eq(holderBefore);
+        expect(savedBlocks[2].data.text).to.eq('Updated third block');
+      });
+    });
+
+    it('should insert, remove and move Blocks by their ids', function () {
+      cy.createEditor({
+        data: {
+          blocks,
+        },
+      }).then(async (editor) => {
+        const thirdBlockHolder = editor.blocks.getById('third-block')?.holder;
+
+        await editor.render({
+          blocks: [
+            blocks[2],
+            {
+              id: 'new-block',
+              type: 'paragraph',
+              data: {
+                text: 'New block',
+              },
+            },
+            blocks[0],
+          ],
+        }, { reconcile: true });
+
+        const { blocks: savedBlocks } = await editor.save();
+
+        expect(savedBlocks.map(({ id }) => id)).to.deep.eq(['third-block', 'new-block', 'first-block']);
+        expect(savedBlocks[1].data.text).to.eq('New block');
+        expect(thirdBlockHolder).to.be.instanceOf(HTMLElement);
+        expect(editor.blocks.getById('third-block')?.holder).to.eq(thirdBlockHolder);
+      });
+    });
+
+    it('should not call onChange', function () {
+      const config = {
+        data: {
+          blocks,
+        },
+        // eslint-disable-next-line @typescript-eslint/no-empty-function
+        onChange: (): void => {},
+      };
+
+      cy.spy(config, 'onChange').as('onChange');
+
+      cy.createEditor(config).then(async (editor) => {
+        await editor.render({
+          blocks: [ blocks[1] ],
+        }, { reconcile: true });
+      });
+
+      cy.wait(modificationsObserverBatchTimeout);
+
+      cy.get('@onChange').should('not.be.called');
+    });
+
+    it('should keep changes made before reconciling available for undo', function () {
+      cy.createEditor({
+        data: {
+          blocks,
+        },
+      }).as('editorInstance');
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-paragraph')
+        .first()
+        .click()
+        .type(' changed')
+        .wait(historyBatchTimeout);
+
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        const { blocks: savedBlocks } = await editor.save();
+
+        await editor.render({
+          blocks: [
+            savedBlocks[0],
+            {
+              id: 'third-block',
+              type: 'paragraph',
+              data: {
+                text: 'Updated third block',
+              },
+            },
+          ],
+        }, { reconcile: true });
+
+        expect(editor.history.canUndo()).to.be.true;
+
+        await editor.history.undo();
+
+        const { blocks: undone } = await editor.save();
+
+        expect(undone.map(({ data }) => data.text)).to.deep.eq(['First block', 'Updated third block']);
+      });
+    });
+  });
+
+  /**
+   * api.blocks.transaction(callback)
+   */
+  describe('.renderFromMarkdown()', function () {
+    it('should render Markdown replacing existing Blocks', function () {
+      cy.createEditor({
+        data: {
+          blocks: [
+            {
+              type: 'paragraph',
+              data: {
+                text: 'Existing block',
+              },
+            },
+          ],
+        },
+      }).then(async (editor) => {
+        await editor.blocks.renderFromMarkdown('First *paragraph*\n\n```\n<b>code</b>\n```');
+
+        const { blocks } = await editor.save();
+
+        expect(blocks.map(({ data }) => data.text)).to.deep.eq(['First <i>paragraph</i>', '&lt;b&gt;code&lt;/b&gt;']);
+      });
+    });
+  });
+
+  describe('.transaction()', function () {
+    it('should call onChange once with all events happened inside the callback', function () {
+      const config = {
+        data: editorDataMock,
+        // eslint-disable-next-line @typescript-eslint/no-empty-function
+        onChange: (): void => {},
+      };
+
+      cy.spy(config, 'onChange').as('onChange');
+
+      cy.createEditor(config).then(async (editor) => {
+        await editor.blocks.transaction(async () => {
+          editor.blocks.insert('paragraph', { text: 'Second block' });
+          editor.blocks.insert('paragraph', { text: 'Third block' });
+          editor.blocks.move(0, 2);
+        });
+      });
+
+      cy.get('@onChange').should('be.calledOnce');
+      cy.get('@onChange').should('be.calledWithMatch', Cypress.sinon.match.any, Cypress.sinon.match((events: unknown) => {
+        return Array.isArray(events) && events.length === 3;
+      }));
+    });
+
+    it('should roll back changes and rethrow the error if callback throws', function () {
+      const error = new Error('Transaction failed');
+
+      cy.createEditor({
+        data: editorDataMock,
+      }).then(async (editor) => {
+        let caughtError: unknown;
+
+        try {
+          await editor.blocks.transaction(async () => {
+            editor.blocks.insert('paragraph', { text: 'Second block' });
+            editor.blocks.delete(0);
+
+            throw error;
+          });
+        } catch (e) {
+          caughtError = e;
+        }
+
+        const { blocks } = await editor.save();
+
+        expect(caughtError).to.eq(error);
+        expect(blocks.length).to.eq(1);
+        expect(blocks[0].id).to.eq(firstBlock.id);
+      });
+    });
+
+    it('should return the value returned by the callback', function () {
+      cy.createEditor({
+        data: editorDataMock,
+      }).then(async (editor) => {
+        const result = await editor.blocks.transaction(() => editor.blocks.getBlocksCount());
+
+        expect(result).to.eq(1);
+      });
+    });
+
+    it('should not merge concurrent transactions', function () {
+      const error = new Error('Transaction failed');
+
+      cy.createEditor({
+        data: editorDataMock,
+      }).then(async (editor) => {
+        const failed = editor.blocks.transaction(async () => {
+          editor.blocks.insert('paragraph', { text: 'Rolled back block' });
+
+          await new Promise((resolve) => setTimeout(resolve, 50));
+
+          throw error;
+        });
+        const succeeded = editor.blocks.transaction(() => {
+          editor.blocks.insert('paragraph', { text: 'Kept block' });
+        });
+
+        const caughtError = await failed.catch((e: unknown) => e);
+
+        await succeeded;
+
+        const { blocks } = await editor.save();
+
+        expect(caughtError).to.eq(error);
+        expect(blocks.map(({ data }) => data.text)).to.deep.eq([firstBlock.data.text, 'Kept block']);
+      });
+    });
+
+    it('should make transactions started by the passed function the part of the outer one', function () {
+      const error = new Error('Transaction failed');
+
+      cy.createEditor({
+        data: editorDataMock,
+      }).then(async (editor) => {
+        let caughtError: unknown;
+
+        try {
+          await editor.blocks.transaction(async (transaction) => {
+            await transaction(() => {
+              editor.blocks.insert('paragraph', { text: 'Nested block' });
+            });
+
+            throw error;
+          });
+        } catch (e) {
+          caughtError = e;
+        }
+
+        const { blocks } = await editor.save();
+
+        expect(caughtError).to.eq(error);
+        expect(blocks.length).to.eq(1);
+      });
+    });
+
+    it('should make transactions and patches started inside the callback the part of the outer one', function () {
+      const error = new Error('Transaction failed');
+
+      cy.createEditor({
+        data: editorDataMock,
+      }).then(async (editor) => {
+        let caughtError: unknown;
+
+        try {
+          await editor.blocks.transaction(async () => {
+            await editor.blocks.transaction(() => {
+              editor.blocks.insert('paragraph', { text: 'Nested block' });
+            });
+
+            await editor.blocks.applyPatch([
+              {
+                type: 'block-added',
+                id: 'patched-block',
+                index: 2,
+                block: {
+                  id: 'patched-block',
+                  type: 'paragraph',
+                  data: {
+                    text: 'Patched block',
+                  },
+                },
+              },
+            ]);
+
+            expect(editor.blocks.getBlocksCount()).to.eq(3);
+
+            throw error;
+          });
+        } catch (e) {
+          caughtError = e;
+        }
+
+        const { blocks } = await editor.save();
+
+        expect(caughtError).to.eq(error);
+        expect(blocks.length).to.eq(1);
+      });
+    });
+
+    it('should block user input until the transaction is finished', function () {
+      let transactionFinished: Promise<void> | undefined;
+
+      cy.createEditor({
+        data: editorDataMock,
+      }).as('editorInstance').then((editor) => {
+        transactionFinished = editor.blocks.transaction(async () => {
+          editor.blocks.insert('paragraph', { text: 'Second block' });
+
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+        });
+      });
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-paragraph')
+        .first()
+        .type(' typed');
+
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        await transactionFinished;
+
+        const { blocks } = await editor.save();
+
+        expect(blocks.map(({ data }) => data.text)).to.deep.eq([firstBlock.data.text, 'Second block']);
+      });
+    });
+  });
+
+  /**
+   * api.blocks.applyPatch(operations)
+   */
+  describe('.applyPatch()', function () {
+    const blocks = [
+      {
+        id: 'first-block',
+        type: 'paragraph',
+        data: {
+          text: 'First block',
+        },
+      },
+      {
+        id: 'second-block',
+        type: 'paragraph',
+        data: {
+          text: 'Second block',
+        },
+      },
+    ];
+
+    it('should apply operations to the Editor', function () {
+      cy.createEditor({
+        data: {
+          blocks,
+        },
+      }).then(async (editor) => {
+        await editor.blocks.applyPatch([
+          {
+            type: 'block-moved',
+            id: 'second-block',
+            fromIndex: 1,
+            toIndex: 0,
+          },
+          {
+            type: 'block-added',
+            id: 'new-block',
+            index: 2,
+            block: {
+              id: 'new-block',
+              type: 'paragraph',
+              data: {
+                text: 'New block',
+              },
+            },
+          },
+          {
+            type: 'block-changed',
+            id: 'first-block',
+            changes: [ {
+              path: ['data', 'text'],
+              before: 'First block',
+              after: 'Changed block',
+            } ],
+          },
+        ]);
+
+        const { blocks: savedBlocks } = await editor.save();
+
+        expect(savedBlocks.map(({ id }) => id)).to.deep.eq(['second-block', 'first-block', 'new-block']);
+        expect(savedBlocks[1].data.text).to.eq('Changed block');
+      });
+    });
+
+    it('should roll back applied operations and throw an error if Block is not found', function () {
+      cy.createEditor({
+        data: {
+          blocks,
+        },
+      }).then(async (editor) => {
+        let caughtError: Error | undefined;
+
+        try {
+          await editor.blocks.applyPatch([
+            {
+              type: 'block-removed',
+              id: 'first-block',
+              index: 0,
+              block: blocks[0],
+            },
+            {
+              type: 'block-removed',
+              id: 'unknown-block',
+              index: 0,
+              block: blocks[1],
+            },
+          ]);
+        } catch (e) {
+          caughtError = e as Error;
+        }
+
+        const { blocks: savedBlocks } = await editor.save();
+
+        expect(caughtError?.message).to.eq('Block with id "unknown-block" not found');
+        expect(savedBlocks.map(({ id }) => id)).to.deep.eq(['first-block', 'second-block']);
+      });
+    });
+  });
 });
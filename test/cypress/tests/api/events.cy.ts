@@ -0,0 +1,147 @@
+/**
+ * There will be described test cases of 'api.events.*' API
+ */
+import type EditorJS from '../../../../types';
+import type { EditorEventMap } from '../../../../types';
+
+describe('api.events', () => {
+  const editorDataMock = {
+    blocks: [
+      {
+        id: 'bwnFX5LoX7',
+        type: 'paragraph',
+        data: {
+          text: 'The first block content mock.',
+        },
+      },
+    ],
+  };
+
+  beforeEach(function () {
+    cy.createEditor({
+      data: editorDataMock,
+    }).as('editorInstance');
+  });
+
+  afterEach(function () {
+    if (this.editorInstance) {
+      this.editorInstance.destroy();
+    }
+  });
+
+  it('should pass the hovered Block to the \'block:hovered\' subscribers', () => {
+    const onHover = cy.stub().as('onHover');
+
+    cy.get<EditorJS>('@editorInstance').then((editor) => {
+      editor.events.on<'block:hovered'>('block:hovered', ({ block }) => {
+        onHover(block.id);
+      });
+    });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .trigger('mousemove');
+
+    cy.get('@onHover').should('have.been.calledWith', 'bwnFX5LoX7');
+  });
+
+  it('should report caret moves and text selection inside the Block', () => {
+    const onCaretMoved = cy.stub().as('onCaretMoved');
+    const onSelectionChanged = cy.stub().as('onSelectionChanged');
+
+    cy.get<EditorJS>('@editorInstance').then((editor) => {
+      editor.events.on('caret:moved', ({ block }) => onCaretMoved(block.id));
+      editor.events.on('selection:changed', ({ text }) => onSelectionChanged(text));
+    });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .click();
+
+    cy.get('@onCaretMoved').should('have.been.calledWith', 'bwnFX5LoX7');
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .selectText('first block');
+
+    cy.get('@onSelectionChanged').should('have.been.calledWith', 'first block');
+  });
+
+  it('should report opening and closing of the Toolbox and Block Tunes with the deprecated events as well', () => {
+    const events: (keyof EditorEventMap)[] = [];
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .click();
+
+    cy.get<EditorJS>('@editorInstance').then((editor) => {
+      const names: (keyof EditorEventMap)[] = [
+        'toolbox:opened',
+        'toolbox:closed',
+        'block-settings:opened',
+        'block-settings:closed',
+        'block-settings-opened',
+        'block-settings-closed',
+      ];
+
+      names.forEach((name) => {
+        editor.events.on(name, () => events.push(name));
+      });
+
+      editor.toolbar.toggleToolbox(true);
+      editor.toolbar.toggleToolbox(false);
+      editor.toolbar.toggleBlockSettings(true);
+      editor.toolbar.toggleBlockSettings(false);
+
+      expect(events).to.deep.eq([
+        'toolbox:opened',
+        'toolbox:closed',
+        'block-settings:opened',
+        'block-settings-opened',
+        'block-settings:closed',
+        'block-settings-closed',
+      ]);
+    });
+  });
+
+  it('should pass inserted Blocks to the \'paste:processed\' subscribers', () => {
+    const onPaste = cy.stub().as('onPaste');
+
+    cy.get<EditorJS>('@editorInstance').then((editor) => {
+      editor.events.on('paste:processed', ({ blocks }) => onPaste(blocks.map((block) => block.name)));
+    });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .click()
+      .paste({
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        'text/plain': 'First\n\nSecond',
+      });
+
+    cy.get('@onPaste').should('have.been.calledWith', ['paragraph', 'paragraph']);
+  });
+
+  it('should report read-only mode toggling', () => {
+    const onReadOnlyToggled = cy.stub().as('onReadOnlyToggled');
+
+    cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+      editor.events.on('read-only:toggled', ({ isEnabled }) => onReadOnlyToggled(isEnabled));
+
+      await editor.readOnly.toggle();
+    });
+
+    cy.get('@onReadOnlyToggled').should('have.been.calledOnceWith', true);
+  });
+
+  it('should keep working with custom events', () => {
+    const onCustomEvent = cy.stub().as('onCustomEvent');
+
+    cy.get<EditorJS>('@editorInstance').then((editor) => {
+      editor.events.on('custom-event', onCustomEvent);
+      editor.events.emit('custom-event', { value: 1 });
+    });
+
+    cy.get('@onCustomEvent').should('have.been.calledWith', { value: 1 });
+  });
+});
@@ -0,0 +1,178 @@
+import type EditorJS from '../../../../types';
+
+/**
+ * Test cases for Presence API
+ */
+describe('Presence API', () => {
+  const blocks = [
+    {
+      id: 'first-block',
+      type: 'paragraph',
+      data: {
+        text: 'First block',
+      },
+    },
+    {
+      id: 'second-block',
+      type: 'paragraph',
+      data: {
+        text: 'Second block',
+      },
+    },
+  ];
+
+  it('should draw caret with the name label, selection and selected Blocks of the user', () => {
+    cy.createEditor({
+      data: {
+        blocks,
+      },
+    }).then((editor: EditorJS) => {
+      editor.presence.set({
+        id: 'alice',
+        name: 'Alice',
+        color: 'rgb(255, 0, 0)',
+        caret: {
+          blockId: 'first-block',
+          inputIndex: 0,
+          offset: 5,
+        },
+        selection: {
+          start: {
+            blockId: 'first-block',
+            inputIndex: 0,
+            offset: 0,
+          },
+          end: {
+            blockId: 'first-block',
+            inputIndex: 0,
+            offset: 5,
+          },
+        },
+        blocks: [ 'second-block' ],
+      });
+    });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-presence__caret')
+      .should('have.length', 1)
+      .and('contain.text', 'Alice');
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-presence__selection')
+      .should('have.length.at.least', 1);
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-presence__block')
+      .should('have.length', 1);
+  });
+
+  it('should move caret with the Block without calling onChange', () => {
+    const onChange = cy.stub().as('onChange');
+    let initialTop: number;
+
+    cy.createEditor({
+      data: {
+        blocks,
+      },
+      onChange,
+    }).as('editorInstance');
+
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        editor.presence.set({
+          id: 'alice',
+          caret: {
+            blockId: 'first-block',
+            inputIndex: 0,
+            offset: 0,
+          },
+        });
+      });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-presence__caret')
+      .then(($caret) => {
+        initialTop = $caret[0].offsetTop;
+      });
+
+    cy.get('@onChange').should('not.have.been.called');
+
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        editor.blocks.move(1, 0);
+      });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-presence__caret')
+      .should(($caret) => {
+        expect($caret[0].offsetTop).to.be.greaterThan(initialTop);
+      });
+  });
+
+  it('should keep caret at the same character when text is inserted before it', () => {
+    cy.createEditor({
+      data: {
+        blocks,
+      },
+    }).as('editorInstance');
+
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        editor.presence.set({
+          id: 'alice',
+          caret: {
+            blockId: 'first-block',
+            inputIndex: 0,
+            offset: 5,
+          },
+        });
+      });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-presence__caret')
+      .then(($caret) => {
+        const initialLeft = $caret[0].offsetLeft;
+
+        cy.get('[data-cy=editorjs]')
+          .find('.ce-paragraph')
+          .first()
+          .click()
+          .type('{home}My ');
+
+        cy.get('[data-cy=editorjs]')
+          .find('.ce-presence__caret')
+          .should(($movedCaret) => {
+            expect($movedCaret[0].offsetLeft).to.be.greaterThan(initialLeft);
+          });
+      });
+  });
+
+  it('should hide removed user', () => {
+    cy.createEditor({
+      data: {
+        blocks,
+      },
+    }).as('editorInstance');
+
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        editor.presence.set({
+          id: 'alice',
+          blocks: [ 'first-block' ],
+        });
+      });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-presence__block')
+      .should('have.length', 1);
+
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        editor.presence.remove('alice');
+      });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-presence__block')
+      .should('not.exist');
+  });
+});
@@ -1001,4 +1001,154 @@ describe('Editor Tools Api', () => {
       });
     });
   });
+
+  context('Runtime registration', () => {
+    /**
+     * Tool with toolbox entry registered at runtime
+     */
+    class RuntimeTool {
+      /**
+       * Returns toolbox config
+       */
+      public static get toolbox(): ToolboxConfigEntry {
+        return {
+          title: 'Runtime',
+          icon: ICON,
+        };
+      }
+
+      private data: BlockToolData;
+
+      /**
+       * @param options - tool constructor options
+       * @param options.data - block data
+       */
+      constructor({ data }: { data: BlockToolData }) {
+        this.data = data;
+      }
+
+      /**
+       * Renders the Block
+       */
+      public render(): HTMLElement {
+        const element = document.createElement('div');
+
+        element.classList.add('runtime-tool');
+        element.contentEditable = 'true';
+        element.innerHTML = this.data.text ?? '';
+
+        return element;
+      }
+
+      /**
+       * Saves the Block
+       *
+       * @param element - rendered element
+       */
+      public save(element: HTMLElement): BlockToolData {
+        return {
+          text: element.innerHTML,
+        };
+      }
+    }
+
+    const data = {
+      blocks: [
+        {
+          id: 'runtime',
+          type: 'runtimeTool',
+          data: {
+            text: 'Runtime block',
+          },
+        },
+      ],
+    };
+
+    it('should add the registered Tool to the Toolbox', () => {
+      cy.createEditor({})
+        .then((editor: EditorJS) => editor.tools.register('runtimeTool', RuntimeTool));
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click();
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-toolbar__plus')
+        .click();
+
+      cy.get('[data-cy=editorjs]')
+        .get('.ce-popover-item[data-item-name=runtimeTool]')
+        .should('have.length', 1)
+        .click();
+
+      cy.get('[data-cy=editorjs]')
+        .find('.runtime-tool')
+        .should('have.length', 1);
+    });
+
+    it('should render Stub Blocks of the registered Tool by the Tool', () => {
+      cy.createEditor({
+        data,
+      })
+        .as('editorInstance')
+        .then((editor: EditorJS) => editor.tools.register('runtimeTool', RuntimeTool));
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-stub')
+        .should('not.exist');
+
+      cy.get('[data-cy=editorjs]')
+        .find('.runtime-tool')
+        .should('have.text', 'Runtime block');
+    });
+
+    it('should replace Blocks of the unregistered Tool with Stubs keeping their data', () => {
+      cy.createEditor({
+        data,
+        tools: {
+          runtimeTool: RuntimeTool,
+        },
+      })
+        .as('editorInstance')
+        .then(async (editor: EditorJS) => {
+          await editor.tools.unregister('runtimeTool');
+
+          const { blocks } = await editor.save();
+
+          expect(blocks).to.deep.eq(data.blocks);
+          expect(editor.tools.getBlockTools().map(tool => tool.name)).not.to.include('runtimeTool');
+        });
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-stub')
+        .should('have.length', 1);
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click();
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-toolbar__plus')
+        .click();
+
+      cy.get('[data-cy=editorjs]')
+        .get('.ce-popover-item[data-item-name=runtimeTool]')
+        .should('not.exist');
+    });
+
+    it('should not unregister the default Tool', () => {
+      cy.createEditor({})
+        .then(async (editor: EditorJS) => {
+          let error: Error | undefined;
+
+          try {
+            await editor.tools.unregister('paragraph');
+          } catch (e) {
+            error = e as Error;
+          }
+
+          expect(error?.message).to.contain('can not be unregistered');
+        });
+    });
+  });
 });
@@ -1,9 +1,10 @@
 import Header from '@editorjs/header';
 import Image from '@editorjs/simple-image';
 import * as _ from '../../../src/components/utils';
-import type { BlockTool, BlockToolData, OutputData } from '../../../types';
+import type { BlockTool, BlockToolData, MarkdownBlock, OutputData } from '../../../types';
 import $ from '../../../src/components/dom';
 import type EditorJS from '../../../types/index';
+import ColumnsTool from '../fixtures/tools/ColumnsTool';
 
 
 describe('Copy pasting from Editor', function () {
@@ -108,6 +109,179 @@ describe('Copy pasting from Editor', function () {
         });
     });
 
+    it('should keep ids and tunes of Blocks passed by custom data type and regenerate colliding ids', function () {
+      cy.createEditor({
+        data: {
+          blocks: [
+            {
+              id: 'existing',
+              type: 'paragraph',
+              data: {
+                text: '',
+              },
+            },
+          ],
+        },
+      }).as('editorInstance');
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click()
+        .paste({
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          'application/x-editor-js': JSON.stringify([
+            {
+              id: 'existing',
+              tool: 'paragraph',
+              data: {
+                text: 'Colliding block',
+              },
+            },
+            {
+              id: 'unique',
+              tool: 'paragraph',
+              data: {
+                text: 'Unique block',
+              },
+            },
+          ]),
+        });
+
+      cy.get<EditorJS>('@editorInstance')
+        .then(async (editor) => {
+          const { blocks } = await editor.save();
+
+          expect(blocks[0].id).to.not.eq('existing');
+          expect(blocks[0].data.text).to.eq('Colliding block');
+          expect(blocks[1].id).to.eq('unique');
+        });
+    });
+
+    it('should reject Blocks of the Tools not configured in the Editor', function () {
+      cy.createEditor({}).as('editorInstance');
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click()
+        .paste({
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          'application/x-editor-js': JSON.stringify([
+            {
+              tool: 'unknown',
+              data: {
+                text: 'Unknown block',
+              },
+            },
+          ]),
+        });
+
+      cy.get<EditorJS>('@editorInstance')
+        .then(async (editor) => {
+          const { blocks } = await editor.save();
+
+          expect(blocks.map(({ type }) => type)).to.not.include('unknown');
+        });
+    });
+
+    it('should insert Blocks of the Tools not configured in the Editor as stubs if acceptTransferredBlock hook allows them', function () {
+      const acceptTransferredBlock = cy.stub().as('acceptTransferredBlock')
+        .returns(true);
+
+      cy.createEditor({
+        acceptTransferredBlock,
+      }).as('editorInstance');
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click()
+        .paste({
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          'application/x-editor-js': JSON.stringify([
+            {
+              tool: 'unknown',
+              data: {
+                text: 'Unknown <span>block</span>',
+              },
+            },
+          ]),
+        });
+
+      cy.get('@acceptTransferredBlock').should('be.calledWithMatch', {
+        type: 'unknown',
+      }, false);
+
+      cy.get<EditorJS>('@editorInstance')
+        .then(async (editor) => {
+          const { blocks } = await editor.save();
+
+          expect(blocks[0].id).to.be.a('string');
+          expect(blocks[0]).to.deep.include({
+            type: 'unknown',
+            data: {
+              text: 'Unknown <span>block</span>',
+            },
+          });
+        });
+    });
+
+    it('should insert nested Blocks into the slots of their transferred containers', function () {
+      cy.createEditor({
+        tools: {
+          columns: ColumnsTool,
+        },
+      }).as('editorInstance');
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click()
+        .paste({
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          'application/x-editor-js': JSON.stringify([
+            {
+              id: 'columns',
+              tool: 'columns',
+              data: {},
+              children: {
+                left: [ 'left' ],
+                right: [ 'right' ],
+              },
+            },
+            {
+              id: 'left',
+              tool: 'paragraph',
+              data: {
+                text: 'Left column',
+              },
+              parent: 'columns',
+            },
+            {
+              id: 'right',
+              tool: 'paragraph',
+              data: {
+                text: 'Right column',
+              },
+              parent: 'columns',
+            },
+          ]),
+        });
+
+      cy.get<EditorJS>('@editorInstance')
+        .then(async (editor) => {
+          const { blocks } = await editor.save();
+          const [container, left, right] = blocks;
+
+          expect(blocks.map(({ type }) => type)).to.deep.eq(['columns', 'paragraph', 'paragraph']);
+          expect(container.children).to.deep.eq({
+            left: [ left.id ],
+            right: [ right.id ],
+          });
+          expect(left.parent).to.eq(container.id);
+          expect(left.data.text).to.eq('Left column');
+          expect(right.parent).to.eq(container.id);
+          expect(right.data.text).to.eq('Right column');
+        });
+    });
+
     it('should parse block tags', function () {
       cy.createEditor({
         tools: {
@@ -241,6 +415,122 @@ describe('Copy pasting from Editor', function () {
     });
   });
 
+  context('pasting markdown', function () {
+    /**
+     * Header Tool importing Markdown headings
+     */
+    class MarkdownHeader extends Header {
+      /**
+       * Composes Header data from the Markdown heading
+       *
+       * @param block - block-level Markdown element
+       */
+      public static importMarkdown(block: MarkdownBlock): BlockToolData | undefined {
+        if (block.type !== 'heading') {
+          return;
+        }
+
+        return {
+          text: block.text,
+          level: block.level,
+        };
+      }
+    }
+
+    it('should convert Markdown elements using Tools importMarkdown methods and default Block', function () {
+      cy.createEditor({
+        tools: {
+          header: MarkdownHeader,
+        },
+      }).as('editorInstance');
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click()
+        .paste({
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          'text/plain': '## Title\n\nText with **bold** and [link](https://editorjs.io)\n\n- First\n- Second',
+        });
+
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        const { blocks } = await editor.save();
+
+        expect(blocks.map(({ type, data }) => ({
+          type,
+          data,
+        }))).to.deep.eq([
+          {
+            type: 'header',
+            data: {
+              text: 'Title',
+              level: 2,
+            },
+          },
+          {
+            type: 'paragraph',
+            data: {
+              text: 'Text with <b>bold</b> and <a href="https://editorjs.io">link</a>',
+            },
+          },
+          {
+            type: 'paragraph',
+            data: {
+              text: 'First<br>Second',
+            },
+          },
+        ]);
+      });
+    });
+
+    it('should insert single Markdown paragraph at caret position', function () {
+      cy.createEditor({
+        data: {
+          blocks: [
+            {
+              type: 'paragraph',
+              data: {
+                text: 'Some text',
+              },
+            },
+          ],
+        },
+      });
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-paragraph')
+        .click()
+        .type('{moveToEnd}')
+        .paste({
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          'text/plain': ' with **bold** and [link](https://editorjs.io)',
+        });
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .should('have.length', 1)
+        .find('.ce-paragraph')
+        .should('contain.html', 'Some text with <b>bold</b> and <a href="https://editorjs.io">link</a>');
+    });
+
+    it('should paste plain text with a single line looking like Markdown as is', function () {
+      cy.createEditor({}).as('editorInstance');
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click()
+        .paste({
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          'text/plain': 'Shopping list:\n1. Milk is a must',
+        });
+
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        const { blocks } = await editor.save();
+
+        expect(blocks.map(({ data }) => data.text)).to.deep.eq(['Shopping list:', '1. Milk is a must']);
+      });
+    });
+  });
+
   context('copying', function () {
     it('should copy inline fragment', function () {
       cy.createEditor({});
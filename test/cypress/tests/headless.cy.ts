@@ -0,0 +1,142 @@
+import EditorJSHeadless from '../../../src/headless';
+import ToolMock, { type MockToolData } from '../fixtures/tools/ToolMock';
+
+describe('Headless mode', () => {
+  /**
+   * Heading Tool with conversion config and validation
+   */
+  class HeadingTool extends ToolMock {
+    /**
+     * Allows only bold markup in the text
+     */
+    public static get sanitize(): { text: { b: boolean } } {
+      return {
+        text: {
+          b: true,
+        },
+      };
+    }
+
+    /**
+     * Heading is converted by its text
+     */
+    public static get conversionConfig(): { export: string; import: string } {
+      return {
+        export: 'text',
+        import: 'text',
+      };
+    }
+
+    /**
+     * Headings can not be empty
+     *
+     * @param data - saved Block data
+     */
+    public validate(data: MockToolData): boolean {
+      return data.text.trim() !== '';
+    }
+  }
+
+  const data = {
+    blocks: [
+      {
+        id: 'heading',
+        type: 'heading',
+        data: {
+          text: '<b>Title</b><i>!</i>',
+        },
+      },
+      {
+        id: 'paragraph',
+        type: 'paragraph',
+        data: {
+          text: 'Text with <i>italic</i><script>alert(1)</script>',
+        },
+      },
+    ],
+  };
+
+  it('should sanitize data with Tools and Inline Tools configs without mutating it', async () => {
+    const headless = new EditorJSHeadless({
+      tools: {
+        heading: HeadingTool,
+      },
+    });
+
+    const sanitizedData = await headless.sanitize(data);
+
+    expect(sanitizedData.blocks.map(({ data: { text } }) => text)).to.deep.eq([
+      '<b>Title</b>!',
+      'Text with <i>italic</i>',
+    ]);
+    expect(data.blocks[0].data.text).to.eq('<b>Title</b><i>!</i>');
+  });
+
+  // eslint-disable-next-line cypress/no-async-tests
+  it('should validate data without constructing Tools', async () => {
+    const constructor = cy.spy();
+
+    /**
+     * Tool which constructor should not be called
+     */
+    class NotConstructedTool extends HeadingTool {
+      /**
+       * @param options - tool constructor options
+       */
+      constructor(options: ConstructorParameters<typeof ToolMock>[0]) {
+        super(options);
+        constructor();
+      }
+    }
+
+    const headless = new EditorJSHeadless({
+      tools: {
+        heading: NotConstructedTool,
+      },
+    });
+
+    expect(await headless.validate(data)).to.be.true;
+    expect(await headless.validateBlock({
+      type: 'heading',
+      data: {
+        text: ' ',
+      },
+    })).to.be.false;
+    expect(await headless.validateBlock({
+      type: 'unknown',
+      data: {},
+    })).to.be.false;
+    expect(constructor).to.not.be.called;
+  });
+
+  it('should convert Blocks using conversion configs', async () => {
+    const headless = new EditorJSHeadless({
+      tools: {
+        heading: HeadingTool,
+      },
+    });
+
+    const convertedBlock = await headless.convert(data.blocks[1], 'heading');
+
+    expect(convertedBlock).to.deep.eq({
+      id: 'paragraph',
+      type: 'heading',
+      data: {
+        text: 'Text with italic',
+      },
+    });
+  });
+
+  it('should throw an error if Tool to convert to is not found', async () => {
+    const headless = new EditorJSHeadless();
+    let error: Error | undefined;
+
+    try {
+      await headless.convert(data.blocks[1], 'heading');
+    } catch (e) {
+      error = e as Error;
+    }
+
+    expect(error?.message).to.eq('Could not convert Block. Tool «heading» not found.');
+  });
+});
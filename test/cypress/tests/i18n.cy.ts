@@ -1,5 +1,8 @@
 import Header from '@editorjs/header';
-import type { ToolboxConfig } from '../../../types';
+import type { API, BlockToolConstructorOptions, ToolboxConfig } from '../../../types';
+import type EditorJS from '../../../types/index';
+import { formatMessage } from '../../../src/components/i18n/format';
+import { historyBatchTimeout } from '../../../src/components/constants';
 
 describe('Editor i18n', () => {
   context('Toolbox', () => {
@@ -240,4 +243,437 @@ describe('Editor i18n', () => {
         .should('contain.text', toolNamesDictionary.Heading);
     });
   });
+
+  context('Multiple instances', () => {
+    /**
+     * Creates two Editor instances with different dictionaries
+     */
+    function createEditorsWithDifferentDictionaries(): Cypress.Chainable<[EditorJS, EditorJS]> {
+      return cy.window().then((window) => {
+        const create = (id: string, addLabel: string): Promise<EditorJS> => {
+          const holder = window.document.createElement('div');
+
+          holder.dataset.cy = id;
+          window.document.body.appendChild(holder);
+
+          const editor = new window.EditorJS({
+            holder,
+            i18n: {
+              messages: {
+                ui: {
+                  toolbar: {
+                    toolbox: {
+                      Add: addLabel,
+                    },
+                  },
+                },
+              },
+            },
+          });
+
+          return editor.isReady.then(() => editor);
+        };
+
+        return Promise.all([create('first-editor', 'Добавить'), create('second-editor', 'Hinzufügen')]);
+      });
+    }
+
+    it('should translate the UI of each instance with its own dictionary', () => {
+      createEditorsWithDifferentDictionaries();
+
+      cy.get('[data-cy=first-editor] .ce-paragraph')
+        .click();
+
+      cy.get('[data-cy=first-editor] .ce-toolbar__plus')
+        .trigger('mouseenter');
+
+      cy.get('[data-cy=first-editor]')
+        .get('.ct--shown')
+        .should('contain.text', 'Добавить');
+
+      cy.get('[data-cy=second-editor] .ce-paragraph')
+        .click();
+
+      cy.get('[data-cy=second-editor] .ce-toolbar__plus')
+        .trigger('mouseenter');
+
+      cy.get('[data-cy=second-editor]')
+        .get('.ct--shown')
+        .should('contain.text', 'Hinzufügen');
+    });
+
+    it('should keep tooltips of the other instance working after one is destroyed', () => {
+      createEditorsWithDifferentDictionaries()
+        .then(([ first ]) => {
+          first.destroy();
+        });
+
+      cy.get('[data-cy=second-editor] .ce-paragraph')
+        .click();
+
+      cy.get('[data-cy=second-editor] .ce-toolbar__plus')
+        .trigger('mouseenter');
+
+      cy.get('[data-cy=second-editor]')
+        .get('.ct--shown')
+        .should('contain.text', 'Hinzufügen');
+    });
+  });
+
+  context('Runtime locale switching', () => {
+    it('should translate the Toolbox with the dictionary passed to setLocale()', () => {
+      cy.createEditor({
+        tools: {
+          header: Header,
+        },
+      }).then((editor) => {
+        editor.i18n.setLocale({
+          toolNames: {
+            Heading: 'Заголовок',
+          },
+        });
+      });
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click();
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-toolbar__plus')
+        .click();
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-popover-item[data-item-name=header]')
+        .should('contain.text', 'Заголовок');
+    });
+
+    it('should switch the text direction', () => {
+      cy.createEditor({}).then((editor) => {
+        editor.i18n.setLocale({}, 'rtl');
+      });
+
+      cy.get('[data-cy=editorjs]')
+        .get('.codex-editor')
+        .should('have.class', 'codex-editor--rtl');
+    });
+
+    it('should call localeChanged() hook of the Block Tools without reporting changes', () => {
+      const localeChanged = cy.stub().as('localeChanged');
+      const onChange = cy.stub().as('onChange');
+
+      /**
+       * Tool translating its content with the Editor dictionary
+       */
+      class ToolWithText {
+        /**
+         * Editor API
+         */
+        private readonly api: API;
+
+        /**
+         * Element displaying translated text
+         */
+        private readonly element: HTMLElement;
+
+        /**
+         * @param options - constructor options
+         * @param options.api - Editor API
+         */
+        constructor({ api }: BlockToolConstructorOptions) {
+          this.api = api;
+          this.element = document.createElement('div');
+        }
+
+        /**
+         * Renders translated text
+         */
+        public render(): HTMLElement {
+          this.element.textContent = this.api.i18n.t('Hello');
+
+          return this.element;
+        }
+
+        /**
+         * Translates the text again
+         */
+        public localeChanged(): void {
+          localeChanged();
+          this.element.textContent = this.api.i18n.t('Hello');
+        }
+
+        /**
+         * Saves nothing
+         */
+        public save(): object {
+          return {};
+        }
+      }
+
+      cy.createEditor({
+        tools: {
+          withText: ToolWithText,
+        },
+        onChange,
+        data: {
+          blocks: [
+            {
+              type: 'withText',
+              data: {},
+            },
+          ],
+        },
+      }).as('editorInstance').then((editor) => {
+        editor.i18n.setLocale({
+          tools: {
+            withText: {
+              Hello: 'Привет',
+            },
+          },
+        });
+      });
+
+      cy.get('@localeChanged').should('have.been.calledOnce');
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .should('have.text', 'Привет');
+
+      cy.wait(historyBatchTimeout);
+
+      cy.get('@onChange').should('not.have.been.called');
+      cy.get<EditorJS>('@editorInstance').then((editor) => {
+        expect(editor.history.canUndo()).to.be.false;
+      });
+    });
+  });
+
+  context('Messages formatting', () => {
+    it('should substitute parameters', () => {
+      expect(formatMessage('Hello, {name}!', { name: 'World' }, 'en')).to.eq('Hello, World!');
+    });
+
+    it('should keep placeholders of missing parameters', () => {
+      expect(formatMessage('Hello, {name}!', {}, 'en')).to.eq('Hello, {name}!');
+    });
+
+    it('should choose plural form by the locale rules', () => {
+      const message = '{count, plural, =0 {Нет блоков} one {# блок} few {# блока} other {# блоков}}';
+
+      expect(formatMessage(message, { count: 0 }, 'ru')).to.eq('Нет блоков');
+      expect(formatMessage(message, { count: 1 }, 'ru')).to.eq('1 блок');
+      expect(formatMessage(message, { count: 3 }, 'ru')).to.eq('3 блока');
+      expect(formatMessage(message, { count: 5 }, 'ru')).to.eq('5 блоков');
+      expect(formatMessage(message, { count: 21 }, 'ru')).to.eq('21 блок');
+    });
+
+    it('should choose ordinal form', () => {
+      const message = '{place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}';
+
+      expect(formatMessage(message, { place: 1 }, 'en')).to.eq('1st');
+      expect(formatMessage(message, { place: 22 }, 'en')).to.eq('22nd');
+      expect(formatMessage(message, { place: 13 }, 'en')).to.eq('13th');
+    });
+
+    it('should choose select form and format nested placeholders', () => {
+      const message = '{gender, select, female {She deleted {count, plural, one {# block} other {# blocks}}} other {They deleted {count} blocks}}';
+
+      expect(formatMessage(message, { gender: 'female', count: 2 }, 'en')).to.eq('She deleted 2 blocks');
+      expect(formatMessage(message, { gender: 'unknown', count: 2 }, 'en')).to.eq('They deleted 2 blocks');
+    });
+
+    it('should format messages passed to the api.i18n.t() and report missing translations', () => {
+      const onMissingTranslation = cy.stub().as('onMissingTranslation');
+      let translated: string | undefined;
+
+      /**
+       * Tool translating its content with parameters
+       */
+      class ToolWithCounter {
+        /**
+         * @param options - constructor options
+         * @param options.api - Editor API
+         */
+        constructor({ api }: BlockToolConstructorOptions) {
+          translated = api.i18n.t('Selected', { count: 3 });
+
+          api.i18n.t('Untranslated');
+        }
+
+        /**
+         * Renders empty element
+         */
+        public render(): HTMLElement {
+          return document.createElement('div');
+        }
+
+        /**
+         * Saves nothing
+         */
+        public save(): object {
+          return {};
+        }
+      }
+
+      cy.createEditor({
+        tools: {
+          counter: ToolWithCounter,
+        },
+        i18n: {
+          locale: 'ru',
+          messages: {
+            tools: {
+              counter: {
+                Selected: 'Выбрано {count, plural, one {# блок} few {# блока} other {# блоков}}',
+              },
+            },
+          },
+          onMissingTranslation,
+        },
+        data: {
+          blocks: [
+            {
+              type: 'counter',
+              data: {},
+            },
+          ],
+        },
+      }).then(() => {
+        expect(translated).to.eq('Выбрано 3 блока');
+      });
+
+      cy.get('@onMissingTranslation').should('have.been.calledWith', 'Untranslated', 'tools.counter');
+    });
+
+    it('should not report keys of the default dictionary having empty messages as missing translations', () => {
+      const onMissingTranslation = cy.stub().as('onMissingTranslation');
+
+      cy.createEditor({
+        i18n: {
+          onMissingTranslation,
+        },
+      });
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click();
+
+      cy.get('@onMissingTranslation').should('not.have.been.calledWith', 'Click to tune');
+    });
+
+    it('should fall back to the \'en\' locale if the invalid language tag is passed', () => {
+      let translated: string | undefined;
+
+      /**
+       * Tool translating its content with parameters
+       */
+      class ToolWithCounter {
+        /**
+         * @param options - constructor options
+         * @param options.api - Editor API
+         */
+        constructor({ api }: BlockToolConstructorOptions) {
+          translated = api.i18n.t('Selected', { count: 1 });
+        }
+
+        /**
+         * Renders empty element
+         */
+        public render(): HTMLElement {
+          return document.createElement('div');
+        }
+
+        /**
+         * Saves nothing
+         */
+        public save(): object {
+          return {};
+        }
+      }
+
+      cy.createEditor({
+        tools: {
+          counter: ToolWithCounter,
+        },
+        i18n: {
+          locale: 'not a language tag',
+          messages: {
+            tools: {
+              counter: {
+                Selected: 'Selected {count, plural, one {# block} other {# blocks}}',
+              },
+            },
+          },
+        },
+        data: {
+          blocks: [
+            {
+              type: 'counter',
+              data: {},
+            },
+          ],
+        },
+      }).then(() => {
+        expect(translated).to.eq('Selected 1 block');
+      });
+    });
+  });
+
+  context('Bundled locales', () => {
+    it('should translate the UI with the bundled locale pack', () => {
+      cy.createEditor({
+        i18n: {
+          locale: 'ru',
+        },
+      });
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click();
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-toolbar__plus')
+        .click();
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-popover-item[data-item-name=paragraph]')
+        .should('contain.text', 'Текст');
+    });
+
+    it('should override only keys passed in the custom messages', () => {
+      cy.createEditor({
+        i18n: {
+          locale: 'pt-BR',
+          messages: {
+            toolNames: {
+              Text: 'Parágrafo',
+            },
+          },
+        },
+      });
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-block')
+        .click();
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-toolbar__plus')
+        .click();
+
+      cy.get('[data-cy=editorjs]')
+        .get('div.ce-popover-item[data-item-name=paragraph]')
+        .should('contain.text', 'Parágrafo');
+
+      cy.get('[data-cy=editorjs]')
+        .get('input.cdx-search-field__input')
+        .should('have.attr', 'placeholder', 'Filtrar');
+    });
+
+    it('should expose bundled dictionaries by the locale code', () => {
+      cy.window().then((window) => {
+        const { locales } = window.EditorJS;
+
+        expect(locales.fr.toolNames?.Text).to.eq('Texte');
+      });
+    });
+  });
 });
@@ -0,0 +1,198 @@
+import type EditorJS from '../../../../types/index';
+import type { AutosaveStorageAdapter, OutputData } from '../../../../types/index';
+import { modificationsObserverBatchTimeout } from '../../../../src/components/constants';
+
+/**
+ * Delay used by the autosave in tests
+ */
+const AUTOSAVE_DELAY = 100;
+
+/**
+ * Creates storage keeping drafts in the passed object
+ *
+ * @param drafts - stored drafts keyed by draft keys
+ */
+function createStorage(drafts: Record<string, OutputData>): AutosaveStorageAdapter {
+  return {
+    load: async (key) => drafts[key] ?? null,
+    save: async (key, data) => {
+      drafts[key] = data;
+    },
+    remove: async (key) => {
+      delete drafts[key];
+    },
+  };
+}
+
+describe('Autosave module', function () {
+  const savedData: OutputData = {
+    time: 1,
+    blocks: [
+      {
+        id: 'block',
+        type: 'paragraph',
+        data: {
+          text: 'Saved text',
+        },
+      },
+    ],
+  };
+
+  const draft: OutputData = {
+    time: 2,
+    blocks: [
+      {
+        id: 'block',
+        type: 'paragraph',
+        data: {
+          text: 'Unsaved text',
+        },
+      },
+    ],
+  };
+
+  it('should save the draft to the storage after changes', function () {
+    const drafts: Record<string, OutputData> = {};
+
+    cy.createEditor({
+      data: savedData,
+      autosave: {
+        key: 'document',
+        storage: createStorage(drafts),
+        delay: AUTOSAVE_DELAY,
+      },
+    });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .click()
+      .type(' edited');
+
+    cy.wrap(drafts)
+      .its('document.blocks.0.data.text')
+      .should('eq', 'Saved text edited');
+  });
+
+  it('should save the draft to the localStorage by default', function () {
+    cy.createEditor({
+      data: savedData,
+      autosave: {
+        key: 'local-document',
+        delay: AUTOSAVE_DELAY,
+      },
+    });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .click()
+      .type(' edited');
+
+    cy.window()
+      .should((window) => {
+        const stored = JSON.parse(window.localStorage.getItem('editorjs-draft:local-document') ?? 'null');
+
+        expect(stored?.blocks[0].data.text).to.eq('Saved text edited');
+      });
+  });
+
+  it('should restore the newer draft if the user confirms', function () {
+    cy.createEditor({
+      data: savedData,
+      autosave: {
+        key: 'document',
+        storage: createStorage({ document: draft }),
+      },
+    }).as('editorInstance');
+
+    /* eslint-disable-next-line cypress/require-data-selectors -- notifications are appended to the body */
+    cy.get('body')
+      .find('.cdx-notify__button--confirm')
+      .click();
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .should('have.text', 'Unsaved text');
+  });
+
+  it('should remove the draft if the user discards it', function () {
+    const drafts = { document: draft };
+
+    cy.createEditor({
+      data: savedData,
+      autosave: {
+        key: 'document',
+        storage: createStorage(drafts),
+      },
+    });
+
+    /* eslint-disable-next-line cypress/require-data-selectors -- notifications are appended to the body */
+    cy.get('body')
+      .find('.cdx-notify__button--cancel')
+      .click();
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .should('have.text', 'Saved text');
+
+    cy.wrap(drafts)
+      .should('not.have.property', 'document');
+  });
+
+  it('should remove the draft and cancel the scheduled saving by the autosave.clear() method', function () {
+    const drafts: Record<string, OutputData> = {
+      document: draft,
+    };
+
+    /**
+     * Saving is scheduled after the changes are reported by the ModificationsObserver, so it is delayed until the draft is cleared
+     */
+    const savingDelay = modificationsObserverBatchTimeout * 4;
+
+    cy.createEditor({
+      data: {
+        ...savedData,
+        time: 3,
+      },
+      autosave: {
+        key: 'document',
+        storage: createStorage(drafts),
+        delay: savingDelay,
+      },
+    }).as('editorInstance');
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .click()
+      .type(' edited')
+      .wait(modificationsObserverBatchTimeout * 2);
+
+    cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+      await editor.autosave.clear();
+    });
+
+    cy.wait(savingDelay);
+
+    cy.wrap(drafts)
+      .should('not.have.property', 'document');
+  });
+
+  it('should not offer the draft older than passed data', function () {
+    cy.createEditor({
+      data: {
+        ...savedData,
+        time: 3,
+      },
+      autosave: {
+        key: 'document',
+        storage: createStorage({ document: draft }),
+      },
+    }).then((editor: EditorJS) => {
+      expect(editor.blocks.getBlocksCount()).to.eq(1);
+    });
+
+    /* eslint-disable-next-line cypress/require-data-selectors -- notifications are appended to the body */
+    cy.get('body')
+      .find('.cdx-notify')
+      .should('not.exist');
+  });
+});
@@ -0,0 +1,140 @@
+import type EditorJS from '../../../../types/index';
+import type { EditorConfig } from '../../../../types/index';
+
+/**
+ * Time enough for the in-memory transport to deliver operations and for the Editor to apply them
+ */
+const SYNC_TIMEOUT = 300;
+
+describe('Collaboration module', function () {
+  const blocks = [
+    {
+      id: 'first-block',
+      type: 'paragraph',
+      data: {
+        text: 'First block',
+      },
+    },
+    {
+      id: 'second-block',
+      type: 'paragraph',
+      data: {
+        text: 'Second block',
+      },
+    },
+  ];
+
+  /**
+   * Creates two Editor instances connected by the in-memory transport
+   *
+   * @param channelName - name of the transport channel
+   */
+  function createCollaboratingEditors(channelName: string): Cypress.Chainable<[EditorJS, EditorJS]> {
+    return cy.window().then((window) => {
+      const create = (clientId: string): Promise<EditorJS> => {
+        const holder = window.document.createElement('div');
+
+        holder.dataset.cy = clientId;
+        window.document.body.appendChild(holder);
+
+        const config: EditorConfig = {
+          holder,
+          data: {
+            blocks: JSON.parse(JSON.stringify(blocks)),
+          },
+          collaboration: {
+            clientId,
+            transport: new window.EditorJS.InMemoryTransport(channelName),
+          },
+        };
+        const editor = new window.EditorJS(config);
+
+        return editor.isReady.then(() => editor);
+      };
+
+      return Promise.all([create('first-client'), create('second-client')]);
+    });
+  }
+
+  it('should apply Block insertion, moving and removal made in the other Editor', function () {
+    createCollaboratingEditors('structure').then(([ first ]) => {
+      first.blocks.insert('paragraph', { text: 'Inserted block' }, {}, 1, false, false, 'inserted-block');
+      first.blocks.move(0, 2);
+      first.blocks.delete(1);
+    })
+      .wait(SYNC_TIMEOUT)
+      .then(async ([first, second]) => {
+        const { blocks: firstBlocks } = await first.save();
+        const { blocks: secondBlocks } = await second.save();
+
+        expect(firstBlocks.map(({ id }) => id)).to.deep.eq(['second-block', 'inserted-block']);
+        expect(secondBlocks).to.deep.eq(firstBlocks);
+      });
+  });
+
+  it('should merge concurrent text edits of the same Block', function () {
+    createCollaboratingEditors('text').then(([first, second]) => {
+      const firstParagraph = first.blocks.getById('first-block')?.holder.querySelector('.ce-paragraph') as HTMLElement;
+      const secondParagraph = second.blocks.getById('first-block')?.holder.querySelector('.ce-paragraph') as HTMLElement;
+
+      firstParagraph.textContent = 'My first block';
+      secondParagraph.textContent = 'First block edited';
+    })
+      .wait(SYNC_TIMEOUT)
+      .then(async ([first, second]) => {
+        const { blocks: firstBlocks } = await first.save();
+        const { blocks: secondBlocks } = await second.save();
+
+        expect(firstBlocks[0].data.text).to.eq('My first block edited');
+        expect(secondBlocks[0].data.text).to.eq('My first block edited');
+      });
+  });
+
+  it('should apply text edits of collaborators in place keeping the Block element', function () {
+    let secondHolder: HTMLElement | undefined;
+
+    createCollaboratingEditors('in-place').then(([first, second]) => {
+      const firstParagraph = first.blocks.getById('first-block')?.holder.querySelector('.ce-paragraph') as HTMLElement;
+
+      secondHolder = second.blocks.getById('first-block')?.holder;
+      firstParagraph.textContent = 'First edited block';
+    })
+      .wait(SYNC_TIMEOUT)
+      .then(([, second]) => {
+        const holder = second.blocks.getById('first-block')?.holder;
+
+        expect(holder).to.eq(secondHolder);
+        expect(holder?.querySelector('.ce-paragraph')?.innerHTML).to.eq('First edited block');
+      });
+  });
+
+  it('should not split tags when concurrent edits change formatting of the same text', function () {
+    createCollaboratingEditors('markup').then(([first, second]) => {
+      const firstParagraph = first.blocks.getById('first-block')?.holder.querySelector('.ce-paragraph') as HTMLElement;
+      const secondParagraph = second.blocks.getById('first-block')?.holder.querySelector('.ce-paragraph') as HTMLElement;
+
+      firstParagraph.innerHTML = '<b>First</b> block';
+      (secondParagraph.firstChild as Text).insertData(2, 'X');
+    })
+      .wait(SYNC_TIMEOUT)
+      .then(async ([first, second]) => {
+        const { blocks: firstBlocks } = await first.save();
+        const { blocks: secondBlocks } = await second.save();
+
+        expect(firstBlocks[0].data.text).to.eq('<b>First</b>X block');
+        expect(secondBlocks[0].data.text).to.eq(firstBlocks[0].data.text);
+      });
+  });
+
+  it('should not record changes made by collaborators to the History', function () {
+    createCollaboratingEditors('history').then(([ first ]) => {
+      first.blocks.delete(1);
+    })
+      .wait(SYNC_TIMEOUT)
+      .then(([first, second]) => {
+        expect(second.blocks.getBlocksCount()).to.eq(1);
+        expect(second.history.canUndo()).to.be.false;
+        expect(first.history.canUndo()).to.be.true;
+      });
+  });
+});
@@ -0,0 +1,141 @@
+import type EditorJS from '../../../../types/index';
+import { BlockMovedMutationType } from '../../../../types/events/block/BlockMoved';
+
+describe('DragNDrop module', function () {
+  const data = {
+    blocks: ['first', 'second', 'third'].map((text) => ({
+      id: text,
+      type: 'paragraph',
+      data: {
+        text,
+      },
+    })),
+  };
+
+  /**
+   * Returns ids of the Blocks in the order they are placed
+   *
+   * @param editor - Editor instance
+   */
+  function getOrder(editor: EditorJS): string[] {
+    return Array.from({ length: editor.blocks.getBlocksCount() }, (_, index) => editor.blocks.getBlockByIndex(index)?.id ?? '');
+  }
+
+  it('should move the Block dragged by the Block Tunes toggler', function () {
+    const onChange = cy.stub().as('onChange');
+
+    cy.createEditor({
+      data,
+      onChange,
+    }).as('editorInstance');
+
+    const dataTransfer = new DataTransfer();
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .first()
+      .click();
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-toolbar__settings-btn')
+      .trigger('dragstart', { dataTransfer });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-block')
+      .first()
+      .should('have.class', 'ce-block--dragged');
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .last()
+      .trigger('dragover', 'bottom', { dataTransfer })
+      .trigger('drop', 'bottom', { dataTransfer });
+
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        expect(getOrder(editor)).to.deep.eq(['second', 'third', 'first']);
+      });
+
+    cy.get('@onChange').should('be.calledWithMatch', Cypress.sinon.match.any, Cypress.sinon.match({
+      type: BlockMovedMutationType,
+    }));
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-block--dragged, .ce-block--drop-target')
+      .should('not.exist');
+  });
+
+  it('should show the drop indicator above the Block when the cursor is over its upper half', function () {
+    cy.createEditor({
+      data,
+    }).as('editorInstance');
+
+    const dataTransfer = new DataTransfer();
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .last()
+      .click();
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-toolbar__settings-btn')
+      .trigger('dragstart', { dataTransfer });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .first()
+      .trigger('dragover', 'top', { dataTransfer });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-block')
+      .first()
+      .should('have.class', 'ce-block--drop-target-before');
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .first()
+      .trigger('drop', 'top', { dataTransfer });
+
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        expect(getOrder(editor)).to.deep.eq(['third', 'first', 'second']);
+      });
+  });
+
+  it('should move all selected Blocks dragged by the Block Tunes toggler', function () {
+    cy.createEditor({
+      data,
+    }).as('editorInstance');
+
+    const dataTransfer = new DataTransfer();
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .first()
+      .click()
+      .type('{moveToEnd}{shift}{downArrow}');
+
+    /**
+     * Toolbar is closed by the arrow keys, so it is opened by hovering the selected Block
+     */
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .eq(1)
+      .trigger('mousemove');
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-toolbar__settings-btn')
+      .trigger('dragstart', { dataTransfer });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .last()
+      .trigger('dragover', 'bottom', { dataTransfer })
+      .trigger('drop', 'bottom', { dataTransfer });
+
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        expect(getOrder(editor)).to.deep.eq(['third', 'first', 'second']);
+      });
+  });
+});
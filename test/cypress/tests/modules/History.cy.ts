@@ -0,0 +1,123 @@
+import type EditorJS from '../../../../types/index';
+import { historyBatchTimeout } from '../../../../src/components/constants';
+
+describe('History module', function () {
+  const blocks = [
+    {
+      id: 'first-block',
+      type: 'paragraph',
+      data: {
+        text: 'First block',
+      },
+    },
+    {
+      id: 'second-block',
+      type: 'paragraph',
+      data: {
+        text: 'Second block',
+      },
+    },
+  ];
+
+  beforeEach(function () {
+    cy.createEditor({
+      data: {
+        blocks,
+      },
+    }).as('editorInstance');
+  });
+
+  it('should undo and redo typing inside a block', function () {
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .first()
+      .click()
+      .type(' changed')
+      .wait(historyBatchTimeout);
+
+    cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+      expect(editor.history.canUndo()).to.be.true;
+
+      await editor.history.undo();
+
+      const { blocks: undone } = await editor.save();
+
+      expect(undone[0].data.text).to.eq('First block');
+      expect(editor.history.canRedo()).to.be.true;
+
+      await editor.history.redo();
+
+      const { blocks: redone } = await editor.save();
+
+      expect(redone[0].data.text).to.eq('First block changed');
+    });
+  });
+
+  it('should undo block insertion and removal', function () {
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        editor.blocks.insert('paragraph', { text: 'Inserted block' }, {}, 1);
+        editor.blocks.delete(0);
+      })
+      .wait(historyBatchTimeout);
+
+    cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+      await editor.history.undo();
+
+      const { blocks: restored } = await editor.save();
+
+      expect(restored.map(({ id }) => id)).to.deep.eq(['first-block', 'second-block']);
+    });
+  });
+
+  it('should undo block moving', function () {
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        editor.blocks.move(1, 0);
+      })
+      .wait(historyBatchTimeout);
+
+    cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+      await editor.history.undo();
+
+      const { blocks: restored } = await editor.save();
+
+      expect(restored.map(({ id }) => id)).to.deep.eq(['first-block', 'second-block']);
+    });
+  });
+
+  it('should undo changes by CMD+Z and redo by CMD+SHIFT+Z', function () {
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .last()
+      .click()
+      .type('{selectall}{backspace}')
+      .wait(historyBatchTimeout)
+      .type('{cmd}z');
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .last()
+      .should('have.text', 'Second block')
+      .type('{cmd}{shift}z');
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .last()
+      .should('have.text', '');
+  });
+
+  it('should drop recorded changes on clear()', function () {
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        editor.blocks.delete(1);
+      })
+      .wait(historyBatchTimeout);
+
+    cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+      await editor.history.clear();
+
+      expect(editor.history.canUndo()).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import type EditorJS from '../../../../types/index';
+import type { OutputData } from '../../../../types/index';
+import ColumnsTool from '../../fixtures/tools/ColumnsTool';
+
+describe('Nested Blocks', function () {
+  const data: OutputData = {
+    blocks: [
+      {
+        id: 'columns',
+        type: 'columns',
+        data: {},
+        children: {
+          left: [ 'first' ],
+          right: [ 'second' ],
+        },
+      },
+      {
+        id: 'first',
+        type: 'paragraph',
+        data: {
+          text: 'Left',
+        },
+        parent: 'columns',
+      },
+      {
+        id: 'second',
+        type: 'paragraph',
+        data: {
+          text: 'Right',
+        },
+        parent: 'columns',
+      },
+      {
+        id: 'after',
+        type: 'paragraph',
+        data: {
+          text: 'After',
+        },
+      },
+    ],
+  };
+
+  it('should render nested Blocks into the container slots', function () {
+    cy.createEditor({
+      tools: {
+        columns: ColumnsTool,
+      },
+      data,
+    });
+
+    cy.get('[data-cy=editorjs]')
+      .find('[data-cy-slot=left] .ce-paragraph')
+      .should('have.text', 'Left');
+
+    cy.get('[data-cy=editorjs]')
+      .find('[data-cy-slot=right] .ce-paragraph')
+      .should('have.text', 'Right');
+  });
+
+  it('should save nesting of the Blocks', function () {
+    cy.createEditor({
+      tools: {
+        columns: ColumnsTool,
+      },
+      data,
+    }).then(async (editor: EditorJS) => {
+      const { blocks } = await editor.save();
+
+      expect(blocks.map(({ id }) => id)).to.deep.eq(['columns', 'first', 'second', 'after']);
+      expect(blocks[0].children).to.deep.eq({
+        left: [ 'first' ],
+        right: [ 'second' ],
+      });
+      expect(blocks[1].parent).to.eq('columns');
+      expect(blocks[3]).to.not.have.property('parent');
+    });
+  });
+
+  it('should move nested Blocks of the container skipped on saving to the top level', function () {
+    /**
+     * Container Tool which data is never valid
+     */
+    class InvalidColumnsTool extends ColumnsTool {
+      /**
+       * Validation mock
+       */
+      public validate(): boolean {
+        return false;
+      }
+    }
+
+    cy.createEditor({
+      tools: {
+        columns: InvalidColumnsTool,
+      },
+      data,
+    }).then(async (editor: EditorJS) => {
+      const { blocks } = await editor.save();
+
+      expect(blocks.map(({ id }) => id)).to.deep.eq(['first', 'second', 'after']);
+      blocks.forEach((block) => {
+        expect(block).to.not.have.property('parent');
+      });
+    });
+  });
+
+  it('should return nested Blocks by the getChildren() method', function () {
+    cy.createEditor({
+      tools: {
+        columns: ColumnsTool,
+      },
+      data,
+    }).then((editor: EditorJS) => {
+      const children = editor.blocks.getChildren('columns');
+
+      expect(children.map(({ id, slot }) => `${id}/${slot}`)).to.deep.eq(['first/left', 'second/right']);
+      expect(editor.blocks.getChildren('columns', 'right').map(({ id }) => id)).to.deep.eq([ 'second' ]);
+    });
+  });
+
+  it('should fill empty slots with the default Block', function () {
+    cy.createEditor({
+      tools: {
+        columns: ColumnsTool,
+      },
+      data: {
+        blocks: [
+          {
+            id: 'columns',
+            type: 'columns',
+            data: {},
+          },
+        ],
+      },
+    }).then((editor: EditorJS) => {
+      expect(editor.blocks.getChildren('columns', 'left')).to.have.length(1);
+      expect(editor.blocks.getChildren('columns', 'right')).to.have.length(1);
+    });
+  });
+
+  it('should insert new Block into the same slot on Enter', function () {
+    cy.createEditor({
+      tools: {
+        columns: ColumnsTool,
+      },
+      data,
+    }).as('editorInstance');
+
+    cy.get('[data-cy=editorjs]')
+      .find('[data-cy-slot=left] .ce-paragraph')
+      .click()
+      .type('{enter}');
+
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        expect(editor.blocks.getChildren('columns', 'left')).to.have.length(2);
+      });
+  });
+
+  it('should remove nested Blocks together with the container', function () {
+    cy.createEditor({
+      tools: {
+        columns: ColumnsTool,
+      },
+      data,
+    }).then((editor: EditorJS) => {
+      editor.blocks.delete(0);
+
+      expect(editor.blocks.getById('first')).to.be.null;
+      expect(editor.blocks.getById('second')).to.be.null;
+      expect(editor.blocks.getBlocksCount()).to.eq(1);
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import ToolMock from '../../fixtures/tools/ToolMock';
+import { SimpleHeader } from '../../fixtures/tools/SimpleHeader';
 import type EditorJS from '../../../../types/index';
+import { historyBatchTimeout } from '../../../../src/components/constants';
 
 describe('Renderer module', function () {
   it('should not cause onChange firing during initial rendering', function () {
@@ -176,4 +178,150 @@ describe('Renderer module', function () {
       .find('.ce-block')
       .should('have.length', 1);
   });
+
+  describe('with the renderChunkSize config property', function () {
+    const data = {
+      blocks: Array.from({ length: 25 }, (_, index) => ({
+        type: 'paragraph',
+        data: {
+          text: `Paragraph ${index}`,
+        },
+      })),
+    };
+
+    it('should report rendering progress after each chunk', function () {
+      const onRenderProgress = cy.stub().as('onRenderProgress');
+
+      cy.createEditor({
+        data,
+        renderChunkSize: 10,
+        onRenderProgress,
+      })
+        .then((editor: EditorJS) => editor.isRendered);
+
+      cy.get('@onRenderProgress').should('have.callCount', 3);
+      cy.get('@onRenderProgress').should('be.calledWith', 10, 25);
+      cy.get('@onRenderProgress').should('be.calledWith', 25, 25);
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-block')
+        .should('have.length', 25);
+    });
+
+    it('should save all Blocks even if saving is started before the rendering is finished', function () {
+      cy.createEditor({
+        data,
+        renderChunkSize: 5,
+      })
+        .then(async (editor: EditorJS) => {
+          const { blocks } = await editor.save();
+
+          expect(blocks).to.have.length(25);
+          expect(blocks[24].data.text).to.eq('Paragraph 24');
+        });
+    });
+
+    it('should record changes of the Blocks rendered in later chunks to the undo history', function () {
+      cy.createEditor({
+        data,
+        renderChunkSize: 5,
+      })
+        .as('editorInstance')
+        .then((editor: EditorJS) => editor.isRendered);
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-paragraph')
+        .last()
+        .click()
+        .type(' changed')
+        .wait(historyBatchTimeout);
+
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        await editor.history.undo();
+
+        const { blocks } = await editor.save();
+
+        expect(blocks[24].data.text).to.eq('Paragraph 24');
+      });
+    });
+  });
+
+  describe('with the lazy-loaded Tools', function () {
+    const data = {
+      blocks: [
+        {
+          type: 'header',
+          data: {
+            text: 'Lazy header',
+          },
+        },
+      ],
+    };
+
+    it('should show the loading placeholder and replace it with the Block once the Tool is loaded', function () {
+      let resolveTool: (tool: typeof SimpleHeader) => void;
+      const loader = cy.stub().returns(new Promise((resolve) => {
+        resolveTool = resolve;
+      }));
+
+      cy.createEditor({
+        data,
+        tools: {
+          header: {
+            class: () => loader(),
+          },
+        },
+      }).as('editorInstance');
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-block .ce-loader')
+        .should('have.length', 1)
+        .then(() => {
+          resolveTool(SimpleHeader);
+        });
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-block h1')
+        .should('have.text', 'Lazy header');
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-loader')
+        .should('not.exist');
+
+      cy.wrap(loader).should('be.calledOnce');
+    });
+
+    it('should save the data of Blocks whose Tool is being loaded', function () {
+      cy.createEditor({
+        data,
+        tools: {
+          header: {
+            class: () => Promise.resolve({ default: SimpleHeader }),
+          },
+        },
+      })
+        .then(async (editor: EditorJS) => {
+          const { blocks } = await editor.save();
+
+          expect(blocks).to.have.length(1);
+          expect(blocks[0].type).to.eq('header');
+          expect(blocks[0].data.text).to.eq('Lazy header');
+        });
+    });
+
+    it('should show Stub block if the Tool failed to load', function () {
+      cy.createEditor({
+        data,
+        tools: {
+          header: {
+            class: () => Promise.reject(new Error('Network error')),
+          },
+        },
+      });
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-block .ce-stub__title')
+        .should('have.text', 'header');
+    });
+  });
 });
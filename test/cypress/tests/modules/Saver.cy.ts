@@ -1,5 +1,7 @@
 import type EditorJS from '../../../../types/index';
+import type { SaveError } from '../../../../types';
 import Header from '@editorjs/header';
+import ToolMock, { type MockToolData } from '../../fixtures/tools/ToolMock';
 
 describe('Saver module', function () {
   describe('save()', function () {
@@ -83,4 +85,429 @@ describe('Saver module', function () {
         });
     });
   });
+
+  describe('saveWithReport()', function () {
+    /**
+     * Tool that considers data invalid if it contains the "invalid" word
+     */
+    class ToolWithValidation extends ToolMock {
+      /**
+       * Validation method mock
+       *
+       * @param data - saved data
+       */
+      public validate(data: MockToolData): boolean {
+        return !data.text.includes('invalid');
+      }
+    }
+
+    /**
+     * Tool that fails on saving
+     */
+    class ToolWithFailingSave extends ToolMock {
+      /**
+       * Save method mock that throws an error
+       */
+      public save(): MockToolData {
+        throw new Error('Saving failed');
+      }
+    }
+
+    /**
+     * Tool saving the text with raw special characters and attributes written in single quotes
+     */
+    class ToolWithRawText extends ToolMock {
+      /**
+       * Sanitizer rules of the Tool data
+       */
+      public static get sanitize(): { text: { b: boolean; a: boolean } } {
+        return {
+          text: {
+            b: true,
+            a: true,
+          },
+        };
+      }
+
+      /**
+       * Save method mock returning the text not normalized by the browser
+       */
+      public save(): MockToolData {
+        return {
+          text: 'Fish & chips\u00a0for <b>1 €</b> at <a href=\'/menu?a=1&b=2\'>Joe\'s</a>',
+        };
+      }
+    }
+
+    it('should report invalid, failed and stub Blocks with their ids and indexes', function () {
+      cy.createEditor({
+        tools: {
+          validated: ToolWithValidation,
+          failing: ToolWithFailingSave,
+        },
+        data: {
+          blocks: [
+            {
+              id: 'valid-block',
+              type: 'validated',
+              data: { text: 'Valid block' },
+            },
+            {
+              id: 'invalid-block',
+              type: 'validated',
+              data: { text: 'Some invalid block' },
+            },
+            {
+              id: 'failing-block',
+              type: 'failing',
+              data: { text: 'Failing block' },
+            },
+            {
+              id: 'stub-block',
+              type: 'unavailable-tool',
+              data: { text: 'Stub block' },
+            },
+          ],
+        },
+      }).then(async (editor: EditorJS) => {
+        const { data, problems } = await editor.saver.saveWithReport();
+
+        expect(data.blocks.map(({ id }) => id)).to.deep.eq(['valid-block', 'stub-block']);
+        expect(problems.map(({ type, blockId, index }) => ({
+          type,
+          blockId,
+          index,
+        }))).to.deep.eq([
+          {
+            type: 'invalid',
+            blockId: 'invalid-block',
+            index: 1,
+          },
+          {
+            type: 'save-failed',
+            blockId: 'failing-block',
+            index: 2,
+          },
+          {
+            type: 'stub',
+            blockId: 'stub-block',
+            index: 3,
+          },
+        ]);
+        expect(problems[1].error).to.be.an('error');
+        expect(problems[2].tool).to.eq('unavailable-tool');
+      });
+    });
+
+    it('should report Blocks changed by the sanitizer', function () {
+      cy.createEditor({
+        data: {
+          blocks: [
+            {
+              id: 'sanitized-block',
+              type: 'paragraph',
+              data: { text: 'Text with <span>span</span>' },
+            },
+          ],
+        },
+      }).then(async (editor: EditorJS) => {
+        const { problems } = await editor.saver.saveWithReport();
+
+        expect(problems).to.have.length(1);
+        expect(problems[0].type).to.eq('sanitized');
+        expect(problems[0].blockId).to.eq('sanitized-block');
+      });
+    });
+
+    it('should not report Blocks which text differs from the sanitized one by the entities only', function () {
+      cy.createEditor({
+        tools: {
+          raw: ToolWithRawText,
+        },
+        data: {
+          blocks: [
+            {
+              type: 'raw',
+              data: { text: '' },
+            },
+          ],
+        },
+      }).then(async (editor: EditorJS) => {
+        const { problems } = await editor.saver.saveWithReport();
+
+        expect(problems).to.be.empty;
+      });
+    });
+
+    it('should not report empty Blocks', function () {
+      cy.createEditor({}).then(async (editor: EditorJS) => {
+        const { problems } = await editor.saver.saveWithReport();
+
+        expect(problems).to.be.empty;
+      });
+    });
+
+    it('should reject save({ strict: true }) call with the report if there are some problems', function () {
+      cy.createEditor({
+        tools: {
+          validated: ToolWithValidation,
+        },
+        data: {
+          blocks: [
+            {
+              id: 'invalid-block',
+              type: 'validated',
+              data: { text: 'Some invalid block' },
+            },
+          ],
+        },
+      }).then(async (editor: EditorJS) => {
+        let saveError: SaveError | undefined;
+
+        try {
+          await editor.save({ strict: true });
+        } catch (e) {
+          saveError = e as SaveError;
+        }
+
+        expect(saveError).to.be.an('error');
+        expect(saveError?.report.problems[0].blockId).to.eq('invalid-block');
+
+        const data = await editor.save();
+
+        expect(data.blocks).to.be.empty;
+      });
+    });
+  });
+
+  describe('incremental saving', function () {
+    /**
+     * Tool used to spy on the save() and validate() methods calls
+     */
+    class SpiedTool extends ToolMock {
+      /**
+       * Validate method mock, accepts any data
+       */
+      public validate(): boolean {
+        return true;
+      }
+    }
+
+    const blocks = [
+      {
+        id: 'first-block',
+        type: 'spied',
+        data: { text: 'First block' },
+      },
+      {
+        id: 'second-block',
+        type: 'spied',
+        data: { text: 'Second block' },
+      },
+    ];
+
+    beforeEach(function () {
+      cy.spy(SpiedTool.prototype, 'save').as('toolSave');
+      cy.spy(SpiedTool.prototype, 'validate').as('toolValidate');
+
+      cy.createEditor({
+        tools: {
+          spied: SpiedTool,
+        },
+        data: {
+          blocks,
+        },
+      }).as('editorInstance');
+    });
+
+    it('should not call Tool\'s save() method for Blocks not mutated since the last saving', function () {
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        await editor.save();
+        await editor.save();
+      });
+
+      cy.get('@toolSave').should('have.callCount', 2);
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-block [contenteditable]')
+        .last()
+        .click()
+        .type(' changed');
+
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        const { blocks: savedBlocks } = await editor.save();
+
+        expect(savedBlocks[1].data.text).to.eq('Second block changed');
+      });
+
+      cy.get('@toolSave').should('have.callCount', 3);
+    });
+
+    it('should not sanitize and validate data of Blocks not mutated since the last saving', function () {
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        await editor.save();
+
+        const { blocks: savedBlocks } = await editor.save();
+
+        expect(savedBlocks.map(({ data }) => data.text)).to.deep.eq(['First block', 'Second block']);
+      });
+
+      cy.get('@toolValidate').should('have.callCount', 2);
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-block [contenteditable]')
+        .first()
+        .click()
+        .type(' changed');
+
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        await editor.save();
+      });
+
+      cy.get('@toolValidate').should('have.callCount', 3);
+    });
+
+    it('should save changes typed to the already focused Block', function () {
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-block [contenteditable]')
+        .first()
+        .click()
+        .type(' one');
+
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        const { blocks: savedBlocks } = await editor.save();
+
+        expect(savedBlocks[0].data.text).to.eq('First block one');
+      });
+
+      cy.get('[data-cy=editorjs]')
+        .find('.ce-block [contenteditable]')
+        .first()
+        .type(' two');
+
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        const { blocks: savedBlocks } = await editor.save();
+
+        expect(savedBlocks[0].data.text).to.eq('First block one two');
+      });
+    });
+
+    it('should not let changes of the saved output affect next savings', function () {
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        const firstOutput = await editor.save();
+
+        firstOutput.blocks[0].data.text = 'Changed by the caller';
+
+        const secondOutput = await editor.save();
+
+        expect(secondOutput.blocks[0].data.text).to.eq('First block');
+
+        secondOutput.blocks[0].data.text = 'Changed by the caller';
+
+        const savedBlock = await editor.saver.saveBlock('first-block');
+
+        expect(savedBlock?.data.text).to.eq('First block');
+      });
+    });
+
+    it('should save a single Block by saveBlock()', function () {
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        const savedBlock = await editor.saver.saveBlock('second-block');
+
+        expect(savedBlock).to.deep.eq(blocks[1]);
+      });
+    });
+
+    it('should return only Blocks changed since the checkpoint by saveChanged()', function () {
+      cy.get<EditorJS>('@editorInstance').then(async (editor) => {
+        const initial = await editor.saver.saveChanged();
+
+        expect(initial.blocks).to.deep.eq(blocks);
+        expect(initial.removed).to.be.empty;
+
+        editor.blocks.delete(0);
+        editor.blocks.insert('spied', { text: 'Inserted block' }, {}, 1, false, false, 'inserted-block');
+
+        const changed = await editor.saver.saveChanged(initial.checkpoint);
+
+        expect(changed.blocks.map(({ id }) => id)).to.deep.eq([ 'inserted-block' ]);
+        expect(changed.removed).to.deep.eq([ 'first-block' ]);
+        expect(changed.order).to.deep.eq(['second-block', 'inserted-block']);
+
+        const unchanged = await editor.saver.saveChanged(changed.checkpoint);
+
+        expect(unchanged.blocks).to.be.empty;
+        expect(unchanged.removed).to.be.empty;
+      });
+    });
+  });
+
+  describe('save() with markdown format', function () {
+    /**
+     * Tool exporting its data to Markdown as a quote
+     */
+    class QuoteTool extends ToolMock {
+      /**
+       * Returns Markdown representation of the Tool data
+       *
+       * @param data - saved Block data
+       */
+      public static exportMarkdown(data: MockToolData): string {
+        return `> ${data.text}`;
+      }
+    }
+
+    it('should use Tool\'s exportMarkdown() method and conversionConfig export as a fallback', function () {
+      cy.createEditor({
+        tools: {
+          quote: QuoteTool,
+        },
+        data: {
+          blocks: [
+            {
+              type: 'paragraph',
+              data: {
+                text: 'Text with <b>bold</b>, <i>italic</i> and <a href="https://editorjs.io">link</a>',
+              },
+            },
+            {
+              type: 'quote',
+              data: {
+                text: 'Quoted text',
+              },
+            },
+          ],
+        },
+      }).then(async (editor) => {
+        const markdown = await editor.save({ format: 'markdown' });
+
+        expect(markdown).to.eq('Text with **bold**, *italic* and [link](https://editorjs.io)\n\n> Quoted text');
+      });
+    });
+
+    it('should skip Blocks which Tools are not available', function () {
+      cy.createEditor({
+        data: {
+          blocks: [
+            {
+              type: 'paragraph',
+              data: {
+                text: 'Paragraph',
+              },
+            },
+            {
+              type: 'missing-tool',
+              data: {
+                text: 'Some data',
+              },
+            },
+          ],
+        },
+      }).then(async (editor) => {
+        const markdown = await editor.save({ format: 'markdown' });
+
+        expect(markdown).to.eq('Paragraph');
+      });
+    });
+  });
 });
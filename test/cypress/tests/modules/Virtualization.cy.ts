@@ -0,0 +1,119 @@
+import type EditorJS from '../../../../types/index';
+import ToolMock from '../../fixtures/tools/ToolMock';
+
+describe('Virtualization module', function () {
+  const data = {
+    blocks: Array.from({ length: 200 }, (_, index) => ({
+      id: `block-${index}`,
+      type: 'paragraph',
+      data: {
+        text: `Paragraph ${index}`,
+      },
+    })),
+  };
+
+  it('should replace content of the Blocks far from the viewport with placeholders', function () {
+    cy.createEditor({
+      data,
+      virtualization: {
+        margin: 100,
+      },
+    });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-paragraph')
+      .first()
+      .should('have.text', 'Paragraph 0');
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-block')
+      .last()
+      .find('.ce-block__placeholder')
+      .should('exist');
+  });
+
+  it('should render Tools of the Blocks only when they appear near the viewport', function () {
+    /**
+     * Tool used to spy on the render() method calls
+     */
+    class SpiedTool extends ToolMock {}
+
+    cy.spy(SpiedTool.prototype, 'render').as('toolRender');
+
+    cy.createEditor({
+      tools: {
+        spied: SpiedTool,
+      },
+      data: {
+        blocks: data.blocks.map((block) => ({
+          ...block,
+          type: 'spied',
+        })),
+      },
+      virtualization: {
+        margin: 100,
+      },
+    });
+
+    cy.get('@toolRender').should('have.been.called');
+    cy.get('@toolRender').its('callCount').should('be.lessThan', 200);
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-block')
+      .last()
+      .scrollIntoView();
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-block')
+      .last()
+      .find('[contenteditable]')
+      .should('have.text', 'Paragraph 199');
+  });
+
+  it('should keep text of the not rendered Blocks in placeholders, so page search finds it', function () {
+    cy.createEditor({
+      data,
+      virtualization: {
+        margin: 100,
+      },
+    });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-block')
+      .last()
+      .find('.ce-block__placeholder')
+      .should('have.text', 'Paragraph 199');
+  });
+
+  it('should save all Blocks including not rendered ones', function () {
+    cy.createEditor({
+      data,
+      virtualization: true,
+    }).then(async (editor: EditorJS) => {
+      const { blocks } = await editor.save();
+
+      expect(blocks).to.have.length(200);
+      expect(blocks[199].data.text).to.eq('Paragraph 199');
+    });
+  });
+
+  it('should attach content of the Block when the caret is set to it', function () {
+    cy.createEditor({
+      data,
+      virtualization: {
+        margin: 100,
+      },
+    }).as('editorInstance');
+
+    cy.get<EditorJS>('@editorInstance')
+      .then((editor) => {
+        editor.caret.setToBlock(199);
+      });
+
+    cy.get('[data-cy=editorjs]')
+      .find('.ce-block')
+      .last()
+      .find('.ce-paragraph')
+      .should('have.text', 'Paragraph 199');
+  });
+});
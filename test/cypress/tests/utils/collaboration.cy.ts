@@ -0,0 +1,184 @@
+import { SharedText, compareStamps, diffHtml, diffText, isWellFormedHtml, shiftOffset } from '../../../../src/components/utils/collaboration';
+
+describe('Collaboration utils', () => {
+  describe('diffText()', () => {
+    it('should return null for equal strings', () => {
+      expect(diffText('Same', 'Same')).to.be.null;
+    });
+
+    it('should compose the single splice between common prefix and suffix', () => {
+      expect(diffText('Hello world', 'Hello brave world')).to.deep.eq({
+        index: 6,
+        deleteCount: 0,
+        insert: 'brave ',
+      });
+
+      expect(diffText('Hello brave world', 'Hello world')).to.deep.eq({
+        index: 6,
+        deleteCount: 6,
+        insert: '',
+      });
+    });
+  });
+
+  describe('diffHtml()', () => {
+    it('should extend the splice to the whole tags and entities', () => {
+      expect(diffHtml('<b>Text</b>', '<i>Text</i>')).to.deep.eq({
+        index: 0,
+        deleteCount: 11,
+        insert: '<i>Text</i>',
+      });
+
+      expect(diffHtml('Fish &amp; chips', 'Fish &lt; chips')).to.deep.eq({
+        index: 5,
+        deleteCount: 5,
+        insert: '&lt;',
+      });
+    });
+
+    it('should keep the splice of the text between tags as is', () => {
+      expect(diffHtml('<b>Text</b>', '<b>Next</b>')).to.deep.eq({
+        index: 3,
+        deleteCount: 1,
+        insert: 'N',
+      });
+    });
+  });
+
+  describe('isWellFormedHtml()', () => {
+    it('should accept complete and properly closed tags', () => {
+      expect(isWellFormedHtml('Text with <b>bold <i>italic</i></b> and line<br>break &amp; entity')).to.be.true;
+    });
+
+    it('should reject split, unclosed and misnested tags', () => {
+      expect(isWellFormedHtml('Text <b')).to.be.false;
+      expect(isWellFormedHtml('Text <b>bold')).to.be.false;
+      expect(isWellFormedHtml('<b><i>Text</b></i>')).to.be.false;
+    });
+  });
+
+  describe('shiftOffset()', () => {
+    const splice = {
+      index: 2,
+      deleteCount: 3,
+      insert: 'XY',
+    };
+
+    it('should keep offset placed before the splice', () => {
+      expect(shiftOffset(2, splice)).to.eq(2);
+    });
+
+    it('should shift offset placed after the splice by the length difference', () => {
+      expect(shiftOffset(7, splice)).to.eq(6);
+    });
+
+    it('should move offset placed inside the replaced part to the end of the inserted string', () => {
+      expect(shiftOffset(3, splice)).to.eq(4);
+    });
+  });
+
+  describe('compareStamps()', () => {
+    it('should order stamps by clocks and then by client ids', () => {
+      const first = {
+        clientId: 'a',
+        clock: 2,
+      };
+      const earlier = {
+        clientId: 'b',
+        clock: 1,
+      };
+      const concurrent = {
+        clientId: 'b',
+        clock: 2,
+      };
+
+      expect(compareStamps(earlier, first)).to.be.lessThan(0);
+      expect(compareStamps(concurrent, first)).to.be.greaterThan(0);
+      expect(compareStamps(first, { ...first })).to.eq(0);
+    });
+  });
+
+  describe('SharedText', () => {
+    const initialStamp = {
+      clientId: '',
+      clock: 0,
+    };
+
+    it('should apply concurrent changes in any order with the same result', () => {
+      const first = new SharedText('Hello world', initialStamp);
+      const second = new SharedText('Hello world', initialStamp);
+      const firstStamp = {
+        clientId: 'a',
+        clock: 1,
+      };
+      const secondStamp = {
+        clientId: 'b',
+        clock: 1,
+      };
+
+      const firstChange = first.splice({
+        index: 5,
+        deleteCount: 6,
+        insert: ', there',
+      }, firstStamp);
+      const secondChange = second.splice({
+        index: 11,
+        deleteCount: 0,
+        insert: '!',
+      }, secondStamp);
+
+      first.apply(secondChange, secondStamp);
+      second.apply(firstChange, firstStamp);
+
+      expect(first.toString()).to.eq('Hello, there!');
+      expect(second.toString()).to.eq(first.toString());
+    });
+
+    it('should order strings inserted at the same position by stamps', () => {
+      const first = new SharedText('ac', initialStamp);
+      const second = new SharedText('ac', initialStamp);
+      const firstStamp = {
+        clientId: 'a',
+        clock: 1,
+      };
+      const secondStamp = {
+        clientId: 'b',
+        clock: 1,
+      };
+
+      const firstChange = first.splice({
+        index: 1,
+        deleteCount: 0,
+        insert: 'x',
+      }, firstStamp);
+      const secondChange = second.splice({
+        index: 1,
+        deleteCount: 0,
+        insert: 'y',
+      }, secondStamp);
+
+      first.apply(secondChange, secondStamp);
+      second.apply(firstChange, firstStamp);
+
+      expect(first.toString()).to.eq('ayxc');
+      expect(second.toString()).to.eq(first.toString());
+    });
+
+    it('should ignore the change applied twice', () => {
+      const text = new SharedText('abc', initialStamp);
+      const stamp = {
+        clientId: 'a',
+        clock: 1,
+      };
+      const change = text.splice({
+        index: 1,
+        deleteCount: 1,
+        insert: 'X',
+      }, stamp);
+
+      text.apply(change, stamp);
+
+      expect(text.toString()).to.eq('aXc');
+    });
+  });
+});
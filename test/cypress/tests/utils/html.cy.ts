@@ -0,0 +1,171 @@
+import type { BlockTuneData } from '../../../../types/block-tunes/block-tune-data';
+import type { TunesMenuConfig } from '../../../../types/tools';
+import ToolMock, { type MockToolData } from '../../fixtures/tools/ToolMock';
+
+/* eslint-disable @typescript-eslint/no-empty-function */
+
+describe('HTML export', () => {
+  /**
+   * Heading Tool with the HTML serializer
+   */
+  class HeadingTool extends ToolMock {
+    /**
+     * Allows only bold markup in the text
+     */
+    public static get sanitize(): { text: { b: boolean } } {
+      return {
+        text: {
+          b: true,
+        },
+      };
+    }
+
+    /**
+     * Returns semantic HTML of the Tool data
+     *
+     * @param data - saved Block data
+     */
+    public static exportHTML(data: MockToolData): string {
+      return `<h2>${data.text}</h2>`;
+    }
+  }
+
+  /**
+   * Tune wrapping exported HTML with alignment
+   */
+  class AlignmentTune {
+    /**
+     * Set Tool is Tune
+     */
+    public static readonly isTune = true;
+
+    /**
+     * Saved Tune data
+     */
+    private readonly data: BlockTuneData;
+
+    /**
+     * @param options - constructor options
+     * @param options.data - saved Tune data
+     */
+    constructor({ data }: { data: BlockTuneData }) {
+      this.data = data;
+    }
+
+    /**
+     * Wraps HTML exported by the Block Tool
+     *
+     * @param html - exported HTML
+     * @param data - saved Tune data
+     */
+    public static wrapHTML(html: string, data?: { alignment: string }): string {
+      if (data === undefined) {
+        return html;
+      }
+
+      return `<div style="text-align: ${data.alignment}">${html}</div>`;
+    }
+
+    /**
+     * Tune's appearance in block settings menu
+     */
+    public render(): TunesMenuConfig {
+      return {
+        icon: 'ICON',
+        title: 'Alignment',
+        onActivate: (): void => {},
+      };
+    }
+
+    /**
+     * Returns saved Tune data
+     */
+    public save(): BlockTuneData {
+      return this.data;
+    }
+  }
+
+  it('should export Blocks by Tools serializers wrapping them with Tunes', () => {
+    cy.window().then((window) => {
+      const html = window.EditorJS.toHTML({
+        blocks: [
+          {
+            type: 'heading',
+            data: {
+              text: '<b>Title</b><u>!</u>',
+            },
+            tunes: {
+              alignment: {
+                alignment: 'center',
+              },
+            },
+          },
+          {
+            type: 'paragraph',
+            data: {
+              text: 'Paragraph with <i>italic</i><script>alert(1)</script>',
+            },
+          },
+        ],
+      }, {
+        heading: HeadingTool,
+        alignment: AlignmentTune,
+      });
+
+      expect(html).to.eq([
+        '<div style="text-align: center"><h2><b>Title</b>!</h2></div>',
+        '<p>Paragraph with <i>italic</i></p>',
+      ].join('\n'));
+    });
+  });
+
+  it('should export Blocks of unknown Tools by the Stub title', () => {
+    cy.window().then((window) => {
+      const html = window.EditorJS.toHTML({
+        blocks: [
+          {
+            type: 'unknown<tool>',
+            data: {},
+          },
+        ],
+      });
+
+      expect(html).to.eq('<div class="ce-stub">unknown&lt;tool&gt;</div>');
+    });
+  });
+
+  it('should return HTML from save() with html format', () => {
+    cy.createEditor({
+      tools: {
+        heading: HeadingTool,
+        alignment: AlignmentTune,
+      },
+      tunes: [ 'alignment' ],
+      data: {
+        blocks: [
+          {
+            type: 'heading',
+            data: {
+              text: 'Title',
+            },
+            tunes: {
+              alignment: {
+                alignment: 'center',
+              },
+            },
+          },
+          {
+            type: 'paragraph',
+            data: {
+              text: 'Text with <b>bold</b>',
+            },
+          },
+        ],
+      },
+    }).then(async (editor) => {
+      const html = await editor.save({ format: 'html' });
+
+      expect(html).to.eq('<div style="text-align: center"><h2>Title</h2></div>\n<p>Text with <b>bold</b></p>');
+    });
+  });
+});
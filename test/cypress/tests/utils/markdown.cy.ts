@@ -0,0 +1,173 @@
+import Header from '@editorjs/header';
+import { htmlToMarkdown, isMarkdown, markdownToHtml, parseMarkdown } from '../../../../src/components/utils/markdown';
+
+describe('Markdown', () => {
+  describe('htmlToMarkdown()', () => {
+    it('should translate inline formatting to Markdown syntax', () => {
+      expect(htmlToMarkdown('<b>Bold</b>, <i>italic</i>, <s>strike</s> and <code>code</code>'))
+        .to.eq('**Bold**, *italic*, ~~strike~~ and `code`');
+    });
+
+    it('should translate links keeping nested formatting', () => {
+      expect(htmlToMarkdown('<a href="https://editorjs.io/docs (new)">Read <b>docs</b></a>'))
+        .to.eq('[Read **docs**](https://editorjs.io/docs%20%28new%29)');
+    });
+
+    it('should move whitespaces outside of delimiters and skip empty tags', () => {
+      expect(htmlToMarkdown('Some <b>bold </b>text<i></i>')).to.eq('Some **bold** text');
+    });
+
+    it('should decode entities and escape Markdown special characters', () => {
+      expect(htmlToMarkdown('2 * 3 &lt; 7 &amp; snake_case')).to.eq('2 \\* 3 \\< 7 & snake\\_case');
+    });
+
+    it('should escape line beginnings treated as block-level syntax', () => {
+      expect(htmlToMarkdown('# Not a heading<br>1. Not a list')).to.eq('\\# Not a heading\\\n1\\. Not a list');
+    });
+
+    it('should keep content of unknown and unclosed tags', () => {
+      expect(htmlToMarkdown('<mark>Marked</mark> and <b>unclosed')).to.eq('Marked and **unclosed**');
+    });
+
+    it('should drop scripts and styles along with their content', () => {
+      expect(htmlToMarkdown('Hi <b>x</b><script>alert(1)</script> y &amp; z<style>b { color: red }</style>'))
+        .to.eq('Hi **x** y & z');
+    });
+  });
+
+  describe('EditorJS.toMarkdown()', () => {
+    it('should convert saved data without Editor instance', () => {
+      cy.window().then((window) => {
+        const markdown = window.EditorJS.toMarkdown({
+          blocks: [
+            {
+              type: 'header',
+              data: {
+                text: 'Title',
+                level: 2,
+              },
+            },
+            {
+              type: 'paragraph',
+              data: {
+                text: 'Paragraph with <b>bold</b> text',
+              },
+            },
+          ],
+        }, {
+          header: {
+            class: Header,
+          },
+        });
+
+        expect(markdown).to.eq('Title\n\nParagraph with **bold** text');
+      });
+    });
+  });
+
+  describe('markdownToHtml()', () => {
+    it('should translate inline marks to HTML', () => {
+      expect(markdownToHtml('**Bold**, *italic*, _italic_, ~~strike~~ and `<code>`'))
+        .to.eq('<b>Bold</b>, <i>italic</i>, <i>italic</i>, <s>strike</s> and <code>&lt;code&gt;</code>');
+    });
+
+    it('should translate links skipping unsafe ones', () => {
+      expect(markdownToHtml('[Docs](https://editorjs.io) and [script](javascript:void)'))
+        .to.eq('<a href="https://editorjs.io">Docs</a> and script');
+    });
+
+    it('should keep escaped characters and underscores inside words', () => {
+      expect(markdownToHtml('\\*not italic\\* snake_case_name')).to.eq('*not italic* snake_case_name');
+    });
+  });
+
+  describe('parseMarkdown()', () => {
+    it('should split Markdown into block-level elements', () => {
+      const markdown = [
+        '# Title',
+        'Paragraph',
+        'continues here',
+        '',
+        '1. First',
+        '2. Second',
+        '',
+        '> Quote',
+        '',
+        '```js',
+        'const a = 1;',
+        '```',
+        '***',
+      ].join('\n');
+
+      expect(parseMarkdown(markdown)).to.deep.eq([
+        {
+          type: 'heading',
+          text: 'Title',
+          level: 1,
+        },
+        {
+          type: 'paragraph',
+          text: 'Paragraph continues here',
+        },
+        {
+          type: 'list',
+          text: '',
+          items: ['First', 'Second'],
+          levels: [0, 0],
+          ordered: true,
+        },
+        {
+          type: 'quote',
+          text: 'Quote',
+        },
+        {
+          type: 'code',
+          text: 'const a = 1;',
+          language: 'js',
+        },
+        {
+          type: 'delimiter',
+          text: '',
+        },
+      ]);
+    });
+
+    it('should keep nesting levels of list items', () => {
+      const markdown = [
+        '- First',
+        '  1. Nested',
+        '     - Deeper',
+        '  2. Nested again',
+        '- Second',
+      ].join('\n');
+
+      expect(parseMarkdown(markdown)).to.deep.eq([
+        {
+          type: 'list',
+          text: '',
+          items: ['First', 'Nested', 'Deeper', 'Nested again', 'Second'],
+          levels: [0, 1, 2, 1, 0],
+          ordered: false,
+        },
+      ]);
+    });
+  });
+
+  describe('isMarkdown()', () => {
+    it('should not treat plain prose as Markdown', () => {
+      expect(isMarkdown('1. I think so.')).to.be.false;
+      expect(isMarkdown('- well, maybe')).to.be.false;
+      expect(isMarkdown('> quoted reply')).to.be.false;
+      expect(isMarkdown('Dear John,\n\n1. Thanks for the letter.\nBest regards')).to.be.false;
+      expect(isMarkdown('Price is 5 * 3\n- not sure')).to.be.false;
+      expect(isMarkdown('Just a **bold** statement')).to.be.false;
+    });
+
+    it('should detect code fences, headings and several Markdown constructs', () => {
+      expect(isMarkdown('```\ncode\n```')).to.be.true;
+      expect(isMarkdown('## Title\nText')).to.be.true;
+      expect(isMarkdown('- First\n- Second\n\n> Quote')).to.be.true;
+      expect(isMarkdown('Read **docs** at [editorjs.io](https://editorjs.io)')).to.be.true;
+    });
+  });
+});
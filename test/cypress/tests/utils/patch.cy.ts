@@ -0,0 +1,135 @@
+import type { OutputData } from '../../../../types';
+import { applyPatch, diff } from '../../../../src/components/utils/patch';
+
+describe('diff() and applyPatch()', () => {
+  const before: OutputData = {
+    blocks: [
+      {
+        id: 'first',
+        type: 'paragraph',
+        data: { text: 'First' },
+      },
+      {
+        id: 'second',
+        type: 'list',
+        data: {
+          style: 'ordered',
+          items: ['One', 'Two'],
+        },
+      },
+      {
+        id: 'third',
+        type: 'paragraph',
+        data: { text: 'Third' },
+      },
+      {
+        id: 'fourth',
+        type: 'paragraph',
+        data: { text: 'Fourth' },
+      },
+    ],
+  };
+
+  it('should compose removed, added, moved and changed operations keyed by Block id', () => {
+    const after: OutputData = {
+      blocks: [
+        before.blocks[3],
+        {
+          id: 'new',
+          type: 'paragraph',
+          data: { text: 'New' },
+        },
+        {
+          id: 'second',
+          type: 'list',
+          data: {
+            style: 'ordered',
+            items: ['One', 'Two changed', 'Three'],
+          },
+        },
+        before.blocks[2],
+      ],
+    };
+
+    expect(diff(before, after)).to.deep.eq([
+      {
+        type: 'block-removed',
+        id: 'first',
+        index: 0,
+        block: before.blocks[0],
+      },
+      {
+        type: 'block-moved',
+        id: 'fourth',
+        fromIndex: 2,
+        toIndex: 0,
+      },
+      {
+        type: 'block-added',
+        id: 'new',
+        index: 1,
+        block: after.blocks[1],
+      },
+      {
+        type: 'block-changed',
+        id: 'second',
+        changes: [
+          {
+            path: ['data', 'items', 1],
+            before: 'Two',
+            after: 'Two changed',
+          },
+          {
+            path: ['data', 'items', 2],
+            after: 'Three',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should return empty list for equal documents', () => {
+    expect(diff(before, before)).to.be.empty;
+  });
+
+  it('should transform the first document into the second one by applying the diff', () => {
+    const after: OutputData = {
+      blocks: [
+        {
+          id: 'third',
+          type: 'header',
+          data: {
+            text: 'Third',
+            level: 2,
+          },
+          tunes: {
+            alignment: { alignment: 'center' },
+          },
+        },
+        before.blocks[0],
+        {
+          id: 'second',
+          type: 'list',
+          data: {
+            style: 'ordered',
+            items: [ 'One' ],
+          },
+        },
+      ],
+    };
+
+    const patched = applyPatch(before, diff(before, after));
+
+    expect(patched.blocks).to.deep.eq(after.blocks);
+    expect(before.blocks).to.have.length(4);
+  });
+
+  it('should throw an error if Block of operation is not found', () => {
+    expect(() => applyPatch(before, [ {
+      type: 'block-removed',
+      id: 'unknown',
+      index: 0,
+      block: before.blocks[0],
+    } ])).to.throw('Block with id "unknown" not found');
+  });
+});
@@ -0,0 +1,39 @@
+import { cleanString } from '../../../../src/components/utils/string-sanitizer';
+import { clean } from '../../../../src/components/utils/sanitizer';
+import type { SanitizerConfig } from '../../../../types';
+
+describe('DOM-free sanitizer', () => {
+  const config: SanitizerConfig = {
+    b: true,
+    i: true,
+    p: true,
+    a: {
+      href: true,
+      target: '_blank',
+    },
+  };
+
+  it('should clean HTML the same way as HTMLJanitor does', () => {
+    const inputs = [
+      'Text with <b>bold</b>, <i class="italic">italic</i> and <u>underline</u>',
+      '<a href="https://editorjs.io" target="_self" onclick="alert(1)">link</a>',
+      '<a href="https://editorjs.io" target="_blank">link</a>',
+      'Script<script>alert("<b>1</b>")</script> and <style>b { color: red }</style>style',
+      'Comment<!-- <b>hidden</b> --> removed',
+      '<p>First</p>   <p>Second</p>',
+      '<b>Inline <p>with block</p></b>',
+      'Entities &amp; &lt;tags&gt; and &nbsp;spaces, bare & and > characters',
+      'Line<br>break and <img src="x" onerror="alert(1)">',
+    ];
+
+    inputs.forEach((input) => {
+      expect(cleanString(input, config)).to.eq(clean(input, config));
+    });
+  });
+
+  it('should remove tags specified by function rules', () => {
+    expect(cleanString('Text with <b>bold</b>', {
+      b: () => true,
+    })).to.eq('Text with bold');
+  });
+});
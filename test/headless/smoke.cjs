@@ -0,0 +1,24 @@
+/**
+ * Smoke test of the headless build: it should load and work in Node.js without DOM
+ *
+ * Run `yarn test:headless`
+ */
+const assert = require('node:assert');
+const { test } = require('node:test');
+
+test('headless build loads in Node.js without window', async () => {
+  assert.strictEqual(typeof window, 'undefined');
+
+  const EditorJSHeadless = require('../../dist/editorjs-headless.js');
+  const editor = new EditorJSHeadless({ logLevel: 'ERROR' });
+
+  await editor.isReady;
+
+  assert.strictEqual(await editor.validate({ blocks: [] }), true);
+  assert.strictEqual(await editor.validate({
+    blocks: [ {
+      type: 'unknown',
+      data: {},
+    } ],
+  }), false);
+});
@@ -0,0 +1,12 @@
+/**
+ * Describes Editor`s autosave API
+ */
+export interface Autosave {
+  /**
+   * Removes the stored draft and cancels the scheduled saving.
+   * Call it after the document has been saved by the application, so the stale draft is not offered on the next start
+   *
+   * @returns {Promise<void>}
+   */
+  clear(): Promise<void>;
+}
@@ -40,6 +40,16 @@ export interface BlockAPI {
    */
   readonly focusable: boolean;
 
+  /**
+   * Id of the container Block this Block is nested in. Null for the top-level Blocks
+   */
+  readonly parentId: string | null;
+
+  /**
+   * Slot of the container Block this Block is placed to. Null for the top-level Blocks
+   */
+  readonly slot: string | null;
+
   /**
    * Setter sets Block's stretch state
    *
@@ -1,8 +1,21 @@
 import {OutputBlockData, OutputData} from '../data-formats/output-data';
+import {PatchOperation} from '../data-formats/output-data-patch';
 import {BlockToolData, ToolConfig} from '../tools';
 import {BlockAPI} from './block';
 import {BlockTuneData} from '../block-tunes/block-tune-data';
 
+/**
+ * Options of the render() method
+ */
+export interface RenderOptions {
+  /**
+   * Pass true to patch only changed Blocks instead of re-creating the whole document.
+   * Blocks are matched by id: missing ones are removed, new ones are inserted,
+   * existing ones are moved to the new position and updated if their data differs
+   */
+  reconcile?: boolean;
+}
+
 /**
  * Describes methods to manipulate with Editor`s blocks
  */
@@ -16,10 +29,11 @@ export interface Blocks {
    * Render passed data
    *
    * @param {OutputData} data - saved Block data
+   * @param {RenderOptions} [options] - rendering options
    *
    * @returns {Promise<void>}
    */
-  render(data: OutputData): Promise<void>;
+  render(data: OutputData, options?: RenderOptions): Promise<void>;
 
   /**
    * Render passed HTML string
@@ -28,6 +42,14 @@ export interface Blocks {
    */
   renderFromHTML(data: string): Promise<void>;
 
+  /**
+   * Render passed Markdown string.
+   * Elements are converted by Tools importMarkdown methods, others are rendered as default Blocks
+   * @param {string} markdown
+   * @return {Promise<void>}
+   */
+  renderFromMarkdown(markdown: string): Promise<void>;
+
   /**
    * Removes current Block
    * @param {number} index - index of a block to delete
@@ -61,6 +83,13 @@ export interface Blocks {
    */
   getById(id: string): BlockAPI | null;
 
+  /**
+   * Returns Blocks nested in the container Block
+   * @param id - id of the container Block
+   * @param slot - slot to get Blocks of. If omitted, Blocks of all slots are returned
+   */
+  getChildren(id: string, slot?: string): BlockAPI[];
+
   /**
    * Returns current Block index
    * @returns {number}
@@ -157,4 +186,28 @@ export interface Blocks {
    * @throws Error if conversion is not possible
    */
   convert(id: string, newType: string, dataOverrides?: BlockToolData): Promise<BlockAPI>;
+
+  /**
+   * Runs passed callback as a single change.
+   * onChange is called once with an array of all events happened inside the callback,
+   * and all changes are reverted by the single undo step.
+   *
+   * If callback throws, all changes made inside it are rolled back and the error is rethrown.
+   * Transactions and patches started while the callback is running become the part of the current one,
+   * other transactions wait for it to finish. User input is blocked until the transaction is finished.
+   *
+   * @param callback - function making changes via API. Receives the function starting nested transactions
+   * @returns {Promise} resolves with the value returned by the callback
+   */
+  transaction<T>(callback: (transaction: Blocks['transaction']) => T | Promise<T>): Promise<T>;
+
+  /**
+   * Applies operations composed by the EditorJS.diff() to the Editor.
+   * All operations are applied as a single transaction
+   *
+   * @param operations - operations to apply
+   *
+   * @throws Error if some Block of operations is not found
+   */
+  applyPatch(operations: PatchOperation[]): Promise<void>;
 }
@@ -1,3 +1,120 @@
+import {BlockAPI} from './block';
+
+/**
+ * Events fired by the Editor: event name -> data passed to the subscribers
+ */
+export interface EditorEventMap {
+  /**
+   * Mouse pointer moved over the Block
+   */
+  'block:hovered': {
+    block: BlockAPI;
+  };
+
+  /**
+   * Focus moved into the Editor from outside
+   */
+  'editor:focused': undefined;
+
+  /**
+   * Focus left the Editor
+   */
+  'editor:blurred': undefined;
+
+  /**
+   * Collapsed selection changed its position inside the Block
+   */
+  'caret:moved': {
+    block: BlockAPI;
+    range: Range;
+  };
+
+  /**
+   * Text selected inside the Editor has changed
+   */
+  'selection:changed': {
+    block: BlockAPI;
+    range: Range;
+    text: string;
+  };
+
+  /**
+   * Toolbar is opened or moved to the Block
+   */
+  'toolbar:opened': {
+    block: BlockAPI;
+  };
+
+  /**
+   * Toolbar is closed
+   */
+  'toolbar:closed': undefined;
+
+  /**
+   * Toolbox with the list of Block Tools is opened
+   */
+  'toolbox:opened': undefined;
+
+  /**
+   * Toolbox is closed
+   */
+  'toolbox:closed': undefined;
+
+  /**
+   * Block Tunes menu is opened for the Block
+   */
+  'block-settings:opened': {
+    block: BlockAPI;
+  };
+
+  /**
+   * Block Tunes menu is closed
+   */
+  'block-settings:closed': undefined;
+
+  /**
+   * Block Tunes menu is opened
+   *
+   * @deprecated — use 'block-settings:opened'
+   */
+  'block-settings-opened': undefined;
+
+  /**
+   * Block Tunes menu is closed
+   *
+   * @deprecated — use 'block-settings:closed'
+   */
+  'block-settings-closed': undefined;
+
+  /**
+   * Pasted data is inserted to the Editor. Blocks are empty when content was inserted to the current Block
+   */
+  'paste:processed': {
+    blocks: BlockAPI[];
+  };
+
+  /**
+   * Read-only mode is enabled or disabled and Blocks are rendered again
+   */
+  'read-only:toggled': {
+    isEnabled: boolean;
+  };
+
+  /**
+   * DOM of the Blocks wrapper has changed
+   */
+  'redactor:dom-changed': {
+    mutations: MutationRecord[];
+  };
+
+  /**
+   * Window was resized across the mobile layout breakpoint
+   */
+  'mobile-layout:toggled': {
+    isEnabled: boolean;
+  };
+}
+
 /**
  * Describes Editor`s events API
  */
@@ -8,7 +125,8 @@ export interface Events {
    * @param {string} eventName
    * @param {any} data
    */
-  emit(eventName: string, data: any): void;
+  emit<Name extends keyof EditorEventMap>(eventName: Name, data?: EditorEventMap[Name]): void;
+  emit(eventName: string, data?: any): void;
 
   /**
    * Unsubscribe from event
@@ -16,6 +134,7 @@ export interface Events {
    * @param {string} eventName
    * @param {(data: any) => void} callback
    */
+  off<Name extends keyof EditorEventMap>(eventName: Name, callback: (data: EditorEventMap[Name]) => void): void;
   off(eventName: string, callback: (data?: any) => void): void;
 
   /**
@@ -24,5 +143,6 @@ export interface Events {
    * @param {string} eventName
    * @param {(data: any) => void} callback
    */
+  on<Name extends keyof EditorEventMap>(eventName: Name, callback: (data: EditorEventMap[Name]) => void): void;
   on(eventName: string, callback: (data?: any) => void): void;
 }
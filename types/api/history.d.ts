@@ -0,0 +1,35 @@
+/**
+ * Describes Editor`s history API
+ */
+export interface History {
+  /**
+   * Reverts the last change: Block insertion, removal, moving or editing
+   *
+   * @returns {Promise<void>}
+   */
+  undo(): Promise<void>;
+
+  /**
+   * Repeats the last undone change
+   *
+   * @returns {Promise<void>}
+   */
+  redo(): Promise<void>;
+
+  /**
+   * Returns true if there is a change to undo
+   */
+  canUndo(): boolean;
+
+  /**
+   * Returns true if there is an undone change to redo
+   */
+  canRedo(): boolean;
+
+  /**
+   * Drops all recorded changes
+   *
+   * @returns {Promise<void>}
+   */
+  clear(): Promise<void>;
+}
@@ -1,3 +1,5 @@
+import { I18nConfig, I18nDictionary } from '../configs';
+
 /**
  * Describes Editor`s I18n API
  */
@@ -5,7 +7,21 @@ export interface I18n {
   /**
    * Perform translation with automatically added namespace like `tools.${toolName}` or `blockTunes.${tuneName}`
    *
+   * If params are passed, the message is formatted with ICU-style placeholders:
+   * {name}, {count, plural, one {# block} other {# blocks}}, {place, selectordinal, ...} and {gender, select, ...}
+   *
    * @param dictKey - what to translate
+   * @param params - values of the message placeholders
+   */
+  t(dictKey: string, params?: Record<string, string | number>): string;
+
+  /**
+   * Replaces the dictionary at runtime: translates the Editor UI again
+   * and calls the `localeChanged` hook of Block Tools and Block Tunes
+   *
+   * @param messages - new dictionary
+   * @param direction - new text direction. Current direction is kept if omitted
+   * @param locale - language of the dictionary used to choose plural forms. Current language is kept if omitted
    */
-  t(dictKey: string): string;
+  setLocale(messages: I18nDictionary, direction?: I18nConfig['direction'], locale?: string): void;
 }
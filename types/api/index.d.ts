@@ -1,5 +1,7 @@
+export * from './autosave';
 export * from './blocks';
 export * from './events';
+export * from './history';
 export * from './listeners';
 export * from './sanitizer';
 export * from './saver';
@@ -8,6 +10,7 @@ export * from './styles';
 export * from './caret';
 export * from './toolbar';
 export * from './notifier';
+export * from './presence';
 export * from './tooltip';
 export * from './inline-toolbar';
 export * from './block';
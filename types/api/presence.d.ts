@@ -0,0 +1,95 @@
+import { BlockId } from '../data-formats/block-id';
+
+/**
+ * Position inside the Block input described independently of DOM nodes
+ */
+export interface PresencePosition {
+  /**
+   * Id of the Block
+   */
+  blockId: BlockId;
+
+  /**
+   * Index of the Block input
+   */
+  inputIndex: number;
+
+  /**
+   * Number of characters from the input start
+   */
+  offset: number;
+}
+
+/**
+ * Selected text between two positions. Positions can be placed in different Blocks
+ */
+export interface PresenceSelection {
+  /**
+   * Selection start
+   */
+  start: PresencePosition;
+
+  /**
+   * Selection end
+   */
+  end: PresencePosition;
+}
+
+/**
+ * State of the remote user working with the document
+ */
+export interface PresenceUser {
+  /**
+   * Unique user id
+   */
+  id: string;
+
+  /**
+   * Name shown above the caret
+   */
+  name?: string;
+
+  /**
+   * CSS color of the caret, label and highlights. Picked by the id if not passed
+   */
+  color?: string;
+
+  /**
+   * Caret position. Caret is hidden if not passed
+   */
+  caret?: PresencePosition | null;
+
+  /**
+   * Selected text
+   */
+  selection?: PresenceSelection | null;
+
+  /**
+   * Ids of selected Blocks
+   */
+  blocks?: BlockId[];
+}
+
+/**
+ * Describes Editor`s presence API used to show carets and selections of collaborators
+ */
+export interface Presence {
+  /**
+   * Shows the user caret, selection and selected Blocks. Replaces previously passed state of the same user
+   *
+   * @param user - user state
+   */
+  set(user: PresenceUser): void;
+
+  /**
+   * Hides the user
+   *
+   * @param id - user id
+   */
+  remove(id: string): void;
+
+  /**
+   * Hides all users
+   */
+  clear(): void;
+}
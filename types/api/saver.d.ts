@@ -1,13 +1,173 @@
-import {OutputData} from '../data-formats/output-data';
+import {OutputBlockData, OutputData} from '../data-formats/output-data';
+import {BlockId} from '../data-formats/block-id';
+
+/**
+ * Format of the saved data:
+ * - 'json' - OutputData object
+ * - 'markdown' - Markdown string composed by Tools exportMarkdown methods
+ * - 'html' - HTML string composed by Tools exportHTML methods and wrapped by Tunes
+ */
+export type SaveFormat = 'json' | 'markdown' | 'html';
+
+/**
+ * Options of the save() method
+ */
+export interface SaveOptions {
+  /**
+   * Pass true to reject with the SaveError if some Block can not be saved as is
+   */
+  strict?: boolean;
+
+  /**
+   * Format of the saved data, 'json' by default
+   */
+  format?: SaveFormat;
+}
+
+/**
+ * Kind of a problem happened with a Block on saving:
+ * - 'invalid' - Tool's validate() method returned false for non-empty Block, Block is not included to the output
+ * - 'save-failed' - Tool's save() method threw an error, Block is not included to the output
+ * - 'sanitized' - saved data was changed by the sanitizer
+ * - 'stub' - Block's Tool is not available, original data is saved as is
+ */
+export type SaveProblemType = 'invalid' | 'save-failed' | 'sanitized' | 'stub';
+
+/**
+ * Describes a problem happened with a particular Block on saving
+ */
+export interface SaveProblem {
+  /**
+   * Kind of the problem
+   */
+  type: SaveProblemType;
+
+  /**
+   * Id of the Block
+   */
+  blockId: BlockId;
+
+  /**
+   * Index of the Block in the Editor
+   */
+  index: number;
+
+  /**
+   * Name of the Block's Tool
+   */
+  tool: string;
+
+  /**
+   * Human-readable description of the problem
+   */
+  message: string;
+
+  /**
+   * Error thrown by the Tool, if any
+   */
+  error?: unknown;
+}
+
+/**
+ * Saved data along with the problems happened on saving
+ */
+export interface SaveReport {
+  /**
+   * Saved data. Blocks that failed to save or validate are not included
+   */
+  data: OutputData;
+
+  /**
+   * Problems happened on saving
+   */
+  problems: SaveProblem[];
+}
+
+/**
+ * Error thrown by the save({ strict: true }) call if some problems happened
+ */
+export interface SaveError extends Error {
+  /**
+   * Saving report with the list of problems
+   */
+  report: SaveReport;
+}
+
+/**
+ * Blocks changed since the passed checkpoint
+ */
+export interface ChangedBlocksData {
+  /**
+   * Checkpoint to pass to the next saveChanged() call
+   */
+  checkpoint: number;
+
+  /**
+   * Blocks added or changed since the passed checkpoint
+   */
+  blocks: OutputBlockData[];
+
+  /**
+   * Ids of Blocks removed since the passed checkpoint
+   */
+  removed: BlockId[];
+
+  /**
+   * Ids of all Blocks in the current order
+   */
+  order: BlockId[];
+}
 
 /**
  * Describes Editor`s saver API
  */
 export interface Saver {
+  /**
+   * Saves Editors data and returns promise with it converted to Markdown or HTML.
+   * Resolves undefined if saving is failed
+   *
+   * @param {SaveOptions} options - saving options
+   * @returns {Promise<string|undefined>}
+   */
+  save(options: SaveOptions & { format: 'markdown' | 'html' }): Promise<string | undefined>;
+
   /**
    * Saves Editors data and returns promise with it
    *
+   * @param {SaveOptions} [options] - saving options
    * @returns {Promise<OutputData>}
    */
-  save(): Promise<OutputData>;
+  save(options?: SaveOptions & { format?: 'json' }): Promise<OutputData>;
+
+  /**
+   * Saves Editors data in the format passed at runtime
+   *
+   * @param {SaveOptions} [options] - saving options
+   * @returns {Promise<OutputData|string|undefined>}
+   */
+  save(options?: SaveOptions): Promise<OutputData | string | undefined>;
+
+  /**
+   * Saves Editors data and returns it along with the list of problems happened with particular Blocks
+   *
+   * @returns {Promise<SaveReport>}
+   */
+  saveWithReport(): Promise<SaveReport>;
+
+  /**
+   * Saves a single Block by its id
+   *
+   * @param {string} id - id of the Block to save
+   * @returns {Promise<OutputBlockData|undefined>} - saved data or undefined if Block can not be saved
+   */
+  saveBlock(id: string): Promise<OutputBlockData | undefined>;
+
+  /**
+   * Saves only Blocks changed since the passed checkpoint.
+   * Clean Blocks are not saved again, so it is cheap to call it after each change
+   *
+   * @param {number} [checkpoint] - checkpoint returned by the previous call. If omitted, all Blocks are returned
+   * @returns {Promise<ChangedBlocksData>}
+   */
+  saveChanged(checkpoint?: number): Promise<ChangedBlocksData>;
 }
@@ -1,4 +1,5 @@
 import { BlockToolAdapter } from '../tools/adapters/block-tool-adapter';
+import { ToolConstructable, ToolSettings } from '../tools';
 
 /**
  * Describes methods for accessing installed Editor tools
@@ -8,4 +9,21 @@ export interface Tools {
    * Returns all available Block Tools
    */
   getBlockTools(): BlockToolAdapter[];
+
+  /**
+   * Registers the Tool at runtime. Updates the Toolbox, paste handling and the Inline Toolbar,
+   * Blocks of this Tool displayed as Stubs are rendered by the Tool.
+   * Rejects if the Tool with the same name is registered or the Tool preparation fails
+   *
+   * @param name - Tool name
+   * @param settings - Tool class or settings, the same as in the «tools» config property
+   */
+  register(name: string, settings: ToolConstructable | ToolSettings): Promise<void>;
+
+  /**
+   * Unregisters the Tool at runtime. Blocks of the Block Tool are replaced with Stubs keeping their data
+   *
+   * @param name - Tool name
+   */
+  unregister(name: string): Promise<void>;
 }
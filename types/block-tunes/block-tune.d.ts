@@ -28,6 +28,12 @@ export interface BlockTune {
    * @return {BlockTuneData}
    */
   save?(): BlockTuneData;
+
+  /**
+   * Called after the dictionary is replaced by the api.i18n.setLocale() method.
+   * Translate the Tune UI rendered by wrap() again with api.i18n.t()
+   */
+  localeChanged?(): void;
 }
 
 /**
@@ -45,6 +51,14 @@ export interface BlockTuneConstructable {
    */
   sanitize?: SanitizerConfig;
 
+  /**
+   * Wraps HTML exported by the Block Tool, for example to apply alignment
+   *
+   * @param html - HTML exported by the Block Tool
+   * @param data - saved Tune data
+   */
+  wrapHTML?(html: string, data: BlockTuneData): string;
+
   /**
    * @constructor
    *
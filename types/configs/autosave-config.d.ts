@@ -0,0 +1,48 @@
+import { OutputData } from '../data-formats/output-data';
+
+/**
+ * Persists drafts saved by the autosave, for example in the localStorage or IndexedDB
+ */
+export interface AutosaveStorageAdapter {
+  /**
+   * Returns the draft stored with passed key. Resolves with null if there is no draft
+   *
+   * @param key - draft key
+   */
+  load(key: string): Promise<OutputData | null>;
+
+  /**
+   * Stores the draft replacing the previous one
+   *
+   * @param key - draft key
+   * @param data - saved data
+   */
+  save(key: string, data: OutputData): Promise<void>;
+
+  /**
+   * Removes the draft
+   *
+   * @param key - draft key
+   */
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Autosave settings
+ */
+export interface AutosaveConfig {
+  /**
+   * Key the draft is stored with, for example the document id
+   */
+  key: string;
+
+  /**
+   * Storage for drafts. Drafts are stored in the localStorage by default
+   */
+  storage?: AutosaveStorageAdapter;
+
+  /**
+   * Time in ms after the last change when the draft is saved. 1000 by default
+   */
+  delay?: number;
+}
@@ -0,0 +1,200 @@
+import { BlockId } from '../data-formats/block-id';
+import { OutputBlockData } from '../data-formats/output-data';
+import { BlockToolData } from '../tools';
+import { BlockTuneData } from '../block-tunes/block-tune-data';
+
+/**
+ * Properties common for all collaboration operations
+ */
+interface BaseCollaborationOperation {
+  /**
+   * Id of the Editor instance produced the operation
+   */
+  clientId: string;
+
+  /**
+   * Lamport timestamp of the operation. Used to order concurrent operations
+   */
+  clock: number;
+}
+
+/**
+ * Block has been inserted after the Block with passed id
+ */
+export interface BlockInsertCollaborationOperation extends BaseCollaborationOperation {
+  type: 'insert';
+
+  /**
+   * Inserted Block
+   */
+  block: OutputBlockData & { id: BlockId };
+
+  /**
+   * Id of the preceding Block. Null if the Block has been inserted at the start
+   */
+  afterId: BlockId | null;
+}
+
+/**
+ * Block has been removed
+ */
+export interface BlockRemoveCollaborationOperation extends BaseCollaborationOperation {
+  type: 'remove';
+
+  /**
+   * Id of the removed Block
+   */
+  id: BlockId;
+}
+
+/**
+ * Block has been moved after the Block with passed id
+ */
+export interface BlockMoveCollaborationOperation extends BaseCollaborationOperation {
+  type: 'move';
+
+  /**
+   * Id of the moved Block
+   */
+  id: BlockId;
+
+  /**
+   * Id of the new preceding Block. Null if the Block has been moved to the start
+   */
+  afterId: BlockId | null;
+}
+
+/**
+ * Block Tool, data or tunes have been replaced. Concurrent updates of the same Block are resolved by the last writer
+ */
+export interface BlockUpdateCollaborationOperation extends BaseCollaborationOperation {
+  type: 'update';
+
+  /**
+   * Id of the updated Block
+   */
+  id: BlockId;
+
+  /**
+   * Name of the Block Tool
+   */
+  tool: string;
+
+  /**
+   * New Block data
+   */
+  data: BlockToolData;
+
+  /**
+   * New Block tunes
+   */
+  tunes?: { [name: string]: BlockTuneData };
+}
+
+/**
+ * Part of the string property of Block data has been replaced.
+ * Characters are referred by ids, so concurrent edits of different parts are both kept
+ */
+export interface TextCollaborationOperation extends BaseCollaborationOperation {
+  type: 'text';
+
+  /**
+   * Id of the edited Block
+   */
+  id: BlockId;
+
+  /**
+   * Name of the string property of Block data, for example 'text'
+   */
+  key: string;
+
+  /**
+   * Id of the character the string is inserted after. Null if the string is inserted at the start.
+   * Inserted characters get ids composed from the client id, clock and the character offset: 'client:12:0'
+   */
+  afterCharId: string | null;
+
+  /**
+   * Inserted string
+   */
+  insert: string;
+
+  /**
+   * Ids of removed characters
+   */
+  remove: string[];
+}
+
+/**
+ * Operation describing a local change that should be applied by other Editor instances
+ */
+export type CollaborationOperation =
+  | BlockInsertCollaborationOperation
+  | BlockRemoveCollaborationOperation
+  | BlockMoveCollaborationOperation
+  | BlockUpdateCollaborationOperation
+  | TextCollaborationOperation;
+
+/**
+ * Message sent through the collaboration transport
+ */
+export interface CollaborationMessage {
+  type: 'operations';
+
+  /**
+   * Id of the Editor instance sent the message
+   */
+  clientId: string;
+
+  /**
+   * Operations in the order they have been applied
+   */
+  operations: CollaborationOperation[];
+
+  /**
+   * Clock of the last operation of each client applied before the message has been sent.
+   * Message is applied only after all these operations
+   */
+  seen: { [clientId: string]: number };
+}
+
+/**
+ * Delivers messages between Editor instances, for example through a WebSocket connection.
+ * Messages sent by an instance should be delivered to all other instances in the same order
+ */
+export interface CollaborationTransport {
+  /**
+   * Sends message to other Editor instances
+   *
+   * @param message - message to send
+   */
+  send(message: CollaborationMessage): void;
+
+  /**
+   * Subscribes to messages received from other Editor instances
+   *
+   * @param handler - called with each received message
+   * @returns function that removes the subscription
+   */
+  subscribe(handler: (message: CollaborationMessage) => void): () => void;
+
+  /**
+   * Called on the Editor destroy
+   */
+  destroy?(): void;
+}
+
+/**
+ * Real-time collaboration settings
+ */
+export interface CollaborationConfig {
+  /**
+   * Transport used to exchange operations with other Editor instances
+   */
+  transport: CollaborationTransport;
+
+  /**
+   * Unique id of this Editor instance. Generated if not passed
+   */
+  clientId?: string;
+}
@@ -1,7 +1,10 @@
 import {ToolConstructable, ToolSettings} from '../tools';
-import {API, LogLevels, OutputData} from '../index';
+import {API, LogLevels, OutputBlockData, OutputData} from '../index';
 import {SanitizerConfig} from './sanitizer-config';
 import {I18nConfig} from './i18n-config';
+import {CollaborationConfig} from './collaboration-config';
+import {AutosaveConfig} from './autosave-config';
+import {VirtualizationConfig} from './virtualization-config';
 import { BlockMutationEvent } from '../events/block';
 
 export interface EditorConfig {
@@ -95,6 +98,15 @@ export interface EditorConfig {
    */
   onChange?(api: API, event: BlockMutationEvent | BlockMutationEvent[]): void;
 
+  /**
+   * Decides if the Block copied or dragged from another Editor instance can be inserted.
+   * By default, Blocks of the Tools not configured in this Editor are rejected.
+   * Accepted Blocks of the unavailable Tools are inserted as stubs keeping the original data
+   * @param block - data of the passed Block
+   * @param isToolAvailable - true if the Block Tool is configured in this Editor
+   */
+  acceptTransferredBlock?(block: OutputBlockData, isToolAvailable: boolean): boolean;
+
   /**
    * Defines default toolbar for all tools.
    */
@@ -105,6 +117,38 @@ export interface EditorConfig {
    */
   tunes?: string[];
 
+  /**
+   * Enables real-time collaboration with other Editor instances.
+   * All instances should be started with the same data
+   */
+  collaboration?: CollaborationConfig;
+
+  /**
+   * Enables saving drafts to the storage after changes.
+   * If the stored draft is newer than passed data, Editor offers to restore it
+   */
+  autosave?: AutosaveConfig;
+
+  /**
+   * Enables virtualized rendering for large documents: Tools render only Blocks near the viewport,
+   * other Blocks are displayed as placeholders of the measured height. Pass true to use default settings
+   */
+  virtualization?: boolean | VirtualizationConfig;
+
+  /**
+   * Amount of Blocks rendered per animation frame. If passed, initial data is rendered in chunks
+   * and Editor becomes ready after the first chunk, while the rest is rendered in background.
+   * Nested Blocks are rendered in the same chunk with their container
+   */
+  renderChunkSize?: number;
+
+  /**
+   * Fires after each rendered chunk of Blocks
+   * @param rendered - amount of rendered Blocks
+   * @param total - amount of Blocks to render
+   */
+  onRenderProgress?(rendered: number, total: number): void;
+
   /**
    * Section for style-related settings
    */
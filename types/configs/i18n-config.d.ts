@@ -3,9 +3,15 @@
  */
 import { I18nDictionary } from './i18n-dictionary';
 
+/**
+ * Codes of the languages the Editor UI dictionaries are bundled for
+ */
+export type I18nLocaleCode = 'ar' | 'de' | 'en' | 'es' | 'fr' | 'it' | 'ja' | 'pt' | 'ru' | 'zh';
+
 export interface I18nConfig {
   /**
-   * Dictionary used for translation
+   * Dictionary used for translation.
+   * Keys missing in it are taken from the bundled dictionary of the locale
    */
   messages?: I18nDictionary;
 
@@ -13,4 +19,21 @@ export interface I18nConfig {
    * Text direction. If not set, uses ltr
    */
   direction?: 'ltr' | 'rtl';
+
+  /**
+   * Language of the dictionary, for example 'ru' or 'pt-BR'. 'en' by default.
+   * Selects the bundled dictionary of the Editor UI strings and plural forms of the messages.
+   * Invalid language tag is replaced with 'en'
+   */
+  locale?: string;
+
+  /**
+   * Called when the dictionary has no translation for the key.
+   * Keys with empty messages are not reported, they are shown as is.
+   * Useful to find untranslated strings
+   *
+   * @param dictKey - key without translation
+   * @param namespace - dictionary section of the key, for example 'tools.header' or 'ui.popover'
+   */
+  onMissingTranslation?(dictKey: string, namespace: string): void;
 }
@@ -5,3 +5,6 @@ export * from './conversion-config';
 export * from './log-levels';
 export * from './i18n-config';
 export * from './i18n-dictionary';
+export * from './collaboration-config';
+export * from './autosave-config';
+export * from './virtualization-config';
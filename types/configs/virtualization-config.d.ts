@@ -0,0 +1,14 @@
+/**
+ * Virtualized rendering settings
+ */
+export interface VirtualizationConfig {
+  /**
+   * Distance in px from the viewport edges within which Blocks are rendered. 1000 by default
+   */
+  margin?: number;
+
+  /**
+   * Height in px of the placeholder of the Block that has not been measured yet. 50 by default
+   */
+  estimatedHeight?: number;
+}
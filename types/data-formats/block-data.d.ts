@@ -1,5 +1,6 @@
 import {BlockToolData} from '../tools';
 import { BlockId } from './block-id';
+import { BlockTuneData } from '../block-tunes/block-tune-data';
 
 /**
  * Tool's saved data
@@ -8,6 +9,7 @@ export interface SavedData {
   id: BlockId;
   tool: string;
   data: BlockToolData;
+  tunes?: {[name: string]: BlockTuneData};
   time: number;
 }
 
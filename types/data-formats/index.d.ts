@@ -1,2 +1,3 @@
 export * from './block-data';
 export * from './output-data';
+export * from './output-data-patch';
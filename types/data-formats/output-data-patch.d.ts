@@ -0,0 +1,115 @@
+import { OutputBlockData } from './output-data';
+import { BlockId } from './block-id';
+
+/**
+ * Change of a single value inside the Block
+ */
+export interface BlockDataChange {
+  /**
+   * Path to the changed value inside the Block, for example ['data', 'items', 0, 'text'] or ['tunes', 'alignment']
+   */
+  path: Array<string | number>;
+
+  /**
+   * Value before the change. Missing if the value has been added
+   */
+  before?: unknown;
+
+  /**
+   * Value after the change. Missing if the value has been removed
+   */
+  after?: unknown;
+}
+
+/**
+ * Block has been added
+ */
+export interface BlockAddedPatchOperation {
+  type: 'block-added';
+
+  /**
+   * Id of the added Block
+   */
+  id: BlockId;
+
+  /**
+   * Index to insert the Block at
+   */
+  index: number;
+
+  /**
+   * Added Block
+   */
+  block: OutputBlockData;
+}
+
+/**
+ * Block has been removed
+ */
+export interface BlockRemovedPatchOperation {
+  type: 'block-removed';
+
+  /**
+   * Id of the removed Block
+   */
+  id: BlockId;
+
+  /**
+   * Index of the removed Block
+   */
+  index: number;
+
+  /**
+   * Removed Block
+   */
+  block: OutputBlockData;
+}
+
+/**
+ * Block has been moved
+ */
+export interface BlockMovedPatchOperation {
+  type: 'block-moved';
+
+  /**
+   * Id of the moved Block
+   */
+  id: BlockId;
+
+  /**
+   * Index of the Block before moving
+   */
+  fromIndex: number;
+
+  /**
+   * Index of the Block after moving
+   */
+  toIndex: number;
+}
+
+/**
+ * Block's type, data or tunes have been changed
+ */
+export interface BlockChangedPatchOperation {
+  type: 'block-changed';
+
+  /**
+   * Id of the changed Block
+   */
+  id: BlockId;
+
+  /**
+   * List of changed values
+   */
+  changes: BlockDataChange[];
+}
+
+/**
+ * Block-level operation produced by the diff() and consumed by the applyPatch().
+ * Operations are applied one by one, so indexes are relative to the result of the previous operation
+ */
+export type PatchOperation =
+  | BlockAddedPatchOperation
+  | BlockRemovedPatchOperation
+  | BlockMovedPatchOperation
+  | BlockChangedPatchOperation;
@@ -26,6 +26,16 @@ export interface OutputBlockData<Type extends string = string, Data extends obje
    * Block Tunes data
    */
   tunes?: {[name: string]: BlockTuneData};
+
+  /**
+   * Id of the container Block this Block is nested in. Omitted for the top-level Blocks
+   */
+  parent?: BlockId;
+
+  /**
+   * Ids of the nested Blocks grouped by the slots. Passed for the Blocks of Tools declaring slots
+   */
+  children?: {[slot: string]: BlockId[]};
 }
 
 export interface OutputData {
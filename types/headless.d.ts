@@ -0,0 +1,66 @@
+/**
+ * Types of the headless entry point used to process saved data without DOM
+ */
+
+import { BlockToolData, EditorConfig, OutputBlockData, OutputData } from './index';
+
+/**
+ * Headless configuration: the part of the Editor config that describes Tools
+ */
+export type HeadlessConfig = Pick<EditorConfig, 'tools' | 'defaultBlock' | 'inlineToolbar' | 'tunes' | 'i18n' | 'logLevel'>;
+
+/**
+ * Processes saved data with the same Tools as the Editor does, but without DOM rendering.
+ * Tools are not constructed, only their static properties and validate() method are used
+ */
+declare class EditorJSHeadless {
+  /**
+   * Promise that resolves when Tools are prepared
+   */
+  public isReady: Promise<void>;
+
+  constructor(configuration?: HeadlessConfig);
+
+  /**
+   * Checks saved data with Tools validate() methods. Blocks of unknown Tools are treated as invalid
+   * @param data - saved data to check
+   */
+  public validate(data: OutputData): Promise<boolean>;
+
+  /**
+   * Checks Block data with its Tool validate() method
+   * @param block - saved Block data
+   */
+  public validateBlock(block: OutputBlockData): Promise<boolean>;
+
+  /**
+   * Cleans saved data with sanitize configs of Tools, enabled Inline Tools and Block Tunes.
+   * Passed data is not mutated
+   * @param data - saved data to clean
+   */
+  public sanitize(data: OutputData): Promise<OutputData>;
+
+  /**
+   * Converts Block to another Tool using their conversion configs
+   * @param block - saved Block data to convert
+   * @param targetToolName - name of the Tool to convert to
+   * @param dataOverrides - optional data overrides for the new Block
+   *
+   * @throws Error if conversion is not possible
+   */
+  public convert(block: OutputBlockData, targetToolName: string, dataOverrides?: BlockToolData): Promise<OutputBlockData>;
+
+  /**
+   * Converts saved data to Markdown using Tools exportMarkdown methods
+   * @param data - saved data
+   */
+  public toMarkdown(data: OutputData): Promise<string>;
+
+  /**
+   * Converts saved data to HTML using Tools exportHTML methods and Tunes wrapHTML methods
+   * @param data - saved data
+   */
+  public toHTML(data: OutputData): Promise<string>;
+}
+
+export default EditorJSHeadless;
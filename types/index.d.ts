@@ -5,23 +5,32 @@
  */
 
 import {
+  AutosaveStorageAdapter,
+  CollaborationTransport,
   Dictionary,
   DictValue,
   EditorConfig,
   I18nConfig,
   I18nDictionary,
+  I18nLocaleCode,
 } from './configs';
 
 import {
+  Autosave,
   Blocks,
+  RenderOptions,
   Caret,
   Events,
+  EditorEventMap,
+  History,
   InlineToolbar,
   Listeners,
   Notifier,
+  Presence,
   ReadOnly,
   Sanitizer,
   Saver,
+  SaveOptions,
   Selection,
   Styles,
   Toolbar,
@@ -31,7 +40,7 @@ import {
   Tools,
 } from './api';
 
-import { OutputData } from './data-formats';
+import { OutputData, PatchOperation } from './data-formats';
 import { BlockMutationEvent, BlockMutationEventMap, BlockMutationType } from './events/block';
 import { BlockAddedMutationType, BlockAddedEvent } from './events/block/BlockAdded';
 import { BlockChangedMutationType, BlockChangedEvent } from './events/block/BlockChanged';
@@ -56,6 +65,7 @@ export {
   ToolboxConfig,
   ToolboxConfigEntry,
   ToolSettings,
+  ToolLoader,
   ToolConfig,
   PasteEvent,
   PasteEventDetail,
@@ -65,6 +75,8 @@ export {
   HTMLPasteEventDetail,
   FilePasteEvent,
   FilePasteEventDetail,
+  MarkdownBlock,
+  MarkdownBlockType,
 } from './tools';
 export {BlockTune, BlockTuneConstructable} from './block-tunes';
 export {
@@ -78,13 +90,36 @@ export {
   Dictionary,
   DictValue,
   I18nConfig,
+  I18nLocaleCode,
+  CollaborationConfig,
+  CollaborationTransport,
+  CollaborationMessage,
+  CollaborationOperation,
+  BlockInsertCollaborationOperation,
+  BlockRemoveCollaborationOperation,
+  BlockMoveCollaborationOperation,
+  BlockUpdateCollaborationOperation,
+  TextCollaborationOperation,
+  AutosaveConfig,
+  AutosaveStorageAdapter,
+  VirtualizationConfig,
 } from './configs';
 
 export * from './utils/popover';
 
 export { OutputData, OutputBlockData} from './data-formats/output-data';
+export {
+  PatchOperation,
+  BlockAddedPatchOperation,
+  BlockRemovedPatchOperation,
+  BlockMovedPatchOperation,
+  BlockChangedPatchOperation,
+  BlockDataChange,
+} from './data-formats/output-data-patch';
 export { BlockId } from './data-formats/block-id';
-export { BlockAPI } from './api'
+export { BlockAPI, RenderOptions, SaveFormat, SaveOptions, SaveProblem, SaveProblemType, SaveReport, SaveError, ChangedBlocksData } from './api'
+export { PresencePosition, PresenceSelection, PresenceUser } from './api';
+export { EditorEventMap } from './api';
 export {
   BlockMutationType,
   BlockMutationEvent,
@@ -104,12 +139,15 @@ export {
  * So we should create new interface for exporting API type
  */
 export interface API {
+  autosave: Autosave;
   blocks: Blocks;
   caret: Caret;
   tools: Tools;
   events: Events;
+  history: History;
   listeners: Listeners;
   notifier: Notifier;
+  presence: Presence;
   sanitizer: Sanitizer;
   saver: Saver;
   selection: Selection;
@@ -128,10 +166,91 @@ export interface API {
 declare class EditorJS {
   public static version: string;
 
+  /**
+   * Collaboration transport connecting Editor instances created on the same page.
+   * Instances created with the same channel name exchange operations
+   */
+  public static InMemoryTransport: {
+    new(channelName: string): CollaborationTransport;
+  };
+
+  /**
+   * Collaboration transport connecting Editor instances opened in different tabs or frames of the same origin
+   * through the BroadcastChannel with passed name
+   */
+  public static BroadcastChannelTransport: {
+    new(channelName: string): CollaborationTransport;
+  };
+
+  /**
+   * Autosave storage keeping drafts in the localStorage
+   */
+  public static LocalStorageAdapter: {
+    new(prefix?: string): AutosaveStorageAdapter;
+  };
+
+  /**
+   * Autosave storage keeping drafts in the IndexedDB database with passed name
+   */
+  public static IndexedDBAdapter: {
+    new(databaseName?: string): AutosaveStorageAdapter;
+  };
+
+  /**
+   * Dictionaries of the Editor UI strings bundled for the major languages
+   */
+  public static locales: Record<I18nLocaleCode, I18nDictionary>;
+
+  /**
+   * Composes list of Block-level operations that transform the first document into the second one.
+   * Blocks are matched by their ids
+   *
+   * @param before - document before changes
+   * @param after - document after changes
+   */
+  public static diff(before: OutputData, after: OutputData): PatchOperation[];
+
+  /**
+   * Applies operations composed by the diff() to the document. Passed document is not mutated
+   *
+   * @param data - document to patch
+   * @param operations - operations to apply
+   */
+  public static applyPatch(data: OutputData, operations: PatchOperation[]): OutputData;
+
+  /**
+   * Converts saved data to Markdown without creating an Editor instance.
+   * Built-in Paragraph Tool is used for the 'paragraph' Blocks unless another one is passed
+   *
+   * @param data - saved data
+   * @param tools - Tools used to export Blocks, the same as the 'tools' config property
+   */
+  public static toMarkdown(data: OutputData, tools?: EditorConfig['tools']): string;
+
+  /**
+   * Converts saved data to HTML without creating an Editor instance.
+   * Data is sanitized with Tools sanitize configs extended by the Inline Tools ones,
+   * Blocks of unavailable Tools are exported by their titles
+   *
+   * @param data - saved data
+   * @param tools - Tools and Tunes used to export Blocks, the same as the 'tools' config property
+   */
+  public static toHTML(data: OutputData, tools?: EditorConfig['tools']): string;
+
   public isReady: Promise<void>;
 
+  /**
+   * Resolves when all Blocks of the initial data are rendered.
+   * Differs from isReady only if the 'renderChunkSize' config property is passed
+   */
+  public isRendered: Promise<void>;
+
+  public autosave: Autosave;
   public blocks: Blocks;
   public caret: Caret;
+  public events: Events;
+  public history: History;
+  public presence: Presence;
   public sanitizer: Sanitizer;
   public saver: Saver;
   public selection: Selection;
@@ -139,6 +258,8 @@ declare class EditorJS {
   public toolbar: Toolbar;
   public inlineToolbar: InlineToolbar;
   public readOnly: ReadOnly;
+  public tools: Tools;
+  public i18n: I18n;
   constructor(configuration?: EditorConfig|string);
 
   /**
@@ -148,7 +269,9 @@ declare class EditorJS {
   /**
    * @see Saver.save
    */
-  public save(): Promise<OutputData>;
+  public save(options: SaveOptions & { format: 'markdown' | 'html' }): Promise<string | undefined>;
+  public save(options?: SaveOptions & { format?: 'json' }): Promise<OutputData>;
+  public save(options?: SaveOptions): Promise<OutputData | string | undefined>;
 
   /**
    * @see Blocks.clear
@@ -158,7 +281,7 @@ declare class EditorJS {
   /**
    * @see Blocks.render
    */
-  public render(data: OutputData): Promise<void>;
+  public render(data: OutputData, options?: RenderOptions): Promise<void>;
 
   /**
    * @see Caret.focus
@@ -168,17 +291,20 @@ declare class EditorJS {
   /**
    * @see Events.on
    */
+  public on<Name extends keyof EditorEventMap>(eventName: Name, callback: (data: EditorEventMap[Name]) => void): void;
   public on(eventName: string, callback: (data?: any) => void): void;
 
   /**
    * @see Events.off
    */
+  public off<Name extends keyof EditorEventMap>(eventName: Name, callback: (data: EditorEventMap[Name]) => void): void;
   public off(eventName: string, callback: (data?: any) => void): void;
 
   /**
    * @see Events.emit
    */
-  public emit(eventName: string, data: any): void;
+  public emit<Name extends keyof EditorEventMap>(eventName: Name, data?: EditorEventMap[Name]): void;
+  public emit(eventName: string, data?: any): void;
 
   /**
    * Destroy Editor instance and related DOM elements
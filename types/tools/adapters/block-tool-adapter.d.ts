@@ -7,6 +7,7 @@ import { BlockToolData } from '../block-tool-data';
 import { BlockAPI } from '../../api/block';
 import { ToolboxConfigEntry } from '../tool-settings';
 import { ConversionConfig } from '../../configs/conversion-config';
+import { MarkdownBlock } from '../markdown-block';
 import { PasteConfig } from '../../configs/paste-config';
 import { SanitizerConfig } from '../../configs/sanitizer-config';
 import { BaseToolAdapter } from './base-tool-adapter';
@@ -30,6 +31,22 @@ interface BlockToolAdapter extends BaseToolAdapter<ToolType.Block, BlockTool>{
    */
   create(data: BlockToolData, block: BlockAPI, readOnly: boolean): BlockTool;
 
+  /**
+   * Calls Tool's validate method without creating the Tool instance
+   * @param data - Tool data to validate
+   */
+  validate(data: BlockToolData): Promise<boolean>;
+
+  /**
+   * Returns false if the function loading the Tool class has been passed instead of it and the Tool is not loaded yet
+   */
+  isLoaded: boolean;
+
+  /**
+   * Loads the Tool class by the passed loader function and prepares the Tool
+   */
+  load(): Promise<void>;
+
   /**
    * Returns true if read-only mode is supported by Tool
    */
@@ -50,6 +67,21 @@ interface BlockToolAdapter extends BaseToolAdapter<ToolType.Block, BlockTool>{
    */
   conversionConfig: ConversionConfig | undefined;
 
+  /**
+   * Returns Tool method that exports its data to Markdown
+   */
+  exportMarkdown: ((data: BlockToolData) => string) | undefined;
+
+  /**
+   * Returns Tool method that exports its data to HTML
+   */
+  exportHTML: ((data: BlockToolData) => string) | undefined;
+
+  /**
+   * Returns Tool method that composes its data from the Markdown element
+   */
+  importMarkdown: ((block: MarkdownBlock) => BlockToolData | undefined) | undefined;
+
   /**
    * Returns enabled inline tools for Tool
    */
@@ -11,4 +11,9 @@ interface BlockTuneAdapter extends BaseToolAdapter<ToolType.Tune, BlockTune> {
    * @param block - Block API object
    */
   create(data: BlockTuneData, block: BlockAPI): BlockTune;
+
+  /**
+   * Returns Tune method that wraps HTML exported by the Block Tool
+   */
+  wrapHTML: ((html: string, data: BlockTuneData) => string) | undefined;
 }
@@ -6,6 +6,7 @@ import { API, BlockAPI, ToolboxConfig } from '../index';
 import { PasteEvent } from './paste-events';
 import { MoveEvent } from './hook-events';
 import { MenuConfig } from './menu-config';
+import { MarkdownBlock } from './markdown-block';
 
 /**
  * Describe Block Tool object
@@ -49,6 +50,14 @@ export interface BlockTool extends BaseTool {
    */
   onPaste?(event: PasteEvent): void;
 
+  /**
+   * Returns element the nested Blocks of the slot are placed to.
+   * Required for Tools declaring the 'slots' static property
+   *
+   * @param {string} slot - one of the slots declared by the Tool
+   */
+  getSlotElement?(slot: string): HTMLElement | undefined;
+
   /**
    * Cleanup resources used by your tool here
    * Called when the editor is destroyed
@@ -78,6 +87,12 @@ export interface BlockTool extends BaseTool {
    * Called after block was moved
    */
   moved?(event: MoveEvent): void;
+
+  /**
+   * Called after the dictionary is replaced by the api.i18n.setLocale() method.
+   * Translate the Tool UI again with api.i18n.t()
+   */
+  localeChanged?(): void;
 }
 
 /**
@@ -110,6 +125,37 @@ export interface BlockToolConstructable extends BaseToolConstructable {
    */
   isReadOnlySupported?: boolean;
 
+  /**
+   * Names of the slots containing nested Blocks, for example, columns of the Columns Tool.
+   * Every slot contains at least one Block
+   */
+  slots?: string[];
+
+  /**
+   * Returns Markdown representation of the Tool data.
+   * If not specified, string exported by the conversionConfig is used
+   *
+   * @param {BlockToolData} data - saved Block data
+   */
+  exportMarkdown?(data: BlockToolData): string;
+
+  /**
+   * Returns semantic HTML representation of the Tool data.
+   * Passed data is already sanitized with the Tool's sanitize config.
+   * If not specified, string exported by the conversionConfig is wrapped with the paragraph
+   *
+   * @param {BlockToolData} data - saved Block data
+   */
+  exportHTML?(data: BlockToolData): string;
+
+  /**
+   * Composes Tool data from the pasted or rendered Markdown element.
+   * Return undefined if Tool can not handle the element, so the next Tool or the default Block is used
+   *
+   * @param {MarkdownBlock} block - block-level Markdown element
+   */
+  importMarkdown?(block: MarkdownBlock): BlockToolData | undefined;
+
   /**
    * @constructor
    *
@@ -11,6 +11,7 @@ export * from './tool-settings';
 export * from './paste-events';
 export * from './hook-events';
 export * from './menu-config';
+export * from './markdown-block';
 
 export type Tool = BlockTool | InlineTool | BlockTune;
 export type ToolConstructable = BlockToolConstructable | InlineToolConstructable | BlockTuneConstructable;
@@ -0,0 +1,45 @@
+/**
+ * Kind of the block-level Markdown element
+ */
+export type MarkdownBlockType = 'paragraph' | 'heading' | 'list' | 'quote' | 'code' | 'delimiter';
+
+/**
+ * Block-level Markdown element passed to the Tool's importMarkdown() method.
+ * Inline marks (bold, italic, links, inline code) are already converted to HTML
+ */
+export interface MarkdownBlock {
+  /**
+   * Kind of the element
+   */
+  type: MarkdownBlockType;
+
+  /**
+   * HTML content of paragraph, heading or quote, raw text of code
+   */
+  text: string;
+
+  /**
+   * Heading level from 1 to 6
+   */
+  level?: number;
+
+  /**
+   * HTML content of list items
+   */
+  items?: string[];
+
+  /**
+   * Nesting levels of list items, 0 for the top-level items
+   */
+  levels?: number[];
+
+  /**
+   * True for the ordered list
+   */
+  ordered?: boolean;
+
+  /**
+   * Language specified for the code fence
+   */
+  language?: string;
+}
@@ -1,5 +1,6 @@
 import { ToolConfig } from './tool-config';
 import { ToolConstructable, BlockToolData, MenuConfig, MenuConfigItem } from './index';
+import { PasteConfig } from '../configs';
 
 /**
  * Tool may specify its toolbox configuration
@@ -27,6 +28,12 @@ export interface ToolboxConfigEntry {
   data?: BlockToolData
 }
 
+/**
+ * Function loading the Block Tool class on demand, for example by the dynamic import: () => import('./table').
+ * Should be an arrow or async function to be distinguished from the Tool class
+ */
+export type ToolLoader = () => Promise<ToolConstructable | { default: ToolConstructable }>;
+
 /**
  * Object passed to the Tool's constructor by {@link EditorConfig#tools}
  *
@@ -35,9 +42,9 @@ export interface ToolboxConfigEntry {
 export interface ExternalToolSettings<Config extends object = any> {
 
   /**
-   * Tool's class
+   * Tool's class or the function loading it on demand
    */
-  class: ToolConstructable;
+  class: ToolConstructable | ToolLoader;
 
   /**
    * User configuration object that will be passed to the Tool's constructor
@@ -66,6 +73,12 @@ export interface ExternalToolSettings<Config extends object = any> {
    * It will be hidden from Toolbox when false is specified.
    */
   toolbox?: ToolboxConfig | false;
+
+  /**
+   * Overrides Tool's paste config.
+   * Tool loaded on demand handles paste before it is loaded only if the paste config is passed here
+   */
+  pasteConfig?: PasteConfig | false;
 }
 
 /**
@@ -1,5 +1,6 @@
 import { PopoverItemParams } from './popover-item';
 import { PopoverEvent } from './popover-event';
+import { Tooltip } from '../../api/tooltip';
 
 /**
  * Params required to render popover
@@ -41,6 +42,12 @@ export interface PopoverParams {
    * Popover nesting level. 0 value means that it is a root popover
    */
   nestingLevel?: number;
+
+  /**
+   * Tooltip used to display items hints.
+   * Editor passes the tooltip of its own instance. Hints are not displayed if omitted
+   */
+  tooltip?: Tooltip;
 }
 
 
@@ -0,0 +1,34 @@
+import path from 'path';
+
+import * as pkg from './package.json';
+
+const NODE_ENV = process.argv.mode || 'development';
+const VERSION = pkg.version;
+
+/**
+ * Builds the headless entry point that processes saved data without DOM, for example in Node.js
+ * Runs after the main build, so output directory is not emptied
+ */
+export default {
+  build: {
+    copyPublicDir: false,
+    emptyOutDir: false,
+    lib: {
+      entry: path.resolve(__dirname, 'src', 'headless.ts'),
+      name: 'EditorJSHeadless',
+      fileName: 'editorjs-headless',
+      formats: ['es', 'cjs'],
+    },
+  },
+
+  define: {
+    'NODE_ENV': JSON.stringify(NODE_ENV),
+    'VERSION': JSON.stringify(VERSION),
+  },
+
+  resolve: {
+    alias: {
+      '@/types': path.resolve(__dirname, './types'),
+    },
+  },
+};